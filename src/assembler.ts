@@ -1,19 +1,49 @@
 import { generateDescribe } from "./generators/describe-generator.js";
-import type { Dialect } from "./generators/dialect.js";
+import type { Dialect, DialectConfig } from "./generators/dialect.js";
 import { resolveDialect } from "./generators/dialect.js";
 import { generateIndex } from "./generators/index-generator.js";
+import { generateJsonTypes } from "./generators/json-types-generator.js";
+import type { MigrationSnapshot } from "./generators/migration-diff.js";
+import {
+  createSnapshot,
+  diffSnapshots,
+  renderDiffMigration,
+  SNAPSHOT_FILE,
+  SNAPSHOT_VERSION,
+} from "./generators/migration-diff.js";
+import { generateMigration } from "./generators/migration-generator.js";
 import { generateRelations } from "./generators/relations-generator.js";
+import { generateRepository } from "./generators/repository-generator.js";
 import { generateSchema } from "./generators/schema-generator.js";
-import { generateTypes } from "./generators/types-generator.js";
+import { generateServiceLayout } from "./generators/service-layout.js";
+import { generateTypes, usedTypeHelpers } from "./generators/types-generator.js";
+import { generateValidators } from "./generators/validators-generator.js";
+import { applyIdStrategy, usedIdStrategies } from "./ir/id-strategy.js";
+import { sizeMysqlKeyColumns } from "./ir/mysql-keys.js";
 import { buildRelationGraph } from "./ir/relation-graph.js";
-import type { EnumDef, TableDef } from "./ir/types.js";
+import { assignServiceSchemas } from "./ir/service-schemas.js";
+import type { EnumDef, IdStrategy, JsonTypeDef, TableDef } from "./ir/types.js";
+
+/** "single": one schema/relations/describe file; "service": one module per service */
+export type OutputLayout = "single" | "service";
 
 export interface EmitterConfig {
   packageName: string;
   packageVersion: string;
   dialect: Dialect;
   pluralize: boolean;
+  layout?: OutputLayout;
   schemaOnly?: boolean;
+  migrations?: boolean;
+  validators?: boolean;
+  /** Emit repository.ts; ignored with `schemaOnly`, which has no `DrizzleClient` */
+  repository?: boolean;
+  /** Place each table in a Postgres schema named after its service (pg only) */
+  pgSchemas?: boolean;
+  /** Generator for ids without an explicit `@id` (see `applyIdStrategy`); base36 when unset */
+  idStrategy?: IdStrategy;
+  /** Snapshot written by the previous run; migrations after the first are diffed against it */
+  previousSnapshot?: MigrationSnapshot;
 }
 
 /**
@@ -21,33 +51,132 @@ export interface EmitterConfig {
  *
  * Returns a Map<filename, content> for all 7 output files:
  *   package.json, tsconfig.json, types.ts, schema.ts, relations.ts, describe.ts, index.ts
+ *
+ * With `validators` set, `validators.ts` (Zod schemas per table) is added and
+ * re-exported from the barrel; `repository` does the same for `repository.ts`. With `migrations` set, the migration for this run
+ * and `migrations/snapshot.json` are added as well (see `assembleMigrations`).
+ * `pgSchemas` moves each table into its service's schema before generating, and
+ * `idStrategy` picks the generator of ids without an `@id`. For MySQL, `text`
+ * key columns become `varchar` (see `sizeMysqlKeyColumns`). The generated
+ * package only depends on short-uuid when base36 ids remain.
+ * With the "service" `layout`, schema.ts, relations.ts and describe.ts become
+ * barrels over per-service modules (see `generateServiceLayout`).
+ * `jsonTypes` (from `buildIR`) are declared in `json-types.ts`, which types the
+ * JSON columns that store them.
  */
 export function assemblePackage(
-  tables: TableDef[],
-  enums: EnumDef[],
+  irTables: TableDef[],
+  irEnums: EnumDef[],
   config: EmitterConfig,
+  jsonTypes: JsonTypeDef[] = [],
 ): Map<string, string> {
-  const graph = buildRelationGraph(tables, config.pluralize);
   const dialect = resolveDialect(config.dialect);
+  const withIds = config.idStrategy ? applyIdStrategy(irTables, config.idStrategy) : irTables;
+  const sized = dialect.dialect === "mysql" ? sizeMysqlKeyColumns(withIds) : withIds;
+  const { tables, enums } =
+    config.pgSchemas && dialect.schemaFn
+      ? assignServiceSchemas(sized, irEnums)
+      : { tables: sized, enums: irEnums };
+  const graph = buildRelationGraph(tables, config.pluralize);
   const schemaOnly = config.schemaOnly ?? false;
+  const layout = config.layout ?? "single";
+  const idStrategies = usedIdStrategies(tables);
 
   const files = new Map([
-    ["package.json", generatePackageJson(config)],
-    ["tsconfig.json", generateTsConfig()],
-    ["types.ts", generateTypes(dialect, schemaOnly)],
-    ["schema.ts", generateSchema(tables, enums, dialect, config.pluralize)],
-    ["index.ts", generateIndex(schemaOnly)],
+    ["package.json", generatePackageJson(config, idStrategies)],
+    ["tsconfig.json", generateTsConfig(layout)],
+    [
+      "types.ts",
+      generateTypes(dialect, schemaOnly, idStrategies, usedTypeHelpers(tables, dialect)),
+    ],
+    [
+      "index.ts",
+      generateIndex({
+        schemaOnly,
+        validators: config.validators,
+        repository: config.repository,
+        jsonTypes: jsonTypes.length > 0,
+      }),
+    ],
   ]);
 
+  if (jsonTypes.length > 0) {
+    files.set("json-types.ts", generateJsonTypes(jsonTypes));
+  }
+
+  if (layout === "service") {
+    const modules = generateServiceLayout(
+      tables,
+      enums,
+      graph,
+      dialect,
+      config.pluralize,
+      schemaOnly,
+    );
+    for (const [filename, content] of modules) {
+      files.set(filename, content);
+    }
+  } else {
+    files.set("schema.ts", generateSchema(tables, enums, dialect, config.pluralize));
+    if (!schemaOnly) {
+      files.set("relations.ts", generateRelations(tables, graph, config.pluralize));
+      files.set("describe.ts", generateDescribe(tables, graph, config.pluralize));
+    }
+  }
+
   if (!schemaOnly) {
-    files.set("relations.ts", generateRelations(tables, graph, config.pluralize));
-    files.set("describe.ts", generateDescribe(tables, graph, config.pluralize));
+    if (config.repository) {
+      files.set("repository.ts", generateRepository(tables, config.pluralize, config.dialect));
+    }
+  }
+
+  if (config.validators) {
+    files.set("validators.ts", generateValidators(tables));
+  }
+
+  if (config.migrations) {
+    assembleMigrations(files, tables, enums, dialect, config.previousSnapshot);
   }
 
   return files;
 }
 
-function generatePackageJson(config: EmitterConfig): string {
+/**
+ * Without a usable previous snapshot (none, another format version, or another
+ * dialect) the full DDL becomes `migrations/0000_init.sql`. Otherwise the IR is
+ * diffed against the snapshot and any change becomes the next numbered migration.
+ * The snapshot is always rewritten to describe the current IR.
+ */
+function assembleMigrations(
+  files: Map<string, string>,
+  tables: TableDef[],
+  enums: EnumDef[],
+  dialect: DialectConfig,
+  previous: MigrationSnapshot | undefined,
+): void {
+  const usable =
+    previous?.version === SNAPSHOT_VERSION && previous.dialect === dialect.dialect
+      ? previous
+      : undefined;
+  const migrations = usable ? [...usable.migrations] : [];
+
+  if (!usable) {
+    migrations.push("0000_init");
+    files.set("migrations/0000_init.sql", generateMigration(tables, enums, dialect));
+  } else {
+    const diff = diffSnapshots(usable, tables, enums, dialect);
+    if (diff.statements.length > 0 || diff.warnings.length > 0) {
+      const tag = `${String(migrations.length).padStart(4, "0")}_update`;
+      migrations.push(tag);
+      files.set(`migrations/${tag}.sql`, renderDiffMigration(diff));
+    }
+  }
+
+  const snapshot = createSnapshot(tables, enums, dialect.dialect, migrations);
+  files.set(SNAPSHOT_FILE, `${JSON.stringify(snapshot, null, 2)}\n`);
+}
+
+function generatePackageJson(config: EmitterConfig, idStrategies: Set<IdStrategy>): string {
   const pkg = {
     name: config.packageName,
     version: config.packageVersion,
@@ -66,7 +195,8 @@ function generatePackageJson(config: EmitterConfig): string {
       prepare: "tsc",
     },
     dependencies: {
-      "short-uuid": "^5.2.0",
+      ...(idStrategies.has("base36") ? { "short-uuid": "^5.2.0" } : {}),
+      ...(config.validators ? { zod: "^3.23.0" } : {}),
     },
     peerDependencies: {
       "drizzle-orm": config.schemaOnly ? ">=0.30.0" : ">=1.0.0-beta.1",
@@ -77,7 +207,7 @@ function generatePackageJson(config: EmitterConfig): string {
   return `${JSON.stringify(pkg, null, 2)}\n`;
 }
 
-function generateTsConfig(): string {
+function generateTsConfig(layout: OutputLayout): string {
   const tsconfig = {
     compilerOptions: {
       target: "ESNext",
@@ -86,7 +216,8 @@ function generateTsConfig(): string {
       skipLibCheck: true,
       outDir: "dist",
     },
-    include: ["*.ts"],
+    include:
+      layout === "service" ? ["*.ts", "schema/*.ts", "relations/*.ts", "describe/*.ts"] : ["*.ts"],
   };
 
   return `${JSON.stringify(tsconfig, null, 2)}\n`;
@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, describe, it } from "node:test";
+import Database from "better-sqlite3";
+import { type CliIO, main } from "./cli.ts";
+
+const dir = mkdtempSync(join(tmpdir(), "introspect-"));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+async function run(argv: string[]): Promise<{ code: number; stdout: string; stderr: string }> {
+  let stdout = "";
+  let stderr = "";
+  const io: CliIO = {
+    stdout: (text) => {
+      stdout += text;
+    },
+    stderr: (text) => {
+      stderr += text;
+    },
+  };
+  const code = await main(argv, io);
+  return { code, stdout, stderr };
+}
+
+describe("typespec-drizzle-introspect", () => {
+  it("prints TypeSpec for a pg_dump file", async () => {
+    const file = join(dir, "inventory.sql");
+    writeFileSync(
+      file,
+      "CREATE TABLE public.items (id integer NOT NULL, price money);\nALTER TABLE ONLY public.items ADD CONSTRAINT items_pkey PRIMARY KEY (id);\n",
+    );
+
+    const { code, stdout, stderr } = await run([file]);
+    assert.equal(code, 0);
+    assert.ok(stdout.includes("namespace Inventory;"));
+    assert.ok(stdout.includes('@table("Item", "inventory")\n@primaryKey("items")\nmodel Item {'));
+    assert.equal(stderr, "warning: items.price: money is mapped to string\n");
+  });
+
+  it("reads a SQLite database", async () => {
+    const file = join(dir, "app.db");
+    const db = new Database(file);
+    db.exec("CREATE TABLE users (user_id INTEGER PRIMARY KEY, email TEXT NOT NULL UNIQUE)");
+    db.close();
+
+    const { code, stdout } = await run([file, "--service", "accounts", "--namespace", "Acme.Auth"]);
+    assert.equal(code, 0);
+    assert.ok(stdout.includes("namespace Acme.Auth;"));
+    assert.ok(stdout.includes('@table("User", "accounts")'));
+    assert.ok(stdout.includes("  @unique\n  email: string;"));
+  });
+
+  it("reports usage and read errors", async () => {
+    assert.ok((await run(["--help"])).stdout.startsWith("Usage: typespec-drizzle-introspect"));
+    assert.equal((await run([])).code, 2);
+    assert.equal((await run(["--bogus"])).code, 2);
+    assert.equal((await run(["x.sql", "--dialect", "mssql"])).code, 2);
+
+    const missing = await run([join(dir, "missing.db")]);
+    assert.equal(missing.code, 1);
+    assert.ok(missing.stderr.startsWith("Cannot read "));
+  });
+});
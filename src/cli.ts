@@ -0,0 +1,108 @@
+#!/usr/bin/env node
+import { readFileSync, realpathSync } from "node:fs";
+import { basename, extname } from "node:path";
+import { fileURLToPath } from "node:url";
+import { parseArgs } from "node:util";
+import { toPascalCase } from "./generators/naming.js";
+import { generateTypeSpec } from "./generators/typespec-generator.js";
+import { parseDdl } from "./ir/ddl-parser.js";
+import { buildIntrospectedIR, readSqliteDdl } from "./ir/introspect-builder.js";
+
+const USAGE = `Usage: typespec-drizzle-introspect <database.sqlite | schema.sql> [options]
+
+Reads a SQLite database or a \`pg_dump --schema-only\` file and prints
+TypeSpec models in the @table vocabulary.
+
+Options:
+  --service <name>    @table service for the models (default: the file name)
+  --namespace <name>  TypeSpec namespace (default: the service in PascalCase)
+  --dialect <name>    pg or sqlite (default: pg for .sql files, sqlite otherwise)
+  -h, --help          Show this help
+`;
+
+export interface CliIO {
+  stdout(text: string): void;
+  stderr(text: string): void;
+}
+
+const processIO: CliIO = {
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+};
+
+/**
+ * Entry point of `typespec-drizzle-introspect`. Prints the TypeSpec to stdout
+ * and one line per approximation to stderr; returns the exit code.
+ */
+export async function main(argv: string[], io: CliIO = processIO): Promise<number> {
+  let parsed: ReturnType<typeof parseCliArgs>;
+  try {
+    parsed = parseCliArgs(argv);
+  } catch (error) {
+    io.stderr(`${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help) {
+    io.stdout(USAGE);
+    return 0;
+  }
+  if (positionals.length !== 1) {
+    io.stderr(USAGE);
+    return 2;
+  }
+
+  const file = positionals[0];
+  const dialect = values.dialect ?? (extname(file) === ".sql" ? "pg" : "sqlite");
+  if (dialect !== "pg" && dialect !== "sqlite") {
+    io.stderr(`Unknown dialect "${dialect}"; expected pg or sqlite\n`);
+    return 2;
+  }
+
+  const service = values.service ?? basename(file, extname(file)).replace(/\W+/g, "_");
+  const namespace = values.namespace ?? toPascalCase(service);
+
+  let ddl: string;
+  try {
+    ddl = dialect === "pg" ? readFileSync(file, "utf8") : await readSqliteFile(file);
+  } catch (error) {
+    io.stderr(`Cannot read ${file}: ${(error as Error).message}\n`);
+    return 1;
+  }
+
+  const { tables, enums, warnings } = buildIntrospectedIR(parseDdl(ddl), { dialect, service });
+  for (const warning of warnings) {
+    io.stderr(`warning: ${warning}\n`);
+  }
+  io.stdout(generateTypeSpec(tables, enums, { namespace }));
+  return 0;
+}
+
+function parseCliArgs(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      service: { type: "string" },
+      namespace: { type: "string" },
+      dialect: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+}
+
+/** better-sqlite3 is an optional peer dependency, loaded only for SQLite input */
+async function readSqliteFile(file: string): Promise<string> {
+  const { default: Database } = await import("better-sqlite3");
+  const db = new Database(file, { readonly: true, fileMustExist: true });
+  try {
+    return readSqliteDdl(db);
+  } finally {
+    db.close();
+  }
+}
+
+if (process.argv[1] && realpathSync(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  process.exitCode = await main(process.argv.slice(2));
+}
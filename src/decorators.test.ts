@@ -7,6 +7,7 @@ import {
   $compositeUnique,
   $createdAt,
   $foreignKeyDef,
+  $identity,
   $indexDef,
   $junction,
   $maxValue,
@@ -14,6 +15,8 @@ import {
   $pk,
   $primaryKey,
   $references,
+  $relation,
+  $searchable,
   $table,
   $unique,
   $updatedAt,
@@ -127,17 +130,31 @@ describe("decorator functions", () => {
     assert.equal(stored.onDelete, undefined);
   });
 
-  it("$references records onDelete policy when supplied", () => {
+  it("$references records onDelete and onUpdate policies when supplied", () => {
     const program = createMockProgram();
     const ctx = createMockContext(program);
     const sourceProp = mockProp("authorId");
     const targetProp = mockPropWithModel("authorId", {});
 
-    $references(ctx, sourceProp, targetProp, "CASCADE");
+    $references(ctx, sourceProp, targetProp, "CASCADE", "SET NULL");
 
     const stored = program.stateMap(StateKeys.references).get(sourceProp);
     assert.equal(stored.ref, targetProp);
     assert.equal(stored.onDelete, "CASCADE");
+    assert.equal(stored.onUpdate, "SET NULL");
+  });
+
+  it("$relation stores the relation and inverse names", () => {
+    const program = createMockProgram();
+    const ctx = createMockContext(program);
+    const prop = mockProp("createdById");
+
+    $relation(ctx, prop, "createdBy", "createdPosts");
+
+    assert.deepEqual(program.stateMap(StateKeys.relation).get(prop), {
+      name: "createdBy",
+      inverseName: "createdPosts",
+    });
   });
 
   // ===========================================
@@ -184,6 +201,32 @@ describe("decorator functions", () => {
   // @createdAt
   // ===========================================
 
+  it("$identity stores the generation, defaulting to always", () => {
+    const program = createMockProgram();
+    const ctx = createMockContext(program);
+    const orderId = mockProp("orderId");
+    const eventId = mockProp("eventId");
+
+    $identity(ctx, orderId);
+    $identity(ctx, eventId, "byDefault");
+
+    assert.equal(program.stateMap(StateKeys.identity).get(orderId), "always");
+    assert.equal(program.stateMap(StateKeys.identity).get(eventId), "byDefault");
+  });
+
+  it("$searchable stores the weight, defaulting to A", () => {
+    const program = createMockProgram();
+    const ctx = createMockContext(program);
+    const title = mockProp("title");
+    const summary = mockProp("summary");
+
+    $searchable(ctx, title);
+    $searchable(ctx, summary, "C");
+
+    assert.equal(program.stateMap(StateKeys.searchable).get(title), "A");
+    assert.equal(program.stateMap(StateKeys.searchable).get(summary), "C");
+  });
+
   it("$createdAt adds property to createdAt state set", () => {
     const program = createMockProgram();
     const ctx = createMockContext(program);
@@ -338,6 +381,21 @@ describe("decorator functions", () => {
     assert.equal(stored[0].unique, true);
   });
 
+  it("$indexDef stores its options", () => {
+    const program = createMockProgram();
+    const ctx = createMockContext(program);
+    const model = mockModel("Book");
+    const col = mockProp("title");
+    const options = { where: "deleted_at IS NULL", order: { title: { direction: "desc" } } };
+
+    $indexDef(ctx, model, "books_title_idx", [col], false, options);
+
+    const stored = program.stateMap(StateKeys.indexDef).get(model) as Array<{
+      options?: unknown;
+    }>;
+    assert.deepEqual(stored[0].options, options);
+  });
+
   it("$indexDef accumulates multiple indexes on same model", () => {
     const program = createMockProgram();
     const ctx = createMockContext(program);
@@ -375,17 +433,22 @@ describe("decorator functions", () => {
       "fk_order_product",
       [localCol1, localCol2],
       [foreignCol1, foreignCol2],
+      "CASCADE",
     );
 
     const stored = program.stateMap(StateKeys.foreignKeyDef).get(model) as Array<{
       name: string;
       columns: ModelProperty[];
       foreignColumns: ModelProperty[];
+      onDelete?: string;
+      onUpdate?: string;
     }>;
     assert.equal(stored.length, 1);
     assert.equal(stored[0].name, "fk_order_product");
     assert.deepEqual(stored[0].columns, [localCol1, localCol2]);
     assert.deepEqual(stored[0].foreignColumns, [foreignCol1, foreignCol2]);
+    assert.equal(stored[0].onDelete, "CASCADE");
+    assert.equal(stored[0].onUpdate, undefined);
   });
 
   // ===========================================
@@ -22,9 +22,19 @@ export function $references(
   context: DecoratorContext,
   target: ModelProperty,
   ref: ModelProperty,
-  onDelete?: "CASCADE" | "RESTRICT",
+  onDelete?: string,
+  onUpdate?: string,
 ): void {
-  context.program.stateMap(StateKeys.references).set(target, { ref, onDelete });
+  context.program.stateMap(StateKeys.references).set(target, { ref, onDelete, onUpdate });
+}
+
+export function $relation(
+  context: DecoratorContext,
+  target: ModelProperty,
+  name: string,
+  inverseName?: string,
+): void {
+  context.program.stateMap(StateKeys.relation).set(target, { name, inverseName });
 }
 
 export function $junction(context: DecoratorContext, target: Model): void {
@@ -43,6 +53,68 @@ export function $uuid(
   });
 }
 
+export function $id(context: DecoratorContext, target: ModelProperty, strategy: string): void {
+  context.program.stateMap(StateKeys.id).set(target, strategy);
+}
+
+export function $identity(
+  context: DecoratorContext,
+  target: ModelProperty,
+  generation?: string,
+): void {
+  context.program.stateMap(StateKeys.identity).set(target, generation ?? "always");
+}
+
+export function $precision(
+  context: DecoratorContext,
+  target: ModelProperty,
+  precision: number,
+  scale?: number,
+  mode?: string,
+): void {
+  context.program.stateMap(StateKeys.precision).set(target, {
+    precision,
+    scale,
+    mode: mode ?? "string",
+  });
+}
+
+export function $vector(
+  context: DecoratorContext,
+  target: ModelProperty,
+  dimensions: number,
+  distance?: string,
+): void {
+  context.program.stateMap(StateKeys.vector).set(target, {
+    dimensions,
+    distance: distance ?? "cosine",
+  });
+}
+
+export function $vectorIndex(
+  context: DecoratorContext,
+  target: Model,
+  name: string,
+  column: ModelProperty,
+  method?: string,
+): void {
+  const existing = (context.program.stateMap(StateKeys.vectorIndex).get(target) ?? []) as Array<{
+    name: string;
+    column: ModelProperty;
+    method: string;
+  }>;
+  existing.push({ name, column, method: method ?? "hnsw" });
+  context.program.stateMap(StateKeys.vectorIndex).set(target, existing);
+}
+
+export function $searchable(
+  context: DecoratorContext,
+  target: ModelProperty,
+  weight?: string,
+): void {
+  context.program.stateMap(StateKeys.searchable).set(target, weight ?? "A");
+}
+
 export function $createdAt(context: DecoratorContext, target: ModelProperty): void {
   context.program.stateSet(StateKeys.createdAt).add(target);
 }
@@ -74,19 +146,29 @@ export function $check(context: DecoratorContext, target: ModelProperty, express
   context.program.stateMap(StateKeys.check).set(target, expression);
 }
 
+interface IndexOptions {
+  where?: string;
+  method?: string;
+  order?: Record<string, { direction?: string; nulls?: string }>;
+  expressions?: string[];
+  include?: string[];
+}
+
 export function $indexDef(
   context: DecoratorContext,
   target: Model,
   name: string,
   columns: ModelProperty[],
   unique?: boolean,
+  options?: IndexOptions,
 ): void {
   const existing = (context.program.stateMap(StateKeys.indexDef).get(target) ?? []) as Array<{
     name: string;
     columns: ModelProperty[];
     unique: boolean;
+    options?: IndexOptions;
   }>;
-  existing.push({ name, columns, unique: unique ?? false });
+  existing.push({ name, columns, unique: unique ?? false, options });
   context.program.stateMap(StateKeys.indexDef).set(target, existing);
 }
 
@@ -96,13 +178,17 @@ export function $foreignKeyDef(
   name: string,
   columns: ModelProperty[],
   foreignColumns: ModelProperty[],
+  onDelete?: string,
+  onUpdate?: string,
 ): void {
   const existing = (context.program.stateMap(StateKeys.foreignKeyDef).get(target) ?? []) as Array<{
     name: string;
     columns: ModelProperty[];
     foreignColumns: ModelProperty[];
+    onDelete?: string;
+    onUpdate?: string;
   }>;
-  existing.push({ name, columns, foreignColumns });
+  existing.push({ name, columns, foreignColumns, onDelete, onUpdate });
   context.program.stateMap(StateKeys.foreignKeyDef).set(target, existing);
 }
 
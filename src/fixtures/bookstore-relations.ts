@@ -16,6 +16,7 @@ export const relations = defineRelations(schema, (r) => ({
     author: r.one.authors({
       from: r.books.authorId,
       to: r.authors.authorId,
+      optional: false,
     }),
     editions: r.many.editions(),
     bookTags: r.many.bookTags(),
@@ -43,10 +44,12 @@ export const relations = defineRelations(schema, (r) => ({
     book: r.one.books({
       from: r.bookGenres.bookId,
       to: r.books.bookId,
+      optional: false,
     }),
     genre: r.one.genres({
       from: r.bookGenres.genreId,
       to: r.genres.genreId,
+      optional: false,
     }),
   },
 
@@ -57,6 +60,7 @@ export const relations = defineRelations(schema, (r) => ({
     book: r.one.books({
       from: r.bookTags.bookId,
       to: r.books.bookId,
+      optional: false,
     }),
   },
 
@@ -81,6 +85,7 @@ export const relations = defineRelations(schema, (r) => ({
     book: r.one.books({
       from: r.editions.bookId,
       to: r.books.bookId,
+      optional: false,
     }),
     translator: r.one.translators({
       from: r.editions.translatorId,
@@ -89,6 +94,7 @@ export const relations = defineRelations(schema, (r) => ({
     publisher: r.one.publishers({
       from: r.editions.publisherId,
       to: r.publishers.publisherId,
+      optional: false,
     }),
   },
 
@@ -99,6 +105,7 @@ export const relations = defineRelations(schema, (r) => ({
     book: r.one.books({
       from: r.reviews.bookId,
       to: r.books.bookId,
+      optional: false,
     }),
   },
 }));
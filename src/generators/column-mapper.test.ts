@@ -497,4 +497,193 @@ describe("column mapper (sqlite)", () => {
       'base36Uuid("author_id").primaryKey().$defaultFn(() => generateBase36Id())',
     );
   });
+
+  it("maps a canonical uuid field to text with a hyphenated default", () => {
+    const field = makeField({
+      name: "authorId",
+      columnName: "author_id",
+      type: { kind: "uuid", encoding: "canonical" },
+      uuid: { encoding: "canonical", autoGenerate: true },
+    });
+    const table = makeTable(["authorId"]);
+    assert.equal(
+      mapFieldToColumn(field, table, sqlite),
+      'text("author_id").primaryKey().$defaultFn(() => generateUuid())',
+    );
+  });
+
+  it("uses the @id strategy's generator", () => {
+    const field = makeField({
+      name: "eventId",
+      columnName: "event_id",
+      type: { kind: "text" },
+      autoGenerateId: true,
+      idStrategy: "nanoid",
+    });
+    const table = makeTable(["eventId"]);
+    assert.equal(
+      mapFieldToColumn(field, table, sqlite),
+      'text("event_id").primaryKey().$defaultFn(() => generateNanoid())',
+    );
+  });
+
+  it("generates v7 UUIDs in the column's encoding", () => {
+    const field = makeField({
+      name: "authorId",
+      columnName: "author_id",
+      type: { kind: "uuid", encoding: "raw" },
+      uuid: { encoding: "raw", autoGenerate: true },
+      idStrategy: "uuidv7",
+    });
+    const table = makeTable(["authorId"]);
+    assert.equal(
+      mapFieldToColumn(field, table, sqlite),
+      'rawUuid("author_id").primaryKey().$defaultFn(() => generateRawUuidV7())',
+    );
+  });
+
+  it("maps decimals to numeric with precision, scale and mode", () => {
+    const field = makeField({
+      name: "amount",
+      columnName: "amount",
+      type: { kind: "decimal", precision: 12, scale: 2, mode: "number" },
+    });
+    const table = makeTable(["id"]);
+    assert.equal(
+      mapFieldToColumn(field, table, pg),
+      'numeric("amount", { precision: 12, scale: 2, mode: "number" }).notNull()',
+    );
+    assert.equal(
+      mapFieldToColumn(field, table, sqlite),
+      'numeric("amount", { mode: "number" }).notNull()',
+    );
+  });
+
+  it("writes string-mode decimal defaults as strings", () => {
+    const field = makeField({
+      name: "amount",
+      columnName: "amount",
+      type: { kind: "decimal", precision: 12, scale: 2, mode: "string" },
+      defaultValue: 0,
+    });
+    assert.equal(
+      mapFieldToColumn(field, makeTable(["id"]), pg),
+      'numeric("amount", { precision: 12, scale: 2 }).notNull().default("0")',
+    );
+  });
+
+  it("maps date, time, interval and local timestamp columns", () => {
+    const table = makeTable(["id"]);
+    const column = (kind: "date" | "time" | "interval" | "localTimestamp", dialect = pg) =>
+      mapFieldToColumn(makeField({ name: "at", columnName: "at", type: { kind } }), table, dialect);
+    assert.equal(column("date"), 'date("at").notNull()');
+    assert.equal(column("time"), 'time("at").notNull()');
+    assert.equal(column("interval"), 'interval("at").notNull()');
+    assert.equal(column("localTimestamp"), 'timestamp("at").notNull()');
+    assert.equal(column("date", sqlite), 'text("at").notNull()');
+    assert.equal(
+      column("localTimestamp", sqlite),
+      'integer("at", { mode: "timestamp" }).notNull()',
+    );
+  });
+
+  it("wraps nullable date columns so NULL reads as undefined", () => {
+    const field = makeField({
+      name: "at",
+      columnName: "at",
+      type: { kind: "date" },
+      nullable: true,
+    });
+    assert.equal(mapFieldToColumn(field, makeTable(["id"]), pg), 'nullableDate("at")');
+    assert.equal(mapFieldToColumn(field, makeTable(["id"]), sqlite), 'nullableText("at")');
+  });
+
+  it("maps bytes to bytea on pg and buffer blobs on sqlite", () => {
+    const column = (nullable: boolean, dialect = pg) =>
+      mapFieldToColumn(
+        makeField({ name: "sig", columnName: "sig", type: { kind: "bytes" }, nullable }),
+        makeTable(["id"]),
+        dialect,
+      );
+    assert.equal(column(false), 'bytea("sig").notNull()');
+    assert.equal(column(true), 'nullableBytea("sig")');
+    assert.equal(column(false, sqlite), 'blob("sig", { mode: "buffer" }).notNull()');
+    assert.equal(column(true, sqlite), 'nullableBlob("sig")');
+  });
+
+  it("maps arrays to native arrays on pg and JSON text elsewhere", () => {
+    const tags = makeField({
+      name: "tags",
+      columnName: "tags",
+      type: { kind: "array", element: { kind: "text" } },
+      nullable: true,
+    });
+    const table = makeTable(["id"]);
+    assert.equal(mapFieldToColumn(tags, table, pg), 'text("tags").array()');
+    assert.equal(
+      mapFieldToColumn(tags, table, sqlite),
+      'text("tags", { mode: "json" }).$type<string[]>()',
+    );
+    assert.equal(
+      mapFieldToColumn(tags, table, resolveDialect("mysql")),
+      'json("tags").$type<string[]>()',
+    );
+  });
+
+  it("maps enum arrays to pgEnum arrays and typed JSON", () => {
+    const moods = makeField({
+      name: "moods",
+      columnName: "moods",
+      type: {
+        kind: "array",
+        element: { kind: "enum", enumName: "moodEnum", values: ["happy", "sad"] },
+      },
+    });
+    const table = makeTable(["id"]);
+    assert.equal(mapFieldToColumn(moods, table, pg), 'moodEnum("moods").array().notNull()');
+    assert.equal(
+      mapFieldToColumn(moods, table, sqlite),
+      'text("moods", { mode: "json" }).$type<("happy" | "sad")[]>().notNull()',
+    );
+  });
+
+  it("maps a raw uuid field to rawUuid", () => {
+    const field = makeField({
+      name: "authorId",
+      columnName: "author_id",
+      type: { kind: "uuid", encoding: "raw" },
+      uuid: { encoding: "raw", autoGenerate: true },
+    });
+    const table = makeTable(["authorId"]);
+    assert.equal(
+      mapFieldToColumn(field, table, sqlite),
+      'rawUuid("author_id").primaryKey().$defaultFn(() => generateRawUuid())',
+    );
+  });
+
+  it("numbers @identity keys with each dialect's identity column", () => {
+    const field = makeField({
+      name: "eventId",
+      columnName: "event_id",
+      type: { kind: "integer" },
+      identity: "always",
+    });
+    const table = makeTable(["eventId"]);
+    assert.equal(
+      mapFieldToColumn(field, table, pg),
+      'integer("event_id").primaryKey().generatedAlwaysAsIdentity()',
+    );
+    assert.equal(
+      mapFieldToColumn({ ...field, identity: "byDefault" }, table, pg),
+      'integer("event_id").primaryKey().generatedByDefaultAsIdentity()',
+    );
+    assert.equal(
+      mapFieldToColumn({ ...field, type: { kind: "bigint" } }, table, sqlite),
+      'integer("event_id", { mode: "number" }).primaryKey({ autoIncrement: true })',
+    );
+    assert.equal(
+      mapFieldToColumn(field, table, resolveDialect("mysql")),
+      'int("event_id").primaryKey().autoincrement()',
+    );
+  });
 });
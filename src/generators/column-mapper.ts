@@ -1,5 +1,5 @@
 import { type ChainMethod, chainCall, objectLiteral, quoted } from "../codegen/index.js";
-import type { FieldDef, TableDef } from "../ir/types.js";
+import type { FieldDef, FieldType, IdStrategy, TableDef } from "../ir/types.js";
 import type { DialectConfig } from "./dialect.js";
 import { toTableVariableName } from "./naming.js";
 
@@ -12,11 +12,12 @@ export function mapFieldToColumn(
   const calls: ChainMethod[] = [];
 
   if (isPrimaryKey(field, table)) {
-    calls.push({ method: "primaryKey" });
+    if (field.identity) calls.push(...dialect.mapIdentityPrimaryKey(field.identity));
+    else calls.push({ method: "primaryKey" });
   }
 
   if (field.uuid?.autoGenerate || field.autoGenerateId) {
-    calls.push({ method: "$defaultFn", args: ["() => generateBase36Id()"] });
+    calls.push({ method: "$defaultFn", args: [`() => ${idGenerator(field)}()`] });
   }
 
   if (!field.nullable && !isPrimaryKey(field, table)) {
@@ -26,12 +27,13 @@ export function mapFieldToColumn(
   if (field.references) {
     const targetVar = toTableVariableName(field.references.tableName, shouldPluralize);
     const targetField = field.references.fieldName;
-    const refArgs = [`() => ${targetVar}.${targetField}`];
-    if (field.references.onDelete) {
-      refArgs.push(
-        objectLiteral([["onDelete", quoted(field.references.onDelete)]], { concise: true }),
-      );
-    }
+    // A table referencing itself needs the annotation, or TS infers its type from itself
+    const returnType = isSelfReference(field, table) ? `: ${dialect.anyColumnType}` : "";
+    const refArgs = [`()${returnType} => ${targetVar}.${targetField}`];
+    const actions: [string, string][] = [];
+    if (field.references.onDelete) actions.push(["onDelete", quoted(field.references.onDelete)]);
+    if (field.references.onUpdate) actions.push(["onUpdate", quoted(field.references.onUpdate)]);
+    if (actions.length > 0) refArgs.push(objectLiteral(actions, { concise: true }));
     calls.push({ method: "references", args: refArgs });
   }
 
@@ -44,20 +46,50 @@ export function mapFieldToColumn(
   }
 
   if (field.defaultValue !== undefined && !field.createdAt && !field.updatedAt) {
-    calls.push({ method: "default", args: [mapDefault(field.defaultValue)] });
+    calls.push({ method: "default", args: [mapDefault(field.defaultValue, field.type)] });
   }
 
   const base = field.nullable ? dialect.mapNullableFieldType(field) : dialect.mapFieldType(field);
   return chainCall(base, calls);
 }
 
+const ID_GENERATORS: Record<IdStrategy, string> = {
+  base36: "generateBase36Id",
+  ulid: "generateUlid",
+  uuidv7: "generateUuidV7",
+  nanoid: "generateNanoid",
+  cuid2: "generateCuid2",
+};
+
+/**
+ * The types.ts function that generates the field's id: one per `@id` strategy,
+ * or for UUID columns a random or v7 UUID in the column's encoding.
+ */
+export function idGenerator(field: FieldDef): string {
+  if (!field.uuid) return ID_GENERATORS[field.idStrategy ?? "base36"];
+  const v7 = field.idStrategy === "uuidv7";
+  switch (field.uuid.encoding) {
+    case "canonical":
+      return v7 ? "generateUuidV7" : "generateUuid";
+    case "raw":
+      return v7 ? "generateRawUuidV7" : "generateRawUuid";
+    case "base36":
+      return v7 ? "generateBase36UuidV7" : "generateBase36Id";
+  }
+}
+
+export function isSelfReference(field: FieldDef, table: TableDef): boolean {
+  return field.references?.tableName === table.name;
+}
+
 function isPrimaryKey(field: FieldDef, table: TableDef): boolean {
   return !table.primaryKey.isComposite && table.primaryKey.columns.includes(field.name);
 }
 
-function mapDefault(value: unknown): string {
-  if (typeof value === "string") {
-    return quoted(value);
+function mapDefault(value: unknown, type: FieldType): string {
+  // Decimal columns in string mode take their default as a string too
+  if (typeof value === "string" || (type.kind === "decimal" && type.mode === "string")) {
+    return quoted(String(value));
   }
   return String(value);
 }
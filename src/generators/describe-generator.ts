@@ -1,17 +1,22 @@
-import { importDecl, objectLiteral } from "../codegen/index.js";
+import { importDecl, objectLiteral, quoted } from "../codegen/index.js";
 import type { Relation, RelationGraph } from "../ir/relation-graph.js";
 import type { TableDef } from "../ir/types.js";
 import { toTableVariableName } from "./naming.js";
 
+/**
+ * Generates `describe.ts`. `rootPath` is the import path of the package root,
+ * `".."` for the `describe/<service>.ts` modules of the per-service layout.
+ */
 export function generateDescribe(
   tables: TableDef[],
   graph: RelationGraph,
   shouldPluralize = true,
+  rootPath = ".",
 ): string {
   const lines: string[] = [];
 
-  lines.push(importDecl(["DrizzleClient"], "./types.js", { type: true }));
-  lines.push(importDecl([], "./schema.js", { namespace: "schema" }));
+  lines.push(importDecl(["DrizzleClient"], `${rootPath}/types.js`, { type: true }));
+  lines.push(importDecl([], `${rootPath}/schema.js`, { namespace: "schema" }));
 
   for (const table of tables) {
     if (table.isJunction) continue;
@@ -38,13 +43,17 @@ function generateDescribeBlock(
     : [table.primaryKey.columns[0]];
   const funcName = `describe${table.name}`;
   const typeName = `${table.name}Description`;
-  const whereClause = `{ ${pkFields.join(", ")} }`;
+  // `eq` accepts every column type; the shorthand `{ key }` rejects object-typed
+  // keys such as raw UUIDs
+  const whereClause = `{ ${pkFields.map((pk) => `${pk}: { eq: ${pk} }`).join(", ")} }`;
 
   lines.push(...generateDescriptionType(table, relations, typeName, tableVar, shouldPluralize));
 
   lines.push(`export const ${funcName} = (`, `  db: DrizzleClient,`);
+  // Key parameters take the column's select type, so custom columns (raw
+  // UUIDs, numeric keys) stay in step with the schema
   for (const pkField of pkFields) {
-    lines.push(`  ${pkField}: string,`);
+    lines.push(`  ${pkField}: typeof schema.${tableVar}.$inferSelect[${quoted(pkField)}],`);
   }
   lines.push(`): Promise<${typeName} | undefined> =>`);
 
@@ -87,6 +96,10 @@ function generateDescriptionType(
   return lines;
 }
 
+/**
+ * A `one` relation is nullable when optional, which includes the reverse side of
+ * a one-to-one key; `many` relations are arrays.
+ */
 function getRelationTypeExpression(rel: Relation, shouldPluralize: boolean): string {
   switch (rel.kind) {
     case "one": {
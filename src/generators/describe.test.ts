@@ -44,10 +44,10 @@ describe("describe generator", () => {
   it("generates describeAuthor function", () => {
     assert.ok(output.includes("export const describeAuthor = ("));
     assert.ok(output.includes("  db: DrizzleClient,"));
-    assert.ok(output.includes("  authorId: string,"));
+    assert.ok(output.includes('  authorId: typeof schema.authors.$inferSelect["authorId"],'));
     assert.ok(output.includes("): Promise<AuthorDescription | undefined> =>"));
     assert.ok(output.includes("  db.query.authors.findFirst({"));
-    assert.ok(output.includes("    where: { authorId },"));
+    assert.ok(output.includes("    where: { authorId: { eq: authorId } },"));
     assert.ok(output.includes("books: true"));
   });
 
@@ -68,10 +68,10 @@ describe("describe generator", () => {
 
   it("generates describeBook function with v2 where syntax", () => {
     assert.ok(output.includes("export const describeBook = ("));
-    assert.ok(output.includes("  bookId: string,"));
+    assert.ok(output.includes('  bookId: typeof schema.books.$inferSelect["bookId"],'));
     assert.ok(output.includes("): Promise<BookDescription | undefined> =>"));
     assert.ok(output.includes("  db.query.books.findFirst({"));
-    assert.ok(output.includes("    where: { bookId },"));
+    assert.ok(output.includes("    where: { bookId: { eq: bookId } },"));
     assert.ok(output.includes("author: true"));
     assert.ok(output.includes("editions: true"));
     assert.ok(output.includes("genres: true"));
@@ -92,10 +92,10 @@ describe("describe generator", () => {
 
   it("generates describeGenre function", () => {
     assert.ok(output.includes("export const describeGenre = ("));
-    assert.ok(output.includes("  genreId: string,"));
+    assert.ok(output.includes('  genreId: typeof schema.genres.$inferSelect["genreId"],'));
     assert.ok(output.includes("): Promise<GenreDescription | undefined> =>"));
     assert.ok(output.includes("  db.query.genres.findFirst({"));
-    assert.ok(output.includes("    where: { genreId },"));
+    assert.ok(output.includes("    where: { genreId: { eq: genreId } },"));
   });
 
   // ===========================================
@@ -111,7 +111,7 @@ describe("describe generator", () => {
 
   it("generates describeBookTag function", () => {
     assert.ok(output.includes("export const describeBookTag = ("));
-    assert.ok(output.includes("  bookTagId: string,"));
+    assert.ok(output.includes('  bookTagId: typeof schema.bookTags.$inferSelect["bookTagId"],'));
     assert.ok(output.includes("): Promise<BookTagDescription | undefined> =>"));
   });
 
@@ -130,7 +130,9 @@ describe("describe generator", () => {
 
   it("generates describeTranslator function", () => {
     assert.ok(output.includes("export const describeTranslator = ("));
-    assert.ok(output.includes("  translatorId: string,"));
+    assert.ok(
+      output.includes('  translatorId: typeof schema.translators.$inferSelect["translatorId"],'),
+    );
   });
 
   // ===========================================
@@ -148,7 +150,9 @@ describe("describe generator", () => {
 
   it("generates describePublisher function", () => {
     assert.ok(output.includes("export const describePublisher = ("));
-    assert.ok(output.includes("  publisherId: string,"));
+    assert.ok(
+      output.includes('  publisherId: typeof schema.publishers.$inferSelect["publisherId"],'),
+    );
   });
 
   // ===========================================
@@ -166,7 +170,7 @@ describe("describe generator", () => {
 
   it("generates describeEdition function", () => {
     assert.ok(output.includes("export const describeEdition = ("));
-    assert.ok(output.includes("  editionId: string,"));
+    assert.ok(output.includes('  editionId: typeof schema.editions.$inferSelect["editionId"],'));
     assert.ok(output.includes("): Promise<EditionDescription | undefined> =>"));
     assert.ok(output.includes("book: true"));
     assert.ok(output.includes("translator: true"));
@@ -186,7 +190,7 @@ describe("describe generator", () => {
 
   it("generates describeReview function", () => {
     assert.ok(output.includes("export const describeReview = ("));
-    assert.ok(output.includes("  reviewId: string,"));
+    assert.ok(output.includes('  reviewId: typeof schema.reviews.$inferSelect["reviewId"],'));
     assert.ok(output.includes("): Promise<ReviewDescription | undefined> =>"));
   });
 
@@ -304,14 +308,72 @@ describe("describe generator: tables without relations", () => {
   it("emits a findFirst with no `with` clause when a table has no relations", () => {
     assert.ok(out.includes("export const describeSetting = ("));
     assert.ok(out.includes("  db.query.settings.findFirst({"));
-    assert.ok(out.includes("    where: { settingId },"));
+    assert.ok(out.includes("    where: { settingId: { eq: settingId } },"));
     assert.ok(!out.includes("with:"));
   });
 
   it("uses every composite primary-key column in the where clause and signature", () => {
     assert.ok(out.includes("export const describeMailboxLock = ("));
-    assert.ok(out.includes("  mailboxId: string,"));
-    assert.ok(out.includes("  eventName: string,"));
-    assert.ok(out.includes("    where: { mailboxId, eventName },"));
+    assert.ok(out.includes('  mailboxId: typeof schema.mailboxLocks.$inferSelect["mailboxId"],'));
+    assert.ok(out.includes('  eventName: typeof schema.mailboxLocks.$inferSelect["eventName"],'));
+    assert.ok(
+      out.includes("    where: { mailboxId: { eq: mailboxId }, eventName: { eq: eventName } },"),
+    );
+  });
+
+  it("takes key parameters from the table's select type", () => {
+    const counter: TableDef = {
+      ...standalone,
+      fields: [{ ...standalone.fields[0], type: { kind: "integer" }, identity: "always" }],
+    };
+    const numeric = generateDescribe([counter], buildRelationGraph([counter]));
+    assert.ok(
+      numeric.includes(
+        '  db: DrizzleClient,\n  settingId: typeof schema.settings.$inferSelect["settingId"],\n',
+      ),
+    );
+  });
+
+  it("traverses relations derived from a composite foreign key", () => {
+    const delivery: TableDef = {
+      ...standalone,
+      name: "Delivery",
+      tableName: "deliveries",
+      primaryKey: { tableName: "deliveries", columns: ["deliveryId"], isComposite: false },
+      fields: [
+        { ...standalone.fields[0], name: "deliveryId", columnName: "delivery_id" },
+        ...composite.fields,
+      ],
+      foreignKeys: [
+        {
+          name: "fk_delivery_lock",
+          columns: ["mailboxId", "eventName"],
+          foreignTable: "MailboxLock",
+          foreignColumns: ["mailboxId", "eventName"],
+        },
+      ],
+    };
+    const tables = [composite, delivery];
+    const linked = generateDescribe(tables, buildRelationGraph(tables));
+    assert.ok(linked.includes("  mailboxLock: typeof schema.mailboxLocks.$inferSelect;"));
+    assert.ok(linked.includes("mailboxLock: true"));
+    assert.ok(linked.includes("  deliveries: (typeof schema.deliveries.$inferSelect)[];"));
+    assert.ok(linked.includes("deliveries: true"));
+  });
+
+  it("types the reverse of a one-to-one key as a nullable single row", () => {
+    const profile: TableDef = {
+      ...standalone,
+      name: "Profile",
+      tableName: "profiles",
+      primaryKey: { tableName: "profiles", columns: ["settingId"], isComposite: false },
+      fields: [
+        { ...standalone.fields[0], references: { tableName: "Setting", fieldName: "settingId" } },
+      ],
+    };
+    const tables = [standalone, profile];
+    const linked = generateDescribe(tables, buildRelationGraph(tables));
+    assert.ok(linked.includes("  profile: typeof schema.profiles.$inferSelect | null;"));
+    assert.ok(!linked.includes("profiles: (typeof"));
   });
 });
@@ -1,8 +1,18 @@
 import type { ChainMethod } from "../codegen/index.js";
 import { arrayLiteral, fnCall, objectLiteral, quoted } from "../codegen/index.js";
-import type { FieldDef, FieldType } from "../ir/types.js";
+import type {
+  ArrayElementType,
+  FieldDef,
+  FieldType,
+  IdentityGeneration,
+  IndexColumnOrder,
+  IndexDef,
+  JsonType,
+  UuidEncoding,
+} from "../ir/types.js";
+import { renderJsonType } from "./json-types-generator.js";
 
-export type Dialect = "pg" | "sqlite";
+export type Dialect = "pg" | "sqlite" | "mysql";
 
 export interface NullableWrapperDef {
   name: string;
@@ -16,13 +26,21 @@ export interface DialectConfig {
   dialect: Dialect;
   coreModule: string;
   tableFn: string;
+  /** Column type annotating a self-referencing `.references()` callback */
+  anyColumnType: string;
   enumFn: string | null;
+  /** Declares a named schema whose `.table()`/`.enum()` replace `tableFn`/`enumFn` */
+  schemaFn: string | null;
   uuidDataType: string;
+  /** Column type of `@uuid("raw")`: the 16 bytes of the UUID */
+  rawUuidDataType: string;
   nullableWrappers: readonly NullableWrapperDef[];
   mapFieldType(field: FieldDef): string;
   mapNullableFieldType(field: FieldDef): string;
   nullableWrapperName(kind: FieldType["kind"]): string | null;
   mapTimestampDefault(): ChainMethod;
+  /** Replaces `.primaryKey()` on an `@identity` column */
+  mapIdentityPrimaryKey(generation: IdentityGeneration): ChainMethod[];
 }
 
 export function resolveDialect(dialect: Dialect): DialectConfig {
@@ -31,6 +49,8 @@ export function resolveDialect(dialect: Dialect): DialectConfig {
       return pgDialect();
     case "sqlite":
       return sqliteDialect();
+    case "mysql":
+      return mysqlDialect();
   }
 }
 
@@ -48,6 +68,11 @@ const pgNullableWrappers: readonly NullableWrapperDef[] = [
   { name: "nullableDoublePrecision", dataType: "double precision", jsType: "number" },
   { name: "nullableBoolean", dataType: "boolean", jsType: "boolean" },
   { name: "nullableTimestamp", dataType: "timestamp with time zone", jsType: "Date" },
+  { name: "nullableLocalTimestamp", dataType: "timestamp", jsType: "Date" },
+  { name: "nullableDate", dataType: "date", jsType: "string" },
+  { name: "nullableTime", dataType: "time", jsType: "string" },
+  { name: "nullableInterval", dataType: "interval", jsType: "string" },
+  { name: "nullableBytea", dataType: "bytea", jsType: "Uint8Array" },
 ];
 
 const pgNullableWrapperMap = new Map<string, string>([
@@ -58,8 +83,112 @@ const pgNullableWrapperMap = new Map<string, string>([
   ["doublePrecision", "nullableDoublePrecision"],
   ["boolean", "nullableBoolean"],
   ["timestamp", "nullableTimestamp"],
+  ["localTimestamp", "nullableLocalTimestamp"],
+  ["date", "nullableDate"],
+  ["time", "nullableTime"],
+  ["interval", "nullableInterval"],
+  ["bytes", "nullableBytea"],
 ]);
 
+/** The pgvector operator class matching the distance the vector column is searched by */
+export function vectorOperatorClass(field: FieldDef | undefined): string {
+  return field?.type.kind === "vector" && field.type.distance === "l2"
+    ? "vector_l2_ops"
+    : "vector_cosine_ops";
+}
+
+/**
+ * `index` without the `@indexDef` options the dialect cannot express, with a
+ * label for each one dropped. Postgres keeps everything; SQLite and MySQL have
+ * no index methods, covering columns or nulls ordering, and MySQL no partial
+ * indexes either.
+ */
+export function indexForDialect(
+  index: IndexDef,
+  dialect: Dialect,
+): { index: IndexDef; dropped: string[] } {
+  if (dialect === "pg") return { index, dropped: [] };
+  const { method, include, order, where, ...rest } = index;
+  const supported: IndexDef = rest;
+  const dropped: string[] = [];
+  if (method) dropped.push(`method "${method}"`);
+  if (include) dropped.push("include columns");
+  if (order) {
+    const directions: Record<string, IndexColumnOrder> = {};
+    for (const [column, { direction, nulls }] of Object.entries(order)) {
+      if (nulls && !dropped.includes("nulls ordering")) dropped.push("nulls ordering");
+      if (direction) directions[column] = { direction };
+    }
+    if (Object.keys(directions).length > 0) supported.order = directions;
+  }
+  if (where) {
+    if (dialect === "sqlite") supported.where = where;
+    else dropped.push("a where predicate");
+  }
+  return { index: supported, dropped };
+}
+
+/**
+ * `base36` and `raw` UUIDs use the custom types from types.ts; `canonical` is
+ * the dialect's plain column (`canonicalColumn`) holding the hyphenated form.
+ */
+function uuidColumn(col: string, encoding: UuidEncoding, canonicalColumn: string): string {
+  switch (encoding) {
+    case "canonical":
+      return canonicalColumn;
+    case "raw":
+      return fnCall("rawUuid", [col]);
+    case "base36":
+      return fnCall("base36Uuid", [col]);
+  }
+}
+
+/**
+ * Drizzle options of a decimal column; `withDigits` is false for SQLite, whose
+ * `numeric` affinity has no precision. Drizzle reads strings by default.
+ */
+function decimalConfig(type: Extract<FieldType, { kind: "decimal" }>, withDigits: boolean) {
+  const entries: Array<[string, string]> = [];
+  if (withDigits && type.precision !== undefined) {
+    entries.push(["precision", String(type.precision)]);
+    if (type.scale !== undefined) entries.push(["scale", String(type.scale)]);
+  }
+  if (type.mode === "number") entries.push(["mode", quoted("number")]);
+  return entries.length > 0 ? [objectLiteral(entries, { concise: true })] : [];
+}
+
+/** A JSON column typed with its TypeSpec declaration (see json-types.ts) */
+function typedJson(column: string, shape: JsonType | undefined): string {
+  return shape ? `${column}.$type<${renderJsonType(shape)}>()` : column;
+}
+
+/**
+ * JSON column holding an array, for dialects without array types. Elements are
+ * typed as they round-trip through JSON, so dates and timestamps read as strings.
+ */
+function jsonArrayColumn(column: string, element: ArrayElementType): string {
+  return `${column}.$type<${jsonElementType(element)}[]>()`;
+}
+
+function jsonElementType(element: ArrayElementType): string {
+  switch (element.kind) {
+    case "integer":
+    case "bigint":
+    case "real":
+    case "doublePrecision":
+      return "number";
+    case "decimal":
+      return element.mode === "number" ? "number" : "string";
+    case "boolean":
+      return "boolean";
+    case "enum":
+    case "textEnum":
+      return `(${element.values.map((v) => quoted(v)).join(" | ")})`;
+    default:
+      return "string";
+  }
+}
+
 function textEnumColumn(col: string, values: string[]): string {
   const union = values.map((v) => quoted(v)).join(" | ");
   return `${fnCall("text", [col])}.$type<${union}>()`;
@@ -70,10 +199,20 @@ function pgDialect(): DialectConfig {
     dialect: "pg",
     coreModule: "drizzle-orm/pg-core",
     tableFn: "pgTable",
+    anyColumnType: "AnyPgColumn",
     enumFn: "pgEnum",
+    schemaFn: "pgSchema",
     uuidDataType: "uuid",
+    rawUuidDataType: "bytea",
     nullableWrappers: pgNullableWrappers,
     mapTimestampDefault: () => ({ method: "defaultNow" }),
+    mapIdentityPrimaryKey: (generation) => [
+      { method: "primaryKey" },
+      {
+        method:
+          generation === "always" ? "generatedAlwaysAsIdentity" : "generatedByDefaultAsIdentity",
+      },
+    ],
     nullableWrapperName(kind: FieldType["kind"]): string | null {
       return pgNullableWrapperMap.get(kind) ?? null;
     },
@@ -105,6 +244,8 @@ function pgDialect(): DialectConfig {
           return fnCall("real", [col]);
         case "doublePrecision":
           return fnCall("doublePrecision", [col]);
+        case "decimal":
+          return fnCall("numeric", [col, ...decimalConfig(field.type, true)]);
         case "boolean":
           return fnCall("boolean", [col]);
         case "timestamp":
@@ -112,10 +253,27 @@ function pgDialect(): DialectConfig {
             col,
             objectLiteral([["withTimezone", "true"]], { concise: true }),
           ]);
+        case "localTimestamp":
+          return fnCall("timestamp", [col]);
+        case "date":
+          return fnCall("date", [col]);
+        case "time":
+          return fnCall("time", [col]);
+        case "interval":
+          return fnCall("interval", [col]);
+        case "bytes":
+          return fnCall("bytea", [col]);
+        case "vector":
+          return fnCall("vector", [
+            col,
+            objectLiteral([["dimensions", String(field.type.dimensions)]], { concise: true }),
+          ]);
         case "jsonb":
-          return fnCall("jsonb", [col]);
+          return typedJson(fnCall("jsonb", [col]), field.type.shape);
+        case "array":
+          return `${this.mapFieldType({ ...field, type: field.type.element })}.array()`;
         case "uuid":
-          return fnCall("base36Uuid", [col]);
+          return uuidColumn(col, field.type.encoding, fnCall("uuid", [col]));
         case "enum":
           return fnCall(field.type.enumName, [col]);
         case "textEnum":
@@ -129,6 +287,7 @@ const sqliteNullableWrappers: readonly NullableWrapperDef[] = [
   { name: "nullableText", dataType: "text", jsType: "string" },
   { name: "nullableInteger", dataType: "integer", jsType: "number" },
   { name: "nullableReal", dataType: "real", jsType: "number" },
+  { name: "nullableBlob", dataType: "blob", jsType: "Uint8Array" },
 ];
 
 const sqliteNullableWrapperMap = new Map<string, string>([
@@ -137,6 +296,10 @@ const sqliteNullableWrapperMap = new Map<string, string>([
   ["integer", "nullableInteger"],
   ["real", "nullableReal"],
   ["doublePrecision", "nullableReal"],
+  ["date", "nullableText"],
+  ["time", "nullableText"],
+  ["interval", "nullableText"],
+  ["bytes", "nullableBlob"],
 ]);
 
 function sqliteDialect(): DialectConfig {
@@ -144,10 +307,20 @@ function sqliteDialect(): DialectConfig {
     dialect: "sqlite",
     coreModule: "drizzle-orm/sqlite-core",
     tableFn: "sqliteTable",
+    anyColumnType: "AnySQLiteColumn",
     enumFn: null,
+    schemaFn: null,
     uuidDataType: "text",
+    rawUuidDataType: "blob",
     nullableWrappers: sqliteNullableWrappers,
     mapTimestampDefault: () => ({ method: "$defaultFn", args: ["() => new Date()"] }),
+    // SQLite has no identity columns; AUTOINCREMENT never reuses the ids of deleted rows
+    mapIdentityPrimaryKey: () => [
+      {
+        method: "primaryKey",
+        args: [objectLiteral([["autoIncrement", "true"]], { concise: true })],
+      },
+    ],
     nullableWrapperName(kind: FieldType["kind"]): string | null {
       return sqliteNullableWrapperMap.get(kind) ?? null;
     },
@@ -179,23 +352,42 @@ function sqliteDialect(): DialectConfig {
           return fnCall("real", [col]);
         case "doublePrecision":
           return fnCall("real", [col]);
+        case "decimal":
+          return fnCall("numeric", [col, ...decimalConfig(field.type, false)]);
         case "boolean":
           return fnCall("integer", [
             col,
             objectLiteral([["mode", quoted("boolean")]], { concise: true }),
           ]);
         case "timestamp":
+        case "localTimestamp":
           return fnCall("integer", [
             col,
             objectLiteral([["mode", quoted("timestamp")]], { concise: true }),
           ]);
-        case "jsonb":
-          return fnCall("text", [
+        case "date":
+        case "time":
+        case "interval":
+          return fnCall("text", [col]);
+        case "bytes":
+          return fnCall("blob", [
             col,
-            objectLiteral([["mode", quoted("json")]], { concise: true }),
+            objectLiteral([["mode", quoted("buffer")]], { concise: true }),
           ]);
+        case "jsonb":
+          return typedJson(
+            fnCall("text", [col, objectLiteral([["mode", quoted("json")]], { concise: true })]),
+            field.type.shape,
+          );
+        case "array":
+          return jsonArrayColumn(
+            fnCall("text", [col, objectLiteral([["mode", quoted("json")]], { concise: true })]),
+            field.type.element,
+          );
+        case "vector":
+          return `${fnCall("text", [col, objectLiteral([["mode", quoted("json")]], { concise: true })])}.$type<number[]>()`;
         case "uuid":
-          return fnCall("base36Uuid", [col]);
+          return uuidColumn(col, field.type.encoding, fnCall("text", [col]));
         case "enum":
           return fnCall("text", [
             col,
@@ -209,3 +401,137 @@ function sqliteDialect(): DialectConfig {
     },
   };
 }
+
+const mysqlNullableWrappers: readonly NullableWrapperDef[] = [
+  { name: "nullableText", dataType: "text", jsType: "string" },
+  { name: "nullableInt", dataType: "int", jsType: "number" },
+  { name: "nullableFloat", dataType: "float", jsType: "number" },
+  {
+    name: "nullableBigint",
+    dataType: "bigint",
+    jsType: "number",
+    driverType: "number | string",
+    fromDriver: "(v) => (v == null ? undefined : Number(v))",
+  },
+  { name: "nullableDouble", dataType: "double", jsType: "number" },
+  {
+    name: "nullableBoolean",
+    dataType: "boolean",
+    jsType: "boolean",
+    driverType: "boolean | number",
+    fromDriver: "(v) => (v == null ? undefined : Boolean(v))",
+  },
+  { name: "nullableDatetime", dataType: "datetime(3)", jsType: "Date" },
+  { name: "nullableBlob", dataType: "longblob", jsType: "Uint8Array" },
+];
+
+const mysqlNullableWrapperMap = new Map<string, string>([
+  ["text", "nullableText"],
+  ["integer", "nullableInt"],
+  ["real", "nullableFloat"],
+  ["bigint", "nullableBigint"],
+  ["doublePrecision", "nullableDouble"],
+  ["boolean", "nullableBoolean"],
+  ["timestamp", "nullableDatetime"],
+  ["localTimestamp", "nullableDatetime"],
+  ["interval", "nullableText"],
+  ["bytes", "nullableBlob"],
+]);
+
+const mysqlFsp = objectLiteral([["fsp", "3"]], { concise: true });
+
+/**
+ * MySQL has no enum types, so native enums become an inline `mysqlEnum` per
+ * column. Timestamps are `datetime(3)` (no 2038 limit, no session time zone
+ * conversion); `@createdAt`/`@updatedAt` use `timestamp(3)` so `DEFAULT
+ * CURRENT_TIMESTAMP` works on every MySQL version. Base36 and canonical UUIDs
+ * are `char(36)`, raw ones `binary(16)`. MySQL has no interval, array or
+ * vector types, so durations are stored as text and arrays and vectors as
+ * JSON. Bytes are `longblob`, as a `blob` holds at most 64 KiB.
+ */
+function mysqlDialect(): DialectConfig {
+  return {
+    dialect: "mysql",
+    coreModule: "drizzle-orm/mysql-core",
+    tableFn: "mysqlTable",
+    anyColumnType: "AnyMySqlColumn",
+    enumFn: null,
+    schemaFn: null,
+    uuidDataType: "char(36)",
+    rawUuidDataType: "binary(16)",
+    nullableWrappers: mysqlNullableWrappers,
+    mapTimestampDefault: () => ({ method: "defaultNow" }),
+    mapIdentityPrimaryKey: () => [{ method: "primaryKey" }, { method: "autoincrement" }],
+    nullableWrapperName(kind: FieldType["kind"]): string | null {
+      return mysqlNullableWrapperMap.get(kind) ?? null;
+    },
+    mapNullableFieldType(field: FieldDef): string {
+      const wrapperName = this.nullableWrapperName(field.type.kind);
+      if (wrapperName) {
+        return fnCall(wrapperName, [quoted(field.columnName)]);
+      }
+      return this.mapFieldType(field);
+    },
+    mapFieldType(field: FieldDef): string {
+      const col = quoted(field.columnName);
+      switch (field.type.kind) {
+        case "text":
+          return fnCall("text", [col]);
+        case "varchar":
+          return fnCall("varchar", [
+            col,
+            objectLiteral([["length", String(field.type.length)]], { concise: true }),
+          ]);
+        case "integer":
+          return fnCall("int", [col]);
+        case "bigint":
+          return fnCall("bigint", [
+            col,
+            objectLiteral([["mode", quoted("number")]], { concise: true }),
+          ]);
+        case "real":
+          return fnCall("float", [col]);
+        case "doublePrecision":
+          return fnCall("double", [col]);
+        case "decimal":
+          return fnCall("decimal", [col, ...decimalConfig(field.type, true)]);
+        case "boolean":
+          return fnCall("boolean", [col]);
+        case "timestamp":
+          return fnCall(field.createdAt || field.updatedAt ? "timestamp" : "datetime", [
+            col,
+            mysqlFsp,
+          ]);
+        case "localTimestamp":
+          return fnCall("datetime", [col, mysqlFsp]);
+        case "date":
+          return fnCall("date", [
+            col,
+            objectLiteral([["mode", quoted("string")]], { concise: true }),
+          ]);
+        case "time":
+          return fnCall("time", [col]);
+        case "interval":
+          return fnCall("text", [col]);
+        case "bytes":
+          return fnCall("longblob", [col]);
+        case "jsonb":
+          return typedJson(fnCall("json", [col]), field.type.shape);
+        case "array":
+          return jsonArrayColumn(fnCall("json", [col]), field.type.element);
+        case "vector":
+          return `${fnCall("json", [col])}.$type<number[]>()`;
+        case "uuid":
+          return uuidColumn(
+            col,
+            field.type.encoding,
+            fnCall("char", [col, objectLiteral([["length", "36"]], { concise: true })]),
+          );
+        case "enum":
+          return fnCall("mysqlEnum", [col, arrayLiteral(field.type.values.map((v) => quoted(v)))]);
+        case "textEnum":
+          return textEnumColumn(col, field.type.values);
+      }
+    },
+  };
+}
@@ -1,14 +1,36 @@
 import { quoted } from "../codegen/index.js";
 
-export function generateIndex(schemaOnly = false): string {
+export interface IndexOptions {
+  /** Leave out relations.ts / describe.ts (see the `schema-only` emitter option) */
+  schemaOnly?: boolean;
+  /** Re-export the Zod schemas from validators.ts */
+  validators?: boolean;
+  /** Re-export the CRUD functions from repository.ts (never with schemaOnly) */
+  repository?: boolean;
+  /** Re-export the JSON column types from json-types.ts */
+  jsonTypes?: boolean;
+}
+
+export function generateIndex(options: IndexOptions = {}): string {
   const lines: string[] = [
     `export * from ${quoted("./types.js")};`,
     `export * from ${quoted("./schema.js")};`,
   ];
 
-  if (!schemaOnly) {
+  if (options.jsonTypes) {
+    lines.push(`export type * from ${quoted("./json-types.js")};`);
+  }
+
+  if (!options.schemaOnly) {
     lines.push(`export { relations } from ${quoted("./relations.js")};`);
     lines.push(`export * from ${quoted("./describe.js")};`);
+    if (options.repository) {
+      lines.push(`export * from ${quoted("./repository.js")};`);
+    }
+  }
+
+  if (options.validators) {
+    lines.push(`export * from ${quoted("./validators.js")};`);
   }
 
   lines.push("");
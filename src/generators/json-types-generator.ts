@@ -0,0 +1,70 @@
+import { quoted } from "../codegen/index.js";
+import type { JsonPropertyDef, JsonType, JsonTypeDef } from "../ir/types.js";
+
+/**
+ * Generates `json-types.ts`: a TypeScript declaration for every TypeSpec model
+ * and union stored in a JSON column. Objects become interfaces, everything else
+ * a type alias; the schema types each JSON column with `.$type<...>()`.
+ */
+export function generateJsonTypes(defs: JsonTypeDef[]): string {
+  const blocks = defs.map((def) =>
+    def.type.kind === "object"
+      ? `export interface ${def.name} ${objectBody(def.type.properties, "")}`
+      : `export type ${def.name} = ${renderJsonType(def.type)};`,
+  );
+  return `${blocks.join("\n\n")}\n`;
+}
+
+/** The type as a TypeScript type expression; `indent` is that of the line it starts on */
+export function renderJsonType(type: JsonType, indent = ""): string {
+  switch (type.kind) {
+    case "string":
+    case "number":
+    case "boolean":
+    case "null":
+    case "unknown":
+      return type.kind;
+    case "literal":
+      return typeof type.value === "string" ? quoted(type.value) : String(type.value);
+    case "array": {
+      const element = renderJsonType(type.element, indent);
+      return type.element.kind === "union" ? `(${element})[]` : `${element}[]`;
+    }
+    case "record":
+      return `Record<string, ${renderJsonType(type.value, indent)}>`;
+    case "object":
+      return objectBody(type.properties, indent);
+    case "union":
+      return type.variants.map((v) => renderJsonType(v, indent)).join(" | ");
+    case "ref":
+      return type.name;
+  }
+}
+
+/** Names of the `json-types.ts` declarations the type refers to */
+export function jsonTypeRefs(type: JsonType): string[] {
+  switch (type.kind) {
+    case "array":
+      return jsonTypeRefs(type.element);
+    case "record":
+      return jsonTypeRefs(type.value);
+    case "object":
+      return type.properties.flatMap((p) => jsonTypeRefs(p.type));
+    case "union":
+      return type.variants.flatMap(jsonTypeRefs);
+    case "ref":
+      return [type.name];
+    default:
+      return [];
+  }
+}
+
+function objectBody(properties: JsonPropertyDef[], indent: string): string {
+  if (properties.length === 0) return "{}";
+  const lines = properties.map((p) => {
+    const name = /^[A-Za-z_$][\w$]*$/.test(p.name) ? p.name : quoted(p.name);
+    const type = renderJsonType(p.type, `${indent}  `);
+    return `${indent}  ${name}${p.optional ? "?" : ""}: ${type};`;
+  });
+  return `{\n${lines.join("\n")}\n${indent}}`;
+}
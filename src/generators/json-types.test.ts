@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { JsonTypeDef } from "../ir/types.ts";
+import { generateJsonTypes, jsonTypeRefs, renderJsonType } from "./json-types-generator.ts";
+
+const defs: JsonTypeDef[] = [
+  {
+    name: "Address",
+    type: {
+      kind: "object",
+      properties: [
+        { name: "street", type: { kind: "string" }, optional: false },
+        {
+          name: "geo",
+          type: {
+            kind: "object",
+            properties: [{ name: "lat", type: { kind: "number" }, optional: false }],
+          },
+          optional: true,
+        },
+        { name: "postal-code", type: { kind: "string" }, optional: true },
+        { name: "previous", type: { kind: "ref", name: "Address" }, optional: true },
+      ],
+    },
+  },
+  {
+    name: "Shape",
+    type: {
+      kind: "union",
+      variants: [
+        { kind: "ref", name: "Circle" },
+        { kind: "ref", name: "Square" },
+      ],
+    },
+  },
+];
+
+describe("json types generator", () => {
+  const output = generateJsonTypes(defs);
+
+  it("declares objects as interfaces with nested object literals", () => {
+    assert.ok(
+      output.startsWith(
+        [
+          "export interface Address {",
+          "  street: string;",
+          "  geo?: {",
+          "    lat: number;",
+          "  };",
+          '  "postal-code"?: string;',
+          "  previous?: Address;",
+          "}",
+        ].join("\n"),
+      ),
+    );
+  });
+
+  it("declares unions as type aliases", () => {
+    assert.ok(output.includes("\n\nexport type Shape = Circle | Square;\n"));
+  });
+
+  it("renders literals, records and arrays of unions", () => {
+    assert.equal(
+      renderJsonType({
+        kind: "record",
+        value: {
+          kind: "array",
+          element: {
+            kind: "union",
+            variants: [
+              { kind: "literal", value: "on" },
+              { kind: "literal", value: 1 },
+              { kind: "null" },
+            ],
+          },
+        },
+      }),
+      'Record<string, ("on" | 1 | null)[]>',
+    );
+  });
+
+  it("collects the declarations a type refers to", () => {
+    assert.deepEqual(
+      jsonTypeRefs({
+        kind: "array",
+        element: {
+          kind: "union",
+          variants: [
+            { kind: "ref", name: "Shape" },
+            { kind: "record", value: { kind: "ref", name: "Address" } },
+          ],
+        },
+      }),
+      ["Shape", "Address"],
+    );
+  });
+});
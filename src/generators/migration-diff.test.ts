@@ -0,0 +1,477 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { assemblePackage } from "../assembler.ts";
+import { bookstoreEnums, bookstoreTables } from "../fixtures/bookstore-ir.ts";
+import type { EnumDef, FieldDef, TableDef } from "../ir/types.ts";
+import { resolveDialect } from "./dialect.ts";
+import {
+  createSnapshot,
+  diffSnapshots,
+  type MigrationSnapshot,
+  renderDiffMigration,
+  SNAPSHOT_FILE,
+} from "./migration-diff.ts";
+
+const pg = resolveDialect("pg");
+const sqlite = resolveDialect("sqlite");
+
+function field(name: string, columnName: string, overrides: Partial<FieldDef> = {}): FieldDef {
+  return {
+    name,
+    columnName,
+    type: { kind: "text" },
+    nullable: false,
+    createdAt: false,
+    updatedAt: false,
+    ...overrides,
+  };
+}
+
+function table(name: string, tableName: string, fields: FieldDef[]): TableDef {
+  return {
+    name,
+    service: "shop",
+    tableName,
+    primaryKey: { tableName, columns: [fields[0].name], isComposite: false },
+    fields,
+    foreignKeys: [],
+    isJunction: false,
+    indexes: [],
+    uniqueConstraints: [],
+  };
+}
+
+const status: EnumDef = { name: "statusEnum", sqlName: "status", values: ["open", "closed"] };
+
+const customerV1 = table("Customer", "customers", [
+  field("customerId", "customer_id"),
+  field("name", "name"),
+  field("legacyCode", "legacy_code", { type: { kind: "integer" }, nullable: true }),
+]);
+
+const orderV1 = table("Order", "orders", [
+  field("orderId", "order_id"),
+  field("status", "status", {
+    type: { kind: "enum", enumName: "statusEnum", values: ["open", "closed"] },
+  }),
+]);
+
+const v1 = { tables: [customerV1, orderV1], enums: [status] };
+
+/** A table keyed by an integer `event_id`, numbered by the database when `identity` is set */
+function eventTable(identity?: FieldDef["identity"]): TableDef {
+  return table("Event", "events", [
+    field("eventId", "event_id", { type: { kind: "integer" }, identity }),
+  ]);
+}
+
+/** customerV1 with `name` searchable at the given weight */
+function searchableCustomer(weight: "A" | "B"): TableDef {
+  return {
+    ...customerV1,
+    fields: customerV1.fields.map((f) => (f.name === "name" ? { ...f, searchWeight: weight } : f)),
+  };
+}
+
+describe("migration diff (pg)", () => {
+  it("produces no changes for an identical IR", () => {
+    const diff = diffSnapshots(v1, [customerV1, orderV1], [status], pg);
+    assert.deepEqual(diff, { statements: [], warnings: [] });
+  });
+
+  it("adds new tables, columns, enum values and indexes", () => {
+    const customer: TableDef = {
+      ...customerV1,
+      fields: [
+        ...customerV1.fields,
+        field("email", "email", { nullable: true, constraints: { unique: true } }),
+      ],
+      indexes: [{ name: "idx_customers_name", columns: ["name"], unique: false }],
+    };
+    const invoice = table("Invoice", "invoices", [
+      field("invoiceId", "invoice_id"),
+      field("customerId", "customer_id", {
+        references: { tableName: "Customer", fieldName: "customerId" },
+      }),
+    ]);
+    const enums = [{ ...status, values: ["open", "closed", "void"] }];
+
+    const diff = diffSnapshots(v1, [customer, orderV1, invoice], enums, pg);
+
+    assert.deepEqual(diff.warnings, []);
+    assert.deepEqual(diff.statements, [
+      `ALTER TYPE "status" ADD VALUE 'void';`,
+      'CREATE TABLE "invoices" (\n\t"invoice_id" text PRIMARY KEY NOT NULL,\n\t"customer_id" text NOT NULL\n);',
+      'ALTER TABLE "customers" ADD COLUMN "email" text;',
+      'ALTER TABLE "customers" ADD CONSTRAINT "customers_email_unique" UNIQUE("email");',
+      'ALTER TABLE "invoices" ADD CONSTRAINT "invoices_customer_id_customers_customer_id_fk" FOREIGN KEY ("customer_id") REFERENCES "customers"("customer_id");',
+      'CREATE INDEX "idx_customers_name" ON "customers" ("name");',
+    ]);
+  });
+
+  it("enables pgvector before the first vector column and its index", () => {
+    const customer: TableDef = {
+      ...customerV1,
+      fields: [
+        ...customerV1.fields,
+        field("profile", "profile", {
+          type: { kind: "vector", dimensions: 8, distance: "l2" },
+          nullable: true,
+        }),
+      ],
+      indexes: [
+        { name: "customers_profile_idx", columns: ["profile"], unique: false, using: "ivfflat" },
+      ],
+    };
+
+    const diff = diffSnapshots(v1, [customer, orderV1], [status], pg);
+
+    assert.deepEqual(diff.statements, [
+      "CREATE EXTENSION IF NOT EXISTS vector;",
+      'ALTER TABLE "customers" ADD COLUMN "profile" vector(8);',
+      'CREATE INDEX "customers_profile_idx" ON "customers" USING ivfflat ("profile" vector_l2_ops);',
+    ]);
+    assert.deepEqual(
+      diffSnapshots({ ...v1, tables: [customer, orderV1] }, [customer, orderV1], [status], pg),
+      { statements: [], warnings: [] },
+    );
+  });
+
+  it("alters nullability and defaults in place", () => {
+    const customer: TableDef = {
+      ...customerV1,
+      fields: [
+        customerV1.fields[0],
+        field("name", "name", { nullable: true, defaultValue: "anonymous" }),
+        customerV1.fields[2],
+      ],
+    };
+    const diff = diffSnapshots(v1, [customer, orderV1], [status], pg);
+    assert.deepEqual(diff.statements, [
+      'ALTER TABLE "customers" ALTER COLUMN "name" DROP NOT NULL;',
+      `ALTER TABLE "customers" ALTER COLUMN "name" SET DEFAULT 'anonymous';`,
+    ]);
+  });
+
+  it("flags dropped tables, dropped columns and removed enum values instead of emitting them", () => {
+    const customer: TableDef = { ...customerV1, fields: customerV1.fields.slice(0, 2) };
+    const enums = [{ ...status, values: ["open"] }];
+    const diff = diffSnapshots(v1, [customer], enums, pg);
+
+    assert.deepEqual(diff.statements, []);
+    assert.equal(diff.warnings.length, 3);
+    assert.ok(diff.warnings.some((w) => w.includes(`enum "status" no longer has value 'closed'`)));
+    assert.ok(
+      diff.warnings.some((w) => w.includes(`column "customers"."legacy_code" was removed`)),
+    );
+    assert.ok(diff.warnings.some((w) => w.includes('table "orders" was removed')));
+    assert.ok(diff.warnings.every((w) => !w.startsWith("DROP")));
+  });
+
+  it("flags a same-typed drop + add as a probable rename and emits neither", () => {
+    const customer: TableDef = {
+      ...customerV1,
+      fields: [customerV1.fields[0], field("fullName", "full_name"), customerV1.fields[2]],
+    };
+    const diff = diffSnapshots(v1, [customer, orderV1], [status], pg);
+
+    assert.deepEqual(diff.statements, []);
+    assert.equal(diff.warnings.length, 1);
+    assert.ok(diff.warnings[0].includes('RENAME COLUMN "name" TO "full_name"'), diff.warnings[0]);
+  });
+
+  it("adds same-typed columns when more than one could be the rename", () => {
+    const customer: TableDef = {
+      ...customerV1,
+      fields: [
+        customerV1.fields[0],
+        field("fullName", "full_name", { nullable: true }),
+        field("nickname", "nickname", { nullable: true }),
+        customerV1.fields[2],
+      ],
+    };
+    const diff = diffSnapshots(v1, [customer, orderV1], [status], pg);
+
+    assert.deepEqual(diff.statements, [
+      'ALTER TABLE "customers" ADD COLUMN "full_name" text;',
+      'ALTER TABLE "customers" ADD COLUMN "nickname" text;',
+    ]);
+    assert.deepEqual(diff.warnings, [
+      `column "customers"."name" was removed; write DROP COLUMN by hand if the data can go`,
+    ]);
+  });
+
+  it("flags a NOT NULL column added without a default", () => {
+    const customer: TableDef = {
+      ...customerV1,
+      fields: [
+        ...customerV1.fields,
+        field("email", "email"),
+        field("tier", "tier", { defaultValue: "basic" }),
+      ],
+    };
+
+    const diff = diffSnapshots(v1, [customer, orderV1], [status], pg);
+    assert.deepEqual(diff.statements, [
+      'ALTER TABLE "customers" ADD COLUMN "email" text NOT NULL;',
+      `ALTER TABLE "customers" ADD COLUMN "tier" text DEFAULT 'basic' NOT NULL;`,
+    ]);
+    assert.deepEqual(diff.warnings, [
+      `column "customers"."email" was added as NOT NULL without a default; the ADD COLUMN fails on a table with rows, so give it a default or backfill it by hand`,
+    ]);
+
+    const sqliteDiff = diffSnapshots(v1, [customer, orderV1], [status], sqlite);
+    assert.deepEqual(sqliteDiff.statements, [
+      `ALTER TABLE "customers" ADD COLUMN "tier" text DEFAULT 'basic' NOT NULL;`,
+    ]);
+    assert.match(sqliteDiff.warnings[0], /"email" was added as NOT NULL .*table rebuild/);
+  });
+
+  it("flags type changes for a hand-written conversion", () => {
+    const customer: TableDef = {
+      ...customerV1,
+      fields: [
+        customerV1.fields[0],
+        customerV1.fields[1],
+        field("legacyCode", "legacy_code", { type: { kind: "bigint" }, nullable: true }),
+      ],
+    };
+    const diff = diffSnapshots(v1, [customer, orderV1], [status], pg);
+    assert.deepEqual(diff.statements, []);
+    assert.ok(diff.warnings[0].includes("changed type from integer to bigint"));
+  });
+
+  it("rebuilds an index whose columns changed", () => {
+    const prev = {
+      ...v1,
+      tables: [
+        {
+          ...customerV1,
+          indexes: [{ name: "idx_customers_name", columns: ["name"], unique: false }],
+        },
+        orderV1,
+      ],
+    };
+    const customer: TableDef = {
+      ...customerV1,
+      indexes: [{ name: "idx_customers_name", columns: ["name", "legacyCode"], unique: false }],
+    };
+    const diff = diffSnapshots(prev, [customer, orderV1], [status], pg);
+    assert.deepEqual(diff.statements, [
+      'DROP INDEX "idx_customers_name";',
+      'CREATE INDEX "idx_customers_name" ON "customers" ("name", "legacy_code");',
+    ]);
+  });
+
+  it("replaces a foreign key whose referential actions changed", () => {
+    const orderWith = (onUpdate?: "cascade") =>
+      table("Order", "orders", [
+        field("orderId", "order_id"),
+        field("customerId", "customer_id", {
+          references: { tableName: "Customer", fieldName: "customerId", onUpdate },
+        }),
+      ]);
+    const diff = diffSnapshots(
+      { tables: [customerV1, orderWith()], enums: [] },
+      [customerV1, orderWith("cascade")],
+      [],
+      pg,
+    );
+    assert.deepEqual(diff.statements, [
+      'ALTER TABLE "orders" DROP CONSTRAINT "orders_customer_id_customers_customer_id_fk";',
+      'ALTER TABLE "orders" ADD CONSTRAINT "orders_customer_id_customers_customer_id_fk" FOREIGN KEY ("customer_id") REFERENCES "customers"("customer_id") ON UPDATE cascade;',
+    ]);
+  });
+
+  it("adds, switches and drops identity generation", () => {
+    const diff = (from?: FieldDef["identity"], to?: FieldDef["identity"]) =>
+      diffSnapshots({ tables: [eventTable(from)], enums: [] }, [eventTable(to)], [], pg).statements;
+    assert.deepEqual(diff(undefined, "always"), [
+      'ALTER TABLE "events" ALTER COLUMN "event_id" ADD GENERATED ALWAYS AS IDENTITY;',
+    ]);
+    assert.deepEqual(diff("always", "byDefault"), [
+      'ALTER TABLE "events" ALTER COLUMN "event_id" SET GENERATED BY DEFAULT;',
+    ]);
+    assert.deepEqual(diff("byDefault", undefined), [
+      'ALTER TABLE "events" ALTER COLUMN "event_id" DROP IDENTITY;',
+    ]);
+  });
+
+  it("regenerates the search column when the searchable columns change", () => {
+    const added = diffSnapshots(v1, [searchableCustomer("A"), orderV1], [status], pg);
+    assert.deepEqual(added.statements, [
+      `ALTER TABLE "customers" ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (setweight(to_tsvector('english', coalesce("name", '')), 'A')) STORED;`,
+      'CREATE INDEX "customers_search_idx" ON "customers" USING gin ("search_vector");',
+    ]);
+
+    const prev = { ...v1, tables: [searchableCustomer("A"), orderV1] };
+    const reweighted = diffSnapshots(prev, [searchableCustomer("B"), orderV1], [status], pg);
+    assert.deepEqual(reweighted.statements, [
+      'ALTER TABLE "customers" DROP COLUMN "search_vector";',
+      `ALTER TABLE "customers" ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (setweight(to_tsvector('english', coalesce("name", '')), 'B')) STORED;`,
+      'CREATE INDEX "customers_search_idx" ON "customers" USING gin ("search_vector");',
+    ]);
+    assert.deepEqual(diffSnapshots(prev, [customerV1, orderV1], [status], pg).statements, [
+      'ALTER TABLE "customers" DROP COLUMN "search_vector";',
+    ]);
+  });
+});
+
+describe("migration diff (pg schemas)", () => {
+  it("creates new schemas and qualifies changes to tables in them", () => {
+    const prev = {
+      tables: [
+        {
+          ...customerV1,
+          schema: "crm",
+          indexes: [{ name: "idx_customers_name", columns: ["name"], unique: false }],
+        },
+      ],
+      enums: [],
+    };
+    const customer: TableDef = {
+      ...customerV1,
+      schema: "crm",
+      fields: [...customerV1.fields, field("email", "email", { nullable: true })],
+    };
+    const order: TableDef = { ...orderV1, schema: "sales" };
+    const diff = diffSnapshots(prev, [customer, order], [{ ...status, schema: "sales" }], pg);
+
+    assert.deepEqual(diff.warnings, []);
+    assert.deepEqual(diff.statements, [
+      'CREATE SCHEMA "sales";',
+      `CREATE TYPE "sales"."status" AS ENUM('open', 'closed');`,
+      'CREATE TABLE "sales"."orders" (\n\t"order_id" text PRIMARY KEY NOT NULL,\n\t"status" "sales"."status" NOT NULL\n);',
+      'ALTER TABLE "crm"."customers" ADD COLUMN "email" text;',
+      'DROP INDEX "crm"."idx_customers_name";',
+    ]);
+  });
+
+  it("treats a table moved to another schema as a new table", () => {
+    const diff = diffSnapshots(v1, [{ ...customerV1, schema: "crm" }, orderV1], [status], pg);
+    assert.equal(diff.statements[0], 'CREATE SCHEMA "crm";');
+    assert.ok(diff.statements[1].startsWith('CREATE TABLE "crm"."customers" ('));
+    assert.deepEqual(diff.warnings.length, 1);
+    assert.ok(diff.warnings[0].includes('table "customers" was removed'));
+  });
+});
+
+describe("migration diff (sqlite)", () => {
+  it("ignores enum types and flags changes SQLite cannot ALTER", () => {
+    const customer: TableDef = {
+      ...customerV1,
+      fields: [
+        customerV1.fields[0],
+        field("name", "name", { nullable: true, constraints: { unique: true } }),
+        customerV1.fields[2],
+      ],
+    };
+    const enums = [{ ...status, values: ["open", "closed", "void"] }];
+    const diff = diffSnapshots(v1, [customer, orderV1], enums, sqlite);
+
+    assert.deepEqual(diff.statements, []);
+    assert.ok(diff.warnings.some((w) => w.includes("changed nullability")));
+    assert.ok(diff.warnings.some((w) => w.includes('"customers_name_unique" was added')));
+  });
+
+  it("flags an autoincrement change for a table rebuild", () => {
+    const { statements, warnings } = diffSnapshots(
+      { tables: [eventTable()], enums: [] },
+      [eventTable("always")],
+      [],
+      sqlite,
+    );
+    assert.deepEqual(statements, []);
+    assert.deepEqual(warnings, [
+      'column "events"."event_id" changed autoincrement; SQLite requires a table rebuild',
+    ]);
+  });
+
+  it("recreates and rebuilds the FTS5 table when the searchable columns change", () => {
+    const prev = { ...v1, tables: [searchableCustomer("A"), orderV1] };
+    const { statements } = diffSnapshots(
+      prev,
+      [searchableCustomer("B"), orderV1],
+      [status],
+      sqlite,
+    );
+    assert.deepEqual(statements.slice(0, 4), [
+      'DROP TRIGGER "customers_fts_insert";',
+      'DROP TRIGGER "customers_fts_delete";',
+      'DROP TRIGGER "customers_fts_update";',
+      'DROP TABLE "customers_fts";',
+    ]);
+    assert.ok(statements[4].startsWith('CREATE VIRTUAL TABLE "customers_fts" USING fts5("name",'));
+    assert.equal(
+      statements[5],
+      `INSERT INTO "customers_fts"("customers_fts", rank) VALUES ('rank', 'bm25(0.4)');`,
+    );
+    assert.equal(
+      statements.at(-1),
+      `INSERT INTO "customers_fts"("customers_fts") VALUES ('rebuild');`,
+    );
+    assert.equal(statements.length, 10);
+  });
+});
+
+describe("renderDiffMigration", () => {
+  it("writes warnings as leading SQL comments", () => {
+    const sql = renderDiffMigration({
+      statements: ['DROP INDEX "a";', 'CREATE INDEX "a" ON "t" ("b");'],
+      warnings: ['table "x" was removed'],
+    });
+    assert.equal(
+      sql,
+      '-- WARNING: table "x" was removed\nDROP INDEX "a";\n--> statement-breakpoint\nCREATE INDEX "a" ON "t" ("b");\n',
+    );
+  });
+});
+
+describe("migration assembly", () => {
+  const config = {
+    packageName: "shop",
+    packageVersion: "0.0.1",
+    dialect: "pg" as const,
+    pluralize: true,
+    migrations: true,
+  };
+
+  it("starts with 0000_init and a snapshot when there is no previous snapshot", () => {
+    const files = assemblePackage(bookstoreTables, bookstoreEnums, config);
+    assert.ok(files.get("migrations/0000_init.sql")?.includes('CREATE TABLE "authors"'));
+    const snapshot = JSON.parse(files.get(SNAPSHOT_FILE) ?? "{}") as MigrationSnapshot;
+    assert.deepEqual(snapshot.migrations, ["0000_init"]);
+    assert.equal(snapshot.dialect, "pg");
+    assert.equal(snapshot.tables.length, bookstoreTables.length);
+  });
+
+  it("emits the next numbered migration only when the IR changed", () => {
+    const previous = createSnapshot([customerV1, orderV1], [status], "pg", ["0000_init"]);
+    const unchanged = assemblePackage([customerV1, orderV1], [status], {
+      ...config,
+      previousSnapshot: previous,
+    });
+    assert.ok(![...unchanged.keys()].some((k) => k.endsWith(".sql")));
+
+    const customer: TableDef = {
+      ...customerV1,
+      fields: [...customerV1.fields, field("email", "email", { nullable: true })],
+    };
+    const changed = assemblePackage([customer, orderV1], [status], {
+      ...config,
+      previousSnapshot: previous,
+    });
+    assert.equal(
+      changed.get("migrations/0001_update.sql"),
+      'ALTER TABLE "customers" ADD COLUMN "email" text;\n',
+    );
+    const snapshot = JSON.parse(changed.get(SNAPSHOT_FILE) ?? "{}") as MigrationSnapshot;
+    assert.deepEqual(snapshot.migrations, ["0000_init", "0001_update"]);
+  });
+
+  it("starts over when the snapshot was taken for another dialect", () => {
+    const previous = createSnapshot([customerV1], [], "sqlite", ["0000_init", "0001_update"]);
+    const files = assemblePackage([customerV1], [], { ...config, previousSnapshot: previous });
+    assert.ok(files.has("migrations/0000_init.sql"));
+  });
+});
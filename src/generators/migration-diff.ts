@@ -0,0 +1,403 @@
+import type { EnumDef, FieldDef, TableDef } from "../ir/types.js";
+import type { Dialect, DialectConfig } from "./dialect.js";
+import {
+  CREATE_VECTOR_EXTENSION,
+  columnDefinition,
+  createSchemaStatement,
+  createTableStatement,
+  createTypeStatement,
+  foreignKeyConstraints,
+  ftsTableName,
+  ident,
+  identityClause,
+  indexStatements,
+  joinStatements,
+  literal,
+  type NamedDdl,
+  qualifiedIdent,
+  SEARCH_COLUMN,
+  schemaNames,
+  searchColumnDefinition,
+  searchStatements,
+  sqlColumnType,
+  sqlDefault,
+  tableConstraints,
+  tableIdent,
+  usesVectors,
+} from "./migration-generator.js";
+
+export const SNAPSHOT_VERSION = 1;
+
+/** Where the snapshot lives, relative to the emitter output directory */
+export const SNAPSHOT_FILE = "migrations/snapshot.json";
+
+/** IR persisted next to the migrations so the next compile can diff against it */
+export interface MigrationSnapshot {
+  version: number;
+  dialect: Dialect;
+  /** Tags of the migrations emitted so far, oldest first ("0000_init", "0001_update") */
+  migrations: string[];
+  tables: TableDef[];
+  enums: EnumDef[];
+}
+
+export interface SchemaDiff {
+  statements: string[];
+  /**
+   * Changes that would destroy data or need intent the IR cannot express (drops,
+   * likely renames, enum value removals, anything SQLite cannot ALTER). They are
+   * reported, never emitted as statements.
+   */
+  warnings: string[];
+}
+
+export function createSnapshot(
+  tables: TableDef[],
+  enums: EnumDef[],
+  dialect: Dialect,
+  migrations: string[],
+): MigrationSnapshot {
+  return { version: SNAPSHOT_VERSION, dialect, migrations, tables, enums };
+}
+
+/**
+ * Diffs the current IR against a previous snapshot.
+ *
+ * Tables are matched by schema-qualified SQL table name, columns by column name,
+ * enums by qualified SQL type name, and constraints and indexes by name. Additive changes become statements;
+ * destructive ones become warnings. Statement order: the pgvector extension, schemas, enum types, new tables,
+ * column changes, constraints, foreign keys, indexes.
+ */
+export function diffSnapshots(
+  previous: Pick<MigrationSnapshot, "tables" | "enums">,
+  tables: TableDef[],
+  enums: EnumDef[],
+  dialect: DialectConfig,
+): SchemaDiff {
+  const types: string[] = [];
+  const creates: string[] = [];
+  const alters: string[] = [];
+  const foreignKeys: string[] = [];
+  const indexes: string[] = [];
+  const warnings: string[] = [];
+
+  if (dialect.dialect === "pg") {
+    if (usesVectors(tables) && !usesVectors(previous.tables)) types.push(CREATE_VECTOR_EXTENSION);
+    const existing = new Set(schemaNames(previous.tables, previous.enums));
+    for (const schema of schemaNames(tables, enums)) {
+      if (!existing.has(schema)) types.push(createSchemaStatement(schema));
+    }
+    diffEnums(previous.enums, enums, types, warnings);
+  }
+
+  const prevByName = new Map(previous.tables.map((t) => [t.name, t]));
+  const nextByName = new Map(tables.map((t) => [t.name, t]));
+  const prevTables = new Map(previous.tables.map((t) => [tableIdent(t), t]));
+  const nextTables = new Set(tables.map(tableIdent));
+
+  for (const table of tables) {
+    const old = prevTables.get(tableIdent(table));
+
+    if (!old) {
+      creates.push(createTableStatement(table, nextByName, enums, dialect));
+      if (dialect.dialect === "pg") {
+        for (const fk of foreignKeyConstraints(table, nextByName)) {
+          foreignKeys.push(`ALTER TABLE ${tableIdent(table)} ADD ${fk.sql};`);
+        }
+      }
+      indexes.push(...indexStatements(table, dialect).map((idx) => idx.sql));
+      indexes.push(...searchStatements(table, dialect).map((ddl) => ddl.sql));
+      continue;
+    }
+
+    diffColumns(old, previous.enums, table, enums, dialect, alters, warnings);
+    diffConstraints(
+      table,
+      tableConstraints(old),
+      tableConstraints(table),
+      dialect,
+      alters,
+      warnings,
+    );
+    diffConstraints(
+      table,
+      foreignKeyConstraints(old, prevByName),
+      foreignKeyConstraints(table, nextByName),
+      dialect,
+      foreignKeys,
+      warnings,
+    );
+    diffIndexes(table, indexStatements(old, dialect), indexStatements(table, dialect), indexes);
+    diffSearch(old, table, dialect, alters, indexes);
+  }
+
+  for (const old of previous.tables) {
+    if (!nextTables.has(tableIdent(old))) {
+      warnings.push(
+        `table ${tableIdent(old)} was removed; write DROP TABLE by hand if the data can go`,
+      );
+    }
+  }
+
+  return {
+    statements: [...types, ...creates, ...alters, ...foreignKeys, ...indexes],
+    warnings,
+  };
+}
+
+/** Renders a diff as a migration file: warnings as leading comments, then statements */
+export function renderDiffMigration(diff: SchemaDiff): string {
+  const header = diff.warnings.map((w) => `-- WARNING: ${w}`).join("\n");
+  if (diff.statements.length === 0) return `${header}\n`;
+  const body = joinStatements(diff.statements);
+  return header ? `${header}\n${body}` : body;
+}
+
+function diffEnums(
+  previous: EnumDef[],
+  enums: EnumDef[],
+  types: string[],
+  warnings: string[],
+): void {
+  const typeIdent = (e: EnumDef): string => qualifiedIdent(e.sqlName, e.schema);
+  const prevBySqlName = new Map(previous.map((e) => [typeIdent(e), e]));
+  const nextSqlNames = new Set(enums.map(typeIdent));
+
+  for (const enumDef of enums) {
+    const old = prevBySqlName.get(typeIdent(enumDef));
+    if (!old) {
+      types.push(createTypeStatement(enumDef));
+      continue;
+    }
+    for (const value of enumDef.values) {
+      if (!old.values.includes(value)) {
+        types.push(`ALTER TYPE ${typeIdent(enumDef)} ADD VALUE ${literal(value)};`);
+      }
+    }
+    for (const value of old.values) {
+      if (!enumDef.values.includes(value)) {
+        warnings.push(
+          `enum ${typeIdent(enumDef)} no longer has value ${literal(value)}; Postgres cannot drop enum values, so migrate the rows and recreate the type by hand`,
+        );
+      }
+    }
+  }
+
+  for (const old of previous) {
+    if (!nextSqlNames.has(typeIdent(old))) {
+      warnings.push(`enum type ${typeIdent(old)} was removed; drop it by hand once unused`);
+    }
+  }
+}
+
+/**
+ * Added columns become `ADD COLUMN`; removed columns are reported. When a table
+ * loses exactly one column of an SQL type and gains exactly one, the pair is
+ * reported as a probable rename and neither is emitted — an `ADD COLUMN` there
+ * would silently leave the old data behind. With more candidates of that type
+ * there is no telling which pairs up, so the added columns are emitted.
+ *
+ * A `NOT NULL` column without a default cannot be filled in for existing rows:
+ * Postgres gets the `ADD COLUMN` with a warning, SQLite rejects it outright.
+ */
+function diffColumns(
+  old: TableDef,
+  oldEnums: EnumDef[],
+  table: TableDef,
+  enums: EnumDef[],
+  dialect: DialectConfig,
+  alters: string[],
+  warnings: string[],
+): void {
+  const qualifiedTable = tableIdent(table);
+  const oldColumns = new Map(old.fields.map((f) => [f.columnName, f]));
+  const newColumns = new Map(table.fields.map((f) => [f.columnName, f]));
+  const added = table.fields.filter((f) => !oldColumns.has(f.columnName));
+  const removed = old.fields.filter((f) => !newColumns.has(f.columnName));
+  const renamed = new Set<FieldDef>();
+  const removedType = (f: FieldDef) => sqlColumnType(f, oldEnums, dialect);
+  const addedType = (f: FieldDef) => sqlColumnType(f, enums, dialect);
+
+  for (const field of removed) {
+    const oldType = removedType(field);
+    const candidates = added.filter((a) => addedType(a) === oldType);
+    const target =
+      candidates.length === 1 && removed.filter((r) => removedType(r) === oldType).length === 1
+        ? candidates[0]
+        : undefined;
+    if (target) {
+      renamed.add(target);
+      warnings.push(
+        `column ${qualifiedTable}.${ident(field.columnName)} was removed and ${ident(target.columnName)} added with the same type, so neither was emitted; if this is a rename, write ALTER TABLE ${qualifiedTable} RENAME COLUMN ${ident(field.columnName)} TO ${ident(target.columnName)}, otherwise add and drop the columns by hand`,
+      );
+    } else {
+      warnings.push(
+        `column ${qualifiedTable}.${ident(field.columnName)} was removed; write DROP COLUMN by hand if the data can go`,
+      );
+    }
+  }
+
+  for (const field of added) {
+    if (renamed.has(field)) continue;
+    if (!field.nullable && !field.identity && sqlDefault(field, dialect) === undefined) {
+      const column = `${qualifiedTable}.${ident(field.columnName)}`;
+      if (dialect.dialect !== "pg") {
+        warnings.push(
+          `column ${column} was added as NOT NULL without a default; SQLite requires a table rebuild`,
+        );
+        continue;
+      }
+      warnings.push(
+        `column ${column} was added as NOT NULL without a default; the ADD COLUMN fails on a table with rows, so give it a default or backfill it by hand`,
+      );
+    }
+    alters.push(
+      `ALTER TABLE ${qualifiedTable} ADD COLUMN ${columnDefinition(field, table, enums, dialect)};`,
+    );
+  }
+
+  for (const field of table.fields) {
+    const prev = oldColumns.get(field.columnName);
+    if (!prev) continue;
+    const column = `${qualifiedTable}.${ident(field.columnName)}`;
+    const alter = `ALTER TABLE ${qualifiedTable} ALTER COLUMN ${ident(field.columnName)}`;
+
+    const prevType = sqlColumnType(prev, oldEnums, dialect);
+    const nextType = sqlColumnType(field, enums, dialect);
+    if (prevType !== nextType) {
+      warnings.push(
+        `column ${column} changed type from ${prevType} to ${nextType}; write the conversion by hand`,
+      );
+    }
+
+    if (prev.nullable !== field.nullable) {
+      if (dialect.dialect === "pg") {
+        alters.push(`${alter} ${field.nullable ? "DROP" : "SET"} NOT NULL;`);
+      } else {
+        warnings.push(`column ${column} changed nullability; SQLite requires a table rebuild`);
+      }
+    }
+
+    const prevDefault = sqlDefault(prev, dialect);
+    const nextDefault = sqlDefault(field, dialect);
+    if (prevDefault !== nextDefault) {
+      if (dialect.dialect === "pg") {
+        alters.push(
+          nextDefault ? `${alter} SET DEFAULT ${nextDefault};` : `${alter} DROP DEFAULT;`,
+        );
+      } else {
+        warnings.push(`column ${column} changed default; SQLite requires a table rebuild`);
+      }
+    }
+
+    if (prev.identity !== field.identity) {
+      if (dialect.dialect !== "pg") {
+        warnings.push(`column ${column} changed autoincrement; SQLite requires a table rebuild`);
+      } else if (!field.identity) {
+        alters.push(`${alter} DROP IDENTITY;`);
+      } else if (!prev.identity) {
+        alters.push(`${alter} ADD ${identityClause(field.identity, dialect)};`);
+      } else {
+        alters.push(
+          `${alter} SET GENERATED ${field.identity === "always" ? "ALWAYS" : "BY DEFAULT"};`,
+        );
+      }
+    }
+  }
+}
+
+/** Adds, drops and replaces named table constraints; SQLite only gets warnings */
+function diffConstraints(
+  table: TableDef,
+  previous: NamedDdl[],
+  next: NamedDdl[],
+  dialect: DialectConfig,
+  out: string[],
+  warnings: string[],
+): void {
+  const qualifiedTable = tableIdent(table);
+  const prevByName = new Map(previous.map((c) => [c.name, c.sql]));
+  const nextByName = new Map(next.map((c) => [c.name, c.sql]));
+
+  for (const [name, sql] of prevByName) {
+    if (nextByName.get(name) === sql) continue;
+    if (dialect.dialect === "pg") {
+      out.push(`ALTER TABLE ${qualifiedTable} DROP CONSTRAINT ${ident(name)};`);
+    } else {
+      warnings.push(
+        `constraint ${ident(name)} on ${qualifiedTable} was removed or changed; SQLite requires a table rebuild`,
+      );
+    }
+  }
+
+  for (const [name, sql] of nextByName) {
+    if (prevByName.get(name) === sql) continue;
+    if (dialect.dialect === "pg") {
+      out.push(`ALTER TABLE ${qualifiedTable} ADD ${sql};`);
+    } else if (!prevByName.has(name)) {
+      warnings.push(
+        `constraint ${ident(name)} was added to ${qualifiedTable}; SQLite requires a table rebuild`,
+      );
+    }
+  }
+}
+
+/**
+ * The search column and FTS5 table are derived from the searched columns, so a
+ * change drops and rebuilds them: the Postgres column is regenerated on
+ * `ADD COLUMN`, the FTS5 table is refilled with its `rebuild` command.
+ */
+function diffSearch(
+  old: TableDef,
+  table: TableDef,
+  dialect: DialectConfig,
+  alters: string[],
+  out: string[],
+): void {
+  const previous = searchStatements(old, dialect);
+  const next = searchStatements(table, dialect);
+  const prevColumn = dialect.dialect === "pg" ? searchColumnDefinition(old) : undefined;
+  const nextColumn = dialect.dialect === "pg" ? searchColumnDefinition(table) : undefined;
+  const unchanged =
+    prevColumn === nextColumn &&
+    previous.length === next.length &&
+    previous.every((ddl, i) => ddl.sql === next[i].sql);
+  if (unchanged) return;
+
+  const qualifiedTable = tableIdent(table);
+  if (dialect.dialect === "pg") {
+    // Dropping the column drops its index with it
+    if (prevColumn)
+      alters.push(`ALTER TABLE ${qualifiedTable} DROP COLUMN ${ident(SEARCH_COLUMN)};`);
+    if (nextColumn) alters.push(`ALTER TABLE ${qualifiedTable} ADD COLUMN ${nextColumn};`);
+    out.push(...next.map((ddl) => ddl.sql));
+    return;
+  }
+
+  if (previous.length > 0) {
+    const fts = ftsTableName(old);
+    for (const event of ["insert", "delete", "update"]) {
+      out.push(`DROP TRIGGER ${ident(`${fts}_${event}`)};`);
+    }
+    out.push(`DROP TABLE ${ident(fts)};`);
+  }
+  if (next.length > 0) {
+    const fts = ftsTableName(table);
+    out.push(...next.map((ddl) => ddl.sql));
+    out.push(`INSERT INTO ${ident(fts)}(${ident(fts)}) VALUES ('rebuild');`);
+  }
+}
+
+/** Indexes hold no data of their own, so drops and rebuilds are emitted directly */
+function diffIndexes(table: TableDef, previous: NamedDdl[], next: NamedDdl[], out: string[]): void {
+  const prevByName = new Map(previous.map((idx) => [idx.name, idx.sql]));
+  const nextByName = new Map(next.map((idx) => [idx.name, idx.sql]));
+
+  // An index lives in its table's schema
+  for (const [name, sql] of prevByName) {
+    if (nextByName.get(name) !== sql) out.push(`DROP INDEX ${qualifiedIdent(name, table.schema)};`);
+  }
+  for (const [name, sql] of nextByName) {
+    if (prevByName.get(name) !== sql) out.push(sql);
+  }
+}
@@ -0,0 +1,506 @@
+import type {
+  EnumDef,
+  FieldDef,
+  IdentityGeneration,
+  IndexDef,
+  ReferentialAction,
+  SearchWeight,
+  TableDef,
+} from "../ir/types.js";
+import type { DialectConfig } from "./dialect.js";
+import { indexForDialect, vectorOperatorClass } from "./dialect.js";
+
+/**
+ * Separator between statements. drizzle-kit writes the same marker so its
+ * migrator can split a file; it is an ordinary SQL comment to every other client.
+ */
+export const STATEMENT_BREAKPOINT = "--> statement-breakpoint";
+
+/** A named piece of DDL — a table constraint clause or a `CREATE INDEX` statement. */
+export interface NamedDdl {
+  name: string;
+  sql: string;
+}
+
+/**
+ * Renders the IR as the DDL of an initial migration (`migrations/0000_init.sql`).
+ *
+ * Postgres gets `CREATE EXTENSION vector` when a table has vector columns,
+ * `CREATE SCHEMA` for every non-default schema and `CREATE TYPE`
+ * for native enums, then every `CREATE TABLE`, then
+ * foreign keys as `ALTER TABLE ... ADD CONSTRAINT` so table order never matters.
+ * SQLite cannot add constraints after the fact, so its foreign keys are declared
+ * inline (SQLite resolves the referenced table lazily). Indexes come last,
+ * followed by the full-text search index of tables with `@searchable` columns.
+ */
+export function generateMigration(
+  tables: TableDef[],
+  enums: EnumDef[],
+  dialect: DialectConfig,
+): string {
+  const byName = new Map(tables.map((t) => [t.name, t]));
+  const statements: string[] = [];
+
+  if (dialect.dialect === "pg") {
+    if (usesVectors(tables)) statements.push(CREATE_VECTOR_EXTENSION);
+    for (const schema of schemaNames(tables, enums)) {
+      statements.push(createSchemaStatement(schema));
+    }
+    for (const enumDef of enums) {
+      statements.push(createTypeStatement(enumDef));
+    }
+  }
+
+  for (const table of tables) {
+    statements.push(createTableStatement(table, byName, enums, dialect));
+  }
+
+  if (dialect.dialect === "pg") {
+    for (const table of tables) {
+      for (const fk of foreignKeyConstraints(table, byName)) {
+        statements.push(`ALTER TABLE ${tableIdent(table)} ADD ${fk.sql};`);
+      }
+    }
+  }
+
+  for (const table of tables) {
+    statements.push(...indexStatements(table, dialect).map((idx) => idx.sql));
+    statements.push(...searchStatements(table, dialect).map((ddl) => ddl.sql));
+  }
+
+  return joinStatements(statements);
+}
+
+/** pgvector, which provides the `vector` type, its distance operators and index methods */
+export const CREATE_VECTOR_EXTENSION = "CREATE EXTENSION IF NOT EXISTS vector;";
+
+export function usesVectors(tables: TableDef[]): boolean {
+  return tables.some((t) => t.fields.some((f) => f.type.kind === "vector"));
+}
+
+export function joinStatements(statements: string[]): string {
+  return `${statements.join(`\n${STATEMENT_BREAKPOINT}\n`)}\n`;
+}
+
+/** Non-default schemas used by the tables and enums, in first-use order */
+export function schemaNames(
+  tables: Pick<TableDef, "schema">[],
+  enums: Pick<EnumDef, "schema">[],
+): string[] {
+  const names = [...tables, ...enums].flatMap((def) => (def.schema ? [def.schema] : []));
+  return [...new Set(names)];
+}
+
+export function createSchemaStatement(schema: string): string {
+  return `CREATE SCHEMA ${ident(schema)};`;
+}
+
+export function createTypeStatement(enumDef: EnumDef): string {
+  const values = enumDef.values.map(literal).join(", ");
+  return `CREATE TYPE ${qualifiedIdent(enumDef.sqlName, enumDef.schema)} AS ENUM(${values});`;
+}
+
+export function createTableStatement(
+  table: TableDef,
+  byName: Map<string, TableDef>,
+  enums: EnumDef[],
+  dialect: DialectConfig,
+): string {
+  const lines = table.fields.map((field) => columnDefinition(field, table, enums, dialect));
+
+  if (table.primaryKey.isComposite) {
+    const cols = table.primaryKey.columns.map((c) => ident(columnNameOf(table, c)));
+    lines.push(`CONSTRAINT ${ident(`${table.tableName}_pk`)} PRIMARY KEY(${cols.join(", ")})`);
+  }
+
+  const searchColumn = dialect.dialect === "pg" && searchColumnDefinition(table);
+  if (searchColumn) lines.push(searchColumn);
+
+  lines.push(...tableConstraints(table).map((c) => c.sql));
+
+  if (dialect.dialect === "sqlite") {
+    lines.push(...foreignKeyConstraints(table, byName).map((fk) => fk.sql));
+  }
+
+  const body = lines.map((line) => `\t${line}`).join(",\n");
+  return `CREATE TABLE ${tableIdent(table)} (\n${body}\n);`;
+}
+
+/** Column definition as it appears inside `CREATE TABLE` or after `ADD COLUMN`. */
+export function columnDefinition(
+  field: FieldDef,
+  table: TableDef,
+  enums: EnumDef[],
+  dialect: DialectConfig,
+): string {
+  const parts = [ident(field.columnName), sqlColumnType(field, enums, dialect)];
+  const isPk = !table.primaryKey.isComposite && table.primaryKey.columns.includes(field.name);
+
+  if (isPk) parts.push("PRIMARY KEY");
+  if (isPk && field.identity) parts.push(identityClause(field.identity, dialect));
+
+  const defaultSql = sqlDefault(field, dialect);
+  if (defaultSql) parts.push(`DEFAULT ${defaultSql}`);
+
+  if (!field.nullable) parts.push("NOT NULL");
+
+  return parts.join(" ");
+}
+
+/** Column clause that numbers an `@identity` key */
+export function identityClause(generation: IdentityGeneration, dialect: DialectConfig): string {
+  switch (dialect.dialect) {
+    case "pg":
+      return `GENERATED ${generation === "always" ? "ALWAYS" : "BY DEFAULT"} AS IDENTITY`;
+    case "sqlite":
+      return "AUTOINCREMENT";
+    case "mysql":
+      return "AUTO_INCREMENT";
+  }
+}
+
+/** SQL column type for a field — mirrors the Drizzle builders `DialectConfig` selects. */
+export function sqlColumnType(field: FieldDef, enums: EnumDef[], dialect: DialectConfig): string {
+  if (dialect.dialect === "sqlite") {
+    switch (field.type.kind) {
+      case "integer":
+      case "bigint":
+      case "boolean":
+      case "timestamp":
+      case "localTimestamp":
+        return "integer";
+      case "real":
+      case "doublePrecision":
+        return "real";
+      case "decimal":
+        return "numeric";
+      case "bytes":
+        return "blob";
+      case "uuid":
+        return field.type.encoding === "raw" ? dialect.rawUuidDataType : "text";
+      default:
+        return "text";
+    }
+  }
+
+  switch (field.type.kind) {
+    case "text":
+    case "textEnum":
+      return "text";
+    case "varchar":
+      return `varchar(${field.type.length})`;
+    case "integer":
+      return "integer";
+    case "bigint":
+      return "bigint";
+    case "real":
+      return "real";
+    case "doublePrecision":
+      return "double precision";
+    case "decimal":
+      return field.type.precision === undefined
+        ? "numeric"
+        : `numeric(${[field.type.precision, field.type.scale].filter((n) => n !== undefined).join(", ")})`;
+    case "boolean":
+      return "boolean";
+    case "timestamp":
+      return "timestamp with time zone";
+    case "localTimestamp":
+      return "timestamp";
+    case "date":
+      return "date";
+    case "time":
+      return "time";
+    case "interval":
+      return "interval";
+    case "bytes":
+      return "bytea";
+    case "vector":
+      return `vector(${field.type.dimensions})`;
+    case "jsonb":
+      return "jsonb";
+    case "array":
+      return `${sqlColumnType({ ...field, type: field.type.element }, enums, dialect)}[]`;
+    case "uuid":
+      return field.type.encoding === "raw" ? dialect.rawUuidDataType : dialect.uuidDataType;
+    case "enum": {
+      const enumName = field.type.enumName;
+      const enumDef = enums.find((e) => e.name === enumName);
+      return enumDef ? qualifiedIdent(enumDef.sqlName, enumDef.schema) : ident(enumName);
+    }
+  }
+}
+
+export function sqlDefault(field: FieldDef, dialect: DialectConfig): string | undefined {
+  if (field.createdAt || field.updatedAt) {
+    // SQLite timestamps are filled in client-side by `$defaultFn`.
+    return dialect.dialect === "pg" ? "now()" : undefined;
+  }
+  if (field.defaultValue === undefined) return undefined;
+
+  const value = field.defaultValue;
+  if (typeof value === "string") return literal(value);
+  if (typeof value === "boolean" && dialect.dialect === "sqlite") return value ? "1" : "0";
+  return String(value);
+}
+
+/** Single-column `UNIQUE` and `CHECK` constraints, named the way `schema.ts` names them. */
+export function tableConstraints(table: TableDef): NamedDdl[] {
+  const constraints: NamedDdl[] = [];
+
+  for (const field of table.fields) {
+    if (field.constraints?.unique) {
+      const name = `${table.tableName}_${field.columnName}_unique`;
+      constraints.push({
+        name,
+        sql: `CONSTRAINT ${ident(name)} UNIQUE(${ident(field.columnName)})`,
+      });
+    }
+  }
+
+  for (const field of table.fields) {
+    const check = checkExpression(field);
+    if (check) {
+      const name = `${table.tableName}_${field.columnName}_check`;
+      constraints.push({ name, sql: `CONSTRAINT ${ident(name)} CHECK (${check})` });
+    }
+  }
+
+  return constraints;
+}
+
+function checkExpression(field: FieldDef): string | undefined {
+  const conditions: string[] = [];
+  const col = ident(field.columnName);
+
+  if (field.constraints?.minValue !== undefined) {
+    conditions.push(`${col} >= ${field.constraints.minValue}`);
+  }
+  if (field.constraints?.maxValue !== undefined) {
+    conditions.push(`${col} <= ${field.constraints.maxValue}`);
+  }
+  if (field.constraints?.check) {
+    conditions.push(
+      conditions.length > 0 ? `(${field.constraints.check})` : field.constraints.check,
+    );
+  }
+
+  return conditions.length > 0 ? conditions.join(" AND ") : undefined;
+}
+
+/**
+ * `CONSTRAINT ... FOREIGN KEY` clauses for a table: one per `@references` field
+ * and one per composite `@foreignKeyDef`. Single-column names follow Drizzle's
+ * `<table>_<col>_<foreignTable>_<foreignCol>_fk` convention.
+ */
+export function foreignKeyConstraints(table: TableDef, byName: Map<string, TableDef>): NamedDdl[] {
+  const constraints: NamedDdl[] = [];
+
+  for (const field of table.fields) {
+    if (!field.references) continue;
+    const target = byName.get(field.references.tableName);
+    if (!target) continue;
+
+    const targetColumn = columnNameOf(target, field.references.fieldName);
+    const name = `${table.tableName}_${field.columnName}_${target.tableName}_${targetColumn}_fk`;
+    const sql = `CONSTRAINT ${ident(name)} FOREIGN KEY (${ident(field.columnName)}) REFERENCES ${tableIdent(target)}(${ident(targetColumn)})`;
+    constraints.push({ name, sql: sql + referentialActions(field.references) });
+  }
+
+  for (const fk of table.foreignKeys) {
+    const target = byName.get(fk.foreignTable);
+    if (!target) continue;
+
+    const cols = fk.columns.map((c) => ident(columnNameOf(table, c)));
+    const foreignCols = fk.foreignColumns.map((c) => ident(columnNameOf(target, c)));
+    constraints.push({
+      name: fk.name,
+      sql: `CONSTRAINT ${ident(fk.name)} FOREIGN KEY (${cols.join(", ")}) REFERENCES ${tableIdent(target)}(${foreignCols.join(", ")})${referentialActions(fk)}`,
+    });
+  }
+
+  return constraints;
+}
+
+/** ` ON DELETE ... ON UPDATE ...` for the actions that are set */
+function referentialActions(actions: {
+  onDelete?: ReferentialAction;
+  onUpdate?: ReferentialAction;
+}): string {
+  const onDelete = actions.onDelete ? ` ON DELETE ${actions.onDelete}` : "";
+  const onUpdate = actions.onUpdate ? ` ON UPDATE ${actions.onUpdate}` : "";
+  return onDelete + onUpdate;
+}
+
+/**
+ * `CREATE [UNIQUE] INDEX` statements for composite unique constraints, `@indexDef`s
+ * and, on Postgres, `@vectorIndex`es.
+ */
+export function indexStatements(table: TableDef, dialect: DialectConfig): NamedDdl[] {
+  const statements: NamedDdl[] = [];
+
+  for (const uq of table.uniqueConstraints) {
+    const cols = uq.columns.map((c) => ident(columnNameOf(table, c)));
+    statements.push({
+      name: uq.name,
+      sql: `CREATE UNIQUE INDEX ${ident(uq.name)} ON ${tableIdent(table)} (${cols.join(", ")});`,
+    });
+  }
+
+  for (const idx of table.indexes) {
+    if (idx.using) {
+      if (dialect.dialect === "pg") statements.push(vectorIndexStatement(table, idx, idx.using));
+      continue;
+    }
+    statements.push(indexStatement(table, indexForDialect(idx, dialect.dialect).index));
+  }
+
+  return statements;
+}
+
+/**
+ * `CREATE [UNIQUE] INDEX ... [USING method] (cols, (expr)) [INCLUDE (...)] [WHERE ...]`;
+ * `indexForDialect` has already removed what the dialect cannot express.
+ */
+function indexStatement(table: TableDef, idx: IndexDef): NamedDdl {
+  const keys = idx.columns.map((c) => {
+    const order = idx.order?.[c];
+    const direction = order?.direction === "desc" ? " DESC" : "";
+    const nulls = order?.nulls ? ` NULLS ${order.nulls.toUpperCase()}` : "";
+    return `${ident(columnNameOf(table, c))}${direction}${nulls}`;
+  });
+  for (const expression of idx.expressions ?? []) keys.push(`(${expression})`);
+
+  const create = idx.unique ? "CREATE UNIQUE INDEX" : "CREATE INDEX";
+  const using = idx.method ? ` USING ${idx.method}` : "";
+  const include = idx.include
+    ? ` INCLUDE (${idx.include.map((c) => ident(columnNameOf(table, c))).join(", ")})`
+    : "";
+  const where = idx.where ? ` WHERE ${idx.where}` : "";
+  return {
+    name: idx.name,
+    sql: `${create} ${ident(idx.name)} ON ${tableIdent(table)}${using} (${keys.join(", ")})${include}${where};`,
+  };
+}
+
+function vectorIndexStatement(table: TableDef, idx: IndexDef, method: string): NamedDdl {
+  const field = table.fields.find((f) => f.name === idx.columns[0]);
+  const column = `${ident(columnNameOf(table, idx.columns[0]))} ${vectorOperatorClass(field)}`;
+  return {
+    name: idx.name,
+    sql: `CREATE INDEX ${ident(idx.name)} ON ${tableIdent(table)} USING ${method} (${column});`,
+  };
+}
+
+/** Generated `tsvector` column holding the search document on Postgres */
+export const SEARCH_COLUMN = "search_vector";
+
+/** The search column's property in schema.ts */
+export const SEARCH_PROPERTY = "searchVector";
+
+/** Text search configuration documents and queries are parsed with; FTS5 uses the porter stemmer */
+export const SEARCH_CONFIG = "english";
+
+/** Relative weights `ts_rank` gives each weight class, reused as FTS5 bm25 column weights */
+const SEARCH_WEIGHTS: Record<SearchWeight, string> = { A: "1.0", B: "0.4", C: "0.2", D: "0.1" };
+
+export function searchFields(table: TableDef): FieldDef[] {
+  return table.fields.filter((f) => f.searchWeight);
+}
+
+/** GIN index over a Postgres table's search column */
+export function searchIndexName(table: TableDef): string {
+  return `${table.tableName}_search_idx`;
+}
+
+/** FTS5 table indexing a SQLite table's `@searchable` columns */
+export function ftsTableName(table: TableDef): string {
+  return `${table.tableName}_fts`;
+}
+
+/** `setweight(to_tsvector(...), 'A') || ...` over the `@searchable` columns */
+export function searchDocument(table: TableDef): string {
+  return searchFields(table)
+    .map(
+      (f) =>
+        `setweight(to_tsvector(${literal(SEARCH_CONFIG)}, coalesce(${ident(f.columnName)}, '')), ${literal(f.searchWeight ?? "A")})`,
+    )
+    .join(" || ");
+}
+
+/** The Postgres search column, or undefined for a table without `@searchable` columns */
+export function searchColumnDefinition(table: TableDef): string | undefined {
+  if (searchFields(table).length === 0) return undefined;
+  return `${ident(SEARCH_COLUMN)} tsvector GENERATED ALWAYS AS (${searchDocument(table)}) STORED`;
+}
+
+/**
+ * Full-text search DDL that follows the table: a GIN index over the search
+ * column on Postgres; on SQLite an external-content FTS5 table weighted like
+ * `ts_rank`, kept in sync by insert, delete and update triggers.
+ */
+export function searchStatements(table: TableDef, dialect: DialectConfig): NamedDdl[] {
+  const fields = searchFields(table);
+  if (fields.length === 0) return [];
+
+  if (dialect.dialect === "pg") {
+    const name = searchIndexName(table);
+    return [
+      {
+        name,
+        sql: `CREATE INDEX ${ident(name)} ON ${tableIdent(table)} USING gin (${ident(SEARCH_COLUMN)});`,
+      },
+    ];
+  }
+  if (dialect.dialect !== "sqlite") return [];
+
+  const fts = ftsTableName(table);
+  const columns = fields.map((f) => ident(f.columnName)).join(", ");
+  const values = (row: string) => fields.map((f) => `${row}.${ident(f.columnName)}`).join(", ");
+  const weights = fields.map((f) => SEARCH_WEIGHTS[f.searchWeight ?? "A"]).join(", ");
+  const insert = `INSERT INTO ${ident(fts)}(rowid, ${columns}) VALUES (new.rowid, ${values("new")});`;
+  const remove = `INSERT INTO ${ident(fts)}(${ident(fts)}, rowid, ${columns}) VALUES ('delete', old.rowid, ${values("old")});`;
+  const trigger = (event: string, body: string[]): NamedDdl => {
+    const name = `${fts}_${event.toLowerCase()}`;
+    return {
+      name,
+      sql: `CREATE TRIGGER ${ident(name)} AFTER ${event} ON ${ident(table.tableName)} BEGIN\n${body.map((s) => `\t${s}\n`).join("")}END;`,
+    };
+  };
+
+  return [
+    {
+      name: fts,
+      sql: `CREATE VIRTUAL TABLE ${ident(fts)} USING fts5(${columns}, content=${literal(table.tableName)}, content_rowid='rowid', tokenize='porter unicode61');`,
+    },
+    {
+      name: `${fts}_rank`,
+      sql: `INSERT INTO ${ident(fts)}(${ident(fts)}, rank) VALUES ('rank', 'bm25(${weights})');`,
+    },
+    trigger("INSERT", [insert]),
+    trigger("DELETE", [remove]),
+    trigger("UPDATE", [remove, insert]),
+  ];
+}
+
+/** Resolve an IR field name to its SQL column name (falls back to the name itself). */
+function columnNameOf(table: TableDef, fieldName: string): string {
+  return table.fields.find((f) => f.name === fieldName)?.columnName ?? fieldName;
+}
+
+export function ident(name: string): string {
+  return `"${name.replaceAll('"', '""')}"`;
+}
+
+/** `"schema"."name"`, or just `"name"` in the default schema */
+export function qualifiedIdent(name: string, schema?: string): string {
+  return schema ? `${ident(schema)}.${ident(name)}` : ident(name);
+}
+
+export function tableIdent(table: Pick<TableDef, "tableName" | "schema">): string {
+  return qualifiedIdent(table.tableName, table.schema);
+}
+
+export function literal(value: string): string {
+  return `'${value.replaceAll("'", "''")}'`;
+}
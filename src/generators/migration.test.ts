@@ -0,0 +1,569 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import Database from "better-sqlite3";
+import { bookstoreEnums, bookstoreTables } from "../fixtures/bookstore-ir.ts";
+import type { EnumDef, TableDef } from "../ir/types.ts";
+import { resolveDialect } from "./dialect.ts";
+import { generateMigration, STATEMENT_BREAKPOINT } from "./migration-generator.ts";
+
+const pg = resolveDialect("pg");
+const sqlite = resolveDialect("sqlite");
+
+const orderStatus: EnumDef = {
+  name: "orderStatusEnum",
+  sqlName: "order_status",
+  values: ["pending", "shipped"],
+};
+
+const orderTable: TableDef = {
+  name: "Order",
+  service: "shop",
+  tableName: "orders",
+  primaryKey: { tableName: "orders", columns: ["orderId"], isComposite: false },
+  fields: [
+    {
+      name: "orderId",
+      columnName: "order_id",
+      type: { kind: "uuid", encoding: "base36" },
+      nullable: false,
+      createdAt: false,
+      updatedAt: false,
+    },
+    {
+      name: "status",
+      columnName: "status",
+      type: { kind: "enum", enumName: "orderStatusEnum", values: ["pending", "shipped"] },
+      nullable: false,
+      defaultValue: "pending",
+      createdAt: false,
+      updatedAt: false,
+    },
+    {
+      name: "gift",
+      columnName: "gift",
+      type: { kind: "boolean" },
+      nullable: false,
+      defaultValue: false,
+      createdAt: false,
+      updatedAt: false,
+    },
+    {
+      name: "note",
+      columnName: "note",
+      type: { kind: "varchar", length: 140 },
+      nullable: true,
+      createdAt: false,
+      updatedAt: false,
+    },
+    {
+      name: "createdAt",
+      columnName: "created_at",
+      type: { kind: "timestamp" },
+      nullable: false,
+      createdAt: true,
+      updatedAt: false,
+    },
+  ],
+  foreignKeys: [],
+  isJunction: false,
+  indexes: [{ name: "idx_orders_status", columns: ["status", "createdAt"], unique: false }],
+  uniqueConstraints: [],
+};
+
+const lineTable: TableDef = {
+  name: "OrderLine",
+  service: "shop",
+  tableName: "order_lines",
+  primaryKey: { tableName: "order_lines", columns: ["orderId", "lineNumber"], isComposite: true },
+  fields: [
+    {
+      name: "orderId",
+      columnName: "order_id",
+      type: { kind: "uuid", encoding: "base36" },
+      nullable: false,
+      references: { tableName: "Order", fieldName: "orderId", onDelete: "cascade" },
+      createdAt: false,
+      updatedAt: false,
+    },
+    {
+      name: "lineNumber",
+      columnName: "line_number",
+      type: { kind: "integer" },
+      nullable: false,
+      constraints: { minValue: 1, check: "line_number < 1000" },
+      createdAt: false,
+      updatedAt: false,
+    },
+  ],
+  foreignKeys: [],
+  isJunction: false,
+  indexes: [],
+  uniqueConstraints: [],
+};
+
+const shipmentTable: TableDef = {
+  name: "Shipment",
+  service: "shop",
+  tableName: "shipments",
+  primaryKey: { tableName: "shipments", columns: ["shipmentId"], isComposite: false },
+  fields: [
+    {
+      name: "shipmentId",
+      columnName: "shipment_id",
+      type: { kind: "text" },
+      nullable: false,
+      createdAt: false,
+      updatedAt: false,
+    },
+    {
+      name: "orderId",
+      columnName: "order_id",
+      type: { kind: "text" },
+      nullable: false,
+      createdAt: false,
+      updatedAt: false,
+    },
+    {
+      name: "lineNumber",
+      columnName: "line_number",
+      type: { kind: "integer" },
+      nullable: false,
+      createdAt: false,
+      updatedAt: false,
+    },
+  ],
+  foreignKeys: [
+    {
+      name: "fk_shipment_line",
+      columns: ["orderId", "lineNumber"],
+      foreignTable: "OrderLine",
+      foreignColumns: ["orderId", "lineNumber"],
+    },
+  ],
+  isJunction: false,
+  indexes: [],
+  uniqueConstraints: [{ name: "uq_shipment_line", columns: ["orderId", "lineNumber"] }],
+};
+
+const shopTables = [shipmentTable, lineTable, orderTable];
+
+describe("migration generator (pg)", () => {
+  const output = generateMigration(shopTables, [orderStatus], pg);
+
+  it("creates native enum types before tables", () => {
+    assert.ok(output.startsWith(`CREATE TYPE "order_status" AS ENUM('pending', 'shipped');`));
+  });
+
+  it("maps decimals to numeric", () => {
+    const priced: TableDef = {
+      ...orderTable,
+      fields: [
+        ...orderTable.fields,
+        {
+          name: "total",
+          columnName: "total",
+          type: { kind: "decimal", precision: 12, scale: 2, mode: "string" },
+          nullable: false,
+          createdAt: false,
+          updatedAt: false,
+          constraints: { minValue: 0 },
+        },
+      ],
+    };
+    assert.ok(generateMigration([priced], [], pg).includes('\t"total" numeric(12, 2) NOT NULL'));
+    assert.ok(generateMigration([priced], [], sqlite).includes('\t"total" numeric NOT NULL'));
+  });
+
+  it("maps date, time, interval and local timestamp columns", () => {
+    const field = (name: string, kind: "date" | "time" | "interval" | "localTimestamp") => ({
+      name,
+      columnName: name,
+      type: { kind },
+      nullable: true,
+      createdAt: false,
+      updatedAt: false,
+    });
+    const timed: TableDef = {
+      ...orderTable,
+      fields: [
+        orderTable.fields[0],
+        field("ships", "date"),
+        field("cutoff", "time"),
+        field("window", "interval"),
+        field("local", "localTimestamp"),
+      ],
+    };
+    const pgSql = generateMigration([timed], [], pg);
+    assert.ok(pgSql.includes('\t"ships" date,\n\t"cutoff" time,\n\t"window" interval,'));
+    assert.ok(pgSql.includes('\t"local" timestamp\n'));
+    const sqliteSql = generateMigration([timed], [], sqlite);
+    assert.ok(sqliteSql.includes('\t"ships" text,\n\t"cutoff" text,\n\t"window" text,'));
+    assert.ok(sqliteSql.includes('\t"local" integer\n'));
+  });
+
+  it("maps arrays to element arrays on pg and text on sqlite", () => {
+    const tagged: TableDef = {
+      ...orderTable,
+      fields: [
+        ...orderTable.fields,
+        {
+          name: "statuses",
+          columnName: "statuses",
+          type: {
+            kind: "array",
+            element: { kind: "enum", enumName: "orderStatusEnum", values: ["pending", "shipped"] },
+          },
+          nullable: false,
+          createdAt: false,
+          updatedAt: false,
+        },
+        {
+          name: "tags",
+          columnName: "tags",
+          type: { kind: "array", element: { kind: "varchar", length: 20 } },
+          nullable: true,
+          createdAt: false,
+          updatedAt: false,
+        },
+      ],
+    };
+    const pgSql = generateMigration([tagged], [orderStatus], pg);
+    assert.ok(pgSql.includes('\t"statuses" "order_status"[] NOT NULL,'));
+    assert.ok(pgSql.includes('\t"tags" varchar(20)[]\n'));
+    assert.ok(generateMigration([tagged], [], sqlite).includes('\t"tags" text\n'));
+  });
+
+  it("numbers @identity keys with identity columns on pg and AUTOINCREMENT on sqlite", () => {
+    const events: TableDef = {
+      ...orderTable,
+      fields: [
+        { ...orderTable.fields[0], type: { kind: "bigint" }, identity: "always" },
+        orderTable.fields[3],
+      ],
+      indexes: [],
+    };
+    assert.ok(
+      generateMigration([events], [], pg).includes(
+        '\t"order_id" bigint PRIMARY KEY GENERATED ALWAYS AS IDENTITY NOT NULL',
+      ),
+    );
+
+    const db = new Database(":memory:");
+    db.exec(generateMigration([events], [], sqlite));
+    const insert = db.prepare("INSERT INTO orders (note) VALUES (?) RETURNING order_id");
+    assert.deepEqual(insert.get("first"), { order_id: 1 });
+    db.prepare("DELETE FROM orders").run();
+    assert.deepEqual(insert.get("second"), { order_id: 2 });
+    db.close();
+  });
+
+  it("writes index options on pg and the subset SQLite supports", () => {
+    const indexed: TableDef = {
+      ...orderTable,
+      indexes: [
+        {
+          name: "orders_note_idx",
+          columns: [],
+          unique: true,
+          expressions: ["lower(note)"],
+          where: "gift",
+        },
+        {
+          name: "orders_recent_idx",
+          columns: ["createdAt", "status"],
+          unique: false,
+          order: { createdAt: { direction: "desc", nulls: "last" } },
+          include: ["note"],
+        },
+        { name: "orders_status_hash_idx", columns: ["status"], unique: false, method: "hash" },
+      ],
+    };
+    const pgOutput = generateMigration([indexed], [], pg);
+    for (const statement of [
+      'CREATE UNIQUE INDEX "orders_note_idx" ON "orders" ((lower(note))) WHERE gift;',
+      'CREATE INDEX "orders_recent_idx" ON "orders" ("created_at" DESC NULLS LAST, "status") INCLUDE ("note");',
+      'CREATE INDEX "orders_status_hash_idx" ON "orders" USING hash ("status");',
+    ]) {
+      assert.ok(pgOutput.includes(statement), statement);
+    }
+
+    const sqliteOutput = generateMigration([indexed], [], sqlite);
+    assert.ok(
+      sqliteOutput.includes(
+        'CREATE INDEX "orders_recent_idx" ON "orders" ("created_at" DESC, "status");',
+      ),
+    );
+    const db = new Database(":memory:");
+    db.exec(sqliteOutput);
+    const insert = db.prepare(
+      "INSERT INTO orders (order_id, note, gift, created_at) VALUES (?, ?, ?, 0)",
+    );
+    insert.run("a", "Wrap it", 0);
+    insert.run("b", "wrap it", 0);
+    insert.run("c", "Wrap it", 1);
+    assert.throws(() => insert.run("d", "WRAP IT", 1), /UNIQUE constraint failed/);
+    db.close();
+  });
+
+  it("stores raw UUIDs as bytes", () => {
+    const raw: TableDef = {
+      ...orderTable,
+      fields: [{ ...orderTable.fields[0], type: { kind: "uuid", encoding: "raw" } }],
+    };
+    assert.ok(generateMigration([raw], [], pg).includes('\t"order_id" bytea PRIMARY KEY NOT NULL'));
+    assert.ok(
+      generateMigration([raw], [], sqlite).includes('\t"order_id" blob PRIMARY KEY NOT NULL'),
+    );
+  });
+
+  it("enables pgvector for vector columns and indexes them on pg only", () => {
+    const searchable: TableDef = {
+      ...orderTable,
+      fields: [
+        orderTable.fields[0],
+        {
+          name: "embedding",
+          columnName: "embedding",
+          type: { kind: "vector", dimensions: 3, distance: "cosine" },
+          nullable: false,
+          createdAt: false,
+          updatedAt: false,
+        },
+      ],
+      indexes: [
+        { name: "orders_embedding_idx", columns: ["embedding"], unique: false, using: "hnsw" },
+      ],
+      uniqueConstraints: [],
+    };
+    const pgSql = generateMigration([searchable], [], pg);
+    assert.ok(
+      pgSql.startsWith(`CREATE EXTENSION IF NOT EXISTS vector;\n${STATEMENT_BREAKPOINT}\n`),
+    );
+    assert.ok(pgSql.includes('\t"embedding" vector(3) NOT NULL\n'));
+    assert.ok(
+      pgSql.includes(
+        'CREATE INDEX "orders_embedding_idx" ON "orders" USING hnsw ("embedding" vector_cosine_ops);',
+      ),
+    );
+    const sqliteSql = generateMigration([searchable], [], sqlite);
+    assert.ok(sqliteSql.includes('\t"embedding" text NOT NULL\n'));
+    assert.ok(!sqliteSql.includes("vector"));
+  });
+
+  it("generates a weighted tsvector column and GIN index for searchable columns on pg", () => {
+    const searchable: TableDef = {
+      ...orderTable,
+      fields: orderTable.fields.map((f) => (f.name === "note" ? { ...f, searchWeight: "B" } : f)),
+    };
+    const sql = generateMigration([searchable], [orderStatus], pg);
+    assert.ok(
+      sql.includes(
+        `\t"search_vector" tsvector GENERATED ALWAYS AS (setweight(to_tsvector('english', coalesce("note", '')), 'B')) STORED\n`,
+      ),
+    );
+    assert.ok(
+      sql.endsWith('CREATE INDEX "orders_search_idx" ON "orders" USING gin ("search_vector");\n'),
+    );
+  });
+
+  it("stores bytes as bytea on pg and blob on sqlite", () => {
+    const signed: TableDef = {
+      ...orderTable,
+      fields: [
+        orderTable.fields[0],
+        {
+          name: "signature",
+          columnName: "signature",
+          type: { kind: "bytes" },
+          nullable: true,
+          createdAt: false,
+          updatedAt: false,
+        },
+      ],
+    };
+    assert.ok(generateMigration([signed], [], pg).includes('\t"signature" bytea\n'));
+    assert.ok(generateMigration([signed], [], sqlite).includes('\t"signature" blob\n'));
+  });
+
+  it("maps column types, defaults and nullability", () => {
+    assert.ok(output.includes('\t"order_id" uuid PRIMARY KEY NOT NULL'));
+    assert.ok(output.includes(`\t"status" "order_status" DEFAULT 'pending' NOT NULL`));
+    assert.ok(output.includes('\t"gift" boolean DEFAULT false NOT NULL'));
+    assert.ok(output.includes('\t"note" varchar(140),'));
+    assert.ok(output.includes('\t"created_at" timestamp with time zone DEFAULT now() NOT NULL'));
+  });
+
+  it("declares a composite primary key constraint", () => {
+    assert.ok(
+      output.includes('CONSTRAINT "order_lines_pk" PRIMARY KEY("order_id", "line_number")'),
+    );
+  });
+
+  it("combines range and custom checks into one named constraint", () => {
+    assert.ok(
+      output.includes(
+        'CONSTRAINT "order_lines_line_number_check" CHECK ("line_number" >= 1 AND (line_number < 1000))',
+      ),
+    );
+  });
+
+  it("adds foreign keys after every table exists", () => {
+    const lastCreate = output.lastIndexOf("CREATE TABLE");
+    const fk = output.indexOf(
+      'ALTER TABLE "order_lines" ADD CONSTRAINT "order_lines_order_id_orders_order_id_fk" FOREIGN KEY ("order_id") REFERENCES "orders"("order_id") ON DELETE cascade;',
+    );
+    assert.ok(fk > lastCreate);
+    assert.ok(
+      output.includes(
+        'ALTER TABLE "shipments" ADD CONSTRAINT "fk_shipment_line" FOREIGN KEY ("order_id", "line_number") REFERENCES "order_lines"("order_id", "line_number");',
+      ),
+    );
+  });
+
+  it("creates indexes and composite unique indexes", () => {
+    assert.ok(
+      output.includes('CREATE INDEX "idx_orders_status" ON "orders" ("status", "created_at");'),
+    );
+    assert.ok(
+      output.includes(
+        'CREATE UNIQUE INDEX "uq_shipment_line" ON "shipments" ("order_id", "line_number");',
+      ),
+    );
+  });
+
+  it("separates statements with drizzle-kit breakpoints", () => {
+    const statements = output.split(`\n${STATEMENT_BREAKPOINT}\n`);
+    assert.ok(statements.every((s) => s.trim().endsWith(";")));
+  });
+});
+
+describe("migration generator (pg schemas)", () => {
+  const inSchema = (t: TableDef): TableDef => ({ ...t, schema: "shop" });
+  const output = generateMigration(
+    shopTables.map(inSchema),
+    [{ ...orderStatus, schema: "shop" }],
+    pg,
+  );
+
+  it("creates each schema before its types and tables", () => {
+    assert.ok(output.startsWith('CREATE SCHEMA "shop";'));
+    assert.ok(output.includes(`CREATE TYPE "shop"."order_status" AS ENUM('pending', 'shipped');`));
+    assert.ok(output.includes('CREATE TABLE "shop"."orders" ('));
+  });
+
+  it("qualifies enum columns, references and index targets", () => {
+    assert.ok(output.includes(`\t"status" "shop"."order_status" DEFAULT 'pending' NOT NULL`));
+    assert.ok(
+      output.includes(
+        'ALTER TABLE "shop"."order_lines" ADD CONSTRAINT "order_lines_order_id_orders_order_id_fk" FOREIGN KEY ("order_id") REFERENCES "shop"."orders"("order_id") ON DELETE cascade;',
+      ),
+    );
+    assert.ok(
+      output.includes(
+        'CREATE INDEX "idx_orders_status" ON "shop"."orders" ("status", "created_at");',
+      ),
+    );
+  });
+});
+
+describe("migration generator (sqlite)", () => {
+  const output = generateMigration(shopTables, [orderStatus], sqlite);
+
+  it("emits no CREATE TYPE and maps enums/booleans/timestamps to storage classes", () => {
+    assert.ok(!output.includes("CREATE TYPE"));
+    assert.ok(output.includes(`\t"status" text DEFAULT 'pending' NOT NULL`));
+    assert.ok(output.includes('\t"gift" integer DEFAULT 0 NOT NULL'));
+    assert.ok(output.includes('\t"created_at" integer NOT NULL'));
+  });
+
+  it("declares foreign keys inline instead of ALTER TABLE", () => {
+    assert.ok(!output.includes("ALTER TABLE"));
+    assert.ok(
+      output.includes(
+        '\tCONSTRAINT "order_lines_order_id_orders_order_id_fk" FOREIGN KEY ("order_id") REFERENCES "orders"("order_id") ON DELETE cascade',
+      ),
+    );
+  });
+
+  it("applies composite foreign key actions", () => {
+    const shipments: TableDef = {
+      ...shipmentTable,
+      foreignKeys: [{ ...shipmentTable.foreignKeys[0], onDelete: "restrict", onUpdate: "cascade" }],
+    };
+    const ddl = generateMigration([shipments, lineTable, orderTable], [], sqlite);
+    assert.ok(
+      ddl.includes(
+        '\tCONSTRAINT "fk_shipment_line" FOREIGN KEY ("order_id", "line_number") REFERENCES "order_lines"("order_id", "line_number") ON DELETE restrict ON UPDATE cascade',
+      ),
+    );
+
+    const db = new Database(":memory:");
+    db.exec("PRAGMA foreign_keys = ON");
+    db.exec(ddl);
+    db.exec(`
+      INSERT INTO orders (order_id, created_at) VALUES ('o1', 0);
+      INSERT INTO order_lines (order_id, line_number) VALUES ('o1', 1);
+      INSERT INTO shipments (shipment_id, order_id, line_number) VALUES ('s1', 'o1', 1);
+      UPDATE order_lines SET line_number = 2;
+    `);
+    assert.deepEqual(db.prepare("SELECT line_number FROM shipments").get(), { line_number: 2 });
+    assert.throws(() => db.exec("DELETE FROM order_lines"), /FOREIGN KEY constraint failed/);
+    db.close();
+  });
+
+  it("executes against SQLite", () => {
+    const db = new Database(":memory:");
+    db.exec(generateMigration(bookstoreTables, bookstoreEnums, sqlite));
+    const tables = db
+      .prepare("SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name")
+      .all() as Array<{ name: string }>;
+    assert.deepEqual(
+      tables.map((t) => t.name),
+      [
+        "authors",
+        "book_genres",
+        "book_tags",
+        "books",
+        "editions",
+        "genres",
+        "publishers",
+        "reviews",
+        "translators",
+      ],
+    );
+    db.close();
+  });
+
+  it("keeps an FTS5 table in sync with the searchable columns", () => {
+    const notes: TableDef = {
+      ...orderTable,
+      fields: [
+        orderTable.fields[0],
+        { ...orderTable.fields[3], name: "title", columnName: "title", searchWeight: "A" },
+        { ...orderTable.fields[3], searchWeight: "C" },
+      ],
+      indexes: [],
+    };
+    const db = new Database(":memory:");
+    db.exec(generateMigration([notes], [], sqlite));
+    const search = (query: string) =>
+      (
+        db
+          .prepare(
+            'SELECT order_id FROM "orders_fts" JOIN orders ON orders.rowid = "orders_fts".rowid WHERE "orders_fts" MATCH ? ORDER BY rank',
+          )
+          .all(query) as Array<{ order_id: string }>
+      ).map((row) => row.order_id);
+
+    const insert = db.prepare("INSERT INTO orders (order_id, title, note) VALUES (?, ?, ?)");
+    insert.run("a", "Gift wrap", "wrapping paper for birthdays");
+    insert.run("b", "Birthday cards", null);
+    assert.deepEqual(search("birthday"), ["b", "a"]);
+
+    db.prepare("UPDATE orders SET title = 'Cards' WHERE order_id = 'b'").run();
+    db.prepare("DELETE FROM orders WHERE order_id = 'a'").run();
+    assert.deepEqual(search("birthday"), []);
+    assert.deepEqual(search("card"), ["b"]);
+    db.close();
+  });
+});
@@ -1,6 +1,13 @@
 import assert from "node:assert/strict";
 import { describe, it } from "node:test";
-import { pluralize, toCamelCase, toSnakeCase, toTableVariableName } from "./naming.ts";
+import {
+  pluralize,
+  singularize,
+  toCamelCase,
+  toPascalCase,
+  toSnakeCase,
+  toTableVariableName,
+} from "./naming.ts";
 
 describe("toSnakeCase", () => {
   it("converts camelCase to snake_case", () => {
@@ -54,3 +61,21 @@ describe("toTableVariableName", () => {
     assert.equal(toTableVariableName("BookGenre", false), "bookGenre");
   });
 });
+
+describe("singularize", () => {
+  it("undoes pluralize", () => {
+    for (const word of ["story", "day", "box", "dish", "book", "address"]) {
+      assert.equal(singularize(pluralize(word)), word);
+    }
+  });
+
+  it("keeps a double-s ending", () => {
+    assert.equal(singularize("class"), "class");
+  });
+});
+
+describe("toPascalCase", () => {
+  it("converts snake_case to PascalCase", () => {
+    assert.equal(toPascalCase("book_genre"), "BookGenre");
+  });
+});
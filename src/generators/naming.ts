@@ -30,3 +30,26 @@ export function pluralize(word: string): string {
   }
   return `${word}s`;
 }
+
+/**
+ * Inverse of `pluralize` for table names: ies → y, sibilant+es → sibilant,
+ * trailing s dropped ("categories" → "category", "boxes" → "box").
+ */
+export function singularize(word: string): string {
+  if (word.endsWith("ies")) {
+    return `${word.slice(0, -3)}y`;
+  }
+  if (/(?:ss|sh|ch|x|z)es$/.test(word)) {
+    return word.slice(0, -2);
+  }
+  if (word.endsWith("s") && !word.endsWith("ss")) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+/** Convert snake_case to PascalCase: "book_genre" → "BookGenre" */
+export function toPascalCase(str: string): string {
+  const camel = toCamelCase(str);
+  return camel.charAt(0).toUpperCase() + camel.slice(1);
+}
@@ -49,12 +49,20 @@ describe("composite primary key describe", () => {
   const output = generateDescribe([editionLocale], buildRelationGraph([editionLocale]));
 
   it("emits one parameter per primary-key column", () => {
-    assert.ok(output.includes("  editionId: string,"));
-    assert.ok(output.includes("  languageCode: string,"));
+    assert.ok(
+      output.includes('  editionId: typeof schema.editionLocales.$inferSelect["editionId"],'),
+    );
+    assert.ok(
+      output.includes('  languageCode: typeof schema.editionLocales.$inferSelect["languageCode"],'),
+    );
   });
 
   it("filters on every primary-key column", () => {
-    assert.ok(output.includes("where: { editionId, languageCode }"));
+    assert.ok(
+      output.includes(
+        "where: { editionId: { eq: editionId }, languageCode: { eq: languageCode } }",
+      ),
+    );
   });
 });
 
@@ -183,6 +191,26 @@ describe("onDelete referential action", () => {
     assert.ok(col.includes('.references(() => books.bookId, { onDelete: "cascade" })'));
   });
 
+  it("emits the onUpdate option next to onDelete", () => {
+    const field = baseField("bookId", {
+      columnName: "book_id",
+      type: { kind: "uuid", encoding: "base36" },
+      nullable: true,
+      references: {
+        tableName: "Book",
+        fieldName: "bookId",
+        onDelete: "set null",
+        onUpdate: "cascade",
+      },
+    });
+    const col = mapFieldToColumn(field, tableFor(field), pg);
+    assert.ok(
+      col.includes(
+        '.references(() => books.bookId, { onDelete: "set null", onUpdate: "cascade" })',
+      ),
+    );
+  });
+
   it("emits a bare reference when no policy is set", () => {
     const field = baseField("translatorId", {
       columnName: "translator_id",
@@ -196,7 +224,7 @@ describe("onDelete referential action", () => {
   });
 });
 
-describe("every column kind across both dialects", () => {
+describe("every column kind across dialects", () => {
   const kinds: FieldType[] = [
     { kind: "text" },
     { kind: "varchar", length: 32 },
@@ -227,7 +255,7 @@ describe("every column kind across both dialects", () => {
     };
   }
 
-  for (const dialect of [pg, sqlite]) {
+  for (const dialect of [pg, sqlite, resolveDialect("mysql")]) {
     it(`renders every non-nullable column kind (${dialect.dialect})`, () => {
       const output = generateSchema([everyKindTable(false)], [], dialect, false);
       assert.ok(output.includes("export const everything ="));
@@ -14,6 +14,50 @@ export function generateRelations(
   lines.push(importDecl([], "./schema.js", { namespace: "schema" }));
   lines.push("");
   lines.push("export const relations = defineRelations(schema, (r) => ({");
+  lines.push(...generateRelationsBody(tables, graph, shouldPluralize));
+  lines.push("}));");
+  lines.push("");
+
+  return lines.join("\n");
+}
+
+/**
+ * Generates one `relations/<service>.ts` module of the per-service layout: a
+ * `defineRelationsPart` over the whole schema (so relations may cross services)
+ * holding the given tables.
+ *
+ * Drizzle pairs a bare `many` with its `one` only within the same part, so a
+ * `many` whose FK holder lives in another service spells out its columns.
+ */
+export function generateRelationsPart(
+  exportName: string,
+  tables: TableDef[],
+  graph: RelationGraph,
+  shouldPluralize = true,
+): string {
+  const lines: string[] = [];
+
+  lines.push(importDecl(["defineRelationsPart"], "drizzle-orm"));
+  lines.push(importDecl([], "../schema.js", { namespace: "schema" }));
+  lines.push("");
+  lines.push(`export const ${exportName} = defineRelationsPart(schema, (r) => ({`);
+  lines.push(...generateRelationsBody(tables, graph, shouldPluralize, true));
+  lines.push("}));");
+  lines.push("");
+
+  return lines.join("\n");
+}
+
+function generateRelationsBody(
+  tables: TableDef[],
+  graph: RelationGraph,
+  shouldPluralize: boolean,
+  isPart = false,
+): string[] {
+  const lines: string[] = [];
+  const local = new Set(tables.map((t) => t.name));
+  // In a part, a `many` over a holder outside it cannot find its reverse `one`
+  const needsColumns = (rel: Relation) => isPart && rel.kind === "many" && !local.has(rel.table);
 
   for (const table of tables) {
     const tableVar = toTableVariableName(table.name, shouldPluralize);
@@ -22,34 +66,46 @@ export function generateRelations(
     lines.push(`  ${tableVar}: {`);
 
     for (const rel of rels) {
-      lines.push(`    ${generateRelationEntry(rel, tableVar, shouldPluralize)}`);
+      lines.push(`    ${generateRelationEntry(rel, tableVar, shouldPluralize, needsColumns(rel))}`);
     }
 
     lines.push("  },");
   }
 
-  lines.push("}));");
-  lines.push("");
-
-  return lines.join("\n");
+  return lines;
 }
 
-function generateRelationEntry(rel: Relation, tableVar: string, shouldPluralize: boolean): string {
+function generateRelationEntry(
+  rel: Relation,
+  tableVar: string,
+  shouldPluralize: boolean,
+  withColumns: boolean,
+): string {
   switch (rel.kind) {
     case "one": {
       const targetTableVar = toTableVariableName(rel.toTable, shouldPluralize);
-      const config = objectLiteral(
-        [
-          ["from", new RawCode(`r.${tableVar}.${rel.fromField}`)],
-          ["to", new RawCode(`r.${targetTableVar}.${rel.toField}`)],
-        ],
-        { concise: true },
-      );
+      const entries: [string, string | RawCode][] = [
+        ["from", new RawCode(columnRefs(rel.fromFields.map((f) => `r.${tableVar}.${f}`)))],
+        ["to", new RawCode(columnRefs(rel.toFields.map((f) => `r.${targetTableVar}.${f}`)))],
+      ];
+      // Drizzle types a `one` as nullable unless told otherwise
+      if (!rel.optional) entries.push(["optional", "false"]);
+      if (rel.alias) entries.push(["alias", JSON.stringify(rel.alias)]);
+      const config = objectLiteral(entries, { concise: true });
       return `${rel.name}: r.one.${targetTableVar}(${config}),`;
     }
     case "many": {
       const manyTableVar = toTableVariableName(rel.table, shouldPluralize);
-      return `${rel.name}: r.many.${manyTableVar}(),`;
+      const entries: [string, string | RawCode][] = [];
+      if (withColumns) {
+        entries.push(
+          ["from", new RawCode(columnRefs(rel.fromFields.map((f) => `r.${tableVar}.${f}`)))],
+          ["to", new RawCode(columnRefs(rel.toFields.map((f) => `r.${manyTableVar}.${f}`)))],
+        );
+      }
+      if (rel.alias) entries.push(["alias", JSON.stringify(rel.alias)]);
+      const config = entries.length > 0 ? objectLiteral(entries, { concise: true }) : "";
+      return `${rel.name}: r.many.${manyTableVar}(${config}),`;
     }
     case "many-through": {
       const targetTableVar = toTableVariableName(rel.toTable, shouldPluralize);
@@ -59,13 +115,23 @@ function generateRelationEntry(rel: Relation, tableVar: string, shouldPluralize:
           [
             "from",
             new RawCode(
-              `r.${tableVar}.${rel.fromField}.through(r.${junctionTableVar}.${rel.junction.fromField})`,
+              columnRefs(
+                rel.fromFields.map(
+                  (f, i) =>
+                    `r.${tableVar}.${f}.through(r.${junctionTableVar}.${rel.junction.fromFields[i]})`,
+                ),
+              ),
             ),
           ],
           [
             "to",
             new RawCode(
-              `r.${targetTableVar}.${rel.toField}.through(r.${junctionTableVar}.${rel.junction.toField})`,
+              columnRefs(
+                rel.toFields.map(
+                  (f, i) =>
+                    `r.${targetTableVar}.${f}.through(r.${junctionTableVar}.${rel.junction.toFields[i]})`,
+                ),
+              ),
             ),
           ],
         ],
@@ -75,3 +141,8 @@ function generateRelationEntry(rel: Relation, tableVar: string, shouldPluralize:
     }
   }
 }
+
+/** A single key column as-is, a composite key as a `[a, b]` array */
+function columnRefs(refs: string[]): string {
+  return refs.length === 1 ? refs[0] : `[${refs.join(", ")}]`;
+}
@@ -2,6 +2,7 @@ import assert from "node:assert/strict";
 import { describe, it } from "node:test";
 import { bookstoreTables } from "../fixtures/bookstore-ir.ts";
 import { buildRelationGraph } from "../ir/relation-graph.ts";
+import type { TableDef } from "../ir/types.ts";
 import { generateRelations } from "./relations-generator.ts";
 
 const graph = buildRelationGraph(bookstoreTables);
@@ -134,6 +135,19 @@ describe("relations generator", () => {
     assert.ok(output.includes("to: r.publishers.publisherId"));
   });
 
+  it("marks one relations over required foreign keys as not optional", () => {
+    assert.ok(
+      output.includes(
+        "    book: r.one.books({ from: r.editions.bookId, to: r.books.bookId, optional: false }),",
+      ),
+    );
+    assert.ok(
+      output.includes(
+        "    translator: r.one.translators({ from: r.editions.translatorId, to: r.translators.translatorId }),",
+      ),
+    );
+  });
+
   // ===========================================
   // Review relations
   // ===========================================
@@ -181,3 +195,134 @@ describe("relations generator", () => {
     assert.equal(openParens, closeParens, "Unbalanced parentheses");
   });
 });
+
+describe("relations generator: composite foreign keys", () => {
+  function table(name: string, fields: string[], over: Partial<TableDef> = {}): TableDef {
+    return {
+      name,
+      service: "test",
+      tableName: name.toLowerCase(),
+      primaryKey: {
+        tableName: name.toLowerCase(),
+        columns: fields,
+        isComposite: fields.length > 1,
+      },
+      fields: fields.map((f) => ({
+        name: f,
+        columnName: f,
+        type: { kind: "text" },
+        nullable: false,
+        createdAt: false,
+        updatedAt: false,
+      })),
+      foreignKeys: [],
+      isJunction: false,
+      indexes: [],
+      uniqueConstraints: [],
+      ...over,
+    };
+  }
+
+  const lineFk = {
+    name: "fk_line",
+    columns: ["orderId", "lineNo"],
+    foreignTable: "OrderLine",
+    foreignColumns: ["orderId", "lineNo"],
+  };
+  const tagFk = {
+    name: "fk_tag",
+    columns: ["tagId"],
+    foreignTable: "Tag",
+    foreignColumns: ["tagId"],
+  };
+  const tables = [
+    table("OrderLine", ["orderId", "lineNo"]),
+    table("Tag", ["tagId"]),
+    table("LineTag", ["orderId", "lineNo", "tagId"], {
+      isJunction: true,
+      foreignKeys: [lineFk, tagFk],
+    }),
+  ];
+  const composite = generateRelations(tables, buildRelationGraph(tables));
+
+  it("passes multi-column keys as from/to arrays", () => {
+    assert.ok(
+      composite.includes(
+        "orderLine: r.one.orderLines({ from: [r.lineTags.orderId, r.lineTags.lineNo], to: [r.orderLines.orderId, r.orderLines.lineNo], optional: false }),",
+      ),
+    );
+    assert.ok(
+      composite.includes(
+        "tag: r.one.tags({ from: r.lineTags.tagId, to: r.tags.tagId, optional: false }),",
+      ),
+    );
+  });
+
+  it("pairs each composite column with its junction column in many-through", () => {
+    assert.ok(
+      composite.includes(
+        "tags: r.many.tags({ from: [r.orderLines.orderId.through(r.lineTags.orderId), r.orderLines.lineNo.through(r.lineTags.lineNo)], to: r.tags.tagId.through(r.lineTags.tagId) }),",
+      ),
+    );
+    assert.ok(
+      composite.includes(
+        "orderLines: r.many.orderLines({ from: r.tags.tagId.through(r.lineTags.tagId), to: [r.orderLines.orderId.through(r.lineTags.orderId), r.orderLines.lineNo.through(r.lineTags.lineNo)] }),",
+      ),
+    );
+  });
+});
+
+describe("relations generator: several references to one table", () => {
+  const user = bookstoreTables[0];
+  const post: TableDef = {
+    ...user,
+    name: "Post",
+    tableName: "posts",
+    fields: [
+      ...user.fields.slice(0, 1),
+      {
+        ...user.fields[0],
+        name: "createdById",
+        columnName: "created_by_id",
+        references: { tableName: user.name, fieldName: user.fields[0].name },
+      },
+      {
+        ...user.fields[0],
+        name: "approvedById",
+        columnName: "approved_by_id",
+        references: {
+          tableName: user.name,
+          fieldName: user.fields[0].name,
+          inverseName: "approvedPosts",
+        },
+      },
+    ],
+  };
+  const tables = [user, post];
+  const aliased = generateRelations(tables, buildRelationGraph(tables));
+
+  it("pairs each one relation with its many reverse by alias", () => {
+    assert.ok(
+      aliased.includes(
+        'createdBy: r.one.authors({ from: r.posts.createdById, to: r.authors.authorId, optional: false, alias: "createdBy" }),',
+      ),
+    );
+    assert.ok(aliased.includes('posts: r.many.posts({ alias: "createdBy" }),'));
+    assert.ok(aliased.includes('approvedPosts: r.many.posts({ alias: "approvedBy" }),'));
+  });
+
+  it("spells out the columns of a one-to-one reverse", () => {
+    const profile: TableDef = {
+      ...post,
+      name: "Profile",
+      tableName: "profiles",
+      fields: [{ ...post.fields[1], constraints: { unique: true } }],
+    };
+    const linked = generateRelations([user, profile], buildRelationGraph([user, profile]));
+    assert.ok(
+      linked.includes(
+        "profile: r.one.profiles({ from: r.authors.authorId, to: r.profiles.createdById }),",
+      ),
+    );
+  });
+});
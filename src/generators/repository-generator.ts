@@ -0,0 +1,491 @@
+import { arrayLiteral, importDecl, quoted } from "../codegen/index.js";
+import type { FieldDef, IndexDef, TableDef } from "../ir/types.js";
+import type { Dialect } from "./dialect.js";
+import {
+  ftsTableName,
+  SEARCH_CONFIG,
+  SEARCH_PROPERTY,
+  searchFields,
+} from "./migration-generator.js";
+import { pluralize, toCamelCase, toPascalCase, toTableVariableName } from "./naming.js";
+
+const DEFAULT_LIST_LIMIT = 100;
+
+const DEFAULT_NEAREST_LIMIT = 10;
+
+const DEFAULT_SEARCH_LIMIT = 20;
+
+/** Turns user input into an FTS5 query without operators, like `websearch_to_tsquery` on Postgres */
+const FTS_QUERY_HELPER = [
+  "/** Every word of `query` quoted as an FTS5 string, so all must match and none is read as syntax */",
+  "const ftsQuery = (query: string): string =>",
+  "  query",
+  "    .split(/\\s+/)",
+  "    .filter(Boolean)",
+  `    .map((word) => \`"\${word.replaceAll('"', '""')}"\`)`,
+  '    .join(" ");',
+];
+
+/** Distance functions of the TypeScript ranking used without pgvector, as pgvector computes them */
+const VECTOR_DISTANCE_HELPERS = [
+  "/** 1 - cosine similarity, as pgvector's `<=>` */",
+  "const cosineDistance = (a: number[], b: number[]): number => {",
+  "  let dot = 0;",
+  "  let normA = 0;",
+  "  let normB = 0;",
+  "  for (let i = 0; i < a.length; i++) {",
+  "    dot += a[i] * b[i];",
+  "    normA += a[i] * a[i];",
+  "    normB += b[i] * b[i];",
+  "  }",
+  "  return 1 - dot / Math.sqrt(normA * normB);",
+  "};",
+  "",
+  "/** Euclidean distance, as pgvector's `<->` */",
+  "const l2Distance = (a: number[], b: number[]): number =>",
+  "  Math.sqrt(a.reduce((sum, x, i) => sum + (x - b[i]) ** 2, 0));",
+  "",
+  "/** The rows that have a vector, nearest to `embedding` first */",
+  "const rankByDistance = <TRow>(",
+  "  rows: TRow[],",
+  "  vectorOf: (row: TRow) => number[] | null | undefined,",
+  "  embedding: number[],",
+  "  distance: (a: number[], b: number[]) => number,",
+  "): TRow[] =>",
+  "  rows",
+  "    .flatMap((row) => {",
+  "      const vector = vectorOf(row);",
+  "      return vector ? [{ row, score: distance(vector, embedding) }] : [];",
+  "    })",
+  "    .sort((a, b) => a.score - b.score)",
+  "    .map(({ row }) => row);",
+];
+
+/**
+ * Generates `repository.ts`: typed create/update/delete/list/upsert functions per
+ * non-junction table.
+ *
+ * - Write inputs omit `@columnVisibility("read")`, `@createdAt`/`@updatedAt` and
+ *   `@identity("always")` columns; update inputs also omit the primary key, which
+ *   is passed separately.
+ * - `update` and `upsert` set `updatedAt` to the current time. Tables keyed by
+ *   `@identity("always")` get no `upsert`: callers never supply the key.
+ * - Every function returns `$inferSelect` rows via `.returning()`.
+ * - Each btree `@indexDef` over plain columns adds a keyset-paginated
+ *   `list<Entity>By<Index>` query (see `generateIndexQuery`).
+ * - Each `@vector` column adds a `nearest<Entity>` similarity search (see
+ *   `generateNearestQuery`).
+ * - Tables with `@searchable` columns get a ranked `search<Entity>` full-text
+ *   query (see `generateSearchQuery`).
+ */
+export function generateRepository(
+  tables: TableDef[],
+  shouldPluralize = true,
+  dialect: Dialect = "pg",
+): string {
+  const writable = tables.filter((t) => !t.isJunction);
+  const operators = new Set(["eq"]);
+  const blocks: string[][] = [];
+  const keysetIndexes = (table: TableDef) =>
+    table.indexes.filter((idx) => !idx.using && !idx.method && !idx.expressions);
+
+  for (const table of writable) {
+    if (table.primaryKey.isComposite) operators.add("and");
+    const block = generateRepositoryBlock(table, shouldPluralize);
+    for (const index of keysetIndexes(table)) {
+      block.push("", ...generateIndexQuery(table, index, shouldPluralize, operators));
+    }
+    const vectors = table.fields.filter((f) => f.type.kind === "vector");
+    for (const field of vectors) {
+      const name = `nearest${table.name}${vectors.length > 1 ? `By${toPascalCase(field.name)}` : ""}`;
+      block.push(
+        "",
+        ...generateNearestQuery(table, field, name, shouldPluralize, dialect, operators),
+      );
+    }
+    if (searchFields(table).length > 0) {
+      block.push("", ...generateSearchQuery(table, shouldPluralize, dialect, operators));
+    }
+    blocks.push(block);
+  }
+  const searchable = writable.some((t) => searchFields(t).length > 0);
+
+  const rankInTypeScript =
+    dialect !== "pg" && writable.some((t) => t.fields.some((f) => f.type.kind === "vector"));
+
+  const lines: string[] = [];
+
+  lines.push(importDecl([...operators].sort(), "drizzle-orm"));
+  lines.push(importDecl([], "./schema.js", { namespace: "schema" }));
+  lines.push(importDecl(["DrizzleClient"], "./types.js", { type: true }));
+  lines.push("");
+  lines.push("export interface ListOptions {", "  limit?: number;", "  offset?: number;", "}");
+
+  if (writable.some((t) => keysetIndexes(t).length > 0)) {
+    lines.push("");
+    lines.push(
+      "export interface KeysetOptions<TCursor> {",
+      "  limit?: number;",
+      "  /** `nextCursor` of the previous page */",
+      "  cursor?: TCursor;",
+      "}",
+      "",
+      "export interface KeysetPage<TRow, TCursor> {",
+      "  items: TRow[];",
+      "  /** Pass back as `cursor` for the next page; undefined on the last page */",
+      "  nextCursor: TCursor | undefined;",
+      "}",
+    );
+  }
+
+  if (searchable) {
+    lines.push("", "export interface SearchOptions {", "  limit?: number;", "}");
+  }
+
+  if (rankInTypeScript) {
+    lines.push("", ...VECTOR_DISTANCE_HELPERS);
+  }
+
+  if (searchable && dialect !== "pg") {
+    lines.push("", ...FTS_QUERY_HELPER);
+  }
+
+  for (const block of blocks) {
+    lines.push("");
+    lines.push(...block);
+  }
+
+  lines.push("");
+
+  return lines.join("\n");
+}
+
+function generateRepositoryBlock(table: TableDef, shouldPluralize: boolean): string[] {
+  const entity = table.name;
+  const tableRef = `schema.${toTableVariableName(table.name, shouldPluralize)}`;
+  const rowType = `${entity}Row`;
+  const createType = `${entity}CreateInput`;
+  const updateType = `${entity}UpdateInput`;
+  const pkFields = table.primaryKey.columns;
+
+  const omitted = table.fields.filter(isOmittedOnWrite);
+  const updatedAt = table.fields.find((f) => f.updatedAt);
+
+  // A read-only NOT NULL column without a default must be filled in by the
+  // database (trigger, generated column); the input cannot satisfy `$inferInsert`.
+  const values = omitted.some(isRequiredOnInsert)
+    ? `input as typeof ${tableRef}.$inferInsert`
+    : "input";
+  const setUpdated = updatedAt ? `, ${updatedAt.name}: new Date()` : "";
+
+  const pkParams = pkFields.map((pk) => `  ${pk}: ${rowType}[${quoted(pk)}],`);
+  const where = whereClause(tableRef, pkFields);
+  const pkColumns = pkFields.map((pk) => `${tableRef}.${pk}`);
+
+  const lines = [
+    `export type ${rowType} = typeof ${tableRef}.$inferSelect;`,
+    `export type ${createType} = ${omitType(
+      `typeof ${tableRef}.$inferInsert`,
+      omitted.map((f) => f.name),
+    )};`,
+    `export type ${updateType} = Partial<${omitType(createType, pkFields)}>;`,
+    "",
+    `export const create${entity} = async (`,
+    "  db: DrizzleClient,",
+    `  input: ${createType},`,
+    `): Promise<${rowType}> => {`,
+    `  const [row] = await db.insert(${tableRef}).values(${values}).returning();`,
+    "  return row;",
+    "};",
+    "",
+    `export const update${entity} = async (`,
+    "  db: DrizzleClient,",
+    ...pkParams,
+    `  input: ${updateType},`,
+    `): Promise<${rowType} | undefined> => {`,
+    "  const [row] = await db",
+    `    .update(${tableRef})`,
+    `    .set({ ...input${setUpdated} })`,
+    `    .where(${where})`,
+    "    .returning();",
+    "  return row;",
+    "};",
+    "",
+    `export const delete${entity} = async (`,
+    "  db: DrizzleClient,",
+    ...pkParams,
+    `): Promise<${rowType} | undefined> => {`,
+    `  const [row] = await db.delete(${tableRef}).where(${where}).returning();`,
+    "  return row;",
+    "};",
+    "",
+    `export const list${pluralize(entity)} = (`,
+    "  db: DrizzleClient,",
+    `  { limit = ${DEFAULT_LIST_LIMIT}, offset = 0 }: ListOptions = {},`,
+    `): Promise<${rowType}[]> =>`,
+    `  db.select().from(${tableRef}).orderBy(${pkColumns.join(", ")}).limit(limit).offset(offset);`,
+  ];
+  if (table.fields.some((f) => f.identity === "always")) return lines;
+
+  lines.push(
+    "",
+    `export const upsert${entity} = async (`,
+    "  db: DrizzleClient,",
+    `  input: ${createType},`,
+    `): Promise<${rowType}> => {`,
+    "  const [row] = await db",
+    `    .insert(${tableRef})`,
+    `    .values(${values})`,
+    `    .onConflictDoUpdate({ target: ${arrayLiteral(pkColumns)}, set: { ...input${setUpdated} } })`,
+    "    .returning();",
+    "  return row;",
+    "};",
+  );
+  return lines;
+}
+
+/**
+ * `list<Entity>By<Index>`: the index's leading `filterColumns` become equality
+ * filters, and the query pages over the remaining columns plus the primary key
+ * (which makes the order total) with a keyset cursor. Nullable sort columns are
+ * left out of the keyset, since NULLs do not compare. Columns the index sorts
+ * `desc` are ordered and paged descending.
+ */
+function generateIndexQuery(
+  table: TableDef,
+  index: IndexDef,
+  shouldPluralize: boolean,
+  operators: Set<string>,
+): string[] {
+  const tableRef = `schema.${toTableVariableName(table.name, shouldPluralize)}`;
+  const rowType = `${table.name}Row`;
+  const suffix = indexQuerySuffix(table, index);
+  const cursorType = `${table.name}By${suffix}Cursor`;
+  const fields = new Map(table.fields.map((f) => [f.name, f]));
+
+  const filterCount = index.filterColumns ?? Math.max(index.columns.length - 1, 0);
+  const filters = index.columns.slice(0, filterCount);
+  const sortColumns = [...index.columns.slice(filterCount), ...table.primaryKey.columns].filter(
+    (col, i, all) => !filters.includes(col) && all.indexOf(col) === i && !fields.get(col)?.nullable,
+  );
+
+  const descending = new Set(sortColumns.filter((col) => index.order?.[col]?.direction === "desc"));
+  if (descending.size < sortColumns.length) operators.add("gt");
+  if (descending.size > 0) {
+    operators.add("lt");
+    operators.add("desc");
+  }
+  if (sortColumns.length > 1) operators.add("or");
+  if (filters.length > 0 || sortColumns.length > 1) operators.add("and");
+
+  const keyset = keysetCondition(tableRef, sortColumns, descending);
+  const orderBy = sortColumns.map((col) =>
+    descending.has(col) ? `desc(${tableRef}.${col})` : `${tableRef}.${col}`,
+  );
+  const cursorCondition = `cursor ? ${keyset} : undefined`;
+  const where =
+    filters.length > 0
+      ? [
+          "    .where(",
+          "      and(",
+          ...filters.map((col) => `        eq(${tableRef}.${col}, filter.${col}),`),
+          `        ${cursorCondition},`,
+          "      ),",
+          "    )",
+        ]
+      : [`    .where(${cursorCondition})`];
+
+  const filterParam = filters.map((col) => {
+    const type = `${rowType}[${quoted(col)}]`;
+    return `${col}: ${fields.get(col)?.nullable ? `NonNullable<${type}>` : type}`;
+  });
+  const nextCursor = sortColumns.map((col) => `${col}: last.${col}`).join(", ");
+
+  return [
+    `export type ${cursorType} = Pick<${rowType}, ${sortColumns.map((c) => quoted(c)).join(" | ")}>;`,
+    "",
+    `export const list${table.name}By${suffix} = async (`,
+    "  db: DrizzleClient,",
+    ...(filters.length > 0 ? [`  filter: { ${filterParam.join("; ")} },`] : []),
+    `  { limit = ${DEFAULT_LIST_LIMIT}, cursor }: KeysetOptions<${cursorType}> = {},`,
+    `): Promise<KeysetPage<${rowType}, ${cursorType}>> => {`,
+    "  const rows = await db",
+    "    .select()",
+    `    .from(${tableRef})`,
+    ...where,
+    `    .orderBy(${orderBy.join(", ")})`,
+    "    .limit(limit + 1);",
+    "  const items = rows.slice(0, limit);",
+    "  const last = items.at(-1);",
+    "  return {",
+    "    items,",
+    `    nextCursor: rows.length > limit && last ? { ${nextCursor} } : undefined,`,
+    "  };",
+    "};",
+  ];
+}
+
+/**
+ * `nearest<Entity>`: the `limit` rows whose vector is nearest to `embedding` by
+ * the column's distance; rows without a vector are left out. Postgres orders by
+ * pgvector's distance operator, which an `@vectorIndex` speeds up. Other dialects
+ * store vectors as JSON, so every row is loaded and ranked in TypeScript, which
+ * suits tests and small tables.
+ */
+function generateNearestQuery(
+  table: TableDef,
+  field: FieldDef,
+  name: string,
+  shouldPluralize: boolean,
+  dialect: Dialect,
+  operators: Set<string>,
+): string[] {
+  const tableRef = `schema.${toTableVariableName(table.name, shouldPluralize)}`;
+  const rowType = `${table.name}Row`;
+  const column = `${tableRef}.${field.name}`;
+  const distance =
+    field.type.kind === "vector" && field.type.distance === "l2" ? "l2Distance" : "cosineDistance";
+  const signature = [
+    "  db: DrizzleClient,",
+    "  embedding: number[],",
+    `  limit = ${DEFAULT_NEAREST_LIMIT},`,
+  ];
+
+  if (dialect !== "pg") {
+    return [
+      `export const ${name} = async (`,
+      ...signature,
+      `): Promise<${rowType}[]> => {`,
+      `  const rows = await db.select().from(${tableRef});`,
+      `  return rankByDistance(rows, (row) => row.${field.name}, embedding, ${distance}).slice(0, limit);`,
+      "};",
+    ];
+  }
+
+  operators.add(distance);
+  if (field.nullable) operators.add("isNotNull");
+  return [
+    `export const ${name} = (`,
+    ...signature,
+    `): Promise<${rowType}[]> =>`,
+    "  db",
+    "    .select()",
+    `    .from(${tableRef})`,
+    ...(field.nullable ? [`    .where(isNotNull(${column}))`] : []),
+    `    .orderBy(${distance}(${column}, embedding))`,
+    "    .limit(limit);",
+  ];
+}
+
+/**
+ * `search<Entity>`: the `limit` rows matching every word of `query`, best match
+ * first. Postgres matches the generated search column against
+ * `websearch_to_tsquery` and ranks by `ts_rank`; SQLite matches the FTS5 table
+ * the migration keeps in sync and ranks by its weighted bm25 `rank`.
+ */
+function generateSearchQuery(
+  table: TableDef,
+  shouldPluralize: boolean,
+  dialect: Dialect,
+  operators: Set<string>,
+): string[] {
+  const tableRef = `schema.${toTableVariableName(table.name, shouldPluralize)}`;
+  const signature = [
+    `export const search${table.name} = async (`,
+    "  db: DrizzleClient,",
+    "  query: string,",
+    `  { limit = ${DEFAULT_SEARCH_LIMIT} }: SearchOptions = {},`,
+    `): Promise<${table.name}Row[]> => {`,
+  ];
+  operators.add("sql");
+
+  if (dialect === "pg") {
+    const column = `${tableRef}.${SEARCH_PROPERTY}`;
+    operators.add("desc");
+    return [
+      ...signature,
+      `  const tsquery = sql\`websearch_to_tsquery('${SEARCH_CONFIG}', \${query})\`;`,
+      "  return db",
+      "    .select()",
+      `    .from(${tableRef})`,
+      `    .where(sql\`\${${column}} @@ \${tsquery}\`)`,
+      `    .orderBy(desc(sql\`ts_rank(\${${column}}, \${tsquery})\`))`,
+      "    .limit(limit);",
+      "};",
+    ];
+  }
+
+  const fts = `"${ftsTableName(table)}"`;
+  return [
+    ...signature,
+    "  const match = ftsQuery(query);",
+    "  if (!match) return [];",
+    "  return db",
+    "    .select()",
+    `    .from(${tableRef})`,
+    `    .where(sql\`\${${tableRef}}.rowid IN (SELECT rowid FROM ${fts} WHERE ${fts} MATCH \${match})\`)`,
+    "    .orderBy(",
+    `      sql\`(SELECT rank FROM ${fts} WHERE ${fts} MATCH \${match} AND rowid = \${${tableRef}}.rowid)\`,`,
+    "    )",
+    "    .limit(limit);",
+    "};",
+  ];
+}
+
+/**
+ * `(a > x) OR (a = x AND b > y) ...` over the sort columns, read from `cursor`;
+ * descending columns compare with `<`
+ */
+function keysetCondition(tableRef: string, sortColumns: string[], descending: Set<string>): string {
+  const terms = sortColumns.map((col, i) => {
+    const conditions = [
+      ...sortColumns.slice(0, i).map((prev) => `eq(${tableRef}.${prev}, cursor.${prev})`),
+      `${descending.has(col) ? "lt" : "gt"}(${tableRef}.${col}, cursor.${col})`,
+    ];
+    return conditions.length === 1 ? conditions[0] : `and(${conditions.join(", ")})`;
+  });
+  return terms.length === 1 ? terms[0] : `or(${terms.join(", ")})`;
+}
+
+/**
+ * PascalCase name of the access pattern: the index name without the table-name
+ * prefix, a leading `by_` and `idx`/`index` affixes
+ * ("books_author_publication_idx" → "AuthorPublication"),
+ * falling back to the column names.
+ */
+function indexQuerySuffix(table: TableDef, index: IndexDef): string {
+  let name = index.name.replace(/^(idx|index)_/, "").replace(/_(idx|index)$/, "");
+  if (name.startsWith(`${table.tableName}_`)) name = name.slice(table.tableName.length + 1);
+  name = name.replace(/^by_/, "");
+  if (!name) name = index.columns.join("_");
+  const camel = toCamelCase(name);
+  return camel[0].toUpperCase() + camel.slice(1);
+}
+
+function isOmittedOnWrite(field: FieldDef): boolean {
+  return (
+    field.visibility === "read" || field.createdAt || field.updatedAt || field.identity === "always"
+  );
+}
+
+function isRequiredOnInsert(field: FieldDef): boolean {
+  return (
+    !field.nullable &&
+    field.defaultValue === undefined &&
+    !field.createdAt &&
+    !field.updatedAt &&
+    !field.uuid?.autoGenerate &&
+    !field.autoGenerateId &&
+    !field.identity
+  );
+}
+
+function omitType(base: string, keys: string[]): string {
+  if (keys.length === 0) return base;
+  return `Omit<${base}, ${keys.map((k) => quoted(k)).join(" | ")}>`;
+}
+
+function whereClause(tableRef: string, pkFields: string[]): string {
+  const conditions = pkFields.map((pk) => `eq(${tableRef}.${pk}, ${pk})`);
+  return conditions.length === 1 ? conditions[0] : `and(${conditions.join(", ")})`;
+}
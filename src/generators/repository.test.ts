@@ -0,0 +1,397 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { bookstoreTables } from "../fixtures/bookstore-ir.ts";
+import type { FieldDef, TableDef } from "../ir/types.ts";
+import { generateRepository } from "./repository-generator.ts";
+
+const output = generateRepository(bookstoreTables);
+
+function field(name: string, overrides: Partial<FieldDef> = {}): FieldDef {
+  return {
+    name,
+    columnName: name,
+    type: { kind: "text" },
+    nullable: false,
+    createdAt: false,
+    updatedAt: false,
+    ...overrides,
+  };
+}
+
+const stockLevel: TableDef = {
+  name: "StockLevel",
+  service: "shop",
+  tableName: "stock_levels",
+  primaryKey: { tableName: "stock_levels", columns: ["warehouseId", "sku"], isComposite: true },
+  fields: [
+    field("warehouseId"),
+    field("sku"),
+    field("quantity", { type: { kind: "integer" }, defaultValue: 0 }),
+  ],
+  foreignKeys: [],
+  isJunction: false,
+  indexes: [],
+  uniqueConstraints: [],
+};
+
+describe("repository generator", () => {
+  it("imports eq, the schema namespace and DrizzleClient", () => {
+    const authors = generateRepository(bookstoreTables.filter((t) => t.name === "Author"));
+    assert.ok(authors.includes('import { eq } from "drizzle-orm";'));
+    assert.ok(output.includes('import * as schema from "./schema.js";'));
+    assert.ok(output.includes('import type { DrizzleClient } from "./types.js";'));
+  });
+
+  it("skips junction tables", () => {
+    assert.ok(!output.includes("createBookGenre"));
+    assert.ok(output.includes("export const createBookTag = async ("));
+  });
+
+  it("omits read-only and timestamp columns from write inputs", () => {
+    assert.ok(
+      output.includes(
+        'export type AuthorCreateInput = Omit<typeof schema.authors.$inferInsert, "name" | "createdAt" | "updatedAt">;',
+      ),
+    );
+    assert.ok(
+      output.includes(
+        'export type AuthorUpdateInput = Partial<Omit<AuthorCreateInput, "authorId">>;',
+      ),
+    );
+  });
+
+  it("returns $inferSelect rows", () => {
+    assert.ok(output.includes("export type AuthorRow = typeof schema.authors.$inferSelect;"));
+    assert.ok(output.includes("): Promise<AuthorRow> => {"));
+    assert.ok(output.includes("): Promise<AuthorRow | undefined> => {"));
+    assert.ok(output.includes("): Promise<AuthorRow[]> =>"));
+  });
+
+  it("sets updatedAt on update and upsert", () => {
+    assert.ok(output.includes("    .set({ ...input, updatedAt: new Date() })"));
+    assert.ok(
+      output.includes(
+        "    .onConflictDoUpdate({ target: [schema.authors.authorId], set: { ...input, updatedAt: new Date() } })",
+      ),
+    );
+  });
+
+  it("filters update and delete by the primary key", () => {
+    assert.ok(output.includes('  authorId: AuthorRow["authorId"],'));
+    assert.ok(
+      output.includes(
+        "  const [row] = await db.delete(schema.authors).where(eq(schema.authors.authorId, authorId)).returning();",
+      ),
+    );
+  });
+
+  it("lists with limit/offset ordered by the primary key", () => {
+    assert.ok(output.includes("export const listAuthors = ("));
+    assert.ok(output.includes("export const listBookTags = ("));
+    assert.ok(
+      output.includes(
+        "  db.select().from(schema.authors).orderBy(schema.authors.authorId).limit(limit).offset(offset);",
+      ),
+    );
+  });
+});
+
+describe("repository generator (composite primary key)", () => {
+  const composite = generateRepository([stockLevel]);
+
+  it("imports and() and takes one parameter per key column", () => {
+    assert.ok(composite.includes('import { and, eq } from "drizzle-orm";'));
+    assert.ok(
+      composite.includes(
+        '  warehouseId: StockLevelRow["warehouseId"],\n  sku: StockLevelRow["sku"],',
+      ),
+    );
+  });
+
+  it("matches every key column", () => {
+    assert.ok(
+      composite.includes(
+        "and(eq(schema.stockLevels.warehouseId, warehouseId), eq(schema.stockLevels.sku, sku))",
+      ),
+    );
+    assert.ok(
+      composite.includes(
+        "target: [schema.stockLevels.warehouseId, schema.stockLevels.sku], set: { ...input } }",
+      ),
+    );
+  });
+
+  it("passes input straight through when nothing required is omitted", () => {
+    assert.ok(composite.includes(".values(input).returning();"));
+    assert.ok(!composite.includes("updatedAt"));
+  });
+});
+
+describe("repository generator (identity keys)", () => {
+  const counter: TableDef = {
+    ...stockLevel,
+    name: "Counter",
+    tableName: "counters",
+    primaryKey: { tableName: "counters", columns: ["counterId"], isComposite: false },
+    fields: [field("counterId", { type: { kind: "integer" }, identity: "always" }), field("label")],
+  };
+
+  it("leaves always-generated keys out of the create input and skips upsert", () => {
+    const always = generateRepository([counter]);
+    assert.ok(
+      always.includes(
+        'export type CounterCreateInput = Omit<typeof schema.counters.$inferInsert, "counterId">;',
+      ),
+    );
+    assert.ok(always.includes(".values(input).returning();"));
+    assert.ok(!always.includes("upsertCounter"));
+  });
+
+  it("accepts explicit by-default keys and keeps upsert", () => {
+    const byDefault = generateRepository([
+      { ...counter, fields: [{ ...counter.fields[0], identity: "byDefault" }, field("label")] },
+    ]);
+    assert.ok(
+      byDefault.includes("export type CounterCreateInput = typeof schema.counters.$inferInsert;"),
+    );
+    assert.ok(byDefault.includes("export const upsertCounter = async ("));
+  });
+});
+
+describe("repository generator (index queries)", () => {
+  it("filters on the leading columns and pages over the rest plus the primary key", () => {
+    assert.ok(output.includes("export const listBookByAuthorPublication = async ("));
+    assert.ok(output.includes('  filter: { authorId: BookRow["authorId"] },'));
+    assert.ok(
+      output.includes(
+        'export type BookByAuthorPublicationCursor = Pick<BookRow, "publicationYear" | "bookId">;',
+      ),
+    );
+    assert.ok(output.includes("        eq(schema.books.authorId, filter.authorId),"));
+    assert.ok(
+      output.includes(
+        "cursor ? or(gt(schema.books.publicationYear, cursor.publicationYear), and(eq(schema.books.publicationYear, cursor.publicationYear), gt(schema.books.bookId, cursor.bookId))) : undefined,",
+      ),
+    );
+    assert.ok(output.includes("    .orderBy(schema.books.publicationYear, schema.books.bookId)"));
+  });
+
+  it("fetches one extra row to decide on the next cursor", () => {
+    assert.ok(output.includes("    .limit(limit + 1);"));
+    assert.ok(
+      output.includes(
+        "    nextCursor: rows.length > limit && last ? { publicationYear: last.publicationYear, bookId: last.bookId } : undefined,",
+      ),
+    );
+  });
+
+  it("declares the keyset option and page types once", () => {
+    assert.ok(output.includes('import { and, eq, gt, or } from "drizzle-orm";'));
+    assert.equal(output.split("export interface KeysetPage<TRow, TCursor> {").length, 2);
+    assert.ok(!generateRepository([stockLevel]).includes("KeysetPage"));
+  });
+
+  it("honours filterColumns and skips nullable sort columns", () => {
+    const queries = generateRepository([
+      {
+        ...stockLevel,
+        fields: [...stockLevel.fields, field("binCode", { nullable: true })],
+        indexes: [
+          {
+            name: "idx_stock_levels_by_sku",
+            columns: ["sku", "binCode", "quantity"],
+            unique: false,
+            filterColumns: 1,
+          },
+          { name: "stock_levels_quantity_idx", columns: ["quantity"], unique: false },
+        ],
+      },
+    ]);
+    assert.ok(queries.includes("export const listStockLevelBySku = async ("));
+    assert.ok(
+      queries.includes(
+        'export type StockLevelBySkuCursor = Pick<StockLevelRow, "quantity" | "warehouseId">;',
+      ),
+    );
+    assert.ok(queries.includes("export const listStockLevelByQuantity = async ("));
+    assert.ok(
+      queries.includes(
+        'export type StockLevelByQuantityCursor = Pick<StockLevelRow, "quantity" | "warehouseId" | "sku">;',
+      ),
+    );
+    assert.ok(queries.includes(".where(cursor ? or("));
+  });
+
+  it("pages descending over columns the index sorts desc", () => {
+    const queries = generateRepository([
+      {
+        ...stockLevel,
+        indexes: [
+          {
+            name: "stock_levels_quantity_idx",
+            columns: ["quantity"],
+            unique: false,
+            filterColumns: 0,
+            order: { quantity: { direction: "desc" } },
+          },
+        ],
+      },
+    ]);
+    assert.ok(
+      queries.includes(
+        "    .orderBy(desc(schema.stockLevels.quantity), schema.stockLevels.warehouseId, schema.stockLevels.sku)",
+      ),
+    );
+    assert.ok(
+      queries.includes("cursor ? or(lt(schema.stockLevels.quantity, cursor.quantity), and("),
+    );
+    assert.ok(queries.includes("gt(schema.stockLevels.warehouseId, cursor.warehouseId)"));
+    assert.ok(queries.includes('import { and, desc, eq, gt, lt, or } from "drizzle-orm";'));
+  });
+
+  it("skips expression and non-btree indexes", () => {
+    const queries = generateRepository([
+      {
+        ...stockLevel,
+        indexes: [
+          {
+            name: "stock_levels_sku_lower_idx",
+            columns: [],
+            unique: false,
+            expressions: ["lower(sku)"],
+          },
+          { name: "stock_levels_sku_hash_idx", columns: ["sku"], unique: false, method: "hash" },
+        ],
+      },
+    ]);
+    assert.ok(!queries.includes("KeysetPage"));
+  });
+});
+
+describe("repository generator (vector search)", () => {
+  const passage: TableDef = {
+    ...stockLevel,
+    name: "Passage",
+    tableName: "passages",
+    primaryKey: { tableName: "passages", columns: ["passageId"], isComposite: false },
+    fields: [
+      field("passageId"),
+      field("embedding", { type: { kind: "vector", dimensions: 3, distance: "cosine" } }),
+    ],
+    indexes: [
+      { name: "passages_embedding_idx", columns: ["embedding"], unique: false, using: "hnsw" },
+    ],
+  };
+
+  it("orders by pgvector distance on pg and skips keyset queries for vector indexes", () => {
+    const pgOutput = generateRepository([passage]);
+    assert.ok(pgOutput.startsWith('import { cosineDistance, eq } from "drizzle-orm";'));
+    assert.ok(
+      pgOutput.includes(
+        [
+          "export const nearestPassage = (",
+          "  db: DrizzleClient,",
+          "  embedding: number[],",
+          "  limit = 10,",
+          "): Promise<PassageRow[]> =>",
+          "  db",
+          "    .select()",
+          "    .from(schema.passages)",
+          "    .orderBy(cosineDistance(schema.passages.embedding, embedding))",
+          "    .limit(limit);",
+        ].join("\n"),
+      ),
+    );
+    assert.ok(!pgOutput.includes("KeysetPage"));
+  });
+
+  it("names one query per vector column and leaves out rows without a vector", () => {
+    const twoVectors = generateRepository([
+      {
+        ...passage,
+        fields: [
+          ...passage.fields,
+          field("titleEmbedding", {
+            type: { kind: "vector", dimensions: 3, distance: "l2" },
+            nullable: true,
+          }),
+        ],
+      },
+    ]);
+    assert.ok(twoVectors.includes("export const nearestPassageByEmbedding = ("));
+    assert.ok(twoVectors.includes("    .where(isNotNull(schema.passages.titleEmbedding))"));
+    assert.ok(
+      twoVectors.includes("    .orderBy(l2Distance(schema.passages.titleEmbedding, embedding))"),
+    );
+  });
+
+  it("ranks in TypeScript without pgvector", () => {
+    const sqliteOutput = generateRepository([passage], true, "sqlite");
+    assert.ok(sqliteOutput.startsWith('import { eq } from "drizzle-orm";'));
+    assert.ok(
+      sqliteOutput.includes("const cosineDistance = (a: number[], b: number[]): number => {"),
+    );
+    assert.ok(
+      sqliteOutput.includes(
+        "  return rankByDistance(rows, (row) => row.embedding, embedding, cosineDistance).slice(0, limit);",
+      ),
+    );
+  });
+});
+
+describe("repository generator (full-text search)", () => {
+  const article: TableDef = {
+    ...stockLevel,
+    name: "Article",
+    tableName: "articles",
+    primaryKey: { tableName: "articles", columns: ["articleId"], isComposite: false },
+    fields: [
+      field("articleId"),
+      field("title", { searchWeight: "A" }),
+      field("body", { searchWeight: "C" }),
+    ],
+    indexes: [],
+  };
+
+  it("matches and ranks against the tsvector column on pg", () => {
+    const pgOutput = generateRepository([article]);
+    assert.ok(pgOutput.startsWith('import { desc, eq, sql } from "drizzle-orm";'));
+    assert.ok(pgOutput.includes("export interface SearchOptions {"));
+    assert.ok(
+      pgOutput.includes(
+        [
+          "export const searchArticle = async (",
+          "  db: DrizzleClient,",
+          "  query: string,",
+          "  { limit = 20 }: SearchOptions = {},",
+          "): Promise<ArticleRow[]> => {",
+          `  const tsquery = sql\`websearch_to_tsquery('english', \${query})\`;`,
+          "  return db",
+          "    .select()",
+          "    .from(schema.articles)",
+          `    .where(sql\`\${schema.articles.searchVector} @@ \${tsquery}\`)`,
+          `    .orderBy(desc(sql\`ts_rank(\${schema.articles.searchVector}, \${tsquery})\`))`,
+          "    .limit(limit);",
+          "};",
+        ].join("\n"),
+      ),
+    );
+    assert.ok(!pgOutput.includes("const ftsQuery"));
+  });
+
+  it("queries the FTS5 table by rowid on sqlite", () => {
+    const sqliteOutput = generateRepository([article], true, "sqlite");
+    assert.ok(sqliteOutput.includes("const ftsQuery = (query: string): string =>"));
+    assert.ok(sqliteOutput.includes("  const match = ftsQuery(query);\n  if (!match) return [];"));
+    assert.ok(
+      sqliteOutput.includes(
+        `(SELECT rowid FROM "articles_fts" WHERE "articles_fts" MATCH \${match})`,
+      ),
+    );
+  });
+
+  it("leaves search out for tables without searchable fields", () => {
+    assert.ok(!output.includes("SearchOptions"));
+    assert.ok(!output.includes("export const search"));
+  });
+});
@@ -8,71 +8,190 @@ import {
   objectLiteral,
   quoted,
 } from "../codegen/index.js";
-import type { EnumDef, FieldDef, TableDef } from "../ir/types.js";
-import { mapFieldToColumn } from "./column-mapper.js";
+import type { EnumDef, FieldDef, IndexDef, TableDef, VectorIndexMethod } from "../ir/types.js";
+import { idGenerator, isSelfReference, mapFieldToColumn } from "./column-mapper.js";
 import type { DialectConfig } from "./dialect.js";
-import { toTableVariableName } from "./naming.js";
+import { indexForDialect, vectorOperatorClass } from "./dialect.js";
+import { jsonTypeRefs } from "./json-types-generator.js";
+import {
+  SEARCH_COLUMN,
+  SEARCH_PROPERTY,
+  searchDocument,
+  searchFields,
+  searchIndexName,
+} from "./migration-generator.js";
+import { toCamelCase, toTableVariableName } from "./naming.js";
+
+/** A module of the per-service layout (`schema/<service>.ts`, see `generateServiceLayout`) */
+export interface SchemaModule {
+  /** Import path of `types.ts` */
+  typesPath: string;
+  /** Import path of `json-types.ts` */
+  jsonTypesPath: string;
+  /** Table and enum variables used from sibling modules: import path -> names */
+  imports: Map<string, string[]>;
+  /** Variables exported by the sibling modules, which `pgSchema` variables must avoid */
+  reservedNames: string[];
+  /** Export the `pgSchema` variables; off where another module already exports them */
+  exportSchemas: boolean;
+}
 
+/**
+ * Generates `schema.ts`, or one module of it with `module`. Tables and enums
+ * with a `schema` are declared through an exported `pgSchema(...)` object
+ * (`bookstore.table(...)`, `bookstore.enum(...)`) instead of the top-level
+ * table/enum functions.
+ */
 export function generateSchema(
   tables: TableDef[],
   enums: EnumDef[],
   dialect: DialectConfig,
   shouldPluralize = true,
+  module?: SchemaModule,
 ): string {
   const sections: string[] = [];
+  const schemaVars = schemaVariables(
+    tables,
+    enums,
+    dialect,
+    shouldPluralize,
+    module?.reservedNames ?? [],
+  );
 
-  sections.push(generateImports(tables, enums, dialect));
+  sections.push(generateImports(tables, enums, dialect, schemaVars, module));
+
+  if (dialect.schemaFn) {
+    for (const [schema, varName] of schemaVars) {
+      const call = fnCall(dialect.schemaFn, [quoted(schema)]);
+      sections.push(
+        module?.exportSchemas === false
+          ? `const ${varName} = ${call};`
+          : exportConst(varName, call),
+      );
+    }
+  }
 
   if (dialect.enumFn) {
     for (const enumDef of enums) {
-      sections.push(generateEnumDeclaration(enumDef, dialect.enumFn));
+      const schemaVar = enumDef.schema && schemaVars.get(enumDef.schema);
+      const enumFn = schemaVar ? `${schemaVar}.enum` : dialect.enumFn;
+      sections.push(generateEnumDeclaration(enumDef, enumFn));
     }
   }
 
   for (const table of tables) {
-    sections.push(generateTableDeclaration(table, dialect, shouldPluralize));
+    const schemaVar = table.schema && schemaVars.get(table.schema);
+    const tableFn = schemaVar ? `${schemaVar}.table` : dialect.tableFn;
+    sections.push(generateTableDeclaration(table, dialect, tableFn, shouldPluralize));
   }
 
   return `${sections.join("\n\n")}\n`;
 }
 
-function generateImports(tables: TableDef[], enums: EnumDef[], dialect: DialectConfig): string {
-  const coreImports = collectCoreImports(tables, enums, dialect);
+/**
+ * Schema name -> exported variable: the camelCased name, suffixed with `Schema`
+ * when a table or enum variable already uses it.
+ */
+function schemaVariables(
+  tables: TableDef[],
+  enums: EnumDef[],
+  dialect: DialectConfig,
+  shouldPluralize: boolean,
+  reservedNames: string[],
+): Map<string, string> {
+  const vars = new Map<string, string>();
+  if (!dialect.schemaFn) return vars;
+
+  const taken = new Set([
+    ...tables.map((t) => toTableVariableName(t.name, shouldPluralize)),
+    ...enums.map((e) => e.name),
+    ...reservedNames,
+  ]);
+  for (const def of [...tables, ...enums]) {
+    if (!def.schema || vars.has(def.schema)) continue;
+    const name = toCamelCase(def.schema);
+    vars.set(def.schema, taken.has(name) ? `${name}Schema` : name);
+  }
+  return vars;
+}
+
+function generateImports(
+  tables: TableDef[],
+  enums: EnumDef[],
+  dialect: DialectConfig,
+  schemaVars: Map<string, string>,
+  module: SchemaModule | undefined,
+): string {
+  const coreImports = collectCoreImports(tables, enums, dialect, schemaVars, module);
   const lines: string[] = [];
 
-  lines.push(formatCode(importDecl(coreImports, dialect.coreModule)));
+  if (coreImports.length > 0) {
+    lines.push(formatCode(importDecl(coreImports, dialect.coreModule)));
+  }
 
-  if (needsSqlImport(tables)) {
+  if (tables.some((t) => t.fields.some((f) => isSelfReference(f, t)))) {
+    lines.push(importDecl([dialect.anyColumnType], dialect.coreModule, { type: true }));
+  }
+
+  if (needsSqlImport(tables, dialect)) {
     lines.push(importDecl(["sql"], "drizzle-orm"));
   }
 
   const typesImports = collectTypesImports(tables, dialect);
   if (typesImports.length > 0) {
-    lines.push(importDecl(typesImports, "./types.js"));
+    lines.push(importDecl(typesImports, module?.typesPath ?? "./types.js"));
+  }
+
+  const jsonTypes = collectJsonTypeImports(tables);
+  if (jsonTypes.length > 0) {
+    lines.push(importDecl(jsonTypes, module?.jsonTypesPath ?? "./json-types.js", { type: true }));
+  }
+
+  for (const [path, names] of module?.imports ?? []) {
+    lines.push(importDecl(names, path));
   }
 
   return lines.join("\n");
 }
 
-function needsSqlImport(tables: TableDef[]): boolean {
-  return tables.some((t) =>
-    t.fields.some(
-      (f) =>
-        f.constraints?.minValue !== undefined ||
-        f.constraints?.maxValue !== undefined ||
-        f.constraints?.check !== undefined,
-    ),
+function needsSqlImport(tables: TableDef[], dialect: DialectConfig): boolean {
+  return tables.some(
+    (t) => hasCheckConstraints(t) || hasSearchColumn(t, dialect) || hasSqlIndex(t, dialect),
   );
 }
 
+/** Expressions, predicates and (outside Postgres) sorted columns are written as `sql` */
+function hasSqlIndex(table: TableDef, dialect: DialectConfig): boolean {
+  return table.indexes.some((idx) => {
+    if (idx.using) return false;
+    const { index } = indexForDialect(idx, dialect.dialect);
+    return !!index.expressions || !!index.where || (dialect.dialect !== "pg" && !!index.order);
+  });
+}
+
+/** Postgres tables with `@searchable` columns get a generated `tsvector` column */
+function hasSearchColumn(table: TableDef, dialect: DialectConfig): boolean {
+  return dialect.dialect === "pg" && searchFields(table).length > 0;
+}
+
 function collectCoreImports(
   tables: TableDef[],
   enums: EnumDef[],
   dialect: DialectConfig,
+  schemaVars: Map<string, string>,
+  module: SchemaModule | undefined,
 ): string[] {
   const imports = new Set<string>();
+  const inSchema = (def: { schema?: string }) => !!def.schema && schemaVars.has(def.schema);
 
-  imports.add(dialect.tableFn);
+  // A whole schema.ts always imports the table function; a module only when it declares tables
+  if (module ? !tables.every(inSchema) : schemaVars.size === 0 || !tables.every(inSchema)) {
+    imports.add(dialect.tableFn);
+  }
+
+  if (schemaVars.size > 0 && dialect.schemaFn) {
+    imports.add(dialect.schemaFn);
+  }
 
   for (const table of tables) {
     if (table.primaryKey.isComposite) {
@@ -88,6 +207,7 @@ function collectCoreImports(
     }
 
     for (const idx of table.indexes) {
+      if (idx.using && dialect.dialect !== "pg") continue;
       if (idx.unique) {
         imports.add("uniqueIndex");
       } else {
@@ -99,8 +219,11 @@ function collectCoreImports(
       imports.add("foreignKey");
     }
 
+    if (hasSearchColumn(table, dialect)) {
+      imports.add("index");
+    }
+
     for (const field of table.fields) {
-      if (field.uuid) continue;
       if (field.nullable && dialect.nullableWrapperName(field.type.kind)) continue;
 
       for (const imp of collectFieldImports(field, dialect)) {
@@ -109,7 +232,7 @@ function collectCoreImports(
     }
   }
 
-  if (enums.length > 0 && dialect.enumFn) {
+  if (!enums.every(inSchema) && dialect.enumFn) {
     imports.add(dialect.enumFn);
   }
 
@@ -124,17 +247,70 @@ function collectFieldImports(field: FieldDef, dialect: DialectConfig): string[]
       case "enum":
       case "textEnum":
       case "jsonb":
+      case "array":
+      case "vector":
+        return ["text"];
+      case "date":
+      case "time":
+      case "interval":
         return ["text"];
       case "integer":
       case "bigint":
       case "boolean":
       case "timestamp":
+      case "localTimestamp":
         return ["integer"];
       case "real":
       case "doublePrecision":
         return ["real"];
+      case "decimal":
+        return ["numeric"];
+      case "bytes":
+        return ["blob"];
+      case "uuid":
+        return field.type.encoding === "canonical" ? ["text"] : [];
+    }
+  }
+
+  if (dialect.dialect === "mysql") {
+    switch (field.type.kind) {
+      case "text":
+      case "textEnum":
+        return ["text"];
+      case "varchar":
+        return ["varchar"];
+      case "integer":
+        return ["int"];
+      case "bigint":
+        return ["bigint"];
+      case "real":
+        return ["float"];
+      case "doublePrecision":
+        return ["double"];
+      case "decimal":
+        return ["decimal"];
+      case "boolean":
+        return ["boolean"];
+      case "timestamp":
+        return [field.createdAt || field.updatedAt ? "timestamp" : "datetime"];
+      case "localTimestamp":
+        return ["datetime"];
+      case "date":
+        return ["date"];
+      case "time":
+        return ["time"];
+      case "interval":
+        return ["text"];
+      case "bytes":
+        return ["longblob"];
+      case "jsonb":
+      case "array":
+      case "vector":
+        return ["json"];
+      case "enum":
+        return ["mysqlEnum"];
       case "uuid":
-        return [];
+        return field.type.encoding === "canonical" ? ["char"] : [];
     }
   }
 
@@ -151,15 +327,31 @@ function collectFieldImports(field: FieldDef, dialect: DialectConfig): string[]
       return ["real"];
     case "doublePrecision":
       return ["doublePrecision"];
+    case "decimal":
+      return ["numeric"];
     case "boolean":
       return ["boolean"];
     case "timestamp":
+    case "localTimestamp":
       return ["timestamp"];
+    case "date":
+      return ["date"];
+    case "time":
+      return ["time"];
+    case "interval":
+      return ["interval"];
+    case "bytes":
+      return ["bytea"];
+    case "vector":
+      return ["vector"];
     case "jsonb":
       return ["jsonb"];
+    case "array":
+      return collectFieldImports({ ...field, type: field.type.element }, dialect);
     case "textEnum":
       return ["text"];
     case "uuid":
+      return field.type.encoding === "canonical" ? ["uuid"] : [];
     case "enum":
       return [];
   }
@@ -178,15 +370,15 @@ function collectTypesImports(tables: TableDef[], dialect: DialectConfig): string
   const imports = new Set<string>();
 
   for (const table of tables) {
+    if (hasSearchColumn(table, dialect)) {
+      imports.add("tsvector");
+    }
     for (const field of table.fields) {
-      if (field.uuid) {
-        imports.add("base36Uuid");
-        if (field.uuid.autoGenerate) {
-          imports.add("generateBase36Id");
-        }
+      if (field.type.kind === "uuid" && field.type.encoding !== "canonical") {
+        imports.add(field.type.encoding === "raw" ? "rawUuid" : "base36Uuid");
       }
-      if (field.autoGenerateId) {
-        imports.add("generateBase36Id");
+      if (field.uuid?.autoGenerate || field.autoGenerateId) {
+        imports.add(idGenerator(field));
       }
       if (field.nullable && !field.uuid) {
         const wrapperName = dialect.nullableWrapperName(field.type.kind);
@@ -200,6 +392,15 @@ function collectTypesImports(tables: TableDef[], dialect: DialectConfig): string
   return [...imports].sort();
 }
 
+function collectJsonTypeImports(tables: TableDef[]): string[] {
+  const names = tables.flatMap((t) =>
+    t.fields.flatMap((f) =>
+      f.type.kind === "jsonb" && f.type.shape ? jsonTypeRefs(f.type.shape) : [],
+    ),
+  );
+  return [...new Set(names)].sort();
+}
+
 function generateEnumDeclaration(enumDef: EnumDef, enumFn: string): string {
   const values = enumDef.values.map((v) => `  ${quoted(v)},`).join("\n");
   return exportConst(
@@ -211,17 +412,18 @@ function generateEnumDeclaration(enumDef: EnumDef, enumFn: string): string {
 function generateTableDeclaration(
   table: TableDef,
   dialect: DialectConfig,
+  tableFn: string,
   shouldPluralize: boolean,
 ): string {
   const varName = toTableVariableName(table.name, shouldPluralize);
   const columns = generateColumns(table, dialect, shouldPluralize);
-  const extras = generateTableExtras(table, shouldPluralize);
+  const extras = generateTableExtras(table, dialect, shouldPluralize);
 
   if (extras.length > 0) {
-    return generateTableWithExtras(table, varName, columns, extras, dialect);
+    return generateTableWithExtras(table, varName, columns, extras, tableFn);
   }
 
-  return exportConst(varName, fnCall(dialect.tableFn, [quoted(table.tableName), columns]));
+  return exportConst(varName, fnCall(tableFn, [quoted(table.tableName), columns]));
 }
 
 function generateTableWithExtras(
@@ -229,10 +431,10 @@ function generateTableWithExtras(
   varName: string,
   columns: string,
   extras: string[],
-  dialect: DialectConfig,
+  tableFn: string,
 ): string {
   return [
-    `export const ${varName} = ${dialect.tableFn}(`,
+    `export const ${varName} = ${tableFn}(`,
     `  ${quoted(table.tableName)},`,
     `${columns
       .split("\n")
@@ -251,17 +453,30 @@ function generateColumns(
   const lines = table.fields.map(
     (field) => `  ${field.name}: ${mapFieldToColumn(field, table, dialect, shouldPluralize)},`,
   );
+  if (hasSearchColumn(table, dialect)) {
+    const column = fnCall("tsvector", [quoted(SEARCH_COLUMN)]);
+    lines.push(
+      `  ${SEARCH_PROPERTY}: ${column}.generatedAlwaysAs(sql\`${searchDocument(table)}\`),`,
+    );
+  }
   return `{\n${lines.join("\n")}\n}`;
 }
 
-function generateTableExtras(table: TableDef, shouldPluralize: boolean): string[] {
+function generateTableExtras(
+  table: TableDef,
+  dialect: DialectConfig,
+  shouldPluralize: boolean,
+): string[] {
   const extras: string[] = [];
 
   if (table.primaryKey.isComposite) {
     const pkColumns = table.primaryKey.columns.map((col) => `table.${col}`);
+    // MySQL primary keys are always named PRIMARY
     const pkObj = objectLiteral(
       [
-        ["name", quoted(`${table.tableName}_pk`)],
+        ...(dialect.dialect === "mysql"
+          ? []
+          : [["name", quoted(`${table.tableName}_pk`)] as [string, string]]),
         ["columns", arrayLiteral(pkColumns)],
       ],
       { concise: true },
@@ -284,14 +499,27 @@ function generateTableExtras(table: TableDef, shouldPluralize: boolean): string[
   }
 
   for (const idx of table.indexes) {
-    const cols = idx.columns.map((c) => `table.${c}`);
-    const idxFn = idx.unique ? "uniqueIndex" : "index";
-    extras.push(`    ${fnCall(idxFn, [quoted(idx.name)])}.on(${cols.join(", ")})`);
+    if (idx.using) {
+      // Without pgvector the vectors are plain JSON, ranked in TypeScript (see repository.ts)
+      if (dialect.dialect === "pg") extras.push(generateVectorIndex(table, idx, idx.using));
+      continue;
+    }
+    extras.push(generateIndex(indexForDialect(idx, dialect.dialect).index, dialect));
+  }
+
+  if (hasSearchColumn(table, dialect)) {
+    extras.push(
+      `    ${fnCall("index", [quoted(searchIndexName(table))])}.using("gin", table.${SEARCH_PROPERTY})`,
+    );
   }
 
   for (const fk of table.foreignKeys) {
     const localCols = fk.columns.map((c) => `table.${c}`);
-    const foreignVar = toTableVariableName(fk.foreignTable, shouldPluralize);
+    // A self-referencing key reads its own columns from the callback parameter
+    const foreignVar =
+      fk.foreignTable === table.name
+        ? "table"
+        : toTableVariableName(fk.foreignTable, shouldPluralize);
     const foreignCols = fk.foreignColumns.map((c) => `${foreignVar}.${c}`);
     const fkObj = objectLiteral(
       [
@@ -301,12 +529,47 @@ function generateTableExtras(table: TableDef, shouldPluralize: boolean): string[
       ],
       { concise: true },
     );
-    extras.push(`    ${fnCall("foreignKey", [fkObj])}`);
+    const onDelete = fk.onDelete ? `.onDelete(${quoted(fk.onDelete)})` : "";
+    const onUpdate = fk.onUpdate ? `.onUpdate(${quoted(fk.onUpdate)})` : "";
+    extras.push(`    ${fnCall("foreignKey", [fkObj])}${onDelete}${onUpdate}`);
   }
 
   return extras;
 }
 
+/**
+ * `index(...).on(...)`, or `.using(method, ...)` for a Postgres index method,
+ * followed by `.where(sql`...`)` for a partial index. Postgres sorts columns
+ * with `.desc()` / `.nullsFirst()`; SQLite and MySQL columns have no such
+ * methods, so sorted columns become `sql` fragments there. `include` columns
+ * have no Drizzle builder and only reach the database through migrations.
+ */
+function generateIndex(idx: IndexDef, dialect: DialectConfig): string {
+  const keys = idx.columns.map((c) => {
+    const order = idx.order?.[c];
+    if (!order) return `table.${c}`;
+    if (dialect.dialect !== "pg") return `sql\`\${table.${c}} ${order.direction ?? "asc"}\``;
+    const direction = order.direction === "desc" ? ".desc()" : "";
+    const nulls = order.nulls ? `.nulls${order.nulls === "first" ? "First" : "Last"}()` : "";
+    return `table.${c}${direction}${nulls}`;
+  });
+  for (const expression of idx.expressions ?? []) keys.push(`sql\`${expression}\``);
+
+  const idxFn = idx.unique ? "uniqueIndex" : "index";
+  const columns = idx.method
+    ? `.using(${[quoted(idx.method), ...keys].join(", ")})`
+    : `.on(${keys.join(", ")})`;
+  const where = idx.where ? `.where(sql\`${idx.where}\`)` : "";
+  return `    ${fnCall(idxFn, [quoted(idx.name)])}${columns}${where}`;
+}
+
+/** `index(...).using("hnsw", table.embedding.op("vector_cosine_ops"))` */
+function generateVectorIndex(table: TableDef, idx: IndexDef, method: VectorIndexMethod): string {
+  const column = idx.columns[0];
+  const opclass = vectorOperatorClass(table.fields.find((f) => f.name === column));
+  return `    ${fnCall("index", [quoted(idx.name)])}.using(${quoted(method)}, table.${column}.op(${quoted(opclass)}))`;
+}
+
 function generateRangeCheck(table: TableDef, field: FieldDef): string {
   const conditions: string[] = [];
 
@@ -54,6 +54,55 @@ describe("schema generator: remit-style columns", () => {
   });
 });
 
+describe("schema generator: uuid encodings", () => {
+  const uuidTable: TableDef = {
+    name: "Device",
+    service: "fleet",
+    tableName: "devices",
+    primaryKey: { tableName: "devices", columns: ["deviceId"], isComposite: false },
+    fields: [
+      {
+        name: "deviceId",
+        columnName: "device_id",
+        type: { kind: "uuid", encoding: "canonical" },
+        uuid: { encoding: "canonical", autoGenerate: true },
+        nullable: false,
+        createdAt: false,
+        updatedAt: false,
+      },
+      {
+        name: "serial",
+        columnName: "serial",
+        type: { kind: "uuid", encoding: "raw" },
+        uuid: { encoding: "raw", autoGenerate: false },
+        nullable: false,
+        createdAt: false,
+        updatedAt: false,
+      },
+    ],
+    foreignKeys: [],
+    isJunction: false,
+    indexes: [],
+    uniqueConstraints: [],
+  };
+
+  it("renders canonical UUIDs as native uuid columns (pg)", () => {
+    const output = generateSchema([uuidTable], [], pg);
+    assert.ok(
+      output.includes('deviceId: uuid("device_id").primaryKey().$defaultFn(() => generateUuid()),'),
+    );
+    assert.ok(output.includes('import { pgTable, uuid } from "drizzle-orm/pg-core";'));
+    assert.ok(output.includes('import { generateUuid, rawUuid } from "./types.js";'));
+  });
+
+  it("renders canonical UUIDs as text and raw UUIDs as blobs (sqlite)", () => {
+    const output = generateSchema([uuidTable], [], sqlite);
+    assert.ok(output.includes('deviceId: text("device_id")'));
+    assert.ok(output.includes('serial: rawUuid("serial").notNull(),'));
+    assert.ok(!output.includes("base36Uuid"));
+  });
+});
+
 describe("schema generator", () => {
   it("generates correct imports", () => {
     const output = generateSchema(bookstoreTables, bookstoreEnums, pg);
@@ -372,6 +421,69 @@ describe("schema generator", () => {
     assert.ok(output.includes('name: "author_name_fk"'));
     assert.ok(output.includes("columns: [table.authorId, table.authorFullName]"));
     assert.ok(output.includes("foreignColumns: [authors.authorId, authors.fullName]"));
+    assert.ok(!output.includes(".onDelete("));
+
+    const withActions = generateSchema(
+      [
+        {
+          ...tableWithFK,
+          foreignKeys: [
+            { ...tableWithFK.foreignKeys[0], onDelete: "cascade", onUpdate: "set null" },
+          ],
+        },
+      ],
+      [],
+      pg,
+    );
+    assert.ok(withActions.includes('}).onDelete("cascade").onUpdate("set null"),'));
+  });
+
+  it("annotates self-references so the table's type does not depend on itself", () => {
+    const category: TableDef = {
+      name: "Category",
+      service: "bookstore",
+      tableName: "categories",
+      primaryKey: { tableName: "categories", columns: ["categoryId"], isComposite: false },
+      fields: [
+        {
+          name: "categoryId",
+          columnName: "category_id",
+          type: { kind: "text" },
+          nullable: false,
+          createdAt: false,
+          updatedAt: false,
+        },
+        {
+          name: "parentId",
+          columnName: "parent_id",
+          type: { kind: "text" },
+          nullable: false,
+          createdAt: false,
+          updatedAt: false,
+          references: { tableName: "Category", fieldName: "categoryId" },
+        },
+      ],
+      foreignKeys: [
+        {
+          name: "category_parent_fk",
+          columns: ["parentId"],
+          foreignTable: "Category",
+          foreignColumns: ["categoryId"],
+        },
+      ],
+      isJunction: false,
+      indexes: [],
+      uniqueConstraints: [],
+    };
+
+    const output = generateSchema([category], [], pg);
+    assert.ok(output.includes('import type { AnyPgColumn } from "drizzle-orm/pg-core";'));
+    assert.ok(output.includes(".references((): AnyPgColumn => categories.categoryId),"));
+    assert.ok(output.includes("foreignColumns: [table.categoryId]"));
+
+    const sqliteOutput = generateSchema([category], [], sqlite);
+    assert.ok(sqliteOutput.includes(".references((): AnySQLiteColumn => categories.categoryId),"));
+    assert.ok(!generateSchema(bookstoreTables, bookstoreEnums, pg).includes("AnyPgColumn"));
   });
 
   it("generates @check constraint on a field", () => {
@@ -493,6 +605,175 @@ describe("schema generator", () => {
     assert.ok(output.includes('index("books_author_year_idx").on(table.authorId, table.year)'));
   });
 
+  it("generates pgvector columns and indexes, and JSON vectors without indexes on sqlite", () => {
+    const passages: TableDef = {
+      name: "Passage",
+      service: "search",
+      tableName: "passages",
+      primaryKey: { tableName: "passages", columns: ["passageId"], isComposite: false },
+      fields: [
+        {
+          name: "passageId",
+          columnName: "passage_id",
+          type: { kind: "text" },
+          nullable: false,
+          createdAt: false,
+          updatedAt: false,
+        },
+        {
+          name: "embedding",
+          columnName: "embedding",
+          type: { kind: "vector", dimensions: 1536, distance: "l2" },
+          nullable: true,
+          createdAt: false,
+          updatedAt: false,
+        },
+      ],
+      foreignKeys: [],
+      isJunction: false,
+      indexes: [
+        { name: "passages_embedding_idx", columns: ["embedding"], unique: false, using: "hnsw" },
+      ],
+      uniqueConstraints: [],
+    };
+    const pgOutput = generateSchema([passages], [], pg);
+    assert.ok(
+      pgOutput.startsWith('import { index, pgTable, text, vector } from "drizzle-orm/pg-core";'),
+    );
+    assert.ok(pgOutput.includes('embedding: vector("embedding", { dimensions: 1536 }),'));
+    assert.ok(
+      pgOutput.includes(
+        'index("passages_embedding_idx").using("hnsw", table.embedding.op("vector_l2_ops"))',
+      ),
+    );
+    assert.equal(
+      generateSchema([passages], [], sqlite),
+      [
+        'import { sqliteTable, text } from "drizzle-orm/sqlite-core";',
+        "",
+        'export const passages = sqliteTable("passages", {',
+        '  passageId: text("passage_id").primaryKey(),',
+        '  embedding: text("embedding", { mode: "json" }).$type<number[]>(),',
+        "});",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("generates a tsvector search column with a GIN index on pg only", () => {
+    const articles: TableDef = {
+      name: "Article",
+      service: "blog",
+      tableName: "articles",
+      primaryKey: { tableName: "articles", columns: ["articleId"], isComposite: false },
+      fields: [
+        {
+          name: "articleId",
+          columnName: "article_id",
+          type: { kind: "text" },
+          nullable: false,
+          createdAt: false,
+          updatedAt: false,
+        },
+        {
+          name: "title",
+          columnName: "title",
+          type: { kind: "text" },
+          nullable: false,
+          createdAt: false,
+          updatedAt: false,
+          searchWeight: "A",
+        },
+      ],
+      foreignKeys: [],
+      isJunction: false,
+      indexes: [],
+      uniqueConstraints: [],
+    };
+    const pgOutput = generateSchema([articles], [], pg);
+    assert.ok(pgOutput.includes('import { sql } from "drizzle-orm";'));
+    assert.ok(pgOutput.includes('import { tsvector } from "./types.js";'));
+    assert.ok(
+      pgOutput.includes(
+        `searchVector: tsvector("search_vector").generatedAlwaysAs(sql\`setweight(to_tsvector('english', coalesce("title", '')), 'A')\`),`,
+      ),
+    );
+    assert.ok(pgOutput.includes('index("articles_search_idx").using("gin", table.searchVector)'));
+    const sqliteOutput = generateSchema([articles], [], sqlite);
+    assert.ok(!sqliteOutput.includes("searchVector"));
+    assert.ok(!sqliteOutput.includes('drizzle-orm";'));
+  });
+
+  it("generates partial, sorted, expression and method indexes in each dialect's subset", () => {
+    const accounts: TableDef = {
+      name: "Account",
+      service: "auth",
+      tableName: "accounts",
+      primaryKey: { tableName: "accounts", columns: ["accountId"], isComposite: false },
+      fields: [
+        {
+          name: "accountId",
+          columnName: "account_id",
+          type: { kind: "text" },
+          nullable: false,
+          createdAt: false,
+          updatedAt: false,
+        },
+        {
+          name: "email",
+          columnName: "email",
+          type: { kind: "text" },
+          nullable: false,
+          createdAt: false,
+          updatedAt: false,
+        },
+        {
+          name: "lastSeen",
+          columnName: "last_seen",
+          type: { kind: "integer" },
+          nullable: true,
+          createdAt: false,
+          updatedAt: false,
+        },
+      ],
+      foreignKeys: [],
+      isJunction: false,
+      indexes: [
+        {
+          name: "accounts_email_idx",
+          columns: [],
+          unique: true,
+          expressions: ["lower(email)"],
+          where: "last_seen IS NOT NULL",
+        },
+        {
+          name: "accounts_seen_idx",
+          columns: ["lastSeen", "email"],
+          unique: false,
+          method: "brin",
+          order: { lastSeen: { direction: "desc", nulls: "last" } },
+          include: ["accountId"],
+        },
+      ],
+      uniqueConstraints: [],
+    };
+    const extras = (output: string) => output.split("\n").filter((l) => l.includes("ndex("));
+    const pgOutput = generateSchema([accounts], [], pg);
+    assert.ok(pgOutput.includes('import { sql } from "drizzle-orm";'));
+    assert.deepEqual(extras(pgOutput), [
+      '    uniqueIndex("accounts_email_idx").on(sql`lower(email)`).where(sql`last_seen IS NOT NULL`),',
+      '    index("accounts_seen_idx").using("brin", table.lastSeen.desc().nullsLast(), table.email),',
+    ]);
+    assert.deepEqual(extras(generateSchema([accounts], [], sqlite)), [
+      '    uniqueIndex("accounts_email_idx").on(sql`lower(email)`).where(sql`last_seen IS NOT NULL`),',
+      `    index("accounts_seen_idx").on(sql\`\${table.lastSeen} desc\`, table.email),`,
+    ]);
+    assert.deepEqual(extras(generateSchema([accounts], [], resolveDialect("mysql"))), [
+      '    uniqueIndex("accounts_email_idx").on(sql`lower(email)`),',
+      `    index("accounts_seen_idx").on(sql\`\${table.lastSeen} desc\`, table.email),`,
+    ]);
+  });
+
   it("generates unique index via @index({ unique: true })", () => {
     const tableWithUniqueIdx: TableDef = {
       name: "Book",
@@ -946,6 +1227,139 @@ describe("schema generator (sqlite)", () => {
   });
 });
 
+describe("schema generator (mysql)", () => {
+  const mysql = resolveDialect("mysql");
+  const output = generateSchema(bookstoreTables, bookstoreEnums, mysql);
+
+  it("uses mysqlTable from drizzle-orm/mysql-core", () => {
+    assert.ok(output.includes('from "drizzle-orm/mysql-core"'));
+    assert.ok(output.includes("export const authors = mysqlTable("));
+    assert.ok(!output.includes("pgTable("));
+  });
+
+  it("declares enums inline with mysqlEnum instead of a shared enum type", () => {
+    assert.ok(!output.includes("export const formatEnum"));
+    assert.ok(
+      output.includes(
+        'format: mysqlEnum("format", ["hardcover", "paperback", "ebook", "audiobook"]).notNull(),',
+      ),
+    );
+  });
+
+  it("maps timestamps to datetime, and createdAt/updatedAt to timestamp with defaultNow", () => {
+    assert.ok(output.includes('reviewDate: datetime("review_date", { fsp: 3 }).notNull(),'));
+    assert.ok(
+      output.includes('createdAt: timestamp("created_at", { fsp: 3 }).notNull().defaultNow(),'),
+    );
+  });
+
+  it("uses MySQL nullable wrappers and int columns", () => {
+    assert.ok(output.includes('birthYear: nullableInt("birth_year"),'));
+    assert.ok(output.includes("nullableInt, nullableText"));
+  });
+
+  it("omits the constraint name from composite primary keys", () => {
+    assert.ok(output.includes("primaryKey({ columns: [table.bookId, table.genreId] })"));
+  });
+
+  it("maps jsonb to json and floating point to float/double", () => {
+    const table: TableDef = {
+      name: "Metric",
+      service: "test",
+      tableName: "metrics",
+      primaryKey: { tableName: "metrics", columns: ["id"], isComposite: false },
+      fields: [
+        {
+          name: "id",
+          columnName: "id",
+          type: { kind: "integer" },
+          nullable: false,
+          createdAt: false,
+          updatedAt: false,
+        },
+        {
+          name: "data",
+          columnName: "data",
+          type: { kind: "jsonb" },
+          nullable: false,
+          createdAt: false,
+          updatedAt: false,
+        },
+        {
+          name: "ratio",
+          columnName: "ratio",
+          type: { kind: "real" },
+          nullable: false,
+          createdAt: false,
+          updatedAt: false,
+        },
+        {
+          name: "total",
+          columnName: "total",
+          type: { kind: "doublePrecision" },
+          nullable: false,
+          createdAt: false,
+          updatedAt: false,
+        },
+      ],
+      foreignKeys: [],
+      isJunction: false,
+      indexes: [],
+      uniqueConstraints: [],
+    };
+    const metrics = generateSchema([table], [], mysql);
+    assert.ok(
+      metrics.includes(
+        'import { double, float, int, json, mysqlTable } from "drizzle-orm/mysql-core";',
+      ),
+    );
+    assert.ok(metrics.includes('id: int("id").primaryKey(),'));
+    assert.ok(metrics.includes('data: json("data").notNull(),'));
+    assert.ok(metrics.includes('ratio: float("ratio").notNull(),'));
+    assert.ok(metrics.includes('total: double("total").notNull(),'));
+  });
+});
+
+describe("schema generator (pg schemas)", () => {
+  const tables = bookstoreTables.map((t) => ({
+    ...t,
+    schema: t.name === "Author" ? "authors" : "bookstore",
+  }));
+  const enums = bookstoreEnums.map((e) => ({ ...e, schema: "bookstore" }));
+  const output = generateSchema(tables, enums, pg);
+
+  it("declares one pgSchema per schema", () => {
+    assert.ok(output.includes('export const bookstore = pgSchema("bookstore");'));
+    assert.ok(output.includes("pgSchema"));
+  });
+
+  it("suffixes a schema variable that collides with a table variable", () => {
+    assert.ok(output.includes('export const authorsSchema = pgSchema("authors");'));
+    assert.ok(output.includes('export const authors = authorsSchema.table("authors", {'));
+  });
+
+  it("declares tables and enums through the schema", () => {
+    assert.ok(output.includes('export const books = bookstore.table(\n  "books",'));
+    assert.ok(output.includes('export const bookFormatEnum = bookstore.enum("book_format", ['));
+  });
+
+  it("imports pgTable and pgEnum only for declarations in the default schema", () => {
+    const imports = output.slice(0, output.indexOf("\n"));
+    assert.ok(!imports.includes("pgTable"));
+    assert.ok(!imports.includes("pgEnum"));
+
+    const mixed = generateSchema([tables[0], bookstoreTables[1]], bookstoreEnums, pg);
+    assert.ok(mixed.includes("export const books = pgTable("));
+    assert.ok(mixed.includes('export const bookFormatEnum = pgEnum("book_format", ['));
+  });
+
+  it("ignores schemas for dialects without them", () => {
+    const sqliteOutput = generateSchema(tables, enums, sqlite);
+    assert.ok(!sqliteOutput.includes("Schema"));
+    assert.ok(sqliteOutput.includes("export const authors = sqliteTable("));
+  });
+});
+
 describe("schema generator (pluralize: false)", () => {
   it("uses singular variable names derived from model name", () => {
     const output = generateSchema(bookstoreTables, bookstoreEnums, pg, false);
@@ -0,0 +1,170 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { bookstoreEnums, bookstoreTables } from "../fixtures/bookstore-ir.ts";
+import { buildRelationGraph } from "../ir/relation-graph.ts";
+import type { TableDef } from "../ir/types.ts";
+import { resolveDialect } from "./dialect.ts";
+import { generateServiceLayout } from "./service-layout.ts";
+
+const pg = resolveDialect("pg");
+const sqlite = resolveDialect("sqlite");
+
+/** Authors and editions move to a "people" service; the rest stays in "bookstore" */
+const tables: TableDef[] = bookstoreTables.map((t) =>
+  t.name === "Author" || t.name === "Edition" ? { ...t, service: "people" } : t,
+);
+
+function layout(input = tables, dialect = pg, schemaOnly = false): Map<string, string> {
+  return generateServiceLayout(
+    input,
+    bookstoreEnums,
+    buildRelationGraph(input, true),
+    dialect,
+    true,
+    schemaOnly,
+  );
+}
+
+describe("service layout", () => {
+  const files = layout();
+
+  it("emits schema, relations and describe modules per service", () => {
+    for (const service of ["people", "bookstore"]) {
+      assert.ok(files.has(`schema/${service}.ts`), service);
+      assert.ok(files.has(`relations/${service}.ts`), service);
+      assert.ok(files.has(`describe/${service}.ts`), service);
+    }
+  });
+
+  it("declares each table in its service's module", () => {
+    const people = files.get("schema/people.ts") ?? "";
+    assert.ok(people.includes('export const authors = pgTable("authors", {'));
+    assert.ok(!people.includes("export const books = "));
+    assert.ok(files.get("schema/bookstore.ts")?.includes("export const books = pgTable("));
+  });
+
+  it("imports foreign-key targets from the sibling module", () => {
+    assert.ok(files.get("schema/bookstore.ts")?.includes('import { authors } from "./people.js";'));
+    assert.ok(
+      files
+        .get("schema/people.ts")
+        ?.includes('import { books, publishers, translators } from "./bookstore.js";'),
+    );
+    assert.ok(files.get("schema/people.ts")?.includes('from "../types.js";'));
+  });
+
+  it("keeps an enum with the one service that uses it", () => {
+    assert.ok(
+      files
+        .get("schema/people.ts")
+        ?.includes('export const bookFormatEnum = pgEnum("book_format", ['),
+    );
+    assert.ok(!files.has("schema/_enums.ts"));
+  });
+
+  it("re-exports the modules from the root barrels", () => {
+    assert.equal(
+      files.get("schema.ts"),
+      'export * from "./schema/people.js";\nexport * from "./schema/bookstore.js";\n',
+    );
+    assert.ok(files.get("describe.ts")?.includes('export * from "./describe/people.js";'));
+  });
+
+  it("merges the relation parts into one relations config", () => {
+    assert.ok(
+      files
+        .get("relations/people.ts")
+        ?.includes("export const peopleRelations = defineRelationsPart(schema, (r) => ({"),
+    );
+    assert.ok(
+      files.get("relations/people.ts")?.includes('import * as schema from "../schema.js";'),
+    );
+    assert.ok(
+      files
+        .get("relations.ts")
+        ?.includes("export const relations = { ...peopleRelations, ...bookstoreRelations };"),
+    );
+  });
+
+  it("spells out the columns of a many relation held by another service", () => {
+    const people = files.get("relations/people.ts") ?? "";
+    assert.ok(
+      people.includes(
+        "    books: r.many.books({ from: r.authors.authorId, to: r.books.authorId }),",
+      ),
+    );
+    const bookstore = files.get("relations/bookstore.ts") ?? "";
+    assert.ok(
+      bookstore.includes(
+        "    editions: r.many.editions({ from: r.books.bookId, to: r.editions.bookId }),",
+      ),
+    );
+    // Reviews live in the same part, so Drizzle pairs the reverse itself
+    assert.ok(bookstore.includes("    reviews: r.many.reviews(),"));
+  });
+
+  it("imports describe dependencies from the package root", () => {
+    assert.ok(
+      files
+        .get("describe/people.ts")
+        ?.startsWith('import type { DrizzleClient } from "../types.js";'),
+    );
+  });
+});
+
+describe("service layout: shared enums", () => {
+  const shared = tables.map((t) =>
+    t.name === "Book"
+      ? {
+          ...t,
+          fields: [
+            ...t.fields,
+            {
+              name: "format",
+              columnName: "format",
+              type: { kind: "enum" as const, enumName: "bookFormatEnum", values: ["ebook"] },
+              nullable: true,
+              createdAt: false,
+              updatedAt: false,
+            },
+          ],
+        }
+      : t,
+  );
+
+  it("moves enums used by several services into schema/_enums.ts", () => {
+    const files = layout(shared);
+    const enums = files.get("schema/_enums.ts") ?? "";
+    assert.ok(enums.startsWith('import { pgEnum } from "drizzle-orm/pg-core";'));
+    assert.ok(enums.includes('export const bookFormatEnum = pgEnum("book_format", ['));
+    assert.ok(files.get("schema.ts")?.startsWith('export * from "./schema/_enums.js";'));
+    assert.ok(
+      files.get("schema/bookstore.ts")?.includes('import { bookFormatEnum } from "./_enums.js";'),
+    );
+  });
+
+  it("keeps the shared enum module apart from a service named enums", () => {
+    const files = layout(
+      shared.map((t) => (t.service === "people" ? { ...t, service: "enums" } : t)),
+    );
+    assert.ok(files.get("schema/_enums.ts")?.includes("export const bookFormatEnum"));
+    assert.ok(files.get("schema/enums.ts")?.includes("export const authors = pgTable("));
+  });
+
+  it("declares no enum module without native enums", () => {
+    const files = layout(shared, sqlite);
+    assert.ok(!files.has("schema/_enums.ts"));
+    assert.ok(!files.get("schema/bookstore.ts")?.includes("bookFormatEnum"));
+  });
+});
+
+describe("service layout: schema-only", () => {
+  it("emits only the schema modules", () => {
+    const files = layout(tables, pg, true);
+    assert.deepEqual([...files.keys()].sort(), [
+      "schema.ts",
+      "schema/bookstore.ts",
+      "schema/people.ts",
+    ]);
+  });
+});
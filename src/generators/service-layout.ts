@@ -0,0 +1,202 @@
+import { importDecl, quoted } from "../codegen/index.js";
+import type { RelationGraph } from "../ir/relation-graph.js";
+import type { EnumDef, TableDef } from "../ir/types.js";
+import { generateDescribe } from "./describe-generator.js";
+import type { DialectConfig } from "./dialect.js";
+import { toCamelCase, toTableVariableName } from "./naming.js";
+import { generateRelationsPart } from "./relations-generator.js";
+import { generateSchema } from "./schema-generator.js";
+
+/**
+ * Module for enums used by several services (or none); service names cannot
+ * start with an underscore, so no service module takes it
+ */
+const SHARED_ENUM_MODULE = "_enums";
+
+/**
+ * Generates the per-service layout: `schema/<service>.ts`,
+ * `relations/<service>.ts` and `describe/<service>.ts` for every `@table`
+ * service, with `schema.ts`, `relations.ts` and `describe.ts` as barrels over
+ * them, so the rest of the package imports from the same paths as in the
+ * single-file layout.
+ *
+ * A service module imports the tables its foreign keys point at from the
+ * sibling module. An enum lives with the one service that uses it; enums
+ * shared by several services go to `schema/_enums.ts`, which imports nothing,
+ * since an enum column is built while its module loads and two services that
+ * reference each other's tables would otherwise form an import cycle.
+ *
+ * With `schemaOnly` only the schema modules are generated.
+ */
+export function generateServiceLayout(
+  tables: TableDef[],
+  enums: EnumDef[],
+  graph: RelationGraph,
+  dialect: DialectConfig,
+  shouldPluralize: boolean,
+  schemaOnly: boolean,
+): Map<string, string> {
+  const files = new Map<string, string>();
+  const services = groupByService(tables);
+  // Without native enums (SQLite, MySQL) enum columns carry their values inline
+  const declaredEnums = dialect.enumFn ? enums : [];
+  const enumModules = enumOwners(tables, declaredEnums);
+  const tableModules = new Map(tables.map((t) => [t.name, t.service]));
+
+  const moduleNames = new Map<string, string[]>();
+  for (const table of tables) {
+    addTo(moduleNames, table.service, toTableVariableName(table.name, shouldPluralize));
+  }
+  for (const enumDef of declaredEnums) {
+    addTo(moduleNames, enumModules.get(enumDef.name) ?? SHARED_ENUM_MODULE, enumDef.name);
+  }
+  const reservedFor = (module: string) =>
+    [...moduleNames].flatMap(([name, vars]) => (name === module ? [] : vars));
+
+  const sharedEnums = declaredEnums.filter((e) => !enumModules.has(e.name));
+  const schemaModules: string[] = [];
+
+  if (sharedEnums.length > 0) {
+    schemaModules.push(SHARED_ENUM_MODULE);
+    files.set(
+      `schema/${SHARED_ENUM_MODULE}.ts`,
+      generateSchema([], sharedEnums, dialect, shouldPluralize, {
+        typesPath: "../types.js",
+        jsonTypesPath: "../json-types.js",
+        imports: new Map(),
+        reservedNames: reservedFor(SHARED_ENUM_MODULE),
+        exportSchemas: false,
+      }),
+    );
+  }
+
+  for (const [service, serviceTables] of services) {
+    const imports = new Map<string, string[]>();
+    const importFrom = (module: string, name: string) => {
+      if (module !== service) addTo(imports, `./${module}.js`, name);
+    };
+
+    for (const table of serviceTables) {
+      const targets = [
+        ...table.fields.flatMap((f) => (f.references ? [f.references.tableName] : [])),
+        ...table.foreignKeys.map((fk) => fk.foreignTable),
+      ];
+      for (const target of targets) {
+        const module = tableModules.get(target);
+        if (module) importFrom(module, toTableVariableName(target, shouldPluralize));
+      }
+      for (const field of table.fields) {
+        const type = field.type.kind === "array" ? field.type.element : field.type;
+        if (type.kind === "enum" && dialect.enumFn) {
+          importFrom(enumModules.get(type.enumName) ?? SHARED_ENUM_MODULE, type.enumName);
+        }
+      }
+    }
+
+    schemaModules.push(service);
+    files.set(
+      `schema/${service}.ts`,
+      generateSchema(
+        serviceTables,
+        declaredEnums.filter((e) => enumModules.get(e.name) === service),
+        dialect,
+        shouldPluralize,
+        {
+          typesPath: "../types.js",
+          jsonTypesPath: "../json-types.js",
+          imports: sortedImports(imports),
+          reservedNames: reservedFor(service),
+          exportSchemas: true,
+        },
+      ),
+    );
+  }
+
+  files.set("schema.ts", reExports("schema", schemaModules));
+
+  if (schemaOnly) return files;
+
+  const relationParts: [string, string][] = [];
+  const describeModules: string[] = [];
+
+  for (const [service, serviceTables] of services) {
+    const exportName = `${toCamelCase(service)}Relations`;
+    relationParts.push([service, exportName]);
+    files.set(
+      `relations/${service}.ts`,
+      generateRelationsPart(exportName, serviceTables, graph, shouldPluralize),
+    );
+
+    if (serviceTables.some((t) => !t.isJunction)) {
+      describeModules.push(service);
+      files.set(
+        `describe/${service}.ts`,
+        generateDescribe(serviceTables, graph, shouldPluralize, ".."),
+      );
+    }
+  }
+
+  files.set("relations.ts", generateRelationsBarrel(relationParts));
+  files.set("describe.ts", reExports("describe", describeModules));
+
+  return files;
+}
+
+function groupByService(tables: TableDef[]): Map<string, TableDef[]> {
+  const services = new Map<string, TableDef[]>();
+  for (const table of tables) {
+    const group = services.get(table.service);
+    if (group) group.push(table);
+    else services.set(table.service, [table]);
+  }
+  return services;
+}
+
+/** Enum name -> the one service whose tables use it; shared and unused enums are absent */
+function enumOwners(tables: TableDef[], enums: EnumDef[]): Map<string, string> {
+  const users = new Map<string, Set<string>>();
+  for (const table of tables) {
+    for (const field of table.fields) {
+      const type = field.type.kind === "array" ? field.type.element : field.type;
+      if (type.kind !== "enum") continue;
+      const services = users.get(type.enumName) ?? new Set();
+      services.add(table.service);
+      users.set(type.enumName, services);
+    }
+  }
+
+  const owners = new Map<string, string>();
+  for (const enumDef of enums) {
+    const services = [...(users.get(enumDef.name) ?? [])];
+    if (services.length === 1) owners.set(enumDef.name, services[0]);
+  }
+  return owners;
+}
+
+function addTo(map: Map<string, string[]>, key: string, value: string): void {
+  const values = map.get(key);
+  if (!values) map.set(key, [value]);
+  else if (!values.includes(value)) values.push(value);
+}
+
+function sortedImports(imports: Map<string, string[]>): Map<string, string[]> {
+  return new Map(
+    [...imports]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([path, names]) => [path, names.sort()]),
+  );
+}
+
+function reExports(dir: string, modules: string[]): string {
+  const lines = modules.map((m) => `export * from ${quoted(`./${dir}/${m}.js`)};`);
+  return `${lines.join("\n")}\n`;
+}
+
+/** `relations.ts`: the per-service parts merged into the one config `drizzle()` takes */
+function generateRelationsBarrel(parts: [string, string][]): string {
+  const lines = parts.map(([service, name]) => importDecl([name], `./relations/${service}.js`));
+  lines.push("");
+  lines.push(`export const relations = { ${parts.map(([, name]) => `...${name}`).join(", ")} };`);
+  lines.push("");
+  return lines.join("\n");
+}
@@ -1,37 +1,109 @@
 import { exportConst, fnCall, importDecl, quoted } from "../codegen/index.js";
+import type { IdStrategy, TableDef } from "../ir/types.js";
+import { idGenerator } from "./column-mapper.js";
 import type { DialectConfig, NullableWrapperDef } from "./dialect.js";
+import { searchFields } from "./migration-generator.js";
 
-export function generateTypes(dialect: DialectConfig, schemaOnly = false): string {
+/** types.ts exports only some schemas import */
+export type TypeHelper = "rawUuid" | "generateUuid" | "generateRawUuid" | "tsvector";
+
+/**
+ * Emits the custom column types and id generators the schema imports. The
+ * short-uuid translator behind `base36Uuid` / `generateBase36Id` is only
+ * included when `idStrategies` has "base36" (see `usedIdStrategies`); the other
+ * strategies get self-contained generators built on `crypto`. The raw UUID
+ * type, the random UUID generators and `tsvector` are only included when
+ * `helpers` has them (see `usedTypeHelpers`).
+ */
+export function generateTypes(
+  dialect: DialectConfig,
+  schemaOnly = false,
+  idStrategies: ReadonlySet<IdStrategy> = new Set(["base36"]),
+  helpers: ReadonlySet<TypeHelper> = new Set(),
+): string {
   const sections: string[] = [];
+  const base36 = idStrategies.has("base36");
 
   sections.push(importDecl(["customType"], dialect.coreModule));
-  sections.push(`import short from ${quoted("short-uuid")};`);
+  if (base36) sections.push(`import short from ${quoted("short-uuid")};`);
   if (!schemaOnly) sections.push(...drizzleClientImports(dialect));
   sections.push("");
 
-  sections.push(`const translator = ${fnCall("short", ["short.constants.uuid25Base36"])};`);
-  sections.push("");
+  if (base36) {
+    sections.push(`const translator = ${fnCall("short", ["short.constants.uuid25Base36"])};`);
+    sections.push("");
 
-  const comment =
-    dialect.dialect === "sqlite"
-      ? "/** UUID column stored as text, reads/writes as base36 */"
-      : "/** UUID column that stores as native pg uuid, reads/writes as base36 */";
-  sections.push(comment);
-  const typeParam = "<{\n  data: string;\n  driverData: string;\n}>";
-  const configObj = [
-    "{",
-    `  dataType: () => ${quoted(dialect.uuidDataType)},`,
-    "  toDriver: (value: string): string => translator.toUUID(value),",
-    "  fromDriver: (value: string): string => translator.fromUUID(value),",
-    "}",
-  ].join("\n");
-  sections.push(exportConst("base36Uuid", `customType${typeParam}(${configObj})`));
-  sections.push("");
+    sections.push(uuidComment(dialect));
+    const typeParam = "<{\n  data: string;\n  driverData: string;\n}>";
+    const configObj = [
+      "{",
+      `  dataType: () => ${quoted(dialect.uuidDataType)},`,
+      "  toDriver: (value: string): string => translator.toUUID(value),",
+      "  fromDriver: (value: string): string => translator.fromUUID(value),",
+      "}",
+    ].join("\n");
+    sections.push(exportConst("base36Uuid", `customType${typeParam}(${configObj})`));
+    sections.push("");
 
-  sections.push("export function generateBase36Id(): string {");
-  sections.push("  return translator.new();");
-  sections.push("}");
-  sections.push("");
+    sections.push("export function generateBase36Id(): string {");
+    sections.push("  return translator.new();");
+    sections.push("}");
+    sections.push("");
+  }
+
+  if (helpers.has("rawUuid")) {
+    sections.push(
+      `/** UUID column stored as ${dialect.rawUuidDataType}: the 16 bytes of the UUID */`,
+    );
+    const rawConfig = ["{", `  dataType: () => ${quoted(dialect.rawUuidDataType)},`, "}"].join(
+      "\n",
+    );
+    sections.push(
+      exportConst(
+        "rawUuid",
+        `customType<{\n  data: Uint8Array;\n  driverData: Uint8Array;\n}>(${rawConfig})`,
+      ),
+    );
+    sections.push("");
+  }
+
+  // generateRawUuidV7 converts through uuidBytes too
+  if (helpers.has("generateRawUuid") || idStrategies.has("uuidv7")) {
+    sections.push("function uuidBytes(uuid: string): Uint8Array {");
+    sections.push('  const hex = uuid.replaceAll("-", "");');
+    sections.push(
+      "  return Uint8Array.from(hex.match(/../g) ?? [], (byte) => Number.parseInt(byte, 16));",
+    );
+    sections.push("}");
+    sections.push("");
+  }
+
+  if (helpers.has("generateUuid")) {
+    sections.push('/** Hyphenated random UUID for `@uuid("canonical", true)` columns */');
+    sections.push("export function generateUuid(): string {");
+    sections.push("  return crypto.randomUUID();");
+    sections.push("}");
+    sections.push("");
+  }
+
+  if (helpers.has("generateRawUuid")) {
+    sections.push('/** Random UUID as 16 bytes for `@uuid("raw", true)` columns */');
+    sections.push("export function generateRawUuid(): Uint8Array {");
+    sections.push("  return uuidBytes(crypto.randomUUID());");
+    sections.push("}");
+    sections.push("");
+  }
+
+  if (helpers.has("tsvector") && dialect.dialect === "pg") {
+    sections.push("/** Full-text search document, generated from the `@searchable` columns */");
+    const tsvectorConfig = ["{", `  dataType: () => ${quoted("tsvector")},`, "}"].join("\n");
+    sections.push(exportConst("tsvector", `customType<{ data: string }>(${tsvectorConfig})`));
+    sections.push("");
+  }
+
+  for (const strategy of ["uuidv7", "ulid", "nanoid", "cuid2"] as const) {
+    if (idStrategies.has(strategy)) sections.push(...idGenerators(strategy, base36));
+  }
 
   for (const wrapper of dialect.nullableWrappers) {
     sections.push(generateNullableWrapper(wrapper));
@@ -47,7 +119,135 @@ export function generateTypes(dialect: DialectConfig, schemaOnly = false): strin
   return sections.join("\n");
 }
 
+/**
+ * The helpers types.ts has to emit for `tables`: `rawUuid` for raw UUID
+ * columns, the random UUID generators their `@uuid(encoding, true)` columns
+ * call, and `tsvector` for Postgres tables with `@searchable` columns.
+ */
+export function usedTypeHelpers(tables: TableDef[], dialect: DialectConfig): Set<TypeHelper> {
+  const used = new Set<TypeHelper>();
+  for (const table of tables) {
+    if (dialect.dialect === "pg" && searchFields(table).length > 0) used.add("tsvector");
+    for (const field of table.fields) {
+      if (field.type.kind === "uuid" && field.type.encoding === "raw") used.add("rawUuid");
+      if (!field.uuid?.autoGenerate && !field.autoGenerateId) continue;
+      const generator = idGenerator(field);
+      if (generator === "generateUuid" || generator === "generateRawUuid") used.add(generator);
+    }
+  }
+  return used;
+}
+
+/** Self-contained generator(s) for a non-default `@id` strategy, each followed by a blank line */
+function idGenerators(strategy: Exclude<IdStrategy, "base36">, base36: boolean): string[] {
+  switch (strategy) {
+    case "uuidv7":
+      return [
+        "/** UUIDv7: a 48-bit millisecond timestamp then random bits, so ids sort by creation time */",
+        "export function generateUuidV7(): string {",
+        "  const bytes = crypto.getRandomValues(new Uint8Array(16));",
+        "  const time = Date.now();",
+        "  for (let i = 0; i < 6; i++) bytes[i] = Math.floor(time / 2 ** (8 * (5 - i))) % 256;",
+        "  bytes[6] = (bytes[6] & 0x0f) | 0x70;",
+        "  bytes[8] = (bytes[8] & 0x3f) | 0x80;",
+        '  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");',
+        "  const parts = [hex.slice(0, 8), hex.slice(8, 12), hex.slice(12, 16), hex.slice(16, 20)];",
+        '  return [...parts, hex.slice(20)].join("-");',
+        "}",
+        "",
+        "export function generateRawUuidV7(): Uint8Array {",
+        "  return uuidBytes(generateUuidV7());",
+        "}",
+        "",
+        ...(base36
+          ? [
+              "export function generateBase36UuidV7(): string {",
+              "  return translator.fromUUID(generateUuidV7());",
+              "}",
+              "",
+            ]
+          : []),
+      ];
+    case "ulid":
+      return [
+        'const ULID_ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";',
+        "",
+        "/** ULID: 48-bit millisecond timestamp and 80 random bits in Crockford base32 */",
+        "export function generateUlid(): string {",
+        "  let time = Date.now();",
+        '  let id = "";',
+        "  for (let i = 0; i < 10; i++) {",
+        "    id = ULID_ALPHABET[time % 32] + id;",
+        "    time = Math.floor(time / 32);",
+        "  }",
+        "  for (const byte of crypto.getRandomValues(new Uint8Array(16))) {",
+        "    id += ULID_ALPHABET[byte % 32];",
+        "  }",
+        "  return id;",
+        "}",
+        "",
+      ];
+    case "nanoid":
+      return [
+        'const NANOID_ALPHABET = "useandom-26T198340PX75pxJACKVERYMINDBUSHWOLF_GQZbfghjklqvwyzrict";',
+        "",
+        "/** nanoid: 21 URL-safe characters, 126 random bits */",
+        "export function generateNanoid(): string {",
+        '  let id = "";',
+        "  for (const byte of crypto.getRandomValues(new Uint8Array(21))) {",
+        "    id += NANOID_ALPHABET[byte & 63];",
+        "  }",
+        "  return id;",
+        "}",
+        "",
+      ];
+    case "cuid2":
+      return [
+        'const CUID2_ALPHABET = "abcdefghijklmnopqrstuvwxyz0123456789";',
+        "",
+        "/**",
+        " * cuid2-shaped id: a lowercase letter then 23 base36 characters. Drawn",
+        " * straight from `crypto.getRandomValues` instead of cuid2's hashed mix of",
+        " * time, counter and fingerprint, so only the format matches.",
+        " */",
+        "export function generateCuid2(): string {",
+        '  let id = "";',
+        "  while (id.length < 24) {",
+        "    const [byte] = crypto.getRandomValues(new Uint8Array(1));",
+        "    const range = id.length === 0 ? 26 : 36;",
+        "    if (byte < 256 - (256 % range)) id += CUID2_ALPHABET[byte % range];",
+        "  }",
+        "  return id;",
+        "}",
+        "",
+      ];
+  }
+}
+
+function uuidComment(dialect: DialectConfig): string {
+  switch (dialect.dialect) {
+    case "sqlite":
+      return "/** UUID column stored as text, reads/writes as base36 */";
+    case "mysql":
+      return "/** UUID column stored as char(36), reads/writes as base36 */";
+    case "pg":
+      return "/** UUID column that stores as native pg uuid, reads/writes as base36 */";
+  }
+}
+
 function drizzleClientImports(dialect: DialectConfig): string[] {
+  if (dialect.dialect === "mysql") {
+    return [
+      importDecl(
+        ["MySqlDatabase", "MySqlQueryResultHKT", "PreparedQueryHKTBase"],
+        dialect.coreModule,
+        {
+          type: true,
+        },
+      ),
+      importDecl(["relations"], "./relations.js", { type: true }),
+    ];
+  }
   if (dialect.dialect === "sqlite") {
     return [
       importDecl(["BaseSQLiteDatabase"], "drizzle-orm/sqlite-core", { type: true }),
@@ -74,6 +274,9 @@ function generateNullableWrapper(wrapper: NullableWrapperDef): string {
 }
 
 function drizzleClientType(dialect: DialectConfig): string {
+  if (dialect.dialect === "mysql") {
+    return "export type DrizzleClient = MySqlDatabase<MySqlQueryResultHKT, PreparedQueryHKTBase, Record<string, unknown>, typeof relations>;";
+  }
   if (dialect.dialect === "sqlite") {
     return 'export type DrizzleClient = BaseSQLiteDatabase<"sync" | "async", unknown, Record<string, unknown>, typeof relations>;';
   }
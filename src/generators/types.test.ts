@@ -1,11 +1,18 @@
 import assert from "node:assert/strict";
 import { describe, it } from "node:test";
+import { bookstoreTables } from "../fixtures/bookstore-ir.ts";
+import type { FieldDef, TableDef } from "../ir/types.ts";
 import { resolveDialect } from "./dialect.ts";
 import { generateIndex } from "./index-generator.ts";
-import { generateTypes } from "./types-generator.ts";
+import { generateTypes, usedTypeHelpers } from "./types-generator.ts";
 
 const pg = resolveDialect("pg");
-const typesOutput = generateTypes(pg);
+const typesOutput = generateTypes(
+  pg,
+  false,
+  new Set(["base36"]),
+  new Set(["rawUuid", "generateUuid", "generateRawUuid", "tsvector"]),
+);
 const indexOutput = generateIndex();
 
 describe("types generator", () => {
@@ -31,6 +38,86 @@ describe("types generator", () => {
     assert.ok(typesOutput.includes('dataType: () => "uuid",'));
   });
 
+  it("exports a rawUuid custom type stored as bytea", () => {
+    assert.ok(typesOutput.includes("export const rawUuid = customType<{\n  data: Uint8Array;"));
+    assert.ok(typesOutput.includes('dataType: () => "bytea",'));
+  });
+
+  it("exports a tsvector custom type for search columns", () => {
+    assert.ok(typesOutput.includes("export const tsvector = customType<{ data: string }>({"));
+    assert.ok(typesOutput.includes('dataType: () => "tsvector",'));
+  });
+
+  it("leaves out the UUID and search helpers no column uses", () => {
+    const output = generateTypes(pg);
+    for (const helper of ["rawUuid", "uuidBytes", "generateUuid", "generateRawUuid", "tsvector"]) {
+      assert.ok(!output.includes(helper), helper);
+    }
+    assert.ok(generateTypes(pg, false, new Set(["uuidv7"])).includes("function uuidBytes("));
+  });
+
+  it("finds the helpers the tables use", () => {
+    assert.deepEqual(usedTypeHelpers(bookstoreTables, pg), new Set());
+    const uuid = (
+      name: string,
+      encoding: "canonical" | "raw",
+      autoGenerate: boolean,
+    ): FieldDef => ({
+      name,
+      columnName: name,
+      type: { kind: "uuid", encoding },
+      nullable: false,
+      createdAt: false,
+      updatedAt: false,
+      uuid: { encoding, autoGenerate },
+    });
+    const device: TableDef = {
+      ...bookstoreTables[0],
+      fields: [
+        uuid("deviceId", "raw", true),
+        uuid("ownerId", "raw", false),
+        uuid("batchId", "canonical", true),
+        {
+          name: "label",
+          columnName: "label",
+          type: { kind: "text" },
+          nullable: false,
+          createdAt: false,
+          updatedAt: false,
+          searchWeight: "A",
+        },
+      ],
+    };
+    assert.deepEqual(
+      usedTypeHelpers([device], pg),
+      new Set(["rawUuid", "generateRawUuid", "generateUuid", "tsvector"]),
+    );
+    assert.ok(!usedTypeHelpers([device], resolveDialect("sqlite")).has("tsvector"));
+  });
+
+  it("emits only the generators of the strategies in use", () => {
+    const output = generateTypes(pg, false, new Set(["ulid", "cuid2"]));
+    assert.ok(!output.includes("short-uuid"));
+    assert.ok(!output.includes("base36Uuid"));
+    assert.ok(output.includes("export function generateUlid(): string {"));
+    assert.ok(output.includes("export function generateCuid2(): string {"));
+    assert.ok(!output.includes("generateNanoid"));
+    assert.ok(!output.includes("generateUuidV7"));
+  });
+
+  it("converts v7 UUIDs to base36 only when the translator is emitted", () => {
+    const withBase36 = generateTypes(pg, false, new Set(["base36", "uuidv7"]));
+    assert.ok(withBase36.includes("return translator.fromUUID(generateUuidV7());"));
+    const withoutBase36 = generateTypes(pg, false, new Set(["uuidv7"]));
+    assert.ok(withoutBase36.includes("export function generateRawUuidV7(): Uint8Array {"));
+    assert.ok(!withoutBase36.includes("generateBase36UuidV7"));
+  });
+
+  it("exports generators for canonical and raw UUIDs", () => {
+    assert.ok(typesOutput.includes("export function generateUuid(): string {"));
+    assert.ok(typesOutput.includes("export function generateRawUuid(): Uint8Array {"));
+  });
+
   it("includes toDriver and fromDriver", () => {
     assert.ok(
       typesOutput.includes("toDriver: (value: string): string => translator.toUUID(value),"),
@@ -170,5 +257,38 @@ describe("types generator (sqlite)", () => {
     assert.ok(!output.includes("nullableDoublePrecision"));
     assert.ok(!output.includes("nullableBoolean"));
     assert.ok(!output.includes("nullableTimestamp"));
+    assert.ok(!output.includes("tsvector"));
+  });
+});
+
+describe("types generator (mysql)", () => {
+  const output = generateTypes(resolveDialect("mysql"));
+
+  it("imports customType from drizzle-orm/mysql-core", () => {
+    assert.ok(output.includes('import { customType } from "drizzle-orm/mysql-core";'));
+  });
+
+  it("stores base36 UUIDs as char(36)", () => {
+    assert.ok(output.includes("stored as char(36)"));
+    assert.ok(output.includes('dataType: () => "char(36)",'));
+  });
+
+  it("exports DrizzleClient type alias using MySqlDatabase", () => {
+    assert.ok(
+      output.includes(
+        'import type { MySqlDatabase, MySqlQueryResultHKT, PreparedQueryHKTBase } from "drizzle-orm/mysql-core";',
+      ),
+    );
+    assert.ok(
+      output.includes(
+        "export type DrizzleClient = MySqlDatabase<MySqlQueryResultHKT, PreparedQueryHKTBase, Record<string, unknown>, typeof relations>;",
+      ),
+    );
+  });
+
+  it("exports MySQL nullable wrappers", () => {
+    assert.ok(output.includes("export const nullableInt = customType<{"));
+    assert.ok(output.includes('dataType: () => "datetime(3)",'));
+    assert.ok(output.includes("fromDriver: (v) => (v == null ? undefined : Boolean(v)),"));
   });
 });
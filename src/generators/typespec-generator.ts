@@ -0,0 +1,279 @@
+import type {
+  EnumDef,
+  FieldDef,
+  FieldType,
+  ForeignKeyDef,
+  IndexDef,
+  TableDef,
+} from "../ir/types.js";
+
+export interface TypeSpecOptions {
+  /** Namespace the models are declared in */
+  namespace: string;
+}
+
+/** TypeSpec keywords that must be backtick-quoted when used as identifiers */
+const KEYWORDS = new Set([
+  "alias",
+  "const",
+  "dec",
+  "else",
+  "enum",
+  "extends",
+  "extern",
+  "false",
+  "fn",
+  "if",
+  "import",
+  "init",
+  "interface",
+  "is",
+  "model",
+  "namespace",
+  "never",
+  "op",
+  "return",
+  "scalar",
+  "true",
+  "typeof",
+  "union",
+  "unknown",
+  "using",
+  "valueof",
+  "void",
+]);
+
+/**
+ * Prints IR as TypeSpec source in the `@table` vocabulary, the inverse of
+ * `buildIR`: compiling the output with this emitter yields the same tables.
+ *
+ * Varchar columns get a `@maxLength(n) scalar varcharN extends string`, since
+ * `buildIR` reads the length off the property's scalar; local timestamps use
+ * the library's `plainDateTime`. Enum values that are not valid identifiers
+ * are written as quoted member names.
+ */
+export function generateTypeSpec(
+  tables: TableDef[],
+  enums: EnumDef[],
+  options: TypeSpecOptions,
+): string {
+  const blocks: string[] = [
+    'import "@kattebak/typespec-drizzle-orm-generator";',
+    `namespace ${options.namespace.split(".").map(ident).join(".")};`,
+  ];
+
+  // Array columns need the scalar of their element declared too
+  const types = tables.flatMap((t) =>
+    t.fields.map((f) => (f.type.kind === "array" ? f.type.element : f.type)),
+  );
+  const lengths = new Set(types.flatMap((type) => (type.kind === "varchar" ? [type.length] : [])));
+  for (const length of [...lengths].sort((a, b) => a - b)) {
+    blocks.push(`@maxLength(${length})\nscalar varchar${length} extends string;`);
+  }
+
+  for (const enumDef of enums) {
+    const members = enumDef.values.map((value) => `  ${ident(value)},`);
+    blocks.push(`enum ${ident(enumTypeName(enumDef.name))} {\n${members.join("\n")}\n}`);
+  }
+
+  for (const table of tables) {
+    blocks.push(generateModel(table));
+  }
+
+  return `${blocks.join("\n\n")}\n`;
+}
+
+/** The `@indexDef` options object value, or undefined for a plain index */
+function indexOptions(index: IndexDef): string | undefined {
+  const list = (values: string[]) => `#[${values.map(str).join(", ")}]`;
+  const entries: string[] = [];
+  if (index.where) entries.push(`where: ${str(index.where)}`);
+  if (index.method) entries.push(`method: ${str(index.method)}`);
+  if (index.order) {
+    const columns = Object.entries(index.order).map(([column, { direction, nulls }]) => {
+      const order = [
+        ...(direction ? [`direction: ${str(direction)}`] : []),
+        ...(nulls ? [`nulls: ${str(nulls)}`] : []),
+      ];
+      return `${ident(column)}: #{ ${order.join(", ")} }`;
+    });
+    entries.push(`order: #{ ${columns.join(", ")} }`);
+  }
+  if (index.expressions) entries.push(`expressions: ${list(index.expressions)}`);
+  if (index.include) entries.push(`include: ${list(index.include)}`);
+  return entries.length > 0 ? `#{ ${entries.join(", ")} }` : undefined;
+}
+
+function generateModel(table: TableDef): string {
+  const model = ident(table.name);
+  const columns = (names: string[]) => `[${names.map((n) => `${model}.${ident(n)}`).join(", ")}]`;
+
+  const lines = [`@table(${str(table.name)}, ${str(table.service)})`];
+  if (table.isJunction) lines.push("@junction");
+  lines.push(`@primaryKey(${str(table.tableName)})`);
+  for (const index of table.indexes) {
+    if (index.using) {
+      const method = index.using === "hnsw" ? "" : `, ${str(index.using)}`;
+      lines.push(`@vectorIndex(${str(index.name)}, ${model}.${ident(index.columns[0])}${method})`);
+      continue;
+    }
+    const options = indexOptions(index);
+    const unique = index.unique ? ", true" : options ? ", false" : "";
+    lines.push(
+      `@indexDef(${str(index.name)}, ${columns(index.columns)}${unique}${options ? `, ${options}` : ""})`,
+    );
+  }
+  for (const constraint of table.uniqueConstraints) {
+    lines.push(`@compositeUnique(${str(constraint.name)}, ${columns(constraint.columns)})`);
+  }
+  for (const fk of table.foreignKeys) {
+    const foreign = `[${fk.foreignColumns.map((c) => `${ident(fk.foreignTable)}.${ident(c)}`).join(", ")}]`;
+    lines.push(
+      `@foreignKeyDef(${str(fk.name)}, ${columns(fk.columns)}, ${foreign}${actionArgs(fk)})`,
+    );
+  }
+
+  const fields = table.fields.map((field) => generateField(field, table));
+  lines.push(`model ${model} {\n${fields.join("\n\n")}\n}`);
+  return lines.join("\n");
+}
+
+function generateField(field: FieldDef, table: TableDef): string {
+  const decorators: string[] = [];
+
+  if (table.primaryKey.columns.includes(field.name)) decorators.push("@pk");
+  if (field.uuid) {
+    const autoGenerate = field.uuid.autoGenerate ? ", true" : "";
+    decorators.push(`@uuid(${str(field.uuid.encoding)}${autoGenerate})`);
+  }
+  if (field.idStrategy) decorators.push(`@id(${str(field.idStrategy)})`);
+  if (field.identity) {
+    decorators.push(
+      field.identity === "always" ? "@identity" : `@identity(${str(field.identity)})`,
+    );
+  }
+  if (field.type.kind === "decimal" && field.type.precision !== undefined) {
+    const { precision, scale, mode } = field.type;
+    const args = [String(precision)];
+    // numeric(p) has scale 0, so spelling it out to reach `mode` changes nothing
+    if (scale !== undefined || mode === "number") args.push(String(scale ?? 0));
+    if (mode === "number") args.push(str(mode));
+    decorators.push(`@precision(${args.join(", ")})`);
+  }
+  if (field.type.kind === "vector") {
+    const distance = field.type.distance === "cosine" ? "" : `, ${str(field.type.distance)}`;
+    decorators.push(`@vector(${field.type.dimensions}${distance})`);
+  }
+  if (field.references) {
+    const { tableName, fieldName } = field.references;
+    decorators.push(
+      `@references(${ident(tableName)}.${ident(fieldName)}${actionArgs(field.references)})`,
+    );
+    const { relationName, inverseName } = field.references;
+    if (relationName) {
+      const inverse = inverseName ? `, ${str(inverseName)}` : "";
+      decorators.push(`@relation(${str(relationName)}${inverse})`);
+    }
+  }
+  if (field.constraints?.unique) decorators.push("@unique");
+  if (field.constraints?.check) decorators.push(`@check(${str(field.constraints.check)})`);
+  // `global.` avoids TypeSpec's own @minValue / @maxValue
+  if (field.constraints?.minValue !== undefined) {
+    decorators.push(`@global.minValue(${field.constraints.minValue})`);
+  }
+  if (field.constraints?.maxValue !== undefined) {
+    decorators.push(`@global.maxValue(${field.constraints.maxValue})`);
+  }
+  if (field.searchWeight) {
+    decorators.push(
+      field.searchWeight === "A" ? "@searchable" : `@searchable(${str(field.searchWeight)})`,
+    );
+  }
+  if (field.createdAt) decorators.push("@createdAt");
+  if (field.updatedAt) decorators.push("@updatedAt");
+  if (field.visibility) decorators.push(`@columnVisibility(${str(field.visibility)})`);
+
+  const optional = field.nullable ? "?" : "";
+  const defaultValue =
+    field.defaultValue === undefined ? "" : ` = ${typeSpecValue(field.defaultValue, field.type)}`;
+  const declaration = `${ident(field.name)}${optional}: ${typeSpecType(field.type)}${defaultValue};`;
+
+  return [...decorators, declaration].map((line) => `  ${line}`).join("\n");
+}
+
+function typeSpecType(type: FieldType): string {
+  switch (type.kind) {
+    case "varchar":
+      return `varchar${type.length}`;
+    case "integer":
+      return "int32";
+    case "bigint":
+      return "int64";
+    case "real":
+      return "float32";
+    case "doublePrecision":
+      return "float64";
+    case "decimal":
+      return "decimal";
+    case "boolean":
+      return "boolean";
+    case "timestamp":
+      return "utcDateTime";
+    case "localTimestamp":
+      return "plainDateTime";
+    case "date":
+      return "plainDate";
+    case "time":
+      return "plainTime";
+    case "interval":
+      return "duration";
+    case "bytes":
+      return "bytes";
+    case "vector":
+      return "float32[]";
+    case "jsonb":
+      return "Record<unknown>";
+    case "array":
+      return `${typeSpecType(type.element)}[]`;
+    case "enum":
+      return ident(enumTypeName(type.enumName));
+    default:
+      return "string";
+  }
+}
+
+function typeSpecValue(value: unknown, type: FieldType): string {
+  if (type.kind === "enum") {
+    return `${ident(enumTypeName(type.enumName))}.${ident(String(value))}`;
+  }
+  return typeof value === "string" ? str(value) : String(value);
+}
+
+/** `bookFormatEnum` -> `BookFormat`, the TypeSpec enum `buildIR` derives it from */
+function enumTypeName(enumName: string): string {
+  const name = enumName.replace(/Enum$/, "");
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+function ident(name: string): string {
+  if (/^[A-Za-z_$][\w$]*$/.test(name) && !KEYWORDS.has(name)) return name;
+  return `\`${name.replaceAll("\\", "\\\\").replaceAll("`", "\\`")}\``;
+}
+
+/** Trailing `onDelete` / `onUpdate` arguments; `onDelete` is spelled out when only `onUpdate` is set */
+function actionArgs({ onDelete, onUpdate }: Pick<ForeignKeyDef, "onDelete" | "onUpdate">): string {
+  if (!onDelete && !onUpdate) return "";
+  const update = onUpdate ? `, ${str(onUpdate.toUpperCase())}` : "";
+  return `, ${str((onDelete ?? "no action").toUpperCase())}${update}`;
+}
+
+function str(value: string): string {
+  const escaped = value
+    .replaceAll("\\", "\\\\")
+    .replaceAll('"', '\\"')
+    .replaceAll("\n", "\\n")
+    .replaceAll("\r", "\\r")
+    .replaceAll("\t", "\\t")
+    .replaceAll("${", "\\${");
+  return `"${escaped}"`;
+}
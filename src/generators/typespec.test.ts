@@ -0,0 +1,223 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { bookstoreEnums, bookstoreTables } from "../fixtures/bookstore-ir.ts";
+import type { FieldDef, TableDef } from "../ir/types.ts";
+import { generateTypeSpec } from "./typespec-generator.ts";
+
+const output = generateTypeSpec(bookstoreTables, bookstoreEnums, { namespace: "Bookstore" });
+
+function field(name: string, overrides: Partial<FieldDef> = {}): FieldDef {
+  return {
+    name,
+    columnName: name,
+    type: { kind: "text" },
+    nullable: false,
+    createdAt: false,
+    updatedAt: false,
+    ...overrides,
+  };
+}
+
+const setting: TableDef = {
+  name: "Setting",
+  service: "config",
+  tableName: "settings",
+  primaryKey: { tableName: "settings", columns: ["key"], isComposite: false },
+  fields: [
+    field("key", { type: { kind: "varchar", length: 64 } }),
+    field("model", { defaultValue: `say "hi" \${x}` }),
+    field("level", { type: { kind: "enum", enumName: "logLevelEnum", values: ["in-progress"] } }),
+    field("weight", { type: { kind: "doublePrecision" }, defaultValue: 1.5 }),
+    field("payload", { type: { kind: "jsonb" }, nullable: true }),
+  ],
+  foreignKeys: [],
+  isJunction: false,
+  indexes: [],
+  uniqueConstraints: [],
+};
+
+describe("TypeSpec generator", () => {
+  it("imports the library and opens the namespace", () => {
+    assert.ok(
+      output.startsWith(
+        'import "@kattebak/typespec-drizzle-orm-generator";\n\nnamespace Bookstore;\n',
+      ),
+    );
+  });
+
+  it("declares enums under their TypeSpec name", () => {
+    assert.ok(
+      output.includes("enum BookFormat {\n  hardcover,\n  paperback,\n  ebook,\n  audiobook,\n}"),
+    );
+  });
+
+  it("prints model decorators", () => {
+    assert.ok(
+      output.includes(
+        '@table("BookGenre", "bookstore")\n@junction\n@primaryKey("book_genres")\nmodel BookGenre {',
+      ),
+    );
+    assert.ok(
+      output.includes(
+        '@indexDef("books_author_publication_idx", [Book.authorId, Book.publicationYear])\nmodel Book {',
+      ),
+    );
+  });
+
+  it("prints field decorators, one field per paragraph", () => {
+    assert.ok(
+      output.includes('  @pk\n  @uuid("base36", true)\n  bookId: string;\n\n  @uuid("base36")'),
+    );
+    assert.ok(output.includes('  @columnVisibility("read")\n  title: string;'));
+    assert.ok(
+      output.includes('  @uuid("base36")\n  @references(Author.authorId)\n  authorId: string;'),
+    );
+    assert.ok(output.includes("  @global.minValue(1)\n  @global.maxValue(5)\n  rating: int32;"));
+    assert.ok(output.includes("  @createdAt\n  createdAt: utcDateTime;"));
+    assert.ok(output.includes("  translatorId?: string;"));
+    assert.ok(output.includes("  format: BookFormat;"));
+  });
+
+  it("declares a length scalar per varchar length", () => {
+    const printed = generateTypeSpec([setting], [], { namespace: "Config" });
+    assert.ok(printed.includes("@maxLength(64)\nscalar varchar64 extends string;"));
+    assert.ok(printed.includes("  key: varchar64;"));
+  });
+
+  it("quotes keywords, odd identifiers and string escapes", () => {
+    const printed = generateTypeSpec(
+      [setting],
+      [{ name: "logLevelEnum", sqlName: "log_level", values: ["in-progress"] }],
+      { namespace: "Config" },
+    );
+    assert.ok(printed.includes("enum LogLevel {\n  `in-progress`,\n}"));
+    assert.ok(printed.includes(`  \`model\`: string = "say \\"hi\\" \\\${x}";`));
+    assert.ok(printed.includes("  weight: float64 = 1.5;"));
+    assert.ok(printed.includes("  payload?: Record<unknown>;"));
+  });
+
+  it("prints composite keys and enum defaults", () => {
+    const line: TableDef = {
+      ...setting,
+      name: "Line",
+      primaryKey: { tableName: "lines", columns: ["key", "model"], isComposite: true },
+      fields: [
+        ...setting.fields.slice(0, 2),
+        field("level", {
+          type: { kind: "enum", enumName: "logLevelEnum", values: ["info"] },
+          defaultValue: "info",
+        }),
+        field("parentKey", {
+          nullable: true,
+          references: { tableName: "Setting", fieldName: "key", onDelete: "set null" },
+        }),
+        field("ownerKey", {
+          references: {
+            tableName: "Setting",
+            fieldName: "key",
+            relationName: "owner",
+            inverseName: "ownedLines",
+          },
+        }),
+      ],
+      uniqueConstraints: [{ name: "uq_line", columns: ["key", "level"] }],
+      foreignKeys: [
+        { name: "fk_line", columns: ["key"], foreignTable: "Setting", foreignColumns: ["key"] },
+        {
+          name: "fk_line_model",
+          columns: ["model"],
+          foreignTable: "Setting",
+          foreignColumns: ["key"],
+          onUpdate: "cascade",
+        },
+      ],
+      indexes: [{ name: "idx_line", columns: ["level"], unique: true }],
+    };
+    const printed = generateTypeSpec([line], [], { namespace: "Config" });
+    assert.ok(printed.includes('@indexDef("idx_line", [Line.level], true)'));
+    assert.ok(printed.includes('@compositeUnique("uq_line", [Line.key, Line.level])'));
+    assert.ok(printed.includes('@foreignKeyDef("fk_line", [Line.key], [Setting.key])'));
+    assert.ok(
+      printed.includes(
+        '@foreignKeyDef("fk_line_model", [Line.`model`], [Setting.key], "NO ACTION", "CASCADE")',
+      ),
+    );
+    assert.ok(printed.includes("  @pk\n  `model`: string"));
+    assert.ok(printed.includes("  level: LogLevel = LogLevel.info;"));
+    assert.ok(printed.includes('  @references(Setting.key, "SET NULL")\n  parentKey?: string;'));
+    assert.ok(
+      printed.includes(
+        '  @references(Setting.key)\n  @relation("owner", "ownedLines")\n  ownerKey: string;',
+      ),
+    );
+  });
+
+  it("prints vectors and their indexes", () => {
+    const passage: TableDef = {
+      ...setting,
+      name: "Passage",
+      fields: [
+        setting.fields[0],
+        field("embedding", { type: { kind: "vector", dimensions: 3, distance: "l2" } }),
+      ],
+      indexes: [{ name: "idx_embedding", columns: ["embedding"], unique: false, using: "ivfflat" }],
+    };
+    const printed = generateTypeSpec([passage], [], { namespace: "Config" });
+    assert.ok(printed.includes('@vectorIndex("idx_embedding", Passage.embedding, "ivfflat")'));
+    assert.ok(printed.includes('  @vector(3, "l2")\n  embedding: float32[];'));
+  });
+
+  it("prints @indexDef options as an object value", () => {
+    const indexed: TableDef = {
+      ...setting,
+      indexes: [
+        {
+          name: "idx_key",
+          columns: ["key"],
+          unique: false,
+          method: "hash",
+          order: { key: { direction: "desc", nulls: "first" } },
+          expressions: ["lower(key)"],
+          where: "key <> ''",
+          include: ["key"],
+        },
+      ],
+    };
+    const printed = generateTypeSpec([indexed], [], { namespace: "Config" });
+    assert.ok(
+      printed.includes(
+        '@indexDef("idx_key", [Setting.key], false, #{ where: "key <> \'\'", method: "hash", order: #{ key: #{ direction: "desc", nulls: "first" } }, expressions: #["lower(key)"], include: #["key"] })',
+      ),
+    );
+  });
+
+  it("prints @identity with its generation unless it is the default", () => {
+    const counter = (identity: FieldDef["identity"]) =>
+      generateTypeSpec(
+        [{ ...setting, fields: [field("key", { type: { kind: "integer" }, identity })] }],
+        [],
+        { namespace: "Config" },
+      );
+    assert.ok(counter("always").includes("  @pk\n  @identity\n  key: int32;"));
+    assert.ok(counter("byDefault").includes('  @identity("byDefault")\n  key: int32;'));
+  });
+
+  it("prints @searchable with its weight unless it is the default", () => {
+    const printed = generateTypeSpec(
+      [
+        {
+          ...setting,
+          fields: [
+            setting.fields[0],
+            field("title", { searchWeight: "A" }),
+            field("body", { searchWeight: "C" }),
+          ],
+        },
+      ],
+      [],
+      { namespace: "Config" },
+    );
+    assert.ok(printed.includes("  @searchable\n  title: string;"));
+    assert.ok(printed.includes('  @searchable("C")\n  body: string;'));
+  });
+});
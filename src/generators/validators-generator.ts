@@ -0,0 +1,148 @@
+import { arrayLiteral, type ChainMethod, chainCall, importDecl, quoted } from "../codegen/index.js";
+import type { FieldDef, FieldType, TableDef } from "../ir/types.js";
+
+/**
+ * Generates `validators.ts`: Zod insert/select/update schemas per table.
+ *
+ * - select: every column; nullable columns accept `null` and `undefined`
+ *   (the nullable custom types read SQL NULL back as `undefined`).
+ * - insert: omits `@columnVisibility("read")`, `@createdAt`/`@updatedAt` and
+ *   `@identity("always")` columns; columns the database or Drizzle fills in
+ *   (defaults, generated ids, `@identity("byDefault")` keys) become optional.
+ * - update: the insert schema with every key optional.
+ */
+export function generateValidators(tables: TableDef[]): string {
+  const lines: string[] = [];
+
+  lines.push(importDecl(["z"], "zod"));
+
+  for (const table of tables) {
+    lines.push("");
+    lines.push(...generateTableValidators(table));
+  }
+
+  lines.push("");
+  return lines.join("\n");
+}
+
+function generateTableValidators(table: TableDef): string[] {
+  const base = table.name[0].toLowerCase() + table.name.slice(1);
+  const selectName = `${base}SelectSchema`;
+  const insertName = `${base}InsertSchema`;
+  const updateName = `${base}UpdateSchema`;
+
+  const selectFields = table.fields.map((f) => [f.name, selectValidator(f)] as const);
+  const insertFields = table.fields
+    .filter(
+      (f) => f.visibility !== "read" && !f.createdAt && !f.updatedAt && f.identity !== "always",
+    )
+    .map((f) => [f.name, insertValidator(f)] as const);
+
+  return [
+    `export const ${selectName} = ${zodObject(selectFields)};`,
+    "",
+    `export const ${insertName} = ${zodObject(insertFields)};`,
+    "",
+    `export const ${updateName} = ${insertName}.partial();`,
+    "",
+    `export type ${table.name}Select = z.infer<typeof ${selectName}>;`,
+    `export type ${table.name}Insert = z.infer<typeof ${insertName}>;`,
+    `export type ${table.name}Update = z.infer<typeof ${updateName}>;`,
+  ];
+}
+
+function zodObject(fields: ReadonlyArray<readonly [string, string]>): string {
+  if (fields.length === 0) return "z.object({})";
+  const body = fields.map(([name, validator]) => `  ${name}: ${validator},`).join("\n");
+  return `z.object({\n${body}\n})`;
+}
+
+function selectValidator(field: FieldDef): string {
+  const base = baseValidator(field);
+  return field.nullable ? chainCall(base, [{ method: "nullish" }]) : base;
+}
+
+function insertValidator(field: FieldDef): string {
+  const base = baseValidator(field);
+  if (field.nullable) return chainCall(base, [{ method: "nullish" }]);
+  if (hasGeneratedValue(field)) return chainCall(base, [{ method: "optional" }]);
+  return base;
+}
+
+function hasGeneratedValue(field: FieldDef): boolean {
+  return (
+    field.defaultValue !== undefined ||
+    !!field.uuid?.autoGenerate ||
+    !!field.autoGenerateId ||
+    !!field.identity
+  );
+}
+
+function baseValidator(field: FieldDef): string {
+  const range = rangeChecks(field);
+
+  switch (field.type.kind) {
+    case "array":
+      return `z.array(${baseValidator({ ...field, type: field.type.element, constraints: undefined })})`;
+    case "text":
+      return chainCall("z.string()", range);
+    case "uuid":
+      if (field.type.encoding === "raw") return "z.instanceof(Uint8Array)";
+      return field.type.encoding === "canonical" ? "z.string().uuid()" : "z.string()";
+    case "varchar":
+      return chainCall("z.string()", [{ method: "max", args: [String(field.type.length)] }]);
+    case "integer":
+    case "bigint":
+      return chainCall("z.number().int()", range);
+    case "real":
+    case "doublePrecision":
+      return chainCall("z.number()", range);
+    case "decimal":
+      if (field.type.mode === "number") return chainCall("z.number()", range);
+      return chainCall("z.string()", [{ method: "regex", args: [decimalPattern(field.type)] }]);
+    case "boolean":
+      return "z.boolean()";
+    case "timestamp":
+    case "localTimestamp":
+      return "z.date()";
+    case "date":
+      return "z.string().date()";
+    case "time":
+      return "z.string().time()";
+    case "interval":
+      return "z.string()";
+    case "bytes":
+      return "z.instanceof(Uint8Array)";
+    case "vector":
+      return `z.array(z.number()).length(${field.type.dimensions})`;
+    case "jsonb":
+      return "z.unknown()";
+    case "enum":
+    case "textEnum":
+      return `z.enum(${arrayLiteral(field.type.values.map((v) => quoted(v)))})`;
+  }
+}
+
+/**
+ * Decimal strings with at most `precision - scale` integer and `scale`
+ * fraction digits. Range checks are left to the database's CHECK constraint.
+ */
+function decimalPattern(type: Extract<FieldType, { kind: "decimal" }>): string {
+  if (type.precision === undefined) return "/^-?\\d+(\\.\\d+)?$/";
+  const scale = type.scale ?? 0;
+  const digits = type.precision - scale;
+  const integer = digits > 0 ? `\\d{1,${digits}}` : "0";
+  return scale > 0 ? `/^-?${integer}(\\.\\d{1,${scale}})?$/` : `/^-?${integer}$/`;
+}
+
+/** `@minValue` / `@maxValue` as Zod `.min()` / `.max()` refinements */
+function rangeChecks(field: FieldDef): ChainMethod[] {
+  const calls: ChainMethod[] = [];
+  if (field.constraints?.minValue !== undefined) {
+    calls.push({ method: "min", args: [String(field.constraints.minValue)] });
+  }
+  if (field.constraints?.maxValue !== undefined) {
+    calls.push({ method: "max", args: [String(field.constraints.maxValue)] });
+  }
+  return calls;
+}
@@ -0,0 +1,172 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { bookstoreTables } from "../fixtures/bookstore-ir.ts";
+import type { FieldDef, TableDef } from "../ir/types.ts";
+import { generateValidators } from "./validators-generator.ts";
+
+function field(name: string, overrides: Partial<FieldDef> = {}): FieldDef {
+  return {
+    name,
+    columnName: name,
+    type: { kind: "text" },
+    nullable: false,
+    createdAt: false,
+    updatedAt: false,
+    ...overrides,
+  };
+}
+
+const review: TableDef = {
+  name: "Review",
+  service: "bookstore",
+  tableName: "reviews",
+  primaryKey: { tableName: "reviews", columns: ["reviewId"], isComposite: false },
+  fields: [
+    field("reviewId", { type: { kind: "uuid", encoding: "base36" }, autoGenerateId: true }),
+    field("traceId", { type: { kind: "uuid", encoding: "canonical" }, nullable: true }),
+    field("digest", { type: { kind: "uuid", encoding: "raw" }, nullable: true }),
+    field("shipOn", { type: { kind: "date" } }),
+    field("opensAt", { type: { kind: "time" } }),
+    field("avatar", { type: { kind: "bytes" }, nullable: true }),
+    field("embedding", { type: { kind: "vector", dimensions: 4, distance: "cosine" } }),
+    field("price", { type: { kind: "decimal", precision: 8, scale: 2, mode: "string" } }),
+    field("weight", {
+      type: { kind: "decimal", mode: "number" },
+      constraints: { minValue: 0 },
+    }),
+    field("headline", { type: { kind: "varchar", length: 120 } }),
+    field("rating", { type: { kind: "integer" }, constraints: { minValue: 1, maxValue: 5 } }),
+    field("score", { type: { kind: "doublePrecision" }, nullable: true }),
+    field("status", {
+      type: { kind: "enum", enumName: "reviewStatusEnum", values: ["draft", "published"] },
+      defaultValue: "draft",
+    }),
+    field("source", { type: { kind: "textEnum", values: ["web", "app"] } }),
+    field("verified", { type: { kind: "boolean" } }),
+    field("payload", { type: { kind: "jsonb" }, nullable: true }),
+    field("tags", { type: { kind: "array", element: { kind: "varchar", length: 20 } } }),
+    field("createdAt", { type: { kind: "timestamp" }, createdAt: true }),
+  ],
+  foreignKeys: [],
+  isJunction: false,
+  indexes: [],
+  uniqueConstraints: [],
+};
+
+const output = generateValidators([review]);
+
+describe("validators generator", () => {
+  it("imports z from zod", () => {
+    assert.ok(output.startsWith('import { z } from "zod";\n'));
+  });
+
+  it("maps field types and constraints to Zod validators", () => {
+    assert.ok(output.includes("  headline: z.string().max(120),"));
+    assert.ok(output.includes("  rating: z.number().int().min(1).max(5),"));
+    assert.ok(output.includes("  verified: z.boolean(),"));
+    assert.ok(output.includes("  createdAt: z.date(),"));
+  });
+
+  it("validates date and time strings", () => {
+    assert.ok(output.includes("  shipOn: z.string().date(),"));
+    assert.ok(output.includes("  opensAt: z.string().time(),"));
+  });
+
+  it("validates bytes as Uint8Array instances", () => {
+    assert.ok(output.includes("  avatar: z.instanceof(Uint8Array).nullish(),"));
+  });
+
+  it("validates vectors by their dimensions", () => {
+    assert.ok(output.includes("  embedding: z.array(z.number()).length(4),"));
+  });
+
+  it("validates decimal strings by their digits and numbers by range", () => {
+    assert.ok(output.includes("  price: z.string().regex(/^-?\\d{1,6}(\\.\\d{1,2})?$/),"));
+    assert.ok(output.includes("  weight: z.number().min(0),"));
+  });
+
+  it("validates UUIDs in their declared encoding", () => {
+    assert.ok(output.includes("  reviewId: z.string(),"));
+    assert.ok(output.includes("  traceId: z.string().uuid().nullish(),"));
+    assert.ok(output.includes("  digest: z.instanceof(Uint8Array).nullish(),"));
+  });
+
+  it("validates arrays element by element", () => {
+    assert.ok(output.includes("  tags: z.array(z.string().max(20)),"));
+  });
+
+  it("maps native and text enums to z.enum", () => {
+    assert.ok(output.includes('  status: z.enum(["draft", "published"]),'));
+    assert.ok(output.includes('  source: z.enum(["web", "app"]),'));
+  });
+
+  it("accepts null and undefined for nullable columns", () => {
+    assert.ok(output.includes("  score: z.number().nullish(),"));
+    assert.ok(output.includes("  payload: z.unknown().nullish(),"));
+  });
+
+  it("makes defaulted and generated columns optional on insert", () => {
+    const insert = output.slice(output.indexOf("reviewInsertSchema = "));
+    assert.ok(insert.includes("  reviewId: z.string().optional(),"));
+    assert.ok(insert.includes('  status: z.enum(["draft", "published"]).optional(),'));
+  });
+
+  it("omits always-generated identity keys from insert and makes by-default ones optional", () => {
+    const counter: TableDef = {
+      ...review,
+      name: "Counter",
+      fields: [field("counterId", { type: { kind: "integer" }, identity: "always" })],
+    };
+    const always = generateValidators([counter]);
+    assert.ok(always.includes("export const counterInsertSchema = z.object({});"));
+    const byDefault = generateValidators([
+      { ...counter, fields: [{ ...counter.fields[0], identity: "byDefault" }] },
+    ]);
+    assert.ok(byDefault.includes("  counterId: z.number().int().optional(),"));
+  });
+
+  it("omits timestamp columns from insert", () => {
+    const insert = output.slice(
+      output.indexOf("reviewInsertSchema = "),
+      output.indexOf("reviewUpdateSchema = "),
+    );
+    assert.ok(!insert.includes("createdAt"));
+  });
+
+  it("derives the update schema from the insert schema", () => {
+    assert.ok(output.includes("export const reviewUpdateSchema = reviewInsertSchema.partial();"));
+  });
+
+  it("exports inferred types", () => {
+    assert.ok(output.includes("export type ReviewSelect = z.infer<typeof reviewSelectSchema>;"));
+    assert.ok(output.includes("export type ReviewInsert = z.infer<typeof reviewInsertSchema>;"));
+    assert.ok(output.includes("export type ReviewUpdate = z.infer<typeof reviewUpdateSchema>;"));
+  });
+});
+
+describe("validators generator (bookstore)", () => {
+  const bookstore = generateValidators(bookstoreTables);
+  const authorInsert = bookstore.slice(
+    bookstore.indexOf("authorInsertSchema = "),
+    bookstore.indexOf("authorUpdateSchema = "),
+  );
+
+  it("keeps read-only columns in select but not in insert", () => {
+    assert.ok(bookstore.includes("export const authorSelectSchema = z.object({\n  authorId:"));
+    assert.ok(bookstore.includes("  name: z.string(),"));
+    assert.ok(!authorInsert.includes("name:"));
+  });
+
+  it("omits createdAt and updatedAt from insert", () => {
+    assert.ok(!authorInsert.includes("createdAt"));
+    assert.ok(!authorInsert.includes("updatedAt"));
+    assert.ok(authorInsert.includes("  authorId: z.string().optional(),"));
+  });
+
+  it("emits schemas for every table", () => {
+    for (const table of bookstoreTables) {
+      const base = table.name[0].toLowerCase() + table.name.slice(1);
+      assert.ok(bookstore.includes(`export const ${base}SelectSchema`), table.name);
+    }
+  });
+});
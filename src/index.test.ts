@@ -1,6 +1,6 @@
 import assert from "node:assert/strict";
 import { describe, it } from "node:test";
-import type { EmitContext } from "@typespec/compiler";
+import type { EmitContext, Model } from "@typespec/compiler";
 import { resolvePath } from "@typespec/compiler";
 import { createTestHost } from "@typespec/compiler/testing";
 import {
@@ -45,17 +45,31 @@ extern dec table(target: Model, name: valueof string, service: valueof string);
 extern dec primaryKey(target: Model, tableName: valueof string);
 extern dec pk(target: ModelProperty);
 extern dec uuid(target: ModelProperty, encoding: valueof string, autoGenerate?: valueof boolean);
+extern dec indexDef(
+  target: Model,
+  name: valueof string,
+  columns: ModelProperty[],
+  unique?: valueof boolean,
+  options?: valueof { where?: string; method?: "btree" | "hash" }
+);
 `;
 
 const DRIZZLE_MODELS = `
 import "./drizzle.tsp";
 
+model Dimensions {
+  width: int32;
+  height?: int32;
+}
+
 @table("Widget", "test")
 @primaryKey("widgets")
+@indexDef("widgets_name_idx", [Widget.name], false, #{ method: "hash", where: "size > 0" })
 model Widget {
   @pk @uuid("base36", true) widgetId: string;
   name: string;
   size?: int32;
+  dimensions?: Dimensions;
 }
 `;
 
@@ -84,22 +98,24 @@ model Widget {
 }
 `;
 
-async function drizzleHost() {
+async function drizzleHost(models = DRIZZLE_MODELS) {
   const host = await createTestHost();
   const {
     $pk: pkDec,
     $table: tableDec,
     $primaryKey: pkTableDec,
     $uuid: uuidDec,
+    $indexDef: indexDefDec,
   } = await import("./decorators.ts");
   host.addJsFile("drizzle.js", {
     $table: tableDec,
     $primaryKey: pkTableDec,
     $pk: pkDec,
     $uuid: uuidDec,
+    $indexDef: indexDefDec,
   });
   host.addTypeSpecFile("drizzle.tsp", `import "./drizzle.js";\n${DRIZZLE_DECORATORS}`);
-  host.addTypeSpecFile("main.tsp", DRIZZLE_MODELS);
+  host.addTypeSpecFile("main.tsp", models);
   await host.compile("main.tsp");
   return host;
 }
@@ -157,6 +173,11 @@ describe("$onEmit (in-process emit)", () => {
     const schema = files.get("schema.ts");
     assert.ok(schema?.includes("export const widgets = pgTable("));
     assert.ok(schema?.includes('from "drizzle-orm/pg-core"'));
+    assert.ok(schema?.includes('dimensions: jsonb("dimensions").$type<Dimensions>(),'));
+    assert.equal(
+      files.get("json-types.ts"),
+      "export interface Dimensions {\n  width: number;\n  height?: number;\n}\n",
+    );
 
     const pkg = JSON.parse(files.get("package.json") ?? "{}");
     assert.equal(pkg.name, "drizzle-schema");
@@ -190,6 +211,120 @@ describe("$onEmit (in-process emit)", () => {
     assert.ok(!files.has("describe.ts"));
   });
 
+  it("emits migrations/0000_init.sql when migrations is set", async () => {
+    const host = await drizzleHost();
+    const files = await runEmit(host, { migrations: true });
+
+    const migration = files.get("migrations/0000_init.sql");
+    assert.ok(migration?.includes('CREATE TABLE "widgets" ('));
+    assert.ok(files.has("migrations/snapshot.json"));
+    assert.ok(!(await runEmit(await drizzleHost(), {})).has("migrations/0000_init.sql"));
+  });
+
+  it("reads the previous snapshot back and emits no new migration for an unchanged model", async () => {
+    const host = await drizzleHost();
+    await runEmit(host, { migrations: true });
+    host.fs.delete(resolvePath("/emit-out", "migrations/0000_init.sql"));
+
+    const files = await runEmit(host, { migrations: true });
+    assert.ok(!files.has("migrations/0000_init.sql"));
+    assert.ok(![...files.keys()].some((name) => name.endsWith("_update.sql")));
+  });
+
+  it("reports an unreadable snapshot instead of starting a new migration history", async () => {
+    const host = await drizzleHost();
+    await runEmit(host, { migrations: true });
+    const snapshotPath = resolvePath("/emit-out", "migrations/snapshot.json");
+    host.fs.delete(resolvePath("/emit-out", "migrations/0000_init.sql"));
+    host.fs.set(snapshotPath, "{ not json");
+
+    const files = await runEmit(host, { migrations: true });
+    assert.ok(!files.has("migrations/0000_init.sql"));
+    assert.equal(files.get("migrations/snapshot.json"), "{ not json");
+    assert.ok(files.has("schema.ts"));
+    const errors = host.program.diagnostics.filter((d) =>
+      d.code.endsWith("unreadable-migration-snapshot"),
+    );
+    assert.deepEqual(
+      errors.map((d) => d.severity),
+      ["error"],
+    );
+    assert.match(errors[0].message, /Cannot read the migration snapshot ".*snapshot\.json"/);
+  });
+
+  it("emits mysqlTable schemas and skips outputs MySQL cannot support with a warning", async () => {
+    const host = await drizzleHost();
+    const files = await runEmit(host, { dialect: "mysql", migrations: true, repository: true });
+
+    assert.ok(files.get("schema.ts")?.includes("export const widgets = mysqlTable("));
+    // The indexed name cannot be a MySQL text column
+    assert.ok(
+      files.get("schema.ts")?.includes('name: varchar("name", { length: 255 }).notNull(),'),
+    );
+    assert.ok(files.get("types.ts")?.includes("MySqlDatabase<"));
+    assert.ok(!files.has("migrations/0000_init.sql"));
+    assert.ok(!files.has("repository.ts"));
+
+    const warnings = host.program.diagnostics.filter((d) =>
+      d.code.endsWith("unsupported-dialect-output"),
+    );
+    assert.deepEqual(
+      warnings.map((d) => d.severity),
+      ["warning", "warning"],
+    );
+    assert.match(warnings[0].message, /"migrations" output is not available for the mysql dialect/);
+    assert.deepEqual(
+      warnings.map((d) => (d.target as Model).name),
+      ["Widget", "Widget"],
+    );
+  });
+
+  it("warns about index options the dialect leaves out", async () => {
+    const indexWarnings = (host: TestHost) =>
+      host.program.diagnostics
+        .filter((d) => d.code.endsWith("unsupported-index-option"))
+        .map((d) => d.message);
+
+    const pgHost = await drizzleHost();
+    await runEmit(pgHost, {});
+    assert.deepEqual(indexWarnings(pgHost), []);
+
+    const sqliteHost = await drizzleHost();
+    const files = await runEmit(sqliteHost, { dialect: "sqlite" });
+    assert.deepEqual(indexWarnings(sqliteHost), [
+      'Index "widgets_name_idx" uses method "hash", which the sqlite dialect does not support; it was left out.',
+    ]);
+    const [warning] = sqliteHost.program.diagnostics;
+    assert.equal((warning.target as Model).name, "Widget");
+    assert.ok(
+      files
+        .get("schema.ts")
+        ?.includes('index("widgets_name_idx").on(table.name).where(sql`size > 0`)'),
+    );
+  });
+
+  it("reports service names the service layout cannot name modules after", async () => {
+    const host = await drizzleHost(`
+import "./drizzle.tsp";
+
+@table("Gadget", "order-items") @primaryKey("gadgets") model Gadget { @pk gadgetId: string; }
+@table("Part", "order_items") @primaryKey("parts") model Part { @pk partId: string; }
+@table("Tool", "orderItems") @primaryKey("tools") model Tool { @pk toolId: string; }
+`);
+    const files = await runEmit(host, { layout: "service" });
+
+    assert.equal(files.size, 0);
+    assert.deepEqual(
+      host.program.diagnostics.map((d) => [d.code, d.severity, (d.target as Model).name]),
+      [
+        [`${$lib.name}/invalid-service-name`, "error", "Gadget"],
+        [`${$lib.name}/duplicate-service-module`, "error", "Tool"],
+      ],
+    );
+    assert.match(host.program.diagnostics[1].message, /"orderItems" and "order_items"/);
+    assert.ok((await runEmit(await drizzleHost(), { layout: "service" })).has("schema/test.ts"));
+  });
+
   it("routes through the remit front-end when frontend is 'remit'", async () => {
     const host = await remitHost();
     const files = await runEmit(host, { frontend: "remit" });
@@ -1,9 +1,16 @@
-import type { EmitContext } from "@typespec/compiler";
-import { emitFile, resolvePath } from "@typespec/compiler";
+import type { EmitContext, Model, Program } from "@typespec/compiler";
+import { emitFile, NoTarget, resolvePath } from "@typespec/compiler";
+import type { OutputLayout } from "./assembler.js";
 import { assemblePackage } from "./assembler.js";
 import type { Dialect } from "./generators/dialect.js";
+import { indexForDialect } from "./generators/dialect.js";
+import type { MigrationSnapshot } from "./generators/migration-diff.js";
+import { SNAPSHOT_FILE } from "./generators/migration-diff.js";
+import { toCamelCase } from "./generators/naming.js";
 import { buildIR } from "./ir/builder.js";
 import { buildRemitIR } from "./ir/remit-builder.js";
+import type { IdStrategy, TableDef } from "./ir/types.js";
+import { reportDiagnostic, StateKeys } from "./lib.js";
 
 export {
   $check,
@@ -11,19 +18,27 @@ export {
   $compositeUnique,
   $createdAt,
   $foreignKeyDef,
+  $id,
+  $identity,
   $indexDef,
   $junction,
   $maxValue,
   $minValue,
   $pk,
+  $precision,
   $primaryKey,
   $references,
+  $relation,
+  $searchable,
   $table,
   $unique,
   $updatedAt,
   $uuid,
+  $vector,
+  $vectorIndex,
 } from "./decorators.js";
 export { $lib } from "./lib.js";
+export { $onValidate } from "./validate.js";
 
 export interface EmitterOptions {
   "package-name"?: string;
@@ -64,6 +79,54 @@ export interface EmitterOptions {
    * front-end. Enable when the store generates its own base36 ids.
    */
   "id-default"?: boolean;
+  /**
+   * Generator for ids without an explicit `@id`: "base36" (default, short-uuid),
+   * "ulid", "uuidv7", "nanoid" or "cuid2". ULIDs and v7 UUIDs start with a
+   * timestamp, so new rows land at the end of the primary key index. UUID columns
+   * only switch for "uuidv7". The generated package depends on short-uuid only
+   * while base36 ids remain.
+   */
+  "id-strategy"?: IdStrategy;
+  /**
+   * Also emit SQL migrations for the selected dialect, so the database can be
+   * managed without running drizzle-kit. Defaults to false. The first run writes
+   * the full DDL as `migrations/0000_init.sql`; every run writes the IR to
+   * `migrations/snapshot.json`, and later runs diff against it to emit
+   * `migrations/<n>_update.sql`. Drops, likely renames and enum value removals
+   * are flagged as comments in the migration instead of being emitted.
+   */
+  migrations?: boolean;
+  /**
+   * Also emit `validators.ts` with Zod insert/select/update schemas per table,
+   * re-exported from `index.ts`, so an API layer can validate input without
+   * re-declaring each table. Adds `zod` to the generated package's dependencies.
+   * Defaults to false.
+   */
+  validators?: boolean;
+  /**
+   * Also emit `repository.ts` with typed `create`, `update`, `delete`, `list` and
+   * `upsert` functions per non-junction table, re-exported from `index.ts`.
+   * Needs the Drizzle v2 `DrizzleClient`, so it is skipped with `schema-only`.
+   * Defaults to false.
+   */
+  repository?: boolean;
+  /**
+   * Place each table in the Postgres schema named after its `@table` service:
+   * `schema.ts` declares `export const bookstore = pgSchema("bookstore")` and
+   * `bookstore.table(...)` / `bookstore.enum(...)`, and migrations create and
+   * qualify the schemas. A service named "public" stays in the default schema.
+   * Only honoured by the pg dialect. Defaults to false.
+   */
+  "pg-schemas"?: boolean;
+  /**
+   * How the generated tables are split into files.
+   * - "single" (default): one `schema.ts`, `relations.ts` and `describe.ts`.
+   * - "service": `schema/<service>.ts`, `relations/<service>.ts` and
+   *   `describe/<service>.ts` per `@table` service, with the single-file names
+   *   kept as barrels re-exporting them. Cross-service foreign keys import the
+   *   referenced table from the sibling module.
+   */
+  layout?: OutputLayout;
 }
 
 export async function $onEmit(context: EmitContext<EmitterOptions>): Promise<void> {
@@ -71,20 +134,37 @@ export async function $onEmit(context: EmitContext<EmitterOptions>): Promise<voi
 
   const foreignKeys = context.options["foreign-keys"] ?? true;
   const idDefault = context.options["id-default"] ?? false;
-  const { tables, enums } =
+  const { tables, enums, jsonTypes } =
     context.options.frontend === "remit"
       ? buildRemitIR(context.program, { foreignKeys, idDefault })
       : buildIR(context.program);
 
+  const layout = context.options.layout ?? "single";
+  if (layout === "service" && !checkServiceNames(context.program, tables)) return;
+
+  const dialect = context.options.dialect ?? "pg";
+  // null when migrations are off or the existing snapshot is unreadable
+  const snapshot = isOutputEnabled(context.program, dialect, "migrations", context.options, tables)
+    ? await readSnapshot(context.program, resolvePath(context.emitterOutputDir, SNAPSHOT_FILE))
+    : null;
+  reportUnsupportedIndexOptions(context.program, dialect, tables);
+
   const config = {
     packageName: context.options["package-name"] ?? "drizzle-schema",
     packageVersion: context.options["package-version"] ?? "0.0.1",
-    dialect: context.options.dialect ?? "pg",
+    dialect,
     pluralize: context.options.pluralize ?? true,
     schemaOnly: context.options["schema-only"] ?? false,
+    migrations: snapshot !== null,
+    validators: context.options.validators ?? false,
+    repository: isOutputEnabled(context.program, dialect, "repository", context.options, tables),
+    pgSchemas: context.options["pg-schemas"] ?? false,
+    idStrategy: context.options["id-strategy"],
+    layout,
+    previousSnapshot: snapshot ?? undefined,
   };
 
-  const files = assemblePackage(tables, enums, config);
+  const files = assemblePackage(tables, enums, config, jsonTypes);
 
   for (const [filename, content] of files) {
     await emitFile(context.program, {
@@ -93,3 +173,112 @@ export async function $onEmit(context: EmitContext<EmitterOptions>): Promise<voi
     });
   }
 }
+
+/** Optional outputs that need SQL the MySQL dialect does not have */
+const MYSQL_UNSUPPORTED = {
+  migrations: "migration DDL is only generated for PostgreSQL and SQLite",
+  repository: "MySQL has no RETURNING clause to read back written rows",
+} as const;
+
+function isOutputEnabled(
+  program: Program,
+  dialect: Dialect,
+  option: keyof typeof MYSQL_UNSUPPORTED,
+  options: EmitterOptions,
+  tables: TableDef[],
+): boolean {
+  if (!options[option]) return false;
+  if (dialect !== "mysql") return true;
+  // The option has no source location; point at the first table it would cover
+  reportDiagnostic(program, {
+    code: "unsupported-dialect-output",
+    format: { option, dialect, reason: MYSQL_UNSUPPORTED[option] },
+    target: tables.length > 0 ? tableTarget(program, tables[0]) : NoTarget,
+  });
+  return false;
+}
+
+/**
+ * The service layout names modules and exports after `@table` services, so a
+ * service must be an identifier, and no two services may differ only in case
+ * or in underscores that camel-casing drops. Returns false once any is reported.
+ */
+function checkServiceNames(program: Program, tables: TableDef[]): boolean {
+  const modules = new Map<string, string>();
+  let valid = true;
+  for (const table of tables) {
+    const { service } = table;
+    if (!/^[A-Za-z][A-Za-z0-9_]*$/.test(service)) {
+      reportDiagnostic(program, {
+        code: "invalid-service-name",
+        format: { service },
+        target: tableTarget(program, table),
+      });
+      valid = false;
+      continue;
+    }
+    const module = toCamelCase(service).toLowerCase();
+    const other = modules.get(module) ?? service;
+    modules.set(module, other);
+    if (other !== service) {
+      reportDiagnostic(program, {
+        code: "duplicate-service-module",
+        format: { service, other },
+        target: tableTarget(program, table),
+      });
+      valid = false;
+    }
+  }
+  return valid;
+}
+
+/** The `@table` model a table was built from; `remit` entities have none */
+function tableTarget(program: Program, table: TableDef): Model | typeof NoTarget {
+  for (const [model, meta] of program.stateMap(StateKeys.table)) {
+    if ((meta as { name: string }).name === table.name) return model as Model;
+  }
+  return NoTarget;
+}
+
+/** Warns about each `@indexDef` option the dialect's generators leave out */
+function reportUnsupportedIndexOptions(
+  program: Program,
+  dialect: Dialect,
+  tables: TableDef[],
+): void {
+  for (const table of tables) {
+    for (const idx of table.indexes) {
+      if (idx.using) continue;
+      for (const option of indexForDialect(idx, dialect).dropped) {
+        reportDiagnostic(program, {
+          code: "unsupported-index-option",
+          format: { name: idx.name, option, dialect },
+          target: tableTarget(program, table),
+        });
+      }
+    }
+  }
+}
+
+/**
+ * The previous run's snapshot, or `undefined` before the first migration. A
+ * snapshot that exists but cannot be read or parsed is reported and returns
+ * `null`: starting over at `0000_init.sql` would fork the migration history.
+ */
+async function readSnapshot(
+  program: Program,
+  path: string,
+): Promise<MigrationSnapshot | undefined | null> {
+  try {
+    const file = await program.host.readFile(path);
+    return JSON.parse(file.text) as MigrationSnapshot;
+  } catch (error) {
+    if ((error as { code?: string }).code === "ENOENT") return undefined;
+    reportDiagnostic(program, {
+      code: "unreadable-migration-snapshot",
+      format: { path, reason: error instanceof Error ? error.message : String(error) },
+      target: NoTarget,
+    });
+    return null;
+  }
+}
@@ -2,6 +2,7 @@ import assert from "node:assert/strict";
 import { describe, it } from "node:test";
 import { assemblePackage } from "../assembler.ts";
 import { bookstoreEnums, bookstoreTables } from "../fixtures/bookstore-ir.ts";
+import type { JsonTypeDef, TableDef } from "../ir/types.ts";
 
 const config = {
   packageName: "@bookstore/drizzle-schema",
@@ -224,8 +225,8 @@ describe("package assembly", () => {
   it("describe.ts uses v2 object-based where syntax", () => {
     const describe = files.get("describe.ts");
     assert.ok(describe);
-    assert.ok(describe.includes("where: { bookId },"));
-    assert.ok(describe.includes("where: { authorId },"));
+    assert.ok(describe.includes("where: { bookId: { eq: bookId } },"));
+    assert.ok(describe.includes("where: { authorId: { eq: authorId } },"));
   });
 
   // ===========================================
@@ -278,3 +279,192 @@ describe("schema-only assembly", () => {
     assert.ok(pkg.includes('"drizzle-orm": ">=0.30.0"'));
   });
 });
+
+describe("validators assembly", () => {
+  const validatorFiles = assemblePackage(bookstoreTables, bookstoreEnums, {
+    ...config,
+    validators: true,
+  });
+
+  it("emits validators.ts and re-exports it from the barrel", () => {
+    assert.ok(validatorFiles.get("validators.ts")?.includes("authorInsertSchema"));
+    assert.ok(validatorFiles.get("index.ts")?.includes('export * from "./validators.js";'));
+  });
+
+  it("adds zod to the package dependencies", () => {
+    const pkg = JSON.parse(validatorFiles.get("package.json") ?? "{}");
+    assert.ok(pkg.dependencies.zod);
+    assert.ok(!JSON.parse(files.get("package.json") ?? "{}").dependencies.zod);
+  });
+});
+
+describe("id strategy assembly", () => {
+  it("generates v7 UUIDs in base36 uuid columns and keeps short-uuid", () => {
+    const v7Files = assemblePackage(bookstoreTables, bookstoreEnums, {
+      ...config,
+      idStrategy: "uuidv7",
+    });
+    assert.ok(v7Files.get("schema.ts")?.includes("$defaultFn(() => generateBase36UuidV7())"));
+    assert.ok(
+      v7Files.get("types.ts")?.includes("export function generateBase36UuidV7(): string {"),
+    );
+    assert.ok(JSON.parse(v7Files.get("package.json") ?? "{}").dependencies["short-uuid"]);
+  });
+
+  it("drops short-uuid when no base36 ids remain", () => {
+    const eventTable: TableDef = {
+      name: "Event",
+      service: "audit",
+      tableName: "events",
+      primaryKey: { tableName: "events", columns: ["eventId"], isComposite: false },
+      fields: [
+        {
+          name: "eventId",
+          columnName: "event_id",
+          type: { kind: "text" },
+          nullable: false,
+          autoGenerateId: true,
+          createdAt: false,
+          updatedAt: false,
+        },
+      ],
+      foreignKeys: [],
+      isJunction: false,
+      indexes: [],
+      uniqueConstraints: [],
+    };
+    const ulidFiles = assemblePackage([eventTable], [], { ...config, idStrategy: "ulid" });
+    assert.ok(ulidFiles.get("schema.ts")?.includes("$defaultFn(() => generateUlid())"));
+    assert.ok(!ulidFiles.get("types.ts")?.includes("short-uuid"));
+    assert.deepEqual(JSON.parse(ulidFiles.get("package.json") ?? "{}").dependencies, {});
+  });
+});
+
+describe("json types assembly", () => {
+  const placeTable: TableDef = {
+    name: "Place",
+    service: "geo",
+    tableName: "places",
+    primaryKey: { tableName: "places", columns: ["placeId"], isComposite: false },
+    fields: [
+      {
+        name: "placeId",
+        columnName: "place_id",
+        type: { kind: "text" },
+        nullable: false,
+        createdAt: false,
+        updatedAt: false,
+      },
+      {
+        name: "address",
+        columnName: "address",
+        type: { kind: "jsonb", shape: { kind: "ref", name: "Address" } },
+        nullable: true,
+        createdAt: false,
+        updatedAt: false,
+      },
+    ],
+    foreignKeys: [],
+    isJunction: false,
+    indexes: [],
+    uniqueConstraints: [],
+  };
+  const address: JsonTypeDef = {
+    name: "Address",
+    type: {
+      kind: "object",
+      properties: [{ name: "street", type: { kind: "string" }, optional: false }],
+    },
+  };
+
+  it("declares the JSON types, types the column and re-exports them", () => {
+    const jsonFiles = assemblePackage([placeTable], [], config, [address]);
+    assert.equal(
+      jsonFiles.get("json-types.ts"),
+      "export interface Address {\n  street: string;\n}\n",
+    );
+    const schema = jsonFiles.get("schema.ts") ?? "";
+    assert.ok(schema.includes('import type { Address } from "./json-types.js";'));
+    assert.ok(schema.includes('address: jsonb("address").$type<Address>(),'));
+    assert.ok(jsonFiles.get("index.ts")?.includes('export type * from "./json-types.js";'));
+  });
+
+  it("imports them from the parent directory in the service layout", () => {
+    const jsonFiles = assemblePackage([placeTable], [], { ...config, layout: "service" }, [
+      address,
+    ]);
+    assert.ok(
+      jsonFiles.get("schema/geo.ts")?.includes('import type { Address } from "../json-types.js";'),
+    );
+  });
+
+  it("omits json-types.ts when no column stores a model", () => {
+    assert.ok(!files.has("json-types.ts"));
+    assert.ok(!files.get("index.ts")?.includes("json-types"));
+  });
+});
+
+describe("repository assembly", () => {
+  it("emits repository.ts and re-exports it from the barrel", () => {
+    const repoFiles = assemblePackage(bookstoreTables, bookstoreEnums, {
+      ...config,
+      repository: true,
+    });
+    assert.ok(repoFiles.get("repository.ts")?.includes("export const createAuthor"));
+    assert.ok(repoFiles.get("index.ts")?.includes('export * from "./repository.js";'));
+  });
+
+  it("is skipped for schema-only output", () => {
+    const repoFiles = assemblePackage(bookstoreTables, bookstoreEnums, {
+      ...config,
+      schemaOnly: true,
+      repository: true,
+    });
+    assert.ok(!repoFiles.has("repository.ts"));
+    assert.ok(!repoFiles.get("index.ts")?.includes("./repository.js"));
+  });
+});
+
+describe("pg schemas assembly", () => {
+  it("declares tables in their service's schema and qualifies the migration", () => {
+    const schemaFiles = assemblePackage(bookstoreTables, bookstoreEnums, {
+      ...config,
+      pgSchemas: true,
+      migrations: true,
+    });
+    assert.ok(
+      schemaFiles.get("schema.ts")?.includes('export const bookstore = pgSchema("bookstore");'),
+    );
+    assert.ok(
+      schemaFiles.get("migrations/0000_init.sql")?.startsWith('CREATE SCHEMA "bookstore";'),
+    );
+  });
+
+  it("is ignored for sqlite", () => {
+    const sqliteFiles = assemblePackage(bookstoreTables, bookstoreEnums, {
+      ...config,
+      dialect: "sqlite",
+      pgSchemas: true,
+    });
+    assert.ok(!sqliteFiles.get("schema.ts")?.includes("Schema"));
+  });
+});
+
+describe("service layout assembly", () => {
+  const layoutFiles = assemblePackage(bookstoreTables, bookstoreEnums, {
+    ...config,
+    layout: "service",
+  });
+
+  it("replaces the single files with barrels over per-service modules", () => {
+    assert.equal(layoutFiles.get("schema.ts"), 'export * from "./schema/bookstore.js";\n');
+    assert.ok(layoutFiles.has("schema/bookstore.ts"));
+    assert.ok(layoutFiles.has("relations/bookstore.ts"));
+    assert.ok(layoutFiles.has("describe/bookstore.ts"));
+  });
+
+  it("includes the module directories in tsconfig.json", () => {
+    const tsconfig = JSON.parse(layoutFiles.get("tsconfig.json") ?? "{}");
+    assert.deepEqual(tsconfig.include, ["*.ts", "schema/*.ts", "relations/*.ts", "describe/*.ts"]);
+  });
+});
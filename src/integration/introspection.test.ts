@@ -0,0 +1,128 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { describe, it } from "node:test";
+import { createTestHost } from "@typespec/compiler/testing";
+import * as decorators from "../decorators.ts";
+import { bookstoreEnums, bookstoreTables } from "../fixtures/bookstore-ir.ts";
+import { resolveDialect } from "../generators/dialect.ts";
+import { generateMigration } from "../generators/migration-generator.ts";
+import { generateTypeSpec } from "../generators/typespec-generator.ts";
+import { buildIR } from "../ir/builder.ts";
+import { parseDdl } from "../ir/ddl-parser.ts";
+import { buildIntrospectedIR } from "../ir/introspect-builder.ts";
+import type { TableDef } from "../ir/types.ts";
+import { $onValidate } from "../validate.ts";
+
+const DECORATOR_DECLARATIONS = readFileSync(
+  new URL("../../tsp/main.tsp", import.meta.url),
+  "utf8",
+).replace('import "../dist/index.js";', 'import "./drizzle.js";');
+
+/** Compiles printed TypeSpec with the emitter's decorators and builds its IR */
+async function compile(source: string) {
+  const host = await createTestHost();
+  host.addJsFile("drizzle.js", { ...decorators, $onValidate });
+  host.addTypeSpecFile("drizzle.tsp", DECORATOR_DECLARATIONS);
+  host.addTypeSpecFile(
+    "main.tsp",
+    source.replace('import "@kattebak/typespec-drizzle-orm-generator";', 'import "./drizzle.tsp";'),
+  );
+  await host.compile("main.tsp");
+  return buildIR(host.program);
+}
+
+/**
+ * `buildIR` reads defaults off `ModelProperty.default`, which compiled
+ * programs do not populate, so the printed defaults are checked as text.
+ */
+function withoutDefaults(tables: TableDef[]): TableDef[] {
+  return tables.map((t) => ({
+    ...t,
+    fields: t.fields.map(({ defaultValue: _, ...field }) => field),
+  }));
+}
+
+const PG_DUMP = `
+CREATE TYPE public.task_state AS ENUM ('todo', 'in-progress', 'done');
+CREATE TABLE public.projects (
+    region character varying(8) NOT NULL,
+    code character varying(16) NOT NULL,
+    name text NOT NULL,
+    budget bigint DEFAULT 0 NOT NULL,
+    archived boolean DEFAULT false NOT NULL,
+    settings jsonb
+);
+CREATE TABLE public.tasks (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    project_region character varying(8) NOT NULL,
+    project_code character varying(16) NOT NULL,
+    state public.task_state DEFAULT 'todo'::public.task_state NOT NULL,
+    title text DEFAULT 'Untitled'::text NOT NULL,
+    priority integer,
+    estimate real,
+    cost numeric(12,2),
+    due_at timestamp with time zone,
+    due_on date,
+    remind_time time without time zone,
+    effort interval,
+    logged timestamp(3) without time zone,
+    attachment bytea,
+    labels text[] NOT NULL,
+    watchers character varying(16)[],
+    history public.task_state[],
+    CONSTRAINT tasks_priority_check CHECK (((priority >= 0) AND (priority <= 10))),
+    CONSTRAINT tasks_cost_check CHECK ((cost >= 0)),
+    CONSTRAINT tasks_title_check CHECK ((length(title) > 0))
+);
+ALTER TABLE ONLY public.projects ADD CONSTRAINT projects_pkey PRIMARY KEY (region, code);
+ALTER TABLE ONLY public.projects ADD CONSTRAINT projects_name_key UNIQUE (name);
+ALTER TABLE ONLY public.tasks ADD CONSTRAINT tasks_pkey PRIMARY KEY (id);
+ALTER TABLE ONLY public.tasks ADD CONSTRAINT tasks_state_title_key UNIQUE (state, title);
+ALTER TABLE ONLY public.tasks
+    ADD CONSTRAINT tasks_project_fkey FOREIGN KEY (project_region, project_code) REFERENCES public.projects(region, code);
+CREATE INDEX tasks_state_due_idx ON public.tasks USING btree (state, due_at);
+`;
+
+describe("introspection round trip", () => {
+  it("prints the bookstore migration back as TypeSpec that compiles to the same tables", async () => {
+    const sql = generateMigration(bookstoreTables, bookstoreEnums, resolveDialect("pg"));
+    const introspected = buildIntrospectedIR(parseDdl(sql), {
+      dialect: "pg",
+      service: "bookstore",
+    });
+    const source = generateTypeSpec(introspected.tables, introspected.enums, {
+      namespace: "Bookstore",
+    });
+    const compiled = await compile(source);
+
+    assert.deepEqual(compiled.tables, introspected.tables);
+    assert.deepEqual(compiled.enums, introspected.enums);
+  });
+
+  it("round-trips varchar scalars, decimals, date/time types, arrays, defaults, keys and checks", async () => {
+    const introspected = buildIntrospectedIR(parseDdl(PG_DUMP), {
+      dialect: "pg",
+      service: "planner",
+    });
+    assert.deepEqual(introspected.warnings, []);
+
+    const source = generateTypeSpec(introspected.tables, introspected.enums, {
+      namespace: "Planner",
+    });
+    assert.ok(source.includes("scalar varchar16 extends string;"));
+    assert.ok(source.includes("  state: TaskState = TaskState.todo;"));
+    assert.ok(source.includes("  archived: boolean = false;"));
+    // The library declares plainDateTime
+    assert.ok(!source.includes("scalar plainDateTime"));
+    assert.ok(source.includes("  logged?: plainDateTime;"));
+    assert.ok(source.includes("  attachment?: bytes;"));
+    assert.ok(source.includes("  labels: string[];"));
+    assert.ok(source.includes("  watchers?: varchar16[];"));
+    assert.ok(source.includes("  history?: TaskState[];"));
+    assert.ok(source.includes("  @precision(12, 2)\n  @global.minValue(0)\n  cost?: decimal;"));
+
+    const compiled = await compile(source);
+    assert.deepEqual(compiled.tables, withoutDefaults(introspected.tables));
+    assert.deepEqual(compiled.enums, introspected.enums);
+  });
+});
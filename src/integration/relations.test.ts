@@ -1,5 +1,9 @@
 import assert from "node:assert/strict";
 import { describe, it } from "node:test";
+import Database from "better-sqlite3";
+import { defineRelations } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/better-sqlite3";
+import { sqliteTable, text } from "drizzle-orm/sqlite-core";
 import { seedBookstore } from "../fixtures/bookstore-seed.ts";
 import { createTestDb } from "../fixtures/db.ts";
 
@@ -248,3 +252,87 @@ describe("bookstore relations (SQLite integration)", () => {
     assert.equal(book.genres.length, 2);
   });
 });
+
+describe("aliased relations (SQLite integration)", () => {
+  const users = sqliteTable("users", { id: text("id").primaryKey() });
+  const posts = sqliteTable("posts", {
+    id: text("id").primaryKey(),
+    createdById: text("created_by_id").notNull(),
+    approvedById: text("approved_by_id"),
+  });
+
+  // Mirrors the generator's output for two references from Post to User
+  const relations = defineRelations({ users, posts }, (r) => ({
+    users: {
+      createdByPosts: r.many.posts({ alias: "createdBy" }),
+      approvedByPosts: r.many.posts({ alias: "approvedBy" }),
+    },
+    posts: {
+      createdBy: r.one.users({ from: r.posts.createdById, to: r.users.id, alias: "createdBy" }),
+      approvedBy: r.one.users({ from: r.posts.approvedById, to: r.users.id, alias: "approvedBy" }),
+    },
+  }));
+
+  it("resolves each many reverse through its own foreign key", async () => {
+    const sqlite = new Database(":memory:");
+    sqlite.exec(`
+      CREATE TABLE users (id TEXT PRIMARY KEY);
+      CREATE TABLE posts (id TEXT PRIMARY KEY, created_by_id TEXT NOT NULL, approved_by_id TEXT);
+      INSERT INTO users VALUES ('ann'), ('bob');
+      INSERT INTO posts VALUES ('p1', 'ann', 'bob'), ('p2', 'ann', NULL);
+    `);
+    const db = drizzle({ client: sqlite, relations });
+
+    const ann = await db.query.users.findFirst({
+      where: { id: "ann" },
+      with: { createdByPosts: true, approvedByPosts: true },
+    });
+    const bob = await db.query.users.findFirst({
+      where: { id: "bob" },
+      with: { createdByPosts: true, approvedByPosts: true },
+    });
+
+    assert.deepEqual(ann?.createdByPosts.map((p) => p.id).sort(), ["p1", "p2"]);
+    assert.deepEqual(ann?.approvedByPosts, []);
+    assert.deepEqual(bob?.createdByPosts, []);
+    assert.deepEqual(
+      bob?.approvedByPosts.map((p) => p.id),
+      ["p1"],
+    );
+  });
+});
+
+describe("one-to-one relations (SQLite integration)", () => {
+  const users = sqliteTable("users", { id: text("id").primaryKey() });
+  const profiles = sqliteTable("profiles", {
+    userId: text("user_id").primaryKey(),
+    bio: text("bio").notNull(),
+  });
+
+  // Mirrors the generator's output for a profile keyed by its user
+  const relations = defineRelations({ users, profiles }, (r) => ({
+    users: {
+      profile: r.one.profiles({ from: r.users.id, to: r.profiles.userId }),
+    },
+    profiles: {
+      user: r.one.users({ from: r.profiles.userId, to: r.users.id }),
+    },
+  }));
+
+  it("loads the reverse side as a single row or null", async () => {
+    const sqlite = new Database(":memory:");
+    sqlite.exec(`
+      CREATE TABLE users (id TEXT PRIMARY KEY);
+      CREATE TABLE profiles (user_id TEXT PRIMARY KEY REFERENCES users(id), bio TEXT NOT NULL);
+      INSERT INTO users VALUES ('ann'), ('bob');
+      INSERT INTO profiles VALUES ('ann', 'Writes things');
+    `);
+    const db = drizzle({ client: sqlite, relations });
+
+    const ann = await db.query.users.findFirst({ where: { id: "ann" }, with: { profile: true } });
+    const bob = await db.query.users.findFirst({ where: { id: "bob" }, with: { profile: true } });
+
+    assert.equal(ann?.profile?.bio, "Writes things");
+    assert.equal(bob?.profile, null);
+  });
+});
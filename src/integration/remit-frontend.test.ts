@@ -2,7 +2,7 @@ import assert from "node:assert/strict";
 import { before, describe, it } from "node:test";
 import { createTestHost } from "@typespec/compiler/testing";
 import { buildRemitIR } from "../ir/remit-builder.ts";
-import type { TableDef } from "../ir/types.ts";
+import type { JsonTypeDef, TableDef } from "../ir/types.ts";
 
 const STUB_DECORATORS = `
 using TypeSpec.Reflection;
@@ -132,6 +132,12 @@ describe("remit entity front-end (buildRemitIR)", () => {
     assert.ok(names?.includes("thread_message_by_date"));
   });
 
+  it("records the pk composite as the index's filter columns", () => {
+    const byDate = byName.get("ThreadMessage")?.indexes.find((i) => i.name.endsWith("by_date"));
+    assert.deepEqual(byDate?.columns, ["accountConfigId", "sentDate"]);
+    assert.equal(byDate?.filterColumns, 1);
+  });
+
   it("resolves enums to text-backed union columns and emits no pgEnum defs", () => {
     const star = byName.get("ThreadMessage")?.fields.find((f) => f.name === "star");
     assert.equal(star?.type.kind, "textEnum");
@@ -218,6 +224,27 @@ union AllStrings {
   custom: Email,
 }
 
+model Circle {
+  kind: "circle";
+  radius: float64;
+}
+
+model Square {
+  kind: "square";
+  side: float64;
+}
+
+union Shape {
+  circle: Circle,
+  square: Square,
+}
+
+model Dimensions {
+  width: int32;
+  height?: int32;
+  labels: string[];
+}
+
 @entity
 @index("Gadget", { pk: [Gadget.gadgetId] })
 model Gadget {
@@ -228,11 +255,21 @@ model Gadget {
   precise: float64;
   active: boolean;
   when: utcDateTime;
+  zoned: offsetDateTime;
+  day: plainDate;
+  clock: plainTime;
+  span: duration;
+  thumb: bytes;
   big: int64;
   priority: Priority;
   bare: Bare;
   mixed: Mixed;
   contact: AllStrings;
+  tags: string[];
+  priorities: Priority[];
+  mixes: Mixed[];
+  outline: Shape;
+  size?: Dimensions;
   status: string = "new";
 }
 
@@ -257,6 +294,7 @@ model Beta {
 
 describe("remit entity front-end (extra vocabulary)", () => {
   let byName: Map<string, TableDef>;
+  let jsonTypes: JsonTypeDef[];
 
   before(async () => {
     const host = await createTestHost();
@@ -268,8 +306,9 @@ describe("remit entity front-end (extra vocabulary)", () => {
     host.addTypeSpecFile("electrodb.tsp", `import "./electrodb.js";\n${OPTIONAL_STUB}`);
     host.addTypeSpecFile("main.tsp", EXTRA_MODELS);
     await host.compile("main.tsp");
-    const { tables } = buildRemitIR(host.program);
-    byName = new Map(tables.map((t) => [t.name, t]));
+    const built = buildRemitIR(host.program);
+    byName = new Map(built.tables.map((t) => [t.name, t]));
+    jsonTypes = built.jsonTypes;
   });
 
   it("falls back to the lower-cased model name when @entity omits the name", () => {
@@ -288,6 +327,11 @@ describe("remit entity front-end (extra vocabulary)", () => {
     assert.equal(fields.get("precise"), "doublePrecision");
     assert.equal(fields.get("active"), "boolean");
     assert.equal(fields.get("when"), "timestamp");
+    assert.equal(fields.get("zoned"), "timestamp");
+    assert.equal(fields.get("day"), "date");
+    assert.equal(fields.get("clock"), "time");
+    assert.equal(fields.get("span"), "interval");
+    assert.equal(fields.get("thumb"), "bytes");
     assert.equal(fields.get("big"), "bigint");
   });
 
@@ -304,6 +348,59 @@ describe("remit entity front-end (extra vocabulary)", () => {
     assert.equal(mixed?.type.kind, "jsonb");
   });
 
+  it("resolves arrays of scalars and enums to array columns", () => {
+    const fields = new Map(byName.get("Gadget")?.fields.map((f) => [f.name, f.type]));
+    assert.deepEqual(fields.get("tags"), { kind: "array", element: { kind: "text" } });
+    assert.deepEqual(fields.get("priorities"), {
+      kind: "array",
+      element: { kind: "textEnum", values: ["1", "3"] },
+    });
+    assert.deepEqual(fields.get("mixes"), {
+      kind: "jsonb",
+      shape: { kind: "array", element: { kind: "ref", name: "Mixed" } },
+    });
+  });
+
+  it("types JSON columns with the models and unions they store", () => {
+    const fields = new Map(byName.get("Gadget")?.fields.map((f) => [f.name, f.type]));
+    assert.deepEqual(fields.get("outline"), {
+      kind: "jsonb",
+      shape: { kind: "ref", name: "Shape" },
+    });
+    assert.deepEqual(fields.get("size"), {
+      kind: "jsonb",
+      shape: { kind: "ref", name: "Dimensions" },
+    });
+    const defs = new Map(jsonTypes.map((d) => [d.name, d.type]));
+    assert.deepEqual([...defs.keys()], ["Mixed", "Shape", "Circle", "Square", "Dimensions"]);
+    assert.deepEqual(defs.get("Mixed"), {
+      kind: "union",
+      variants: [{ kind: "string" }, { kind: "number" }],
+    });
+    assert.deepEqual(defs.get("Shape"), {
+      kind: "union",
+      variants: [
+        { kind: "ref", name: "Circle" },
+        { kind: "ref", name: "Square" },
+      ],
+    });
+    assert.deepEqual(defs.get("Circle"), {
+      kind: "object",
+      properties: [
+        { name: "kind", type: { kind: "literal", value: "circle" }, optional: false },
+        { name: "radius", type: { kind: "number" }, optional: false },
+      ],
+    });
+    assert.deepEqual(defs.get("Dimensions"), {
+      kind: "object",
+      properties: [
+        { name: "width", type: { kind: "number" }, optional: false },
+        { name: "height", type: { kind: "number" }, optional: true },
+        { name: "labels", type: { kind: "array", element: { kind: "string" } }, optional: false },
+      ],
+    });
+  });
+
   it("treats a union of string and a string-derived scalar as text", () => {
     const contact = byName.get("Gadget")?.fields.find((f) => f.name === "contact");
     assert.equal(contact?.type.kind, "text");
@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { describe, it } from "node:test";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import Database from "better-sqlite3";
+import { drizzle } from "drizzle-orm/better-sqlite3";
+import { assemblePackage } from "../assembler.ts";
+import { bookstoreEnums, bookstoreTables } from "../fixtures/bookstore-ir.ts";
+import { relations as bookstoreRelations } from "../fixtures/bookstore-relations.ts";
+import { seedBookstore } from "../fixtures/bookstore-seed.ts";
+import { resolveDialect } from "../generators/dialect.ts";
+import { generateMigration } from "../generators/migration-generator.ts";
+import type { TableDef } from "../ir/types.ts";
+
+const repoRoot = resolve(dirname(fileURLToPath(import.meta.url)), "..", "..");
+const outputDir = resolve(repoRoot, ".smoke-output", "service-layout");
+
+/**
+ * Authors and editions move to a "people" service; books stay in "bookstore".
+ * Canonical UUIDs keep short-uuid, which the repo does not install, out of
+ * the package.
+ */
+const tables: TableDef[] = bookstoreTables.map((t) => ({
+  ...t,
+  service: t.name === "Author" || t.name === "Edition" ? "people" : t.service,
+  fields: t.fields.map((f) =>
+    f.uuid
+      ? {
+          ...f,
+          type: { kind: "uuid", encoding: "canonical" },
+          uuid: { ...f.uuid, encoding: "canonical" },
+        }
+      : f,
+  ),
+}));
+
+/**
+ * Writes the generated per-service package to `.smoke-output/` and imports
+ * its relations and describe modules, so Drizzle builds the relation parts
+ * exactly as a consumer would.
+ */
+async function loadServicePackage() {
+  await rm(outputDir, { recursive: true, force: true });
+  const files = assemblePackage(tables, bookstoreEnums, {
+    packageName: "@smoke/service-layout",
+    packageVersion: "0.0.0",
+    dialect: "sqlite",
+    pluralize: true,
+    layout: "service",
+    idStrategy: "uuidv7",
+  });
+  for (const [filename, content] of files) {
+    const path = resolve(outputDir, filename);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, content);
+  }
+
+  const load = (module: string) => import(pathToFileURL(resolve(outputDir, module)).href);
+  return { relations: (await load("relations.ts")).relations, describe: await load("describe.ts") };
+}
+
+describe("service layout relations (SQLite integration)", () => {
+  it("loads a many relation whose foreign key lives in another service", async () => {
+    const { relations, describe: queries } = await loadServicePackage();
+    const sqlite = new Database(":memory:");
+    sqlite.pragma("foreign_keys = ON");
+    sqlite.exec(generateMigration(tables, bookstoreEnums, resolveDialect("sqlite")));
+    seedBookstore(drizzle({ client: sqlite, relations: bookstoreRelations }));
+
+    const db = drizzle({ client: sqlite, relations });
+    const author = await db.query.authors.findFirst({
+      where: { authorId: { eq: "author-1" } },
+      with: { books: true },
+    });
+    const book = await db.query.books.findFirst({
+      where: { bookId: { eq: "book-1" } },
+      with: { author: true },
+    });
+
+    assert.deepEqual(
+      author?.books.map((b: { title: string }) => b.title),
+      ["One Hundred Years of Solitude"],
+    );
+    assert.equal(book?.author.name, "Gabriel García Márquez");
+    const described = await queries.describeAuthor(db, "author-1");
+    assert.equal(described?.books.length, 1);
+  });
+});
@@ -0,0 +1,73 @@
+import { execFileSync } from "node:child_process";
+import { rm } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { describe, it } from "node:test";
+import { fileURLToPath } from "node:url";
+
+type Dialect = "pg" | "sqlite";
+
+const repoRoot = resolve(dirname(fileURLToPath(import.meta.url)), "..", "..");
+const fixturePath = resolve(repoRoot, "src/fixtures/typecheck.tsp");
+const emitterName = "@kattebak/typespec-drizzle-orm-generator";
+let buildReady = false;
+
+function ensureBuild(): void {
+  if (buildReady) return;
+  execFileSync("npm", ["run", "build"], { cwd: repoRoot, stdio: "pipe" });
+  buildReady = true;
+}
+
+/**
+ * Emits the fixture into `.smoke-output/` and type-checks it with the repo's
+ * own compiler and drizzle-orm (found by walking up to the repo's
+ * node_modules), so the generated code is checked against the Drizzle version
+ * the emitter targets. `uuidv7` ids keep short-uuid out of the package.
+ */
+async function emitAndTypecheck(dialect: Dialect): Promise<void> {
+  const name = `typecheck-${dialect}`;
+  await rm(resolve(repoRoot, ".smoke-output", name), { recursive: true, force: true });
+  ensureBuild();
+
+  const options = {
+    "emitter-output-dir": `{cwd}/.smoke-output/${name}`,
+    "package-name": `@typecheck/${dialect}`,
+    dialect,
+    "id-strategy": "uuidv7",
+    repository: "true",
+  };
+  execFileSync(
+    "npx",
+    [
+      "tsp",
+      "compile",
+      fixturePath,
+      "--emit",
+      emitterName,
+      ...Object.entries(options).flatMap(([key, value]) => [
+        "--option",
+        `${emitterName}.${key}=${value}`,
+      ]),
+    ],
+    { cwd: repoRoot, stdio: "pipe" },
+  );
+
+  try {
+    execFileSync("npx", ["tsgo", "--noEmit", "-p", `.smoke-output/${name}`], {
+      cwd: repoRoot,
+      stdio: "pipe",
+    });
+  } catch (error) {
+    const { stdout } = error as { stdout: Buffer };
+    throw new Error(`${name} does not type-check:\n${stdout.toString()}`);
+  }
+}
+
+describe("generated package type-check (TypeSpec)", () => {
+  it("type-checks the pg package", async () => {
+    await emitAndTypecheck("pg");
+  });
+
+  it("type-checks the sqlite package", async () => {
+    await emitAndTypecheck("sqlite");
+  });
+});
@@ -8,6 +8,8 @@ import {
   $compositeUnique,
   $createdAt,
   $foreignKeyDef,
+  $id,
+  $identity,
   $indexDef,
   $junction,
   $maxValue,
@@ -15,6 +17,8 @@ import {
   $pk,
   $primaryKey,
   $references,
+  $relation,
+  $searchable,
   $table,
   $unique,
   $updatedAt,
@@ -569,12 +573,14 @@ describe("IR builder: @table without @primaryKey falls back to table name", () =
   const workspace = createModel("Workspace");
   const wsId = addProp(workspace, "id", "string");
   addProp(workspace, "name", "string");
+  const wsSlug = addProp(workspace, "slug", "string");
   const wsCreatedAt = addProp(workspace, "createdAt", "utcDateTime");
   const wsUpdatedAt = addProp(workspace, "updatedAt", "utcDateTime");
 
   $table(ctx, workspace as unknown as Model, "workspaces", "rockpool");
   $pk(ctx, wsId as unknown as ModelProperty);
   $uuid(ctx, wsId as unknown as ModelProperty, "base36", true);
+  $id(ctx, wsSlug as unknown as ModelProperty, "ulid");
   $createdAt(ctx, wsCreatedAt as unknown as ModelProperty);
   $updatedAt(ctx, wsUpdatedAt as unknown as ModelProperty);
 
@@ -594,7 +600,13 @@ describe("IR builder: @table without @primaryKey falls back to table name", () =
   });
 
   it("includes all fields", () => {
-    assert.equal(tables[0].fields.length, 4);
+    assert.equal(tables[0].fields.length, 5);
+  });
+
+  it("auto-generates @id fields with their strategy", () => {
+    const slug = tables[0].fields.find((f) => f.name === "slug");
+    assert.equal(slug?.autoGenerateId, true);
+    assert.equal(slug?.idStrategy, "ulid");
   });
 });
 
@@ -681,8 +693,8 @@ describe("end-to-end: decorators → IR builder → assemblePackage", () => {
   it("describe.ts uses v2 object-based where syntax", () => {
     const describe = files.get("describe.ts");
     assert.ok(describe);
-    assert.ok(describe.includes("where: { bookId },"));
-    assert.ok(describe.includes("where: { authorId },"));
+    assert.ok(describe.includes("where: { bookId: { eq: bookId } },"));
+    assert.ok(describe.includes("where: { authorId: { eq: authorId } },"));
   });
 
   it("package.json has correct metadata", () => {
@@ -765,18 +777,116 @@ describe("resolution: real-world field types (buildIR)", () => {
     return table;
   }
 
-  it("resolves a nested-model property to jsonb", () => {
+  it("resolves a nested-model property to jsonb typed by the model", () => {
+    const metadata = {
+      kind: "Model",
+      name: "Metadata",
+      properties: new Map([
+        ["source", { kind: "ModelProperty", name: "source", type: mockScalar("string") }],
+        [
+          "hits",
+          { kind: "ModelProperty", name: "hits", type: mockScalar("int32"), optional: true },
+        ],
+      ]),
+    };
     const table = buildSingleTable((_ctx, model) => {
       model.properties.set("metadata", {
         kind: "ModelProperty",
         name: "metadata",
-        type: { kind: "Model", name: "Metadata" } as unknown as ReturnType<typeof mockScalar>,
+        type: metadata as unknown as ReturnType<typeof mockScalar>,
         optional: false,
         model,
       });
     });
     const field = table.fields.find((f) => f.name === "metadata");
-    assert.equal(field?.type.kind, "jsonb");
+    assert.deepEqual(field?.type, { kind: "jsonb", shape: { kind: "ref", name: "Metadata" } });
+  });
+
+  it("resolves a union of models to jsonb and keeps string unions as text", () => {
+    const variant = (name: string, tag: string) => ({
+      kind: "Model",
+      name,
+      properties: new Map([
+        ["kind", { kind: "ModelProperty", name: "kind", type: { kind: "String", value: tag } }],
+      ]),
+    });
+    const variants = (...types: unknown[]) =>
+      new Map(types.map((type, i) => [`v${i}`, { kind: "UnionVariant", type }]));
+    const shape = {
+      kind: "Union",
+      name: "Shape",
+      variants: variants(variant("Circle", "circle"), variant("Square", "square")),
+    };
+    const size = {
+      kind: "Union",
+      variants: variants({ kind: "String", value: "small" }, { kind: "String", value: "large" }),
+    };
+    const table = buildSingleTable((_ctx, model) => {
+      for (const [name, type] of [
+        ["shape", shape],
+        ["size", size],
+      ] as const) {
+        model.properties.set(name, {
+          kind: "ModelProperty",
+          name,
+          type: type as unknown as ReturnType<typeof mockScalar>,
+          optional: false,
+          model,
+        });
+      }
+    });
+    const types = new Map(table.fields.map((f) => [f.name, f.type]));
+    assert.deepEqual(types.get("shape"), { kind: "jsonb", shape: { kind: "ref", name: "Shape" } });
+    assert.deepEqual(types.get("size"), { kind: "text" });
+  });
+
+  it("resolves scalar and enum arrays to array columns", () => {
+    const arrayOf = (value: unknown) =>
+      ({
+        kind: "Model",
+        name: "Array",
+        indexer: { key: mockScalar("integer"), value },
+      }) as unknown as ReturnType<typeof mockScalar>;
+    const mood: MockEnumType = {
+      kind: "Enum",
+      name: "Mood",
+      members: new Map([["happy", { name: "happy" }]]),
+    };
+    const program = createMockProgram();
+    const ctx = mockContext(program);
+    const model: MockModel = { kind: "Model", name: "Row", properties: new Map() };
+    const prop = (name: string, type: ReturnType<typeof mockScalar>): MockProp => ({
+      kind: "ModelProperty",
+      name,
+      type,
+      optional: false,
+      model,
+    });
+    const rowId = prop("rowId", mockScalar("string"));
+    model.properties.set("rowId", rowId);
+    model.properties.set("tags", prop("tags", arrayOf(mockScalar("string"))));
+    model.properties.set("moods", prop("moods", arrayOf(mood)));
+    const point = { kind: "Model", name: "Point", properties: new Map() };
+    model.properties.set("points", prop("points", arrayOf(point)));
+    $table(ctx, model as unknown as Model, "Row", "test");
+    $pk(ctx, rowId as unknown as ModelProperty);
+
+    const { tables, enums, jsonTypes } = buildIR(program);
+    const types = new Map(tables[0].fields.map((f) => [f.name, f.type]));
+    assert.deepEqual(types.get("tags"), { kind: "array", element: { kind: "text" } });
+    assert.deepEqual(types.get("moods"), {
+      kind: "array",
+      element: { kind: "enum", enumName: "moodEnum", values: ["happy"] },
+    });
+    assert.deepEqual(types.get("points"), {
+      kind: "jsonb",
+      shape: { kind: "array", element: { kind: "ref", name: "Point" } },
+    });
+    assert.deepEqual(jsonTypes, [{ name: "Point", type: { kind: "object", properties: [] } }]);
+    assert.deepEqual(
+      enums.map((e) => e.sqlName),
+      ["mood"],
+    );
   });
 
   it("resolves a maxLength-bounded scalar to varchar", () => {
@@ -939,7 +1049,7 @@ describe("resolution: real-world field types (buildIR)", () => {
     assert.equal(tables.find((t) => t.name === "Source")?.foreignKeys[0].foreignTable, "");
   });
 
-  it("maps a RESTRICT @references onDelete to restrict", () => {
+  it("maps @references actions to lower case and keeps @relation names", () => {
     const program = createMockProgram();
     const ctx = mockContext(program);
 
@@ -979,13 +1089,18 @@ describe("resolution: real-world field types (buildIR)", () => {
       fk as unknown as ModelProperty,
       targetId as unknown as ModelProperty,
       "RESTRICT",
+      "SET DEFAULT",
     );
+    $relation(ctx, fk as unknown as ModelProperty, "owner", "ownedSources");
 
     const { tables } = buildIR(program);
     const fkField = tables
       .find((t) => t.name === "Source")
       ?.fields.find((f) => f.name === "targetId");
     assert.equal(fkField?.references?.onDelete, "restrict");
+    assert.equal(fkField?.references?.onUpdate, "set default");
+    assert.equal(fkField?.references?.relationName, "owner");
+    assert.equal(fkField?.references?.inverseName, "ownedSources");
   });
 
   it("skips non-Model entries in table state", () => {
@@ -1039,6 +1154,39 @@ describe("resolution: real-world field types (buildIR)", () => {
     assert.equal(field?.constraints?.check, "email LIKE '%@%'");
   });
 
+  it("carries the @identity generation into the key field", () => {
+    const table = buildSingleTable((ctx, model) => {
+      $identity(ctx, model.properties.get("rowId") as unknown as ModelProperty, "byDefault");
+    });
+    assert.equal(table.fields[0].identity, "byDefault");
+    assert.equal(table.fields[0].autoGenerateId, undefined);
+  });
+
+  it("carries @searchable weights into the fields", () => {
+    const table = buildSingleTable((ctx, model) => {
+      for (const name of ["title", "summary"]) {
+        const prop: MockProp = {
+          kind: "ModelProperty",
+          name,
+          type: mockScalar("string"),
+          optional: false,
+          model,
+        };
+        model.properties.set(name, prop);
+      }
+      $searchable(ctx, model.properties.get("title") as unknown as ModelProperty);
+      $searchable(ctx, model.properties.get("summary") as unknown as ModelProperty, "B");
+    });
+    assert.deepEqual(
+      table.fields.map((f) => [f.name, f.searchWeight]),
+      [
+        ["rowId", undefined],
+        ["title", "A"],
+        ["summary", "B"],
+      ],
+    );
+  });
+
   it("extracts a literal default value from a property", () => {
     const program = createMockProgram();
     const ctx = mockContext(program);
@@ -1201,16 +1349,27 @@ describe("resolution: real-world field types (buildIR)", () => {
       [sA, sB] as unknown as ModelProperty[],
       [tA, tB] as unknown as ModelProperty[],
     );
+    $foreignKeyDef(
+      ctx,
+      source as unknown as Model,
+      "source_target_cascade_fk",
+      [sA, sB] as unknown as ModelProperty[],
+      [tA, tB] as unknown as ModelProperty[],
+      "NO ACTION",
+      "CASCADE",
+    );
 
     const { tables } = buildIR(program);
     const sourceTable = tables.find((t) => t.name === "Source");
-    assert.equal(sourceTable?.foreignKeys.length, 1);
+    assert.equal(sourceTable?.foreignKeys.length, 2);
     assert.deepEqual(sourceTable?.foreignKeys[0], {
       name: "source_target_fk",
       columns: ["a", "b"],
       foreignTable: "Target",
       foreignColumns: ["a", "b"],
     });
+    assert.equal(sourceTable?.foreignKeys[1].onDelete, "no action");
+    assert.equal(sourceTable?.foreignKeys[1].onUpdate, "cascade");
   });
 
   it("accepts decorator columns supplied as a marshalled tuple value", () => {
@@ -1243,6 +1402,50 @@ describe("resolution: real-world field types (buildIR)", () => {
     assert.deepEqual(tables[0].indexes[0].columns, ["a", "b"]);
   });
 
+  it("maps @indexDef options, leaving out btree and empty lists", () => {
+    const program = createMockProgram();
+    const ctx = mockContext(program);
+    const model: MockModel = { kind: "Model", name: "Row", properties: new Map() };
+    const a: MockProp = {
+      kind: "ModelProperty",
+      name: "a",
+      type: mockScalar("string"),
+      optional: false,
+      model,
+    };
+    model.properties.set("a", a);
+    $table(ctx, model as unknown as Model, "Row", "test");
+    program.stateMap(StateKeys.indexDef).set(model, [
+      {
+        name: "row_a_idx",
+        columns: [a],
+        unique: false,
+        options: {
+          method: "gin",
+          order: { a: { direction: "desc", nulls: "last" } },
+          expressions: ["lower(a)"],
+          where: "a IS NOT NULL",
+          include: [],
+        },
+      },
+      { name: "row_a_btree_idx", columns: [a], unique: true, options: { method: "btree" } },
+    ]);
+
+    const { tables } = buildIR(program);
+    assert.deepEqual(tables[0].indexes, [
+      {
+        name: "row_a_idx",
+        columns: ["a"],
+        unique: false,
+        method: "gin",
+        order: { a: { direction: "desc", nulls: "last" } },
+        expressions: ["lower(a)"],
+        where: "a IS NOT NULL",
+      },
+      { name: "row_a_btree_idx", columns: ["a"], unique: true },
+    ]);
+  });
+
   it("resolves int64, float32, float64, and boolean scalars", () => {
     const program = createMockProgram();
     const ctx = mockContext(program);
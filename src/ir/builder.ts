@@ -1,16 +1,28 @@
-import type { Model, ModelProperty, Program, Scalar } from "@typespec/compiler";
-import { getMaxLength } from "@typespec/compiler";
+import type { Model, ModelProperty, Program, Scalar, Type } from "@typespec/compiler";
+import { getMaxLength, isArrayModelType } from "@typespec/compiler";
 import { toSnakeCase } from "../generators/naming.js";
 import { StateKeys } from "../lib.js";
+import { isStringUnion, jsonColumnType } from "./json-types.js";
 import type {
+  ArrayElementType,
+  DecimalMode,
   EnumDef,
   FieldDef,
   FieldType,
   ForeignKeyDef,
+  IdentityGeneration,
+  IdStrategy,
+  IndexColumnOrder,
   IndexDef,
+  IndexMethod,
+  JsonTypeDef,
+  ReferentialAction,
+  SearchWeight,
   TableDef,
   UniqueConstraintDef,
   UuidEncoding,
+  VectorDistance,
+  VectorIndexMethod,
 } from "./types.js";
 
 interface TableMeta {
@@ -22,11 +34,33 @@ interface PrimaryKeyMeta {
   tableName: string;
 }
 
+interface RelationMeta {
+  name: string;
+  inverseName?: string;
+}
+
 interface UuidMeta {
   encoding: string;
   autoGenerate: boolean;
 }
 
+interface PrecisionMeta {
+  precision: number;
+  scale?: number;
+  mode: string;
+}
+
+interface VectorMeta {
+  dimensions: number;
+  distance: string;
+}
+
+interface VectorIndexMeta {
+  name: string;
+  column: ModelProperty;
+  method: string;
+}
+
 interface CompositeUniqueMeta {
   name: string;
   columns: ModelProperty[];
@@ -36,12 +70,21 @@ interface IndexMeta {
   name: string;
   columns: ModelProperty[];
   unique: boolean;
+  options?: {
+    where?: string;
+    method?: string;
+    order?: Record<string, IndexColumnOrder>;
+    expressions?: string[];
+    include?: string[];
+  };
 }
 
 interface ForeignKeyMeta {
   name: string;
   columns: ModelProperty[];
   foreignColumns: ModelProperty[];
+  onDelete?: string;
+  onUpdate?: string;
 }
 
 /**
@@ -60,32 +103,48 @@ export interface ProgramStateAccess {
  * - @table state -> table name, service
  * - @primaryKey state -> SQL table name
  * - @pk state -> PK columns
- * - @references state -> FK references
+ * - @references state -> FK references with their ON DELETE / ON UPDATE actions
+ * - @relation state -> explicit names for a reference's relation and its reverse
  * - @junction state -> junction marker
  * - @uuid state -> UUID encoding + auto-generation
+ * - @id state -> id generation strategy (auto-generates the column)
+ * - @identity state -> database-numbered integer primary key
+ * - @precision state -> decimal precision, scale and mode
+ * - @vector state -> vector dimensions and search distance
+ * - @searchable state -> full-text search weight
  * - @createdAt / @updatedAt state -> timestamp markers
  * - @unique state -> single-column unique constraints
  * - @compositeUnique state -> composite unique constraints
  * - @check state -> check constraint expressions
- * - @indexDef state -> index definitions
- * - @foreignKeyDef state -> composite foreign key definitions
+ * - @indexDef state -> index definitions (method, order, expressions, where, include)
+ * - @vectorIndex state -> pgvector index definitions
+ * - @foreignKeyDef state -> composite foreign key definitions with their actions
  * - @minValue / @maxValue state -> range constraints
  * - @visibility state -> field visibility
  */
 export function buildIR(program: ProgramStateAccess): {
   tables: TableDef[];
   enums: EnumDef[];
+  jsonTypes: JsonTypeDef[];
 } {
   const tables: TableDef[] = [];
   const enums: EnumDef[] = [];
   const seenEnums = new Set<string>();
+  const jsonTypes = new Map<string, JsonTypeDef>();
 
   const tableState = program.stateMap(StateKeys.table);
   const pkTableState = program.stateMap(StateKeys.primaryKey);
   const pkFieldState = program.stateSet(StateKeys.pk);
   const referencesState = program.stateMap(StateKeys.references);
+  const relationState = program.stateMap(StateKeys.relation);
   const junctionState = program.stateSet(StateKeys.junction);
   const uuidState = program.stateMap(StateKeys.uuid);
+  const idState = program.stateMap(StateKeys.id);
+  const identityState = program.stateMap(StateKeys.identity);
+  const precisionState = program.stateMap(StateKeys.precision);
+  const vectorState = program.stateMap(StateKeys.vector);
+  const vectorIndexState = program.stateMap(StateKeys.vectorIndex);
+  const searchableState = program.stateMap(StateKeys.searchable);
   const createdAtState = program.stateSet(StateKeys.createdAt);
   const updatedAtState = program.stateSet(StateKeys.updatedAt);
   const uniqueState = program.stateSet(StateKeys.unique);
@@ -115,10 +174,14 @@ export function buildIR(program: ProgramStateAccess): {
       if (isPk) pkColumns.push(propName);
 
       const refEntry = referencesState.get(modelProp) as
-        | { ref: ModelProperty; onDelete?: "CASCADE" | "RESTRICT" }
+        | { ref: ModelProperty; onDelete?: string; onUpdate?: string }
         | undefined;
       const refTarget = refEntry?.ref;
       const uuidMeta = uuidState.get(modelProp) as UuidMeta | undefined;
+      const vectorMeta = vectorState.get(modelProp) as VectorMeta | undefined;
+      const idStrategy = idState.get(modelProp) as IdStrategy | undefined;
+      const identity = identityState.get(modelProp) as IdentityGeneration | undefined;
+      const searchWeight = searchableState.get(modelProp) as SearchWeight | undefined;
       const isCreatedAt = createdAtState.has(modelProp);
       const isUpdatedAt = updatedAtState.has(modelProp);
       const isUnique = uniqueState.has(modelProp);
@@ -127,16 +190,23 @@ export function buildIR(program: ProgramStateAccess): {
       const maxVal = maxValueState.get(modelProp) as number | undefined;
       const vis = visibilityState.get(modelProp) as string | undefined;
 
-      const fieldType = resolveFieldType(modelProp, uuidMeta, program);
+      const precisionMeta = precisionState.get(modelProp) as PrecisionMeta | undefined;
+      const fieldType = resolveFieldType(modelProp, uuidMeta, vectorMeta, program, jsonTypes);
+      if (fieldType.kind === "decimal" && precisionMeta) {
+        fieldType.precision = precisionMeta.precision;
+        if (precisionMeta.scale !== undefined) fieldType.scale = precisionMeta.scale;
+        fieldType.mode = precisionMeta.mode as DecimalMode;
+      }
       const columnName = toSnakeCase(propName);
 
-      // Collect enum definitions
-      if (fieldType.kind === "enum" && !seenEnums.has(fieldType.enumName)) {
-        seenEnums.add(fieldType.enumName);
+      // Collect enum definitions, including the element type of enum arrays
+      const enumType = fieldType.kind === "array" ? fieldType.element : fieldType;
+      if (enumType.kind === "enum" && !seenEnums.has(enumType.enumName)) {
+        seenEnums.add(enumType.enumName);
         enums.push({
-          name: fieldType.enumName,
-          sqlName: toSnakeCase(fieldType.enumName.replace(/Enum$/, "")),
-          values: fieldType.values,
+          name: enumType.enumName,
+          sqlName: toSnakeCase(enumType.enumName.replace(/Enum$/, "")),
+          values: enumType.values,
         });
       }
 
@@ -156,6 +226,16 @@ export function buildIR(program: ProgramStateAccess): {
         };
       }
 
+      if (idStrategy) {
+        field.idStrategy = idStrategy;
+        if (field.uuid) field.uuid.autoGenerate = true;
+        else field.autoGenerateId = true;
+      }
+
+      if (identity) {
+        field.identity = identity;
+      }
+
       if (refTarget) {
         const refModel = refTarget.model;
         if (refModel) {
@@ -165,8 +245,14 @@ export function buildIR(program: ProgramStateAccess): {
               tableName: refTableMeta.name,
               fieldName: refTarget.name,
             };
-            if (refEntry?.onDelete) {
-              field.references.onDelete = refEntry.onDelete === "CASCADE" ? "cascade" : "restrict";
+            if (refEntry?.onDelete)
+              field.references.onDelete = referentialAction(refEntry.onDelete);
+            if (refEntry?.onUpdate)
+              field.references.onUpdate = referentialAction(refEntry.onUpdate);
+            const relationMeta = relationState.get(modelProp) as RelationMeta | undefined;
+            if (relationMeta) {
+              field.references.relationName = relationMeta.name;
+              if (relationMeta.inverseName) field.references.inverseName = relationMeta.inverseName;
             }
           }
         }
@@ -181,6 +267,10 @@ export function buildIR(program: ProgramStateAccess): {
         if (maxVal !== undefined) field.constraints.maxValue = maxVal;
       }
 
+      if (searchWeight) {
+        field.searchWeight = searchWeight;
+      }
+
       // Visibility
       if (vis) {
         field.visibility = vis as "read";
@@ -208,11 +298,31 @@ export function buildIR(program: ProgramStateAccess): {
 
     // Indexes
     const indexDefs = indexDefState.get(model) as IndexMeta[] | undefined;
-    const indexes: IndexDef[] = (indexDefs ?? []).map((idx) => ({
-      name: idx.name,
-      columns: toModelProperties(idx.columns).map((c) => c.name),
-      unique: idx.unique,
-    }));
+    const indexes: IndexDef[] = (indexDefs ?? []).map((idx) => {
+      const index: IndexDef = {
+        name: idx.name,
+        columns: toModelProperties(idx.columns).map((c) => c.name),
+        unique: idx.unique,
+      };
+      const options = idx.options ?? {};
+      if (options.method && options.method !== "btree") {
+        index.method = options.method as IndexMethod;
+      }
+      if (options.order && Object.keys(options.order).length > 0) index.order = options.order;
+      if (options.expressions?.length) index.expressions = options.expressions;
+      if (options.where) index.where = options.where;
+      if (options.include?.length) index.include = options.include;
+      return index;
+    });
+    const vectorIndexDefs = vectorIndexState.get(model) as VectorIndexMeta[] | undefined;
+    for (const idx of vectorIndexDefs ?? []) {
+      indexes.push({
+        name: idx.name,
+        columns: [idx.column.name],
+        unique: false,
+        using: idx.method as VectorIndexMethod,
+      });
+    }
 
     // Composite foreign keys
     const fkDefs = foreignKeyDefState.get(model) as ForeignKeyMeta[] | undefined;
@@ -229,6 +339,8 @@ export function buildIR(program: ProgramStateAccess): {
         columns: localColumns.map((c) => c.name),
         foreignTable: foreignTableMeta?.name ?? "",
         foreignColumns: foreignColumns.map((c) => c.name),
+        ...(fk.onDelete && { onDelete: referentialAction(fk.onDelete) }),
+        ...(fk.onUpdate && { onUpdate: referentialAction(fk.onUpdate) }),
       };
     });
 
@@ -245,7 +357,12 @@ export function buildIR(program: ProgramStateAccess): {
     });
   }
 
-  return { tables, enums };
+  return { tables, enums, jsonTypes: [...jsonTypes.values()] };
+}
+
+/** `"SET NULL"` as written in TypeSpec to the IR's `"set null"` */
+function referentialAction(action: string): ReferentialAction {
+  return action.toLowerCase() as ReferentialAction;
 }
 
 /**
@@ -255,7 +372,7 @@ export function buildIR(program: ProgramStateAccess): {
  * as a marshalled tuple value (`{ values: ModelProperty[] }`) when the emitter
  * runs against compiled TypeSpec.
  */
-function toModelProperties(columns: unknown): ModelProperty[] {
+export function toModelProperties(columns: unknown): ModelProperty[] {
   if (Array.isArray(columns)) return columns as ModelProperty[];
   if (columns && typeof columns === "object" && "values" in columns) {
     return (columns as { values: ModelProperty[] }).values;
@@ -263,16 +380,36 @@ function toModelProperties(columns: unknown): ModelProperty[] {
   throw new Error("Expected a ModelProperty[] or tuple value for decorator columns");
 }
 
+/** Whether an array column can hold `type`; the rest are stored as JSON */
+export function isArrayElementType(type: FieldType): type is ArrayElementType {
+  return type.kind !== "jsonb" && type.kind !== "array" && type.kind !== "vector";
+}
+
 function resolveFieldType(
   prop: ModelProperty,
   uuidMeta: UuidMeta | undefined,
+  vectorMeta: VectorMeta | undefined,
   program: ProgramStateAccess,
+  jsonTypes: Map<string, JsonTypeDef>,
 ): FieldType {
   if (uuidMeta) {
     return { kind: "uuid", encoding: uuidMeta.encoding as UuidEncoding };
   }
+  if (vectorMeta) {
+    return {
+      kind: "vector",
+      dimensions: vectorMeta.dimensions,
+      distance: vectorMeta.distance as VectorDistance,
+    };
+  }
+  return resolveType(prop.type, program, jsonTypes);
+}
 
-  const type = prop.type;
+function resolveType(
+  type: Type,
+  program: ProgramStateAccess,
+  jsonTypes: Map<string, JsonTypeDef>,
+): FieldType {
   if (type.kind === "Scalar") {
     return resolveScalarType(type as Scalar, program);
   }
@@ -288,12 +425,23 @@ function resolveFieldType(
       m.value !== undefined ? String(m.value) : m.name,
     );
     const enumName = `${enumType.name.charAt(0).toLowerCase() + enumType.name.slice(1)}Enum`;
-    const _sqlName = toSnakeCase(enumType.name);
     return { kind: "enum", enumName, values };
   }
 
   if (type.kind === "Model") {
-    return { kind: "jsonb" };
+    // `T[]` is an Array model; arrays of scalars and enums become array columns,
+    // arrays of models or arrays stay JSON
+    if (isArrayModelType(type)) {
+      const element = resolveType(type.indexer.value, program, jsonTypes);
+      if (isArrayElementType(element)) return { kind: "array", element };
+    }
+    return jsonColumnType(type, jsonTypes);
+  }
+
+  // A union with a non-string variant (`Circle | Square`) is a JSON document;
+  // string unions stay text
+  if (type.kind === "Union" && !isStringUnion(type)) {
+    return jsonColumnType(type, jsonTypes);
   }
 
   return { kind: "text" };
@@ -313,10 +461,25 @@ function resolveScalarType(scalar: Scalar, program: ProgramStateAccess): FieldTy
       return { kind: "real" };
     case "float64":
       return { kind: "doublePrecision" };
+    case "decimal":
+    case "decimal128":
+      return { kind: "decimal", mode: "string" };
     case "boolean":
       return { kind: "boolean" };
     case "utcDateTime":
+    case "offsetDateTime":
       return { kind: "timestamp" };
+    // TypeSpec has no local date-time; this library declares `plainDateTime`
+    case "plainDateTime":
+      return { kind: "localTimestamp" };
+    case "plainDate":
+      return { kind: "date" };
+    case "plainTime":
+      return { kind: "time" };
+    case "duration":
+      return { kind: "interval" };
+    case "bytes":
+      return { kind: "bytes" };
   }
 
   if (maxLength !== undefined) {
@@ -0,0 +1,229 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseDdl, tokenize } from "./ddl-parser.ts";
+
+const PG_DUMP = `
+--
+-- PostgreSQL database dump
+--
+SET statement_timeout = 0;
+
+CREATE SCHEMA shop;
+
+CREATE TYPE shop.order_status AS ENUM (
+    'pending',
+    'it''s shipped'
+);
+
+CREATE FUNCTION shop.touch() RETURNS trigger
+    LANGUAGE plpgsql
+    AS $$ BEGIN NEW.updated_at = now(); RETURN NEW; END; $$;
+
+CREATE TABLE shop.orders (
+    order_id bigint NOT NULL,
+    code character varying(32) DEFAULT 'new'::character varying NOT NULL,
+    "Total" numeric(10, 2),
+    status shop.order_status DEFAULT 'pending'::shop.order_status NOT NULL,
+    customer_id integer,
+    embedding public.vector(3),
+    CONSTRAINT orders_total_check CHECK (("Total" >= (0)::numeric))
+);
+
+CREATE SEQUENCE shop.orders_order_id_seq;
+
+ALTER TABLE ONLY shop.orders ALTER COLUMN order_id SET DEFAULT nextval('shop.orders_order_id_seq'::regclass);
+
+ALTER TABLE ONLY shop.orders
+    ADD CONSTRAINT orders_pkey PRIMARY KEY (order_id);
+
+ALTER TABLE ONLY shop.orders
+    ADD CONSTRAINT orders_customer_id_fkey FOREIGN KEY (customer_id) REFERENCES shop.customers(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX orders_code_idx ON shop.orders USING btree (code DESC);
+
+CREATE INDEX orders_lower_code_idx ON ONLY shop.orders USING btree (lower((code)::text)) WHERE (status = 'pending'::shop.order_status);
+
+CREATE INDEX orders_embedding_idx ON shop.orders USING hnsw (embedding public.vector_l2_ops);
+`;
+
+describe("tokenize", () => {
+  it("skips comments and unquotes identifiers and strings", () => {
+    const tokens = tokenize(`-- note\nSELECT "a""b", 'it''s', [c], \`d\` /* x */ >= 1.5`);
+    assert.deepEqual(
+      tokens.map((t) => [t.kind, t.value]),
+      [
+        ["word", "SELECT"],
+        ["quoted", 'a"b'],
+        ["symbol", ","],
+        ["string", "it's"],
+        ["symbol", ","],
+        ["quoted", "c"],
+        ["symbol", ","],
+        ["quoted", "d"],
+        ["symbol", ">="],
+        ["number", "1.5"],
+      ],
+    );
+  });
+
+  it("reads a dollar-quoted body as one string", () => {
+    const tokens = tokenize("AS $fn$ BEGIN; END; $fn$;");
+    assert.deepEqual(
+      tokens.map((t) => t.value),
+      ["AS", " BEGIN; END; ", ";"],
+    );
+  });
+});
+
+describe("parseDdl (pg_dump)", () => {
+  const catalog = parseDdl(PG_DUMP);
+  const orders = catalog.tables[0];
+
+  it("reads enum types with their schema", () => {
+    assert.deepEqual(catalog.enums, [
+      { schema: "shop", name: "order_status", values: ["pending", "it's shipped"] },
+    ]);
+  });
+
+  it("reads columns with types, defaults and nullability", () => {
+    assert.equal(catalog.tables.length, 1);
+    assert.equal(orders.schema, "shop");
+    assert.deepEqual(
+      orders.columns.map((c) => [c.name, c.type, c.notNull, c.default]),
+      [
+        ["order_id", "bigint", true, "nextval('shop.orders_order_id_seq'::regclass)"],
+        ["code", "character varying(32)", true, "'new'::character varying"],
+        ["Total", "numeric(10,2)", false, undefined],
+        ["status", "shop.order_status", true, "'pending'::shop.order_status"],
+        ["customer_id", "integer", false, undefined],
+        ["embedding", "public.vector(3)", false, undefined],
+      ],
+    );
+  });
+
+  it("attaches ALTER TABLE constraints to the table", () => {
+    assert.deepEqual(orders.constraints, [
+      { kind: "check", name: "orders_total_check", expression: '("Total" >= (0)::numeric)' },
+      { kind: "primaryKey", name: "orders_pkey", columns: ["order_id"] },
+      {
+        kind: "foreignKey",
+        name: "orders_customer_id_fkey",
+        columns: ["customer_id"],
+        references: { schema: "shop", table: "customers", columns: ["id"], onDelete: "set null" },
+      },
+    ]);
+  });
+
+  it("reads identity columns, inline and as pg_dump attaches them", () => {
+    const [events] = parseDdl(`
+      CREATE TABLE events (
+        event_id bigint NOT NULL,
+        seq integer GENERATED BY DEFAULT AS IDENTITY (START WITH 10) NOT NULL
+      );
+      ALTER TABLE events ALTER COLUMN event_id ADD GENERATED ALWAYS AS IDENTITY (
+        SEQUENCE NAME public.events_event_id_seq
+        START WITH 1
+        CACHE 1
+      );
+    `).tables;
+    assert.deepEqual(
+      events.columns.map((c) => [c.name, c.identity, c.notNull, c.generated]),
+      [
+        ["event_id", "always", true, undefined],
+        ["seq", "byDefault", true, undefined],
+      ],
+    );
+  });
+
+  it("reads indexes with their access method, operator classes and expressions", () => {
+    assert.deepEqual(catalog.indexes, [
+      {
+        name: "orders_code_idx",
+        schema: "shop",
+        table: "orders",
+        columns: ["code"],
+        unique: true,
+        expressions: [],
+        method: "btree",
+        order: { code: { direction: "desc" } },
+      },
+      {
+        name: "orders_lower_code_idx",
+        schema: "shop",
+        table: "orders",
+        columns: [],
+        unique: false,
+        expressions: ["lower((code)::text)"],
+        where: "(status = 'pending'::shop.order_status)",
+        method: "btree",
+      },
+      {
+        name: "orders_embedding_idx",
+        schema: "shop",
+        table: "orders",
+        columns: ["embedding"],
+        unique: false,
+        expressions: [],
+        method: "hnsw",
+        opclasses: { embedding: "vector_l2_ops" },
+      },
+    ]);
+  });
+
+  it("reads index sort order, covering columns and wrapped expressions", () => {
+    const [recent, mixed] = parseDdl(`
+      CREATE INDEX recent_idx ON events USING btree (created_at DESC NULLS LAST, kind ASC) INCLUDE (payload, source) WHERE (deleted_at IS NULL);
+      CREATE INDEX mixed_idx ON events ((payload ->> 'type') DESC, kind);
+    `).indexes;
+    assert.deepEqual(recent, {
+      name: "recent_idx",
+      table: "events",
+      columns: ["created_at", "kind"],
+      unique: false,
+      expressions: [],
+      method: "btree",
+      order: { created_at: { direction: "desc", nulls: "last" }, kind: { direction: "asc" } },
+      include: ["payload", "source"],
+      where: "(deleted_at IS NULL)",
+    });
+    assert.deepEqual(mixed.columns, []);
+    assert.deepEqual(mixed.expressions, ["payload ->> 'type'", "kind"]);
+  });
+});
+
+describe("parseDdl (SQLite)", () => {
+  it("reads inline column constraints", () => {
+    const [table] = parseDdl(`
+      CREATE TABLE IF NOT EXISTS [line items] (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        sku TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        qty INTEGER NOT NULL DEFAULT 1 CHECK (qty > 0),
+        order_id INTEGER REFERENCES orders ON DELETE CASCADE ON UPDATE SET DEFAULT,
+        total REAL GENERATED ALWAYS AS (qty * 2) STORED,
+        UNIQUE (order_id, sku)
+      )
+    `).tables;
+
+    assert.equal(table.name, "line items");
+    assert.deepEqual(table.columns[0], {
+      name: "id",
+      type: "INTEGER",
+      notNull: false,
+      primaryKey: true,
+      unique: false,
+      identity: "always",
+    });
+    assert.equal(table.columns[1].unique, true);
+    assert.equal(table.columns[2].default, "1");
+    assert.equal(table.columns[2].check, "qty > 0");
+    assert.deepEqual(table.columns[3].references, {
+      table: "orders",
+      columns: [],
+      onDelete: "cascade",
+      onUpdate: "set default",
+    });
+    assert.equal(table.columns[4].type, "REAL");
+    assert.equal(table.columns[4].generated, "qty * 2");
+    assert.deepEqual(table.constraints, [{ kind: "unique", columns: ["order_id", "sku"] }]);
+  });
+});
@@ -0,0 +1,662 @@
+/**
+ * Tokenizer and parser for the DDL subset the introspection front-end reads:
+ * `CREATE TABLE`, `CREATE TYPE ... AS ENUM`, `CREATE [UNIQUE] INDEX` and
+ * `ALTER TABLE ... ADD [CONSTRAINT]`, as written by `pg_dump --schema-only`,
+ * SQLite's `sqlite_master` and this emitter's own migrations. Every other
+ * statement is skipped.
+ */
+
+export interface DdlReference {
+  schema?: string;
+  table: string;
+  /** Empty when the reference targets the primary key implicitly */
+  columns: string[];
+  /** Lower-cased action, e.g. "cascade" or "set null" */
+  onDelete?: string;
+  onUpdate?: string;
+}
+
+export interface DdlColumn {
+  name: string;
+  /** Declared type, unquoted and with whitespace collapsed (`character varying(255)`) */
+  type: string;
+  notNull: boolean;
+  /** Default expression as written */
+  default?: string;
+  primaryKey: boolean;
+  unique: boolean;
+  references?: DdlReference;
+  check?: string;
+  /** Expression of a `GENERATED ALWAYS AS (...)` column */
+  generated?: string;
+  /** Set on `GENERATED ... AS IDENTITY` columns; SQLite's AUTOINCREMENT reads as "always" */
+  identity?: DdlIdentity;
+}
+
+export type DdlIdentity = "always" | "byDefault";
+
+export type DdlConstraint =
+  | { kind: "primaryKey"; name?: string; columns: string[] }
+  | { kind: "unique"; name?: string; columns: string[] }
+  | { kind: "foreignKey"; name?: string; columns: string[]; references: DdlReference }
+  | { kind: "check"; name?: string; expression: string };
+
+export interface DdlTable {
+  schema?: string;
+  name: string;
+  columns: DdlColumn[];
+  constraints: DdlConstraint[];
+}
+
+export interface DdlIndex {
+  name: string;
+  schema?: string;
+  table: string;
+  /** Plain column names; expression entries are left out and listed in `expressions` */
+  columns: string[];
+  unique: boolean;
+  /**
+   * Expression entries (`lower(email)`) without their outer parentheses, in
+   * order; plain columns after the first expression are listed here too, so
+   * the entries keep their position after `columns`
+   */
+  expressions: string[];
+  /** `ASC`/`DESC` and `NULLS FIRST`/`NULLS LAST` given after a plain column, by column */
+  order?: Record<string, DdlIndexOrder>;
+  /** Covering columns after `INCLUDE` */
+  include?: string[];
+  /** Access method after `USING` (`btree`, `hnsw`, ...), lowercased */
+  method?: string;
+  /** Operator classes given after a column (`embedding vector_cosine_ops`), unqualified, by column */
+  opclasses?: Record<string, string>;
+  /** Predicate of a partial index */
+  where?: string;
+}
+
+export interface DdlIndexOrder {
+  direction?: "asc" | "desc";
+  nulls?: "first" | "last";
+}
+
+export interface DdlEnum {
+  schema?: string;
+  name: string;
+  values: string[];
+}
+
+export interface DdlCatalog {
+  tables: DdlTable[];
+  indexes: DdlIndex[];
+  enums: DdlEnum[];
+}
+
+/** A constraint, column default or identity added to an existing table by `ALTER TABLE` */
+type Alteration = { schema?: string; table: string } & (
+  | { constraint: DdlConstraint }
+  | { column: string; default: string }
+  | { column: string; identity: DdlIdentity }
+);
+
+type TokenKind = "word" | "quoted" | "string" | "number" | "symbol";
+
+export interface Token {
+  kind: TokenKind;
+  /** Unquoted/unescaped text; words keep their original case */
+  value: string;
+  start: number;
+  end: number;
+}
+
+const MULTI_CHAR_SYMBOLS = ["::", ">=", "<=", "<>", "!=", "||"];
+
+/** Splits SQL into tokens, dropping whitespace and comments. */
+export function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < sql.length) {
+    const ch = sql[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (sql.startsWith("--", i)) {
+      const end = sql.indexOf("\n", i);
+      i = end === -1 ? sql.length : end + 1;
+    } else if (sql.startsWith("/*", i)) {
+      const end = sql.indexOf("*/", i + 2);
+      i = end === -1 ? sql.length : end + 2;
+    } else if (ch === "'" || ch === '"' || ch === "`") {
+      const end = closingQuote(sql, i, ch);
+      const value = sql.slice(i + 1, end).replaceAll(ch + ch, ch);
+      tokens.push({ kind: ch === "'" ? "string" : "quoted", value, start: i, end: end + 1 });
+      i = end + 1;
+    } else if (ch === "[") {
+      const end = sql.indexOf("]", i);
+      const stop = end === -1 ? sql.length : end;
+      tokens.push({ kind: "quoted", value: sql.slice(i + 1, stop), start: i, end: stop + 1 });
+      i = stop + 1;
+    } else if (ch === "$" && /^\$\w*\$/.test(sql.slice(i))) {
+      // Dollar-quoted string (function bodies in pg_dump)
+      const tag = (sql.slice(i).match(/^\$\w*\$/) as RegExpMatchArray)[0];
+      const end = sql.indexOf(tag, i + tag.length);
+      const stop = end === -1 ? sql.length : end;
+      tokens.push({
+        kind: "string",
+        value: sql.slice(i + tag.length, stop),
+        start: i,
+        end: stop + tag.length,
+      });
+      i = stop + tag.length;
+    } else if (/[0-9]/.test(ch) || (ch === "." && /[0-9]/.test(sql[i + 1] ?? ""))) {
+      const match = sql.slice(i).match(/^[0-9]*\.?[0-9]+(?:[eE][+-]?[0-9]+)?/) as RegExpMatchArray;
+      tokens.push({ kind: "number", value: match[0], start: i, end: i + match[0].length });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = sql.slice(i).match(/^[A-Za-z_][A-Za-z0-9_$]*/) as RegExpMatchArray;
+      tokens.push({ kind: "word", value: match[0], start: i, end: i + match[0].length });
+      i += match[0].length;
+    } else {
+      const symbol = MULTI_CHAR_SYMBOLS.find((s) => sql.startsWith(s, i)) ?? ch;
+      tokens.push({ kind: "symbol", value: symbol, start: i, end: i + symbol.length });
+      i += symbol.length;
+    }
+  }
+
+  return tokens;
+}
+
+function closingQuote(sql: string, start: number, quote: string): number {
+  let i = start + 1;
+  while (i < sql.length) {
+    if (sql[i] === quote) {
+      if (sql[i + 1] === quote) {
+        i += 2;
+        continue;
+      }
+      return i;
+    }
+    i++;
+  }
+  return sql.length;
+}
+
+/** Parses every supported statement in `sql`; `ALTER TABLE ... ADD` lands on its table. */
+export function parseDdl(sql: string): DdlCatalog {
+  const catalog: DdlCatalog = { tables: [], indexes: [], enums: [] };
+  const alterations: Alteration[] = [];
+
+  for (const statement of splitStatements(tokenize(sql))) {
+    const cursor = new Cursor(statement, sql);
+    if (cursor.acceptWords("CREATE")) {
+      cursor.acceptWords("OR", "REPLACE");
+      cursor.acceptAnyWord("TEMP", "TEMPORARY", "UNLOGGED");
+      if (cursor.acceptWords("TABLE")) {
+        const table = parseCreateTable(cursor);
+        if (table) catalog.tables.push(table);
+      } else if (cursor.acceptWords("TYPE")) {
+        const enumDef = parseCreateEnum(cursor);
+        if (enumDef) catalog.enums.push(enumDef);
+      } else {
+        const unique = cursor.acceptWords("UNIQUE");
+        if (cursor.acceptWords("INDEX")) {
+          const index = parseCreateIndex(cursor, unique);
+          if (index) catalog.indexes.push(index);
+        }
+      }
+    } else if (cursor.acceptWords("ALTER", "TABLE")) {
+      alterations.push(...parseAlterTable(cursor));
+    }
+  }
+
+  for (const alteration of alterations) {
+    const target = catalog.tables.find(
+      (t) =>
+        t.name === alteration.table &&
+        (alteration.schema === undefined || t.schema === alteration.schema),
+    );
+    if (!target) continue;
+    if ("constraint" in alteration) {
+      target.constraints.push(alteration.constraint);
+      continue;
+    }
+    const column = target.columns.find((c) => c.name === alteration.column);
+    if (!column) continue;
+    if ("identity" in alteration) column.identity = alteration.identity;
+    else column.default = alteration.default;
+  }
+
+  return catalog;
+}
+
+function splitStatements(tokens: Token[]): Token[][] {
+  const statements: Token[][] = [[]];
+  for (const token of tokens) {
+    if (token.kind === "symbol" && token.value === ";") statements.push([]);
+    else statements[statements.length - 1].push(token);
+  }
+  return statements.filter((s) => s.length > 0);
+}
+
+/** Splits tokens on commas outside parentheses */
+function splitTopLevel(tokens: Token[]): Token[][] {
+  const parts: Token[][] = [[]];
+  let depth = 0;
+  for (const token of tokens) {
+    if (token.kind === "symbol") {
+      if (token.value === "(") depth++;
+      if (token.value === ")") depth--;
+      if (token.value === "," && depth === 0) {
+        parts.push([]);
+        continue;
+      }
+    }
+    parts[parts.length - 1].push(token);
+  }
+  return parts.filter((p) => p.length > 0);
+}
+
+class Cursor {
+  private index = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly sql: string,
+  ) {}
+
+  get done(): boolean {
+    return this.index >= this.tokens.length;
+  }
+
+  peek(offset = 0): Token | undefined {
+    return this.tokens[this.index + offset];
+  }
+
+  next(): Token | undefined {
+    return this.tokens[this.index++];
+  }
+
+  isWord(word: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token?.kind === "word" && token.value.toUpperCase() === word;
+  }
+
+  isSymbol(symbol: string): boolean {
+    const token = this.peek();
+    return token?.kind === "symbol" && token.value === symbol;
+  }
+
+  /** Consumes the words when they all follow in order */
+  acceptWords(...words: string[]): boolean {
+    if (!words.every((word, i) => this.isWord(word, i))) return false;
+    this.index += words.length;
+    return true;
+  }
+
+  acceptAnyWord(...words: string[]): string | undefined {
+    const match = words.find((word) => this.isWord(word));
+    if (match) this.index++;
+    return match;
+  }
+
+  acceptSymbol(symbol: string): boolean {
+    if (!this.isSymbol(symbol)) return false;
+    this.index++;
+    return true;
+  }
+
+  identifier(): string | undefined {
+    const token = this.peek();
+    if (token?.kind !== "word" && token?.kind !== "quoted") return undefined;
+    this.index++;
+    return token.value;
+  }
+
+  /** `name` or `schema.name` */
+  qualifiedName(): { schema?: string; name: string } | undefined {
+    const first = this.identifier();
+    if (first === undefined) return undefined;
+    if (!this.acceptSymbol(".")) return { name: first };
+    const second = this.identifier();
+    return second === undefined ? { name: first } : { schema: first, name: second };
+  }
+
+  /** Consumes a parenthesized group and returns the tokens inside it */
+  group(): Token[] | undefined {
+    if (!this.isSymbol("(")) return undefined;
+    const start = this.index + 1;
+    let depth = 0;
+    while (!this.done) {
+      const token = this.next() as Token;
+      if (token.kind !== "symbol") continue;
+      if (token.value === "(") depth++;
+      if (token.value === ")" && --depth === 0) return this.tokens.slice(start, this.index - 1);
+    }
+    return this.tokens.slice(start);
+  }
+
+  /** Consumes tokens up to (not including) the first top-level word in `stops` */
+  until(stops: Set<string>): Token[] {
+    const start = this.index;
+    while (!this.done) {
+      const token = this.peek() as Token;
+      if (token.kind === "word" && stops.has(token.value.toUpperCase())) break;
+      if (token.kind === "symbol" && token.value === "(") this.group();
+      else this.index++;
+    }
+    return this.tokens.slice(start, this.index);
+  }
+
+  rest(): Token[] {
+    const rest = this.tokens.slice(this.index);
+    this.index = this.tokens.length;
+    return rest;
+  }
+
+  /** A cursor over a slice of the same statement */
+  sub(tokens: Token[]): Cursor {
+    return new Cursor(tokens, this.sql);
+  }
+
+  text(tokens: Token[]): string {
+    if (tokens.length === 0) return "";
+    return this.sql.slice(tokens[0].start, tokens[tokens.length - 1].end);
+  }
+}
+
+/** Words that end a column's type or a DEFAULT expression */
+const COLUMN_CONSTRAINT_WORDS = new Set([
+  "CONSTRAINT",
+  "NOT",
+  "NULL",
+  "DEFAULT",
+  "PRIMARY",
+  "UNIQUE",
+  "REFERENCES",
+  "CHECK",
+  "COLLATE",
+  "GENERATED",
+  "AUTOINCREMENT",
+]);
+
+const TABLE_CONSTRAINT_WORDS = ["CONSTRAINT", "PRIMARY", "UNIQUE", "FOREIGN", "CHECK", "EXCLUDE"];
+
+/** Words allowed after a column name in an index or key column list */
+const ORDERING_WORDS = new Set(["ASC", "DESC", "NULLS", "FIRST", "LAST"]);
+
+function parseCreateTable(cursor: Cursor): DdlTable | undefined {
+  cursor.acceptWords("IF", "NOT", "EXISTS");
+  const name = cursor.qualifiedName();
+  const body = cursor.group();
+  if (!name || !body) return undefined;
+
+  const table: DdlTable = { ...name, columns: [], constraints: [] };
+  for (const element of splitTopLevel(body)) {
+    const part = cursor.sub(element);
+    if (TABLE_CONSTRAINT_WORDS.some((word) => part.isWord(word))) {
+      const constraint = parseTableConstraint(part);
+      if (constraint) table.constraints.push(constraint);
+    } else if (!part.isWord("LIKE")) {
+      const column = parseColumn(part);
+      if (column) table.columns.push(column);
+    }
+  }
+  return table;
+}
+
+function parseColumn(cursor: Cursor): DdlColumn | undefined {
+  const name = cursor.identifier();
+  if (name === undefined) return undefined;
+
+  const type = cursor
+    .text(cursor.until(COLUMN_CONSTRAINT_WORDS))
+    .replaceAll('"', "")
+    .replace(/\s+/g, " ")
+    .replace(/\s*\(\s*/g, "(")
+    .replace(/\s*\)/g, ")")
+    .replace(/\s*,\s*/g, ",");
+  const column: DdlColumn = { name, type, notNull: false, primaryKey: false, unique: false };
+
+  while (!cursor.done) {
+    if (cursor.acceptWords("CONSTRAINT")) {
+      cursor.identifier();
+    } else if (cursor.acceptWords("NOT", "NULL")) {
+      column.notNull = true;
+    } else if (cursor.acceptWords("DEFAULT")) {
+      column.default = cursor.text(cursor.until(COLUMN_CONSTRAINT_WORDS));
+    } else if (cursor.acceptWords("PRIMARY", "KEY")) {
+      column.primaryKey = true;
+    } else if (cursor.acceptWords("UNIQUE")) {
+      column.unique = true;
+    } else if (cursor.acceptWords("REFERENCES")) {
+      column.references = parseReference(cursor);
+    } else if (cursor.acceptWords("CHECK")) {
+      column.check = cursor.text(cursor.group() ?? []);
+    } else if (cursor.acceptWords("COLLATE")) {
+      cursor.identifier();
+    } else if (cursor.acceptWords("GENERATED")) {
+      const identity = parseIdentity(cursor);
+      if (identity) {
+        column.identity = identity;
+      } else {
+        const expression = cursor.acceptWords("ALWAYS", "AS") ? cursor.group() : undefined;
+        if (expression) column.generated = cursor.text(expression);
+      }
+      cursor.until(COLUMN_CONSTRAINT_WORDS);
+    } else if (cursor.acceptWords("AUTOINCREMENT")) {
+      column.identity = "always";
+    } else {
+      // NULL, ASC/DESC, ON CONFLICT clauses, ...
+      cursor.next();
+    }
+  }
+
+  return column;
+}
+
+/** `ALWAYS AS IDENTITY` / `BY DEFAULT AS IDENTITY` after GENERATED; the sequence options are left */
+function parseIdentity(cursor: Cursor): DdlIdentity | undefined {
+  if (cursor.acceptWords("ALWAYS", "AS", "IDENTITY")) return "always";
+  if (cursor.acceptWords("BY", "DEFAULT", "AS", "IDENTITY")) return "byDefault";
+  return undefined;
+}
+
+function parseTableConstraint(cursor: Cursor): DdlConstraint | undefined {
+  const name = cursor.acceptWords("CONSTRAINT") ? cursor.identifier() : undefined;
+  const named = name === undefined ? {} : { name };
+
+  if (cursor.acceptWords("PRIMARY", "KEY")) {
+    return { kind: "primaryKey", ...named, columns: columnList(cursor) };
+  }
+  if (cursor.acceptWords("UNIQUE")) {
+    cursor.acceptWords("NULLS", "NOT", "DISTINCT");
+    return { kind: "unique", ...named, columns: columnList(cursor) };
+  }
+  if (cursor.acceptWords("FOREIGN", "KEY")) {
+    const columns = columnList(cursor);
+    if (!cursor.acceptWords("REFERENCES")) return undefined;
+    return { kind: "foreignKey", ...named, columns, references: parseReference(cursor) };
+  }
+  if (cursor.acceptWords("CHECK")) {
+    return { kind: "check", ...named, expression: cursor.text(cursor.group() ?? []) };
+  }
+  // EXCLUDE constraints have no IR counterpart
+  return undefined;
+}
+
+/** `REFERENCES table [(columns)] [ON DELETE action] [ON UPDATE action] [MATCH ...]` */
+function parseReference(cursor: Cursor): DdlReference {
+  const target = cursor.qualifiedName() ?? { name: "" };
+  const reference: DdlReference = {
+    ...(target.schema !== undefined && { schema: target.schema }),
+    table: target.name,
+    columns: cursor.isSymbol("(") ? columnList(cursor) : [],
+  };
+
+  while (cursor.isWord("ON") || cursor.isWord("MATCH")) {
+    if (cursor.acceptWords("MATCH")) {
+      cursor.next();
+    } else if (cursor.acceptWords("ON", "DELETE")) {
+      reference.onDelete = referentialAction(cursor);
+    } else if (cursor.acceptWords("ON", "UPDATE")) {
+      reference.onUpdate = referentialAction(cursor);
+    } else {
+      break;
+    }
+  }
+
+  return reference;
+}
+
+function referentialAction(cursor: Cursor): string {
+  const first = cursor.next()?.value.toLowerCase() ?? "";
+  if (first !== "no" && first !== "set") return first;
+  return `${first} ${cursor.next()?.value.toLowerCase() ?? ""}`;
+}
+
+/** A parenthesized list of plain column names */
+function columnList(cursor: Cursor): string[] {
+  return splitTopLevel(cursor.group() ?? []).flatMap((part) => {
+    const column = plainColumn(part);
+    return column === undefined ? [] : [column];
+  });
+}
+
+/** The column name of a key/index entry, or undefined for an expression */
+function plainColumn(part: Token[]): string | undefined {
+  const [first, ...rest] = part;
+  if (first.kind !== "word" && first.kind !== "quoted") return undefined;
+  const ordering = rest.every(
+    (token) => token.kind === "word" && ORDERING_WORDS.has(token.value.toUpperCase()),
+  );
+  return ordering ? first.value : undefined;
+}
+
+/** `ASC`/`DESC` and `NULLS FIRST`/`NULLS LAST` after an index column */
+function indexOrder(tokens: Token[]): DdlIndexOrder | undefined {
+  const words = tokens.map((token) => token.value.toUpperCase());
+  const order: DdlIndexOrder = {};
+  if (words.includes("DESC")) order.direction = "desc";
+  else if (words.includes("ASC")) order.direction = "asc";
+  const nulls = words.indexOf("NULLS");
+  if (nulls !== -1) order.nulls = words[nulls + 1] === "FIRST" ? "first" : "last";
+  return order.direction || order.nulls ? order : undefined;
+}
+
+/** The text of an index expression, without trailing ordering words or wrapping parentheses */
+function indexExpression(cursor: Cursor, part: Token[]): string {
+  let end = part.length;
+  while (end > 1) {
+    const token = part[end - 1];
+    if (token.kind !== "word" || !ORDERING_WORDS.has(token.value.toUpperCase())) break;
+    end--;
+  }
+  const tokens = part.slice(0, end);
+  const [open, last] = [tokens[0], tokens[tokens.length - 1]];
+  const wrapped =
+    open.kind === "symbol" &&
+    open.value === "(" &&
+    cursor.sub(tokens).group()?.length === tokens.length - 2 &&
+    last.value === ")";
+  return cursor.text(wrapped ? tokens.slice(1, -1) : tokens);
+}
+
+/** Reads an operator class such as `vector_l2_ops` or `public.vector_l2_ops`, dropping the schema */
+function operatorClass(tokens: Token[]): { name: string; length: number } | undefined {
+  const [first, dot, second] = tokens;
+  if (first?.kind !== "word" || ORDERING_WORDS.has(first.value.toUpperCase())) return undefined;
+  if (dot?.kind === "symbol" && dot.value === "." && second?.kind === "word") {
+    return { name: second.value.toLowerCase(), length: 3 };
+  }
+  return { name: first.value.toLowerCase(), length: 1 };
+}
+
+function parseCreateEnum(cursor: Cursor): DdlEnum | undefined {
+  const name = cursor.qualifiedName();
+  if (!name || !cursor.acceptWords("AS", "ENUM")) return undefined;
+  const values = (cursor.group() ?? []).filter((t) => t.kind === "string").map((t) => t.value);
+  return { ...name, values };
+}
+
+function parseCreateIndex(cursor: Cursor, unique: boolean): DdlIndex | undefined {
+  cursor.acceptWords("CONCURRENTLY");
+  cursor.acceptWords("IF", "NOT", "EXISTS");
+  const indexName = cursor.isWord("ON") ? undefined : cursor.qualifiedName();
+  if (!cursor.acceptWords("ON")) return undefined;
+  cursor.acceptWords("ONLY");
+  const table = cursor.qualifiedName();
+  if (!table) return undefined;
+  const method = cursor.acceptWords("USING") ? cursor.next()?.value.toLowerCase() : undefined;
+
+  const parts = splitTopLevel(cursor.group() ?? []);
+  const columns: string[] = [];
+  const expressions: string[] = [];
+  const opclasses: Record<string, string> = {};
+  const order: Record<string, DdlIndexOrder> = {};
+  for (const part of parts) {
+    const [first, ...tail] = part;
+    const opclass = operatorClass(tail);
+    const column = plainColumn(opclass ? [first, ...tail.slice(opclass.length)] : part);
+    if (column === undefined || expressions.length > 0) {
+      expressions.push(indexExpression(cursor, part));
+      continue;
+    }
+    columns.push(column);
+    if (opclass) opclasses[column] = opclass.name;
+    const columnOrder = indexOrder(tail.slice(opclass?.length ?? 0));
+    if (columnOrder) order[column] = columnOrder;
+  }
+
+  const index: DdlIndex = {
+    name: indexName?.name ?? `${table.name}_${columns.join("_")}_idx`,
+    ...(table.schema !== undefined && { schema: table.schema }),
+    table: table.name,
+    columns,
+    unique,
+    expressions,
+    ...(method !== undefined && { method }),
+    ...(Object.keys(opclasses).length > 0 && { opclasses }),
+    ...(Object.keys(order).length > 0 && { order }),
+  };
+
+  cursor.until(new Set(["INCLUDE", "WHERE"]));
+  if (cursor.acceptWords("INCLUDE")) {
+    index.include = splitTopLevel(cursor.group() ?? []).flatMap((part) => {
+      const column = plainColumn(part);
+      return column === undefined ? [] : [column];
+    });
+    cursor.until(new Set(["WHERE"]));
+  }
+  if (cursor.acceptWords("WHERE")) index.where = cursor.text(cursor.rest());
+  return index;
+}
+
+/**
+ * `ALTER TABLE [ONLY] t ADD [CONSTRAINT n] ...`, `ALTER [COLUMN] c SET DEFAULT ...` and
+ * `ALTER [COLUMN] c ADD GENERATED ... AS IDENTITY` (how pg_dump attaches constraints,
+ * serial defaults and identity columns); other actions are ignored.
+ */
+function parseAlterTable(cursor: Cursor): Alteration[] {
+  cursor.acceptWords("IF", "EXISTS");
+  cursor.acceptWords("ONLY");
+  const table = cursor.qualifiedName();
+  if (!table) return [];
+  const target = { schema: table.schema, table: table.name };
+
+  return splitTopLevel(cursor.rest()).flatMap((action): Alteration[] => {
+    const part = cursor.sub(action);
+    if (part.acceptWords("ALTER")) {
+      part.acceptWords("COLUMN");
+      const column = part.identifier();
+      if (column === undefined) return [];
+      if (part.acceptWords("SET", "DEFAULT")) {
+        return [{ ...target, column, default: part.text(part.rest()) }];
+      }
+      const identity = part.acceptWords("ADD", "GENERATED") ? parseIdentity(part) : undefined;
+      return identity ? [{ ...target, column, identity }] : [];
+    }
+    if (!part.acceptWords("ADD")) return [];
+    if (!TABLE_CONSTRAINT_WORDS.some((word) => part.isWord(word))) return [];
+    const constraint = parseTableConstraint(part);
+    return constraint ? [{ ...target, constraint }] : [];
+  });
+}
@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { bookstoreTables } from "../fixtures/bookstore-ir.ts";
+import { applyIdStrategy, usedIdStrategies } from "./id-strategy.ts";
+import type { TableDef } from "./types.ts";
+
+const eventTable: TableDef = {
+  name: "Event",
+  service: "audit",
+  tableName: "events",
+  primaryKey: { tableName: "events", columns: ["eventId"], isComposite: false },
+  fields: [
+    {
+      name: "eventId",
+      columnName: "event_id",
+      type: { kind: "text" },
+      nullable: false,
+      autoGenerateId: true,
+      createdAt: false,
+      updatedAt: false,
+    },
+    {
+      name: "traceId",
+      columnName: "trace_id",
+      type: { kind: "uuid", encoding: "canonical" },
+      uuid: { encoding: "canonical", autoGenerate: true },
+      nullable: false,
+      createdAt: false,
+      updatedAt: false,
+    },
+    {
+      name: "sessionId",
+      columnName: "session_id",
+      type: { kind: "text" },
+      nullable: false,
+      autoGenerateId: true,
+      idStrategy: "cuid2",
+      createdAt: false,
+      updatedAt: false,
+    },
+  ],
+  foreignKeys: [],
+  isJunction: false,
+  indexes: [],
+  uniqueConstraints: [],
+};
+
+describe("applyIdStrategy", () => {
+  it("sets the strategy on generated text ids without an @id", () => {
+    const [events] = applyIdStrategy([eventTable], "ulid");
+    assert.equal(events.fields[0].idStrategy, "ulid");
+    assert.equal(events.fields[2].idStrategy, "cuid2");
+  });
+
+  it("only switches UUID columns to UUID-producing strategies", () => {
+    assert.equal(applyIdStrategy([eventTable], "ulid")[0].fields[1].idStrategy, undefined);
+    assert.equal(applyIdStrategy([eventTable], "uuidv7")[0].fields[1].idStrategy, "uuidv7");
+  });
+
+  it("does not modify the input", () => {
+    applyIdStrategy([eventTable], "nanoid");
+    assert.equal(eventTable.fields[0].idStrategy, undefined);
+  });
+});
+
+describe("usedIdStrategies", () => {
+  it("needs base36 for base36 uuid columns", () => {
+    assert.deepEqual([...usedIdStrategies(bookstoreTables)], ["base36"]);
+  });
+
+  it("collects the strategies of generated ids", () => {
+    assert.deepEqual([...usedIdStrategies([eventTable])].sort(), ["base36", "cuid2"]);
+    const ulid = applyIdStrategy([eventTable], "ulid");
+    assert.deepEqual([...usedIdStrategies(ulid)].sort(), ["cuid2", "ulid"]);
+  });
+});
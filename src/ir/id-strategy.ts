@@ -0,0 +1,42 @@
+import type { FieldDef, IdStrategy, TableDef } from "./types.js";
+
+/** Strategies whose ids are UUIDs, so they can fill `@uuid` columns */
+export const UUID_ID_STRATEGIES: ReadonlySet<IdStrategy> = new Set(["base36", "uuidv7"]);
+
+/**
+ * Gives every generated id column without an explicit `@id` the `strategy` of
+ * the `id-strategy` option. UUID columns keep a random UUID unless `strategy`
+ * produces UUIDs.
+ *
+ * Returns copies; the input IR is not modified.
+ */
+export function applyIdStrategy(tables: TableDef[], strategy: IdStrategy): TableDef[] {
+  return tables.map((table) => ({
+    ...table,
+    fields: table.fields.map((field) => {
+      if (field.idStrategy || !isGenerated(field)) return field;
+      if (field.uuid && !UUID_ID_STRATEGIES.has(strategy)) return field;
+      return { ...field, idStrategy: strategy };
+    }),
+  }));
+}
+
+/**
+ * Id helpers types.ts has to emit for `tables`. `base36` is included whenever
+ * the short-uuid translator is needed: for base36 UUID columns and for base36
+ * ids in text columns.
+ */
+export function usedIdStrategies(tables: TableDef[]): Set<IdStrategy> {
+  const used = new Set<IdStrategy>();
+  for (const field of tables.flatMap((t) => t.fields)) {
+    if (field.type.kind === "uuid" && field.type.encoding === "base36") used.add("base36");
+    if (!isGenerated(field)) continue;
+    const strategy = field.idStrategy ?? "base36";
+    if (strategy !== "base36" || !field.uuid) used.add(strategy);
+  }
+  return used;
+}
+
+function isGenerated(field: FieldDef): boolean {
+  return !!field.uuid?.autoGenerate || !!field.autoGenerateId;
+}
@@ -0,0 +1,289 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import Database from "better-sqlite3";
+import { bookstoreEnums, bookstoreTables } from "../fixtures/bookstore-ir.ts";
+import { resolveDialect } from "../generators/dialect.ts";
+import { generateMigration } from "../generators/migration-generator.ts";
+import { parseDdl } from "./ddl-parser.ts";
+import { buildIntrospectedIR, readSqliteDdl } from "./introspect-builder.ts";
+import type { TableDef } from "./types.ts";
+
+function introspectPg(sql: string, service = "bookstore") {
+  return buildIntrospectedIR(parseDdl(sql), { dialect: "pg", service });
+}
+
+function table(tables: TableDef[], name: string): TableDef {
+  const found = tables.find((t) => t.name === name);
+  assert.ok(found, name);
+  return found;
+}
+
+describe("introspection (pg migration)", () => {
+  const sql = generateMigration(bookstoreTables, bookstoreEnums, resolveDialect("pg"));
+  const { tables, enums, warnings } = introspectPg(sql);
+
+  it("recovers entity names, table names and field names", () => {
+    assert.deepEqual(
+      tables.map((t) => [t.name, t.tableName]),
+      bookstoreTables.map((t) => [t.name, t.tableName]),
+    );
+    assert.deepEqual(
+      table(tables, "Book").fields.map((f) => f.name),
+      table(bookstoreTables, "Book").fields.map((f) => f.name),
+    );
+    assert.deepEqual(warnings, []);
+  });
+
+  it("recovers enums under the names buildIR derives", () => {
+    assert.deepEqual(enums, [
+      {
+        name: "bookFormatEnum",
+        sqlName: "book_format",
+        values: ["hardcover", "paperback", "ebook", "audiobook"],
+      },
+    ]);
+    assert.deepEqual(table(tables, "Edition").fields.find((f) => f.name === "format")?.type, {
+      kind: "enum",
+      enumName: "bookFormatEnum",
+      values: ["hardcover", "paperback", "ebook", "audiobook"],
+    });
+  });
+
+  it("recovers keys, references, junctions and timestamps", () => {
+    const bookGenre = table(tables, "BookGenre");
+    assert.equal(bookGenre.isJunction, true);
+    assert.deepEqual(bookGenre.primaryKey.columns, ["bookId", "genreId"]);
+    assert.deepEqual(bookGenre.fields[0].references, { tableName: "Book", fieldName: "bookId" });
+
+    const author = table(tables, "Author");
+    assert.equal(author.isJunction, false);
+    assert.deepEqual(author.fields[0].uuid, { encoding: "canonical", autoGenerate: false });
+    assert.equal(author.fields.find((f) => f.name === "createdAt")?.createdAt, true);
+    assert.equal(author.fields.find((f) => f.name === "bio")?.nullable, true);
+  });
+
+  it("recovers unique, range checks and indexes", () => {
+    const book = table(tables, "Book");
+    assert.deepEqual(book.fields.find((f) => f.name === "isbn")?.constraints, { unique: true });
+    assert.deepEqual(book.indexes, table(bookstoreTables, "Book").indexes);
+    assert.deepEqual(table(tables, "Review").fields.find((f) => f.name === "rating")?.constraints, {
+      minValue: 1,
+      maxValue: 5,
+    });
+    assert.deepEqual(table(tables, "Edition").indexes, [
+      { name: "edition_book_language_uq", columns: ["bookId", "language"], unique: true },
+    ]);
+  });
+});
+
+describe("introspection (pg_dump)", () => {
+  const { tables, warnings } = introspectPg(
+    `
+CREATE TYPE public.order_status AS ENUM ('pending', 'shipped');
+CREATE TABLE public.customers (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    email character varying(320) NOT NULL,
+    active boolean DEFAULT true NOT NULL,
+    balance numeric(10,2) DEFAULT 0 NOT NULL,
+    tags text[],
+    profile public.vector(3),
+    search_vector tsvector GENERATED ALWAYS AS ((setweight(to_tsvector('english'::regconfig, COALESCE((email)::text, ''::text)), 'B'::"char") || setweight(to_tsvector('english'::regconfig, COALESCE(tags[1], ''::text)), 'D'::"char"))) STORED,
+    CONSTRAINT customers_email_check CHECK ((email ~~ '%@%'::text))
+);
+CREATE TABLE billing.orders (
+    id bigint NOT NULL,
+    customer_id uuid,
+    status public.order_status DEFAULT 'pending'::public.order_status NOT NULL,
+    region text,
+    code text,
+    placed_at timestamp without time zone DEFAULT now(),
+    CONSTRAINT orders_sane CHECK ((region IS NOT NULL OR code IS NOT NULL))
+);
+CREATE TABLE billing.order_lines (
+    order_id bigint NOT NULL,
+    line integer NOT NULL,
+    region text NOT NULL,
+    code text NOT NULL
+);
+ALTER TABLE ONLY billing.orders ALTER COLUMN id SET DEFAULT nextval('billing.orders_id_seq'::regclass);
+ALTER TABLE ONLY public.customers ADD CONSTRAINT customers_pkey PRIMARY KEY (id);
+ALTER TABLE ONLY billing.orders ADD CONSTRAINT orders_pkey PRIMARY KEY (id);
+ALTER TABLE ONLY billing.orders ADD CONSTRAINT orders_region_code_key UNIQUE (region, code);
+ALTER TABLE ONLY billing.order_lines ADD CONSTRAINT order_lines_pkey PRIMARY KEY (order_id, line);
+ALTER TABLE ONLY billing.orders
+    ADD CONSTRAINT orders_customer_id_fkey FOREIGN KEY (customer_id) REFERENCES public.customers(id) ON DELETE SET NULL;
+ALTER TABLE ONLY billing.order_lines
+    ADD CONSTRAINT order_lines_order_fkey FOREIGN KEY (region, code) REFERENCES billing.orders(region, code) ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE ONLY billing.order_lines
+    ADD CONSTRAINT order_lines_order_id_fkey FOREIGN KEY (order_id) REFERENCES billing.orders(id) ON DELETE CASCADE;
+CREATE INDEX orders_status_idx ON billing.orders USING btree (status) WHERE (status = 'pending'::public.order_status);
+CREATE INDEX orders_customer_idx ON billing.orders USING btree (customer_id, placed_at);
+CREATE INDEX customers_profile_idx ON public.customers USING hnsw (profile public.vector_l2_ops);
+CREATE INDEX customers_search_idx ON public.customers USING gin (search_vector);
+CREATE INDEX customers_email_trgm_idx ON public.customers USING gin (email public.gin_trgm_ops);
+`,
+    "shop",
+  );
+  const customer = table(tables, "Customer");
+  const order = table(tables, "Order");
+  const orderLine = table(tables, "OrderLine");
+
+  it("uses a non-default schema as the service", () => {
+    assert.equal(customer.service, "shop");
+    assert.equal(order.service, "billing");
+  });
+
+  it("maps pg types and literal defaults", () => {
+    assert.deepEqual(
+      customer.fields.map((f) => [f.name, f.type.kind, f.defaultValue]),
+      [
+        ["id", "uuid", undefined],
+        ["email", "varchar", undefined],
+        ["active", "boolean", true],
+        ["balance", "decimal", 0],
+        ["tags", "array", undefined],
+        ["profile", "vector", undefined],
+      ],
+    );
+    assert.deepEqual(customer.fields[0].uuid, { encoding: "canonical", autoGenerate: true });
+    assert.deepEqual(customer.fields[3].type, {
+      kind: "decimal",
+      precision: 10,
+      scale: 2,
+      mode: "string",
+    });
+    assert.deepEqual(customer.fields[4].type, { kind: "array", element: { kind: "text" } });
+    assert.deepEqual(customer.fields[5].type, { kind: "vector", dimensions: 3, distance: "l2" });
+    assert.deepEqual(
+      customer.fields.filter((f) => f.searchWeight).map((f) => [f.name, f.searchWeight]),
+      [["email", "B"]],
+    );
+    assert.deepEqual(customer.indexes, [
+      { name: "customers_profile_idx", columns: ["profile"], unique: false, using: "hnsw" },
+    ]);
+    assert.equal(order.fields.find((f) => f.name === "status")?.defaultValue, "pending");
+    assert.equal(order.fields[0].defaultValue, undefined);
+    assert.equal(order.fields[0].identity, "byDefault");
+  });
+
+  it("keeps single-column checks and composite keys", () => {
+    assert.equal(customer.fields[1].constraints?.check, "email ~~ '%@%'::text");
+    assert.equal(
+      order.fields.find((f) => f.name === "region")?.constraints?.check,
+      "region IS NOT NULL OR code IS NOT NULL",
+    );
+    assert.deepEqual(order.uniqueConstraints, [
+      { name: "orders_region_code_key", columns: ["region", "code"] },
+    ]);
+    assert.deepEqual(orderLine.foreignKeys, [
+      {
+        name: "order_lines_order_fkey",
+        columns: ["region", "code"],
+        foreignTable: "Order",
+        foreignColumns: ["region", "code"],
+        onDelete: "cascade",
+        onUpdate: "cascade",
+      },
+    ]);
+    assert.deepEqual(orderLine.fields[0].references, {
+      tableName: "Order",
+      fieldName: "id",
+      onDelete: "cascade",
+    });
+    assert.equal(orderLine.isJunction, false);
+  });
+
+  it("detects a junction keyed by a composite foreign key", () => {
+    const { tables: linked } = introspectPg(`
+CREATE TABLE public.lines (order_id text NOT NULL, line_no integer NOT NULL);
+CREATE TABLE public.tags (id text NOT NULL);
+CREATE TABLE public.line_tags (order_id text NOT NULL, line_no integer NOT NULL, tag_id text NOT NULL);
+ALTER TABLE ONLY public.lines ADD CONSTRAINT lines_pkey PRIMARY KEY (order_id, line_no);
+ALTER TABLE ONLY public.tags ADD CONSTRAINT tags_pkey PRIMARY KEY (id);
+ALTER TABLE ONLY public.line_tags ADD CONSTRAINT line_tags_pkey PRIMARY KEY (order_id, line_no, tag_id);
+ALTER TABLE ONLY public.line_tags
+    ADD CONSTRAINT line_tags_line_fkey FOREIGN KEY (order_id, line_no) REFERENCES public.lines(order_id, line_no);
+ALTER TABLE ONLY public.line_tags
+    ADD CONSTRAINT line_tags_tag_id_fkey FOREIGN KEY (tag_id) REFERENCES public.tags(id);
+`);
+    assert.equal(table(linked, "LineTag").isJunction, true);
+  });
+
+  it("keeps partial indexes with their predicate", () => {
+    assert.deepEqual(order.indexes, [
+      {
+        name: "orders_status_idx",
+        columns: ["status"],
+        unique: false,
+        where: "(status = 'pending'::public.order_status)",
+      },
+      { name: "orders_customer_idx", columns: ["customerId", "placedAt"], unique: false },
+    ]);
+  });
+
+  it("warns about what TypeSpec cannot express", () => {
+    assert.deepEqual(warnings, [
+      "customers: operator class index customers_email_trgm_idx skipped",
+      "orders.placed_at: default now() cannot be expressed in TypeSpec; dropped",
+    ]);
+  });
+
+  it("keeps every referential action but the default", () => {
+    assert.equal(
+      order.fields.find((f) => f.name === "customerId")?.references?.onDelete,
+      "set null",
+    );
+  });
+});
+
+describe("introspection (SQLite)", () => {
+  const db = new Database(":memory:");
+  db.exec(
+    generateMigration(bookstoreTables, bookstoreEnums, resolveDialect("sqlite")).replaceAll(
+      "--> statement-breakpoint",
+      "",
+    ),
+  );
+  db.exec(
+    "CREATE TABLE notes (id INTEGER PRIMARY KEY AUTOINCREMENT, body BLOB, pinned BOOLEAN DEFAULT 0, area GEOMETRY)",
+  );
+  db.exec("CREATE VIRTUAL TABLE notes_fts USING fts5(body, content='notes')");
+  const ddl = readSqliteDdl(db);
+  db.close();
+  const { tables, warnings } = buildIntrospectedIR(parseDdl(ddl), {
+    dialect: "sqlite",
+    service: "bookstore",
+  });
+
+  it("reads tables and indexes from sqlite_master, without virtual tables", () => {
+    assert.deepEqual(
+      tables.map((t) => t.tableName),
+      [...bookstoreTables.map((t) => t.tableName), "notes"],
+    );
+    assert.deepEqual(table(tables, "Book").indexes, table(bookstoreTables, "Book").indexes);
+    assert.equal(table(tables, "BookGenre").isJunction, true);
+  });
+
+  it("reads integer *_at and *_date columns as timestamps", () => {
+    const review = table(tables, "Review");
+    assert.equal(review.fields.find((f) => f.name === "reviewDate")?.type.kind, "timestamp");
+    assert.equal(review.fields.find((f) => f.name === "updatedAt")?.updatedAt, true);
+    assert.equal(review.fields.find((f) => f.name === "rating")?.type.kind, "integer");
+  });
+
+  it("maps by type affinity", () => {
+    const notes = table(tables, "Note");
+    assert.deepEqual(
+      notes.fields.map((f) => [f.type.kind, f.defaultValue]),
+      [
+        ["integer", undefined],
+        ["bytes", undefined],
+        ["boolean", false],
+        ["text", undefined],
+      ],
+    );
+    assert.equal(notes.fields[0].nullable, false);
+    assert.equal(notes.fields[0].identity, "always");
+    assert.deepEqual(warnings, ["notes.area: GEOMETRY is mapped to string"]);
+  });
+});
@@ -0,0 +1,637 @@
+import { singularize, toCamelCase, toPascalCase, toSnakeCase } from "../generators/naming.js";
+import type { DdlCatalog, DdlColumn, DdlConstraint, DdlReference, DdlTable } from "./ddl-parser.js";
+import { tokenize } from "./ddl-parser.js";
+import type {
+  EnumDef,
+  FieldDef,
+  FieldType,
+  ForeignKeyDef,
+  IndexColumnOrder,
+  IndexDef,
+  IndexMethod,
+  ReferentialAction,
+  SearchWeight,
+  TableDef,
+  UniqueConstraintDef,
+  VectorDistance,
+} from "./types.js";
+
+export interface IntrospectOptions {
+  /** Dialect the DDL was written for; decides how declared types map to IR types */
+  dialect: "pg" | "sqlite";
+  /** `@table` service for tables in the default schema */
+  service: string;
+}
+
+/**
+ * Minimal slice of a better-sqlite3 `Database`, so this module does not import
+ * the native driver.
+ */
+export interface SqliteDatabase {
+  prepare(sql: string): { all(): unknown[] };
+}
+
+/** Tables that belong to tooling rather than the application schema */
+const IGNORED_TABLES = new Set(["__drizzle_migrations", "sqlite_sequence"]);
+
+/** Referential actions the IR carries; "no action" (the default) is left unset */
+const REFERENTIAL_ACTIONS = new Set<string>(["cascade", "restrict", "set null", "set default"]);
+
+/** Defaults that stamp the current time; implied by `@createdAt` / `@updatedAt` */
+const NOW_DEFAULT = /^(now\(\)|current_timestamp(\(\))?|unixepoch\(\)|localtimestamp)$/i;
+
+/** Index access methods `@indexDef` can express */
+const INDEX_METHODS = new Set(["btree", "hash", "gin", "gist", "brin"]);
+
+/** pgvector operator classes and the distance each one indexes */
+const VECTOR_OPERATOR_CLASSES = new Map<string, VectorDistance>([
+  ["vector_cosine_ops", "cosine"],
+  ["vector_l2_ops", "l2"],
+]);
+
+/**
+ * One `setweight(to_tsvector(...))` term of a generated search column, as
+ * written by this emitter or printed by pg_dump (`COALESCE((title)::text, ''::text)`)
+ */
+const SEARCH_TERM =
+  /setweight\(to_tsvector\([^,]+,\s*coalesce\(\(?"?([^"(),:]+)"?\)?(?:::[\w ]+)?,[^)]*\)\),\s*'([A-D])'/gi;
+
+const UUID_DEFAULT = /^(gen_random_uuid|uuid_generate_v4)\(\)$/i;
+
+/** Postgres serial pseudo-types, read back as `@identity("byDefault")` */
+const SERIAL_TYPE = /^(small|big)?serial[248]?$/i;
+
+/** Range checks `@minValue` / `@maxValue` produce: `col >= 1 AND col <= 5` */
+const RANGE_CHECK = /^(\w+) >= (-?\d+)(?: AND \1 <= (-?\d+))?$|^(\w+) <= (-?\d+)$/i;
+
+/**
+ * Reads the `CREATE TABLE` / `CREATE INDEX` statements of a SQLite database
+ * from `sqlite_master`, tables first, as one script for `parseDdl`.
+ */
+export function readSqliteDdl(db: SqliteDatabase): string {
+  const rows = db
+    .prepare(
+      "SELECT sql FROM sqlite_master WHERE type IN ('table', 'index') AND sql IS NOT NULL AND name NOT LIKE 'sqlite_%' AND name NOT IN (SELECT name FROM pragma_table_list WHERE type IN ('virtual', 'shadow')) ORDER BY type = 'index', rowid",
+    )
+    .all() as { sql: string }[];
+  return rows.map((row) => `${row.sql};`).join("\n");
+}
+
+/**
+ * Introspection front-end: turns a parsed schema dump into the same IR the
+ * `@table` front-end builds, so it can be printed back as TypeSpec.
+ *
+ * - Table `book_genres` becomes entity `BookGenre`; column `author_id` becomes
+ *   field `authorId`.
+ * - A table in a non-default Postgres schema gets that schema as its service.
+ * - Single-column primary keys, unique constraints and foreign keys land on
+ *   the field; composite ones become `uniqueConstraints` / `foreignKeys`.
+ * - A composite primary key whose columns all reference other tables, with
+ *   no columns besides timestamps, marks a junction table.
+ * - `col >= N AND col <= M` checks become `minValue` / `maxValue`.
+ * - Identity and serial primary keys, and SQLite AUTOINCREMENT keys, become
+ *   `@identity` ("byDefault" for serial columns).
+ *
+ * - Partial, expression, sorted, covering and hash/GIN/GiST/BRIN indexes keep
+ *   those options on `@indexDef`.
+ *
+ * - ON DELETE / ON UPDATE actions other than the default NO ACTION carry over
+ *   to `@references` and `@foreignKeyDef`.
+ *
+ * Anything the TypeSpec vocabulary cannot express (operator class indexes
+ * and other index methods, function defaults, unknown types) is dropped or
+ * approximated, with a line in `warnings`.
+ */
+export function buildIntrospectedIR(
+  catalog: DdlCatalog,
+  options: IntrospectOptions,
+): { tables: TableDef[]; enums: EnumDef[]; warnings: string[] } {
+  const warnings: string[] = [];
+  const sourceTables = catalog.tables.filter((t) => !IGNORED_TABLES.has(t.name));
+
+  const enums: EnumDef[] = catalog.enums.map((e) => ({
+    name: `${toCamelCase(e.name)}Enum`,
+    sqlName: e.name,
+    values: e.values,
+  }));
+  const enumsBySqlName = new Map(enums.map((e) => [e.sqlName, e]));
+
+  const entityNames = new Map<DdlTable, string>();
+  const taken = new Set<string>();
+  for (const table of sourceTables) {
+    const base = toPascalCase(singularize(table.name));
+    let name = base;
+    for (let n = 2; taken.has(name); n++) name = `${base}${n}`;
+    if (name !== base) {
+      warnings.push(`${table.name}: entity name ${base} is taken; using ${name}`);
+    }
+    taken.add(name);
+    entityNames.set(table, name);
+  }
+
+  const findTable = (ref: { schema?: string; table: string }) =>
+    sourceTables.find(
+      (t) => t.name === ref.table && (ref.schema === undefined || t.schema === ref.schema),
+    );
+  const fieldName = (column: string) => toCamelCase(column);
+
+  const tables = sourceTables.map((table): TableDef => {
+    const label = table.name;
+    const entity = entityNames.get(table) as string;
+    const constraints = [...table.constraints, ...columnConstraints(table)];
+
+    const pkColumns =
+      constraints.find((c): c is Extract<DdlConstraint, { kind: "primaryKey" }> => {
+        return c.kind === "primaryKey";
+      })?.columns ?? [];
+    if (pkColumns.length === 0) warnings.push(`${label}: no primary key; add @pk to a field`);
+
+    // Generated tsvector columns come back as `@searchable` on the columns they index
+    const searchColumns = table.columns.filter((c) => c.type === "tsvector");
+    const columns = table.columns.filter((c) => c.type !== "tsvector");
+    const fields = columns.map((column) => {
+      const field = buildField(column, options, enumsBySqlName, warnings, label);
+      if (toSnakeCase(field.name) !== column.name) {
+        warnings.push(
+          `${label}.${column.name}: field ${field.name} maps back to column ${toSnakeCase(field.name)}`,
+        );
+      }
+      return field;
+    });
+    const byColumn = new Map(columns.map((c, i) => [c.name, fields[i]]));
+    for (const column of searchColumns) {
+      applySearchColumn(column, byColumn, warnings, label);
+    }
+    const fieldsOf = (columns: string[]) =>
+      columns.map((c) => byColumn.get(c)?.name ?? fieldName(c));
+
+    const uniqueConstraints: UniqueConstraintDef[] = [];
+    const foreignKeys: ForeignKeyDef[] = [];
+    const checks = new Map<FieldDef, string[]>();
+
+    for (const constraint of constraints) {
+      if (constraint.kind === "unique") {
+        if (constraint.columns.length === 1) {
+          const field = byColumn.get(constraint.columns[0]);
+          if (field) field.constraints = { ...field.constraints, unique: true };
+        } else {
+          uniqueConstraints.push({
+            name: constraint.name ?? `${table.name}_${constraint.columns.join("_")}_unique`,
+            columns: fieldsOf(constraint.columns),
+          });
+        }
+      } else if (constraint.kind === "foreignKey") {
+        const target = findTable(constraint.references);
+        if (!target) {
+          warnings.push(
+            `${label}: foreign key to unknown table ${constraint.references.table} skipped`,
+          );
+          continue;
+        }
+        const targetColumns = referencedColumns(constraint.references, target);
+        const targetFields = targetColumns.map(fieldName);
+        const targetEntity = entityNames.get(target) as string;
+        const field = byColumn.get(constraint.columns[0]);
+
+        const actions: { onDelete?: ReferentialAction; onUpdate?: ReferentialAction } = {};
+        for (const key of ["onDelete", "onUpdate"] as const) {
+          const action = constraint.references[key];
+          if (action && REFERENTIAL_ACTIONS.has(action)) {
+            actions[key] = action as ReferentialAction;
+          }
+        }
+
+        if (constraint.columns.length === 1 && targetColumns.length === 1 && field) {
+          field.references = { tableName: targetEntity, fieldName: targetFields[0], ...actions };
+        } else {
+          foreignKeys.push({
+            name: constraint.name ?? `${table.name}_${constraint.columns.join("_")}_fk`,
+            columns: fieldsOf(constraint.columns),
+            foreignTable: targetEntity,
+            foreignColumns: targetFields,
+            ...actions,
+          });
+        }
+      } else if (constraint.kind === "check") {
+        const expression = unwrap(constraint.expression);
+        const columns = tokenize(expression)
+          .filter((t) => (t.kind === "word" || t.kind === "quoted") && byColumn.has(t.value))
+          .map((t) => t.value);
+        const field = byColumn.get(columns[0]);
+        if (!field) {
+          warnings.push(`${label}: check (${expression}) references no column; skipped`);
+          continue;
+        }
+        checks.set(field, [...(checks.get(field) ?? []), expression]);
+      }
+    }
+
+    for (const [field, expressions] of checks) {
+      applyChecks(field, expressions);
+    }
+
+    const indexes: IndexDef[] = [];
+    for (const index of catalog.indexes) {
+      if (findTable(index) !== table) continue;
+      if (searchColumns.some((c) => index.columns.includes(c.name))) continue;
+      if (index.method === "hnsw" || index.method === "ivfflat") {
+        const field = byColumn.get(index.columns[0]);
+        const distance = VECTOR_OPERATOR_CLASSES.get(index.opclasses?.[index.columns[0]] ?? "");
+        if (field?.type.kind === "vector" && distance && index.columns.length === 1) {
+          field.type.distance = distance;
+          indexes.push({
+            name: index.name,
+            columns: [field.name],
+            unique: false,
+            using: index.method,
+          });
+        } else {
+          warnings.push(`${label}: ${index.method} index ${index.name} skipped`);
+        }
+        continue;
+      }
+      if (index.opclasses) {
+        warnings.push(`${label}: operator class index ${index.name} skipped`);
+        continue;
+      }
+      if (index.method !== undefined && !INDEX_METHODS.has(index.method)) {
+        warnings.push(`${label}: ${index.method} index ${index.name} skipped`);
+        continue;
+      }
+      const indexDef: IndexDef = {
+        name: index.name,
+        columns: fieldsOf(index.columns),
+        unique: index.unique,
+      };
+      if (index.method !== undefined && index.method !== "btree") {
+        indexDef.method = index.method as IndexMethod;
+      }
+      if (index.order) {
+        indexDef.order = Object.fromEntries(
+          Object.entries(index.order).map(([c, order]): [string, IndexColumnOrder] => [
+            fieldsOf([c])[0],
+            order,
+          ]),
+        );
+      }
+      if (index.expressions.length > 0) indexDef.expressions = index.expressions;
+      if (index.where !== undefined) indexDef.where = index.where;
+      if (index.include?.length) indexDef.include = fieldsOf(index.include);
+      indexes.push(indexDef);
+    }
+
+    const pkFields = fieldsOf(pkColumns);
+    for (const field of fields) {
+      if (pkFields.includes(field.name)) field.nullable = false;
+      if (field.identity && (pkFields.length !== 1 || pkFields[0] !== field.name)) {
+        warnings.push(
+          `${label}.${field.columnName}: @identity needs a single-column primary key; sequence dropped`,
+        );
+        delete field.identity;
+      }
+    }
+    const compositeColumns = new Set(foreignKeys.flatMap((fk) => fk.columns));
+    const isJunction =
+      pkFields.length > 1 &&
+      fields.filter((f) => f.references).length + foreignKeys.length === 2 &&
+      fields.every((f) =>
+        pkFields.includes(f.name)
+          ? f.references !== undefined || compositeColumns.has(f.name)
+          : f.createdAt || f.updatedAt,
+      );
+
+    return {
+      name: entity,
+      service: table.schema && table.schema !== "public" ? table.schema : options.service,
+      tableName: table.name,
+      primaryKey: { tableName: table.name, columns: pkFields, isComposite: pkFields.length > 1 },
+      fields,
+      foreignKeys,
+      isJunction,
+      indexes,
+      uniqueConstraints,
+    };
+  });
+
+  const used = new Set(
+    tables.flatMap((t) =>
+      t.fields.flatMap((f) => {
+        const type = f.type.kind === "array" ? f.type.element : f.type;
+        return type.kind === "enum" ? [type.enumName] : [];
+      }),
+    ),
+  );
+  for (const enumDef of enums) {
+    if (!used.has(enumDef.name)) {
+      warnings.push(`enum ${enumDef.sqlName} is not used by any column; TypeSpec will not emit it`);
+    }
+  }
+
+  return { tables, enums, warnings };
+}
+
+/** Column-level PRIMARY KEY / UNIQUE / REFERENCES / CHECK as table constraints */
+function columnConstraints(table: DdlTable): DdlConstraint[] {
+  return table.columns.flatMap((column): DdlConstraint[] => {
+    const columns = [column.name];
+    return [
+      ...(column.primaryKey ? [{ kind: "primaryKey" as const, columns }] : []),
+      ...(column.unique ? [{ kind: "unique" as const, columns }] : []),
+      ...(column.references
+        ? [{ kind: "foreignKey" as const, columns, references: column.references }]
+        : []),
+      ...(column.check ? [{ kind: "check" as const, expression: column.check }] : []),
+    ];
+  });
+}
+
+/** Marks the columns a generated tsvector column is built from as `@searchable` */
+function applySearchColumn(
+  column: DdlColumn,
+  byColumn: Map<string, FieldDef>,
+  warnings: string[],
+  table: string,
+): void {
+  const terms = [...(column.generated ?? "").matchAll(SEARCH_TERM)];
+  for (const [, name, weight] of terms) {
+    const field = byColumn.get(name);
+    if (field) field.searchWeight = weight.toUpperCase() as SearchWeight;
+  }
+  if (terms.length === 0) {
+    warnings.push(
+      `${table}.${column.name}: tsvector column skipped; mark the fields it indexes @searchable`,
+    );
+  }
+}
+
+/** Target columns of a reference; an implicit reference targets the primary key */
+function referencedColumns(reference: DdlReference, target: DdlTable): string[] {
+  if (reference.columns.length > 0) return reference.columns;
+  const pk = target.constraints.find((c) => c.kind === "primaryKey");
+  if (pk && pk.kind === "primaryKey") return pk.columns;
+  return target.columns.filter((c) => c.primaryKey).map((c) => c.name);
+}
+
+function buildField(
+  column: DdlColumn,
+  options: IntrospectOptions,
+  enums: Map<string, EnumDef>,
+  warnings: string[],
+  table: string,
+): FieldDef {
+  const label = `${table}.${column.name}`;
+  const type =
+    options.dialect === "pg"
+      ? pgFieldType(column.type, enums, warnings, label)
+      : sqliteFieldType(column, warnings, label);
+  const isTimestamp = type.kind === "timestamp";
+
+  const field: FieldDef = {
+    name: toCamelCase(column.name),
+    columnName: column.name,
+    type,
+    nullable: !column.notNull,
+    createdAt: isTimestamp && column.name === "created_at",
+    updatedAt: isTimestamp && column.name === "updated_at",
+  };
+
+  if (type.kind === "uuid") {
+    field.uuid = { encoding: type.encoding, autoGenerate: false };
+  }
+
+  if (column.identity) {
+    field.identity = column.identity;
+  } else if (options.dialect === "pg" && SERIAL_TYPE.test(column.type)) {
+    field.identity = "byDefault";
+  }
+
+  if (column.default !== undefined) {
+    const expression = stripCasts(unwrap(column.default));
+    if (UUID_DEFAULT.test(expression) && field.uuid) {
+      field.uuid.autoGenerate = true;
+    } else if (NOW_DEFAULT.test(expression) && (field.createdAt || field.updatedAt)) {
+      // Implied by the decorator
+    } else if (/^nextval\(/i.test(expression)) {
+      // Serial column: numbered by its sequence, but explicit values are accepted
+      field.identity = "byDefault";
+    } else {
+      const value = literalValue(expression);
+      if (value === undefined || (value !== null && !fitsType(value, type))) {
+        warnings.push(
+          `${label}: default ${column.default} cannot be expressed in TypeSpec; dropped`,
+        );
+      } else if (value !== null) {
+        field.defaultValue = type.kind === "boolean" ? Boolean(value) : value;
+      }
+    }
+  }
+
+  return field;
+}
+
+function pgFieldType(
+  declared: string,
+  enums: Map<string, EnumDef>,
+  warnings: string[],
+  label: string,
+): FieldType {
+  const type = declared.toLowerCase();
+  const approximate = (fieldType: FieldType, as: string): FieldType => {
+    warnings.push(`${label}: ${declared} is mapped to ${as}`);
+    return fieldType;
+  };
+
+  const enumDef = enums.get(declared.split(".").pop() as string);
+  if (enumDef) return { kind: "enum", enumName: enumDef.name, values: enumDef.values };
+
+  if (type.endsWith("[]")) {
+    const element = pgFieldType(declared.slice(0, -2), enums, warnings, label);
+    if (element.kind !== "jsonb" && element.kind !== "array" && element.kind !== "vector") {
+      return { kind: "array", element };
+    }
+    return approximate({ kind: "jsonb" }, "jsonb");
+  }
+
+  const vector = type.match(/^(?:\w+\.)?vector\((\d+)\)$/);
+  if (vector) return { kind: "vector", dimensions: Number(vector[1]), distance: "cosine" };
+
+  const length = type.match(/^(?:character varying|varchar|character|char|bpchar)\((\d+)\)$/);
+  if (length) return { kind: "varchar", length: Number(length[1]) };
+
+  const digits = type.match(/^(?:numeric|decimal)\((\d+)(?:,\s*(\d+))?\)$/);
+  if (digits) {
+    const decimal: FieldType = { kind: "decimal", precision: Number(digits[1]), mode: "string" };
+    if (digits[2] !== undefined) decimal.scale = Number(digits[2]);
+    return decimal;
+  }
+
+  const base = type.replace(/\(.*\)/, "");
+  switch (base) {
+    case "text":
+    case "citext":
+    case "character varying":
+    case "varchar":
+      return { kind: "text" };
+    case "smallint":
+    case "int2":
+    case "integer":
+    case "int":
+    case "int4":
+    case "smallserial":
+    case "serial":
+    case "serial4":
+      return { kind: "integer" };
+    case "bigint":
+    case "int8":
+    case "bigserial":
+    case "serial8":
+      return { kind: "bigint" };
+    case "real":
+    case "float4":
+      return { kind: "real" };
+    case "double precision":
+    case "float8":
+    case "float":
+      return { kind: "doublePrecision" };
+    case "numeric":
+    case "decimal":
+      return { kind: "decimal", mode: "string" };
+    case "boolean":
+    case "bool":
+      return { kind: "boolean" };
+    case "json":
+    case "jsonb":
+      return { kind: "jsonb" };
+    case "uuid":
+      return { kind: "uuid", encoding: "canonical" };
+    case "bytea":
+      return { kind: "bytes" };
+  }
+  if (/^timestamp(tz| with time zone)/.test(base)) return { kind: "timestamp" };
+  if (base.startsWith("timestamp")) return { kind: "localTimestamp" };
+  if (base === "date") return { kind: "date" };
+  if (/^time(tz| with time zone)/.test(base)) return approximate({ kind: "time" }, "plainTime");
+  if (base.startsWith("time")) return { kind: "time" };
+  if (base.startsWith("interval")) return { kind: "interval" };
+
+  return approximate({ kind: "text" }, "string");
+}
+
+/**
+ * SQLite column types follow its affinity rules. Timestamps are stored as
+ * integers, so integer columns named `*_at` or `*_date` read as timestamps.
+ */
+function sqliteFieldType(column: DdlColumn, warnings: string[], label: string): FieldType {
+  const type = column.type.toUpperCase();
+
+  const length = type.match(/^(?:VARCHAR|CHARACTER VARYING|NVARCHAR|CHAR)\((\d+)\)$/);
+  if (length) return { kind: "varchar", length: Number(length[1]) };
+
+  if (type.includes("INT")) {
+    if (/_(at|date)$/.test(column.name)) return { kind: "timestamp" };
+    return type.includes("BIGINT") ? { kind: "bigint" } : { kind: "integer" };
+  }
+  if (/CHAR|CLOB|TEXT/.test(type)) return { kind: "text" };
+  if (/REAL|FLOA|DOUB/.test(type)) return { kind: "real" };
+  if (/NUMERIC|DECIMAL/.test(type)) return { kind: "decimal", mode: "string" };
+  if (type.includes("BOOL")) return { kind: "boolean" };
+  if (type.includes("JSON")) return { kind: "jsonb" };
+  if (type.includes("BLOB")) return { kind: "bytes" };
+
+  warnings.push(`${label}: ${column.type || "untyped"} is mapped to string`);
+  return { kind: "text" };
+}
+
+/** Drops parentheses that wrap the whole expression: `((a > 0))` -> `a > 0` */
+function unwrap(expression: string): string {
+  let result = expression.trim();
+  while (result.startsWith("(") && result.endsWith(")") && wrapsWhole(result)) {
+    result = result.slice(1, -1).trim();
+  }
+  return result;
+}
+
+function wrapsWhole(expression: string): boolean {
+  let depth = 0;
+  for (let i = 0; i < expression.length; i++) {
+    if (expression[i] === "(") depth++;
+    if (expression[i] === ")" && --depth === 0 && i < expression.length - 1) return false;
+  }
+  return true;
+}
+
+/** Removes trailing Postgres casts: `'x'::character varying` -> `'x'` */
+function stripCasts(expression: string): string {
+  let result = expression;
+  let previous: string;
+  do {
+    previous = result;
+    result = unwrap(result.replace(/::[\w ."]+(\(\d+(,\s*\d+)?\))?(\[\])?$/, ""));
+  } while (result !== previous);
+  return result;
+}
+
+/** A string, number or boolean literal; null for NULL, undefined for anything else */
+function literalValue(expression: string): string | number | boolean | null | undefined {
+  const string = expression.match(/^'((?:[^']|'')*)'$/);
+  if (string) return string[1].replaceAll("''", "'");
+  if (/^-?\d+(\.\d+)?$/.test(expression)) return Number(expression);
+  if (/^(true|false)$/i.test(expression)) return expression.toLowerCase() === "true";
+  if (/^null$/i.test(expression)) return null;
+  return undefined;
+}
+
+/** Whether a literal default can be written for a field of this type (SQLite booleans are 0/1) */
+function fitsType(value: string | number | boolean, type: FieldType): boolean {
+  switch (type.kind) {
+    case "text":
+    case "varchar":
+      return typeof value === "string";
+    case "enum":
+      return typeof value === "string" && type.values.includes(value);
+    case "integer":
+    case "bigint":
+      return typeof value === "number" && Number.isInteger(value);
+    case "real":
+    case "doublePrecision":
+    case "decimal":
+      return typeof value === "number";
+    case "boolean":
+      return typeof value === "boolean" || value === 0 || value === 1;
+    default:
+      return false;
+  }
+}
+
+/** Turns a column's range check into minValue/maxValue and keeps the rest as `check` */
+function applyChecks(field: FieldDef, expressions: string[]): void {
+  const remaining: string[] = [];
+  const constraints = { ...field.constraints };
+
+  for (const expression of expressions) {
+    const normalized = unwrapTerms(expression.replaceAll('"', "").replaceAll("`", ""));
+    const range = normalized.match(RANGE_CHECK);
+    const alreadyRanged = constraints.minValue !== undefined || constraints.maxValue !== undefined;
+    if (range && !alreadyRanged && (range[1] ?? range[4]) === field.columnName) {
+      if (range[2] !== undefined) constraints.minValue = Number(range[2]);
+      if (range[3] !== undefined) constraints.maxValue = Number(range[3]);
+      if (range[5] !== undefined) constraints.maxValue = Number(range[5]);
+    } else {
+      remaining.push(expression);
+    }
+  }
+
+  if (remaining.length > 0) {
+    constraints.check =
+      remaining.length === 1 ? remaining[0] : remaining.map((e) => `(${e})`).join(" AND ");
+  }
+  field.constraints = constraints;
+}
+
+/** `(rating >= 1) AND (rating <= 5)` -> `rating >= 1 AND rating <= 5` */
+function unwrapTerms(expression: string): string {
+  return unwrap(expression)
+    .split(/\s+AND\s+/i)
+    .map((term) => unwrap(term))
+    .join(" AND ");
+}
@@ -0,0 +1,138 @@
+import type { Model, Scalar, Type, Union } from "@typespec/compiler";
+import { isArrayModelType, isRecordModelType } from "@typespec/compiler";
+import type { FieldType, JsonPropertyDef, JsonType, JsonTypeDef } from "./types.js";
+
+/** Standard numeric scalars; every other scalar reads back from JSON as a string */
+const NUMERIC_SCALARS = new Set([
+  "numeric",
+  "integer",
+  "float",
+  "int8",
+  "int16",
+  "int32",
+  "int64",
+  "uint8",
+  "uint16",
+  "uint32",
+  "uint64",
+  "safeint",
+  "float32",
+  "float64",
+  "decimal",
+  "decimal128",
+]);
+
+/**
+ * JSON column of a TypeSpec model, union or array of them. `unknown` and
+ * `Record<unknown>` say nothing about the value, so those columns stay untyped.
+ */
+export function jsonColumnType(type: Type, defs: Map<string, JsonTypeDef>): FieldType {
+  const shape = jsonTypeOf(type, defs);
+  const opaque =
+    shape.kind === "unknown" || (shape.kind === "record" && shape.value.kind === "unknown");
+  return opaque ? { kind: "jsonb" } : { kind: "jsonb", shape };
+}
+
+/**
+ * A union whose every variant is a string (a string scalar, a string-valued enum,
+ * or a string literal) is a constrained string, not a structured value — it maps to
+ * a text column. `MessageFlagValue` (system flag | keyword flag | free string) is the
+ * canonical case. A union with any non-string variant is stored as jsonb.
+ */
+export function isStringUnion(union: Union): boolean {
+  const variants = [...union.variants.values()];
+  if (variants.length === 0) return false;
+  return variants.every((variant) => isStringLike(variant.type));
+}
+
+function isStringLike(type: Type): boolean {
+  if (type.kind === "String") return true;
+  if (type.kind === "Scalar") return scalarIsString(type);
+  if (type.kind === "Enum") {
+    return [...type.members.values()].every(
+      (m) => m.value === undefined || typeof m.value === "string",
+    );
+  }
+  return false;
+}
+
+function scalarIsString(scalar: Scalar): boolean {
+  if (scalar.name === "string") return true;
+  return scalar.baseScalar ? scalarIsString(scalar.baseScalar) : false;
+}
+
+/**
+ * Resolves the TypeSpec type of a JSON column to its `JsonType`, adding every
+ * named model and union it reaches to `defs`. Names are global: the first
+ * model or union declared under a name wins. A model that refers to itself
+ * becomes a ref to its own definition.
+ */
+export function jsonTypeOf(type: Type, defs: Map<string, JsonTypeDef>): JsonType {
+  switch (type.kind) {
+    case "Scalar":
+      return jsonScalarType(type);
+    case "String":
+    case "Number":
+    case "Boolean":
+      return { kind: "literal", value: type.value };
+    case "Intrinsic":
+      return type.name === "null" ? { kind: "null" } : { kind: "unknown" };
+    case "Enum":
+      return union(
+        [...type.members.values()].map((m) => ({ kind: "literal", value: m.value ?? m.name })),
+      );
+    case "Tuple":
+      return { kind: "array", element: union(type.values.map((v) => jsonTypeOf(v, defs))) };
+    case "Model":
+      if (isArrayModelType(type)) {
+        return { kind: "array", element: jsonTypeOf(type.indexer.value, defs) };
+      }
+      if (isRecordModelType(type)) {
+        return { kind: "record", value: jsonTypeOf(type.indexer.value, defs) };
+      }
+      if (!type.name) return objectType(type, defs);
+      return named(type.name, defs, () => objectType(type, defs));
+    case "Union": {
+      const variants = () =>
+        union([...type.variants.values()].map((v) => jsonTypeOf(v.type, defs)));
+      return type.name ? named(type.name, defs, variants) : variants();
+    }
+    default:
+      return { kind: "unknown" };
+  }
+}
+
+function named(name: string, defs: Map<string, JsonTypeDef>, build: () => JsonType): JsonType {
+  if (!defs.has(name)) {
+    // Registered before building so recursive references resolve to the ref
+    const def: JsonTypeDef = { name, type: { kind: "unknown" } };
+    defs.set(name, def);
+    def.type = build();
+  }
+  return { kind: "ref", name };
+}
+
+/** Properties of the model and the models it extends, base properties first */
+function objectType(model: Model, defs: Map<string, JsonTypeDef>): JsonType {
+  const properties: JsonPropertyDef[] = [];
+  for (let current: Model | undefined = model; current; current = current.baseModel) {
+    const own = [...current.properties.values()].map((prop) => ({
+      name: prop.name,
+      type: jsonTypeOf(prop.type, defs),
+      optional: prop.optional,
+    }));
+    properties.unshift(...own);
+  }
+  return { kind: "object", properties };
+}
+
+function jsonScalarType(scalar: Scalar): JsonType {
+  if (scalar.name === "boolean") return { kind: "boolean" };
+  if (NUMERIC_SCALARS.has(scalar.name)) return { kind: "number" };
+  if (scalar.baseScalar) return jsonScalarType(scalar.baseScalar);
+  return { kind: "string" };
+}
+
+function union(variants: JsonType[]): JsonType {
+  return variants.length === 1 ? variants[0] : { kind: "union", variants };
+}
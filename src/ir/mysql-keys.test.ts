@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { sizeMysqlKeyColumns } from "./mysql-keys.ts";
+import type { FieldDef, FieldType, TableDef } from "./types.ts";
+
+function field(name: string, type: FieldType = { kind: "text" }): FieldDef {
+  return { name, columnName: name, type, nullable: false, createdAt: false, updatedAt: false };
+}
+
+function table(over: Partial<TableDef> & { name: string }): TableDef {
+  return {
+    service: "test",
+    tableName: over.name.toLowerCase(),
+    primaryKey: { tableName: over.name.toLowerCase(), columns: ["id"], isComposite: false },
+    fields: [],
+    foreignKeys: [],
+    isJunction: false,
+    indexes: [],
+    uniqueConstraints: [],
+    ...over,
+  };
+}
+
+function types(tables: TableDef[], name: string): Record<string, FieldType> {
+  const sized = sizeMysqlKeyColumns(tables).find((t) => t.name === name);
+  return Object.fromEntries(sized?.fields.map((f) => [f.name, f.type]) ?? []);
+}
+
+const key = { kind: "varchar", length: 255 };
+
+describe("sizeMysqlKeyColumns", () => {
+  const user = table({
+    name: "User",
+    fields: [
+      field("id"),
+      { ...field("email"), constraints: { unique: true } },
+      field("handle", { kind: "varchar", length: 32 }),
+      field("team"),
+      field("region"),
+      field("city"),
+      field("bio"),
+    ],
+    uniqueConstraints: [{ name: "user_team_region", columns: ["team", "region"] }],
+    indexes: [{ name: "user_city_idx", columns: ["city"], unique: false }],
+  });
+
+  it("bounds text in primary keys, unique columns and indexes", () => {
+    assert.deepEqual(types([user], "User"), {
+      id: key,
+      email: key,
+      handle: { kind: "varchar", length: 32 },
+      team: key,
+      region: key,
+      city: key,
+      bio: { kind: "text" },
+    });
+  });
+
+  it("bounds both sides of a foreign key, keeping the referenced length", () => {
+    const post = table({
+      name: "Post",
+      fields: [
+        field("id", { kind: "integer" }),
+        { ...field("userHandle"), references: { tableName: "User", fieldName: "handle" } },
+        { ...field("teamName"), references: { tableName: "Team", fieldName: "name" } },
+        field("teamRegion"),
+      ],
+      foreignKeys: [
+        {
+          name: "post_user_team",
+          columns: ["teamName", "teamRegion"],
+          foreignTable: "User",
+          foreignColumns: ["team", "region"],
+        },
+      ],
+    });
+    const team = table({
+      name: "Team",
+      primaryKey: { tableName: "team", columns: ["slug"], isComposite: false },
+      fields: [field("slug", { kind: "integer" }), field("name")],
+    });
+
+    assert.deepEqual(types([user, post, team], "Post"), {
+      id: { kind: "integer" },
+      userHandle: { kind: "varchar", length: 32 },
+      teamName: key,
+      teamRegion: key,
+    });
+    assert.deepEqual(types([user, post, team], "Team").name, key);
+  });
+
+  it("does not modify the input", () => {
+    sizeMysqlKeyColumns([user]);
+    assert.deepEqual(user.fields[0].type, { kind: "text" });
+  });
+});
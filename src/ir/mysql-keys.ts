@@ -0,0 +1,68 @@
+import type { TableDef } from "./types.js";
+
+/** Length of a MySQL key column whose `text` has no `@maxLength` */
+export const MYSQL_KEY_LENGTH = 255;
+
+/**
+ * MySQL cannot key or index a `text` column (ER_BLOB_KEY_WITHOUT_LENGTH), so
+ * `text` columns in a primary key, unique constraint, index or foreign key
+ * (on either side) become `varchar(255)`. A foreign key column takes the
+ * length of a `varchar` it references.
+ *
+ * Returns copies; the input IR is not modified.
+ */
+export function sizeMysqlKeyColumns(tables: TableDef[]): TableDef[] {
+  const byName = new Map(tables.map((t) => [t.name, t]));
+  // table name -> key column -> the column it references, if any
+  const keys = new Map<string, Map<string, { table: string; column: string } | undefined>>();
+  const mark = (table: string, column: string, target?: { table: string; column: string }) => {
+    const columns = keys.get(table) ?? new Map();
+    if (!columns.has(column) || target) columns.set(column, target);
+    keys.set(table, columns);
+  };
+
+  for (const table of tables) {
+    for (const column of table.primaryKey.columns) mark(table.name, column);
+    for (const unique of table.uniqueConstraints) {
+      for (const column of unique.columns) mark(table.name, column);
+    }
+    for (const index of table.indexes) {
+      // Vector indexes are Postgres-only
+      if (index.using) continue;
+      for (const column of index.columns) mark(table.name, column);
+    }
+    for (const field of table.fields) {
+      if (field.constraints?.unique) mark(table.name, field.name);
+      if (!field.references) continue;
+      const target = { table: field.references.tableName, column: field.references.fieldName };
+      mark(target.table, target.column);
+      mark(table.name, field.name, target);
+    }
+    for (const fk of table.foreignKeys) {
+      fk.columns.forEach((column, i) => {
+        const target = { table: fk.foreignTable, column: fk.foreignColumns[i] };
+        mark(target.table, target.column);
+        mark(table.name, column, target);
+      });
+    }
+  }
+
+  const lengthOf = (target: { table: string; column: string } | undefined): number => {
+    const type = byName
+      .get(target?.table ?? "")
+      ?.fields.find((f) => f.name === target?.column)?.type;
+    return type?.kind === "varchar" ? type.length : MYSQL_KEY_LENGTH;
+  };
+
+  return tables.map((table) => {
+    const columns = keys.get(table.name);
+    return {
+      ...table,
+      fields: table.fields.map((field) =>
+        field.type.kind === "text" && columns?.has(field.name)
+          ? { ...field, type: { kind: "varchar", length: lengthOf(columns.get(field.name)) } }
+          : field,
+      ),
+    };
+  });
+}
@@ -78,6 +78,337 @@ describe("buildRelationGraph edge cases", () => {
     assert.ok(tripleRels.every((r) => r.kind === "one"));
     assert.equal(tripleRels.length, 3);
   });
+
+  function column(name: string, nullable = false): TableDef["fields"][number] {
+    return {
+      name,
+      columnName: name,
+      type: { kind: "text" },
+      nullable,
+      createdAt: false,
+      updatedAt: false,
+    };
+  }
+
+  const orderLine = table({
+    name: "OrderLine",
+    primaryKey: { tableName: "orderline", columns: ["orderId", "lineNo"], isComposite: true },
+    fields: [column("orderId"), column("lineNo")],
+  });
+
+  it("derives one and many relations from a composite foreign key", () => {
+    const shipment = table({
+      name: "Shipment",
+      fields: [column("id"), column("orderId"), column("lineNo", true)],
+      foreignKeys: [
+        {
+          name: "fk_shipment_line",
+          columns: ["orderId", "lineNo"],
+          foreignTable: "OrderLine",
+          foreignColumns: ["orderId", "lineNo"],
+        },
+      ],
+    });
+
+    const graph = buildRelationGraph([orderLine, shipment]);
+    assert.deepEqual(graph.get("Shipment"), [
+      {
+        kind: "one",
+        name: "orderLine",
+        fromTable: "Shipment",
+        fromFields: ["orderId", "lineNo"],
+        toTable: "OrderLine",
+        toFields: ["orderId", "lineNo"],
+        optional: true,
+      },
+    ]);
+    assert.deepEqual(graph.get("OrderLine"), [
+      {
+        kind: "many",
+        name: "shipments",
+        table: "Shipment",
+        fromFields: ["orderId", "lineNo"],
+        toFields: ["orderId", "lineNo"],
+      },
+    ]);
+  });
+
+  it("derives many-through relations from a junction with a composite key", () => {
+    const tag = table({ name: "Tag", fields: [column("id")] });
+    const lineTag = table({
+      name: "LineTag",
+      isJunction: true,
+      primaryKey: {
+        tableName: "linetag",
+        columns: ["orderId", "lineNo", "tagId"],
+        isComposite: true,
+      },
+      fields: [
+        column("orderId"),
+        column("lineNo"),
+        { ...column("tagId"), references: { tableName: "Tag", fieldName: "id" } },
+      ],
+      foreignKeys: [
+        {
+          name: "fk_line_tag_line",
+          columns: ["orderId", "lineNo"],
+          foreignTable: "OrderLine",
+          foreignColumns: ["orderId", "lineNo"],
+        },
+      ],
+    });
+
+    const graph = buildRelationGraph([orderLine, tag, lineTag]);
+    assert.deepEqual(graph.get("Tag"), [
+      {
+        kind: "many-through",
+        name: "orderLines",
+        fromTable: "Tag",
+        fromFields: ["id"],
+        toTable: "OrderLine",
+        toFields: ["orderId", "lineNo"],
+        junction: { table: "LineTag", fromFields: ["tagId"], toFields: ["orderId", "lineNo"] },
+      },
+    ]);
+    const lineRels = graph.get("OrderLine") as ManyThroughRelation[];
+    assert.equal(lineRels.length, 1);
+    assert.equal(lineRels[0].name, "tags");
+    assert.deepEqual(lineRels[0].junction.fromFields, ["orderId", "lineNo"]);
+  });
+
+  function reference(
+    name: string,
+    tableName: string,
+    over: Partial<TableDef["fields"][number]["references"]> = {},
+  ) {
+    return { ...column(name), references: { tableName, fieldName: "id", ...over } };
+  }
+
+  const user = table({ name: "User", fields: [column("id")] });
+
+  it("names colliding reverses after their foreign keys and pairs them with aliases", () => {
+    const post = table({
+      name: "Post",
+      fields: [column("id"), reference("createdById", "User"), reference("approvedById", "User")],
+    });
+
+    const graph = buildRelationGraph([user, post]);
+    assert.deepEqual(graph.get("User"), [
+      {
+        kind: "many",
+        name: "createdByPosts",
+        table: "Post",
+        fromFields: ["id"],
+        toFields: ["createdById"],
+        alias: "createdBy",
+      },
+      {
+        kind: "many",
+        name: "approvedByPosts",
+        table: "Post",
+        fromFields: ["id"],
+        toFields: ["approvedById"],
+        alias: "approvedBy",
+      },
+    ]);
+    const postRels = graph.get("Post") as OneRelation[];
+    assert.deepEqual(
+      postRels.map((r) => [r.name, r.alias]),
+      [
+        ["createdBy", "createdBy"],
+        ["approvedBy", "approvedBy"],
+      ],
+    );
+  });
+
+  it("uses @relation names for both sides", () => {
+    const post = table({
+      name: "Post",
+      fields: [
+        column("id"),
+        reference("createdById", "User", { relationName: "author", inverseName: "authoredPosts" }),
+        reference("approvedById", "User", { inverseName: "approvedPosts" }),
+      ],
+    });
+
+    const graph = buildRelationGraph([user, post]);
+    assert.deepEqual(
+      graph.get("User")?.map((r) => r.name),
+      ["authoredPosts", "approvedPosts"],
+    );
+    assert.deepEqual(
+      graph.get("Post")?.map((r) => r.name),
+      ["author", "approvedBy"],
+    );
+  });
+
+  it("qualifies a derived reverse that collides with an explicit name", () => {
+    const post = table({
+      name: "Post",
+      fields: [
+        column("id"),
+        reference("createdById", "User"),
+        reference("approvedById", "User", { inverseName: "posts" }),
+      ],
+    });
+
+    assert.deepEqual(
+      buildRelationGraph([user, post])
+        .get("User")
+        ?.map((r) => r.name),
+      ["createdByPosts", "posts"],
+    );
+  });
+
+  it("names the sides of a self-referencing junction after its foreign keys", () => {
+    const follow = table({
+      name: "Follow",
+      isJunction: true,
+      fields: [reference("followerId", "User"), reference("followeeId", "User")],
+    });
+
+    assert.deepEqual(
+      buildRelationGraph([user, follow])
+        .get("User")
+        ?.map((r) => r.name),
+      ["followerUsers", "followeeUsers"],
+    );
+  });
+
+  it("keeps explicit names and suffixes the derived name they collide with", () => {
+    const post = table({
+      name: "Post",
+      fields: [
+        column("id"),
+        reference("userId", "User"),
+        reference("editorId", "User", { relationName: "user" }),
+      ],
+    });
+
+    const graph = buildRelationGraph([user, post]);
+    assert.deepEqual(
+      graph.get("Post")?.map((r) => r.name),
+      ["user2", "user"],
+    );
+  });
+
+  it("leaves a single self-reference unaliased and aliases two", () => {
+    const category = table({
+      name: "Category",
+      fields: [column("id"), { ...reference("parentId", "Category"), nullable: true }],
+    });
+    assert.deepEqual(buildRelationGraph([category]).get("Category"), [
+      {
+        kind: "one",
+        name: "parent",
+        fromTable: "Category",
+        fromFields: ["parentId"],
+        toTable: "Category",
+        toFields: ["id"],
+        optional: true,
+      },
+      {
+        kind: "many",
+        name: "categories",
+        table: "Category",
+        fromFields: ["id"],
+        toFields: ["parentId"],
+      },
+    ]);
+
+    const merged = table({
+      ...category,
+      fields: [...category.fields, reference("mergedIntoId", "Category")],
+    });
+    const rels = buildRelationGraph([merged]).get("Category") ?? [];
+    assert.deepEqual(
+      rels.map((r) => [r.kind, r.name, "alias" in r ? r.alias : undefined]),
+      [
+        ["one", "parent", "parent"],
+        ["many", "parentCategories", "parent"],
+        ["one", "mergedInto", "mergedInto"],
+        ["many", "mergedIntoCategories", "mergedInto"],
+      ],
+    );
+  });
+
+  it("gives a unique foreign key a one reverse instead of a many", () => {
+    const profile = table({
+      name: "Profile",
+      fields: [column("id"), { ...reference("userId", "User"), constraints: { unique: true } }],
+    });
+
+    const graph = buildRelationGraph([user, profile]);
+    assert.deepEqual(graph.get("User"), [
+      {
+        kind: "one",
+        name: "profile",
+        fromTable: "User",
+        fromFields: ["id"],
+        toTable: "Profile",
+        toFields: ["userId"],
+        optional: true,
+      },
+    ]);
+    assert.equal(graph.get("Profile")?.[0].kind, "one");
+  });
+
+  it("detects one-to-one keys from the primary key, unique constraints and unique indexes", () => {
+    const reverseKind = (over: Partial<TableDef>) => {
+      const holder = table({
+        name: "Holder",
+        fields: [column("id"), reference("userId", "User"), column("kind")],
+        ...over,
+      });
+      return buildRelationGraph([user, holder]).get("User")?.[0].kind;
+    };
+
+    const pk = { tableName: "holder", columns: ["userId"], isComposite: false };
+    assert.equal(reverseKind({ primaryKey: pk }), "one");
+    assert.equal(
+      reverseKind({ uniqueConstraints: [{ name: "uq_user", columns: ["userId"] }] }),
+      "one",
+    );
+    assert.equal(
+      reverseKind({ indexes: [{ name: "idx_user", columns: ["userId"], unique: true }] }),
+      "one",
+    );
+    // A wider key, a partial index or a plain index does not make the reference unique
+    assert.equal(
+      reverseKind({ uniqueConstraints: [{ name: "uq_user_kind", columns: ["userId", "kind"] }] }),
+      "many",
+    );
+    assert.equal(
+      reverseKind({
+        indexes: [{ name: "idx_user", columns: ["userId"], unique: true, where: "kind = 'a'" }],
+      }),
+      "many",
+    );
+    assert.equal(
+      reverseKind({ indexes: [{ name: "idx_user", columns: ["userId"], unique: false }] }),
+      "many",
+    );
+  });
+
+  it("names self-referencing many-through relations after the junction's @relation names", () => {
+    const follow = table({
+      name: "Follow",
+      isJunction: true,
+      fields: [
+        reference("followerId", "User", { inverseName: "following" }),
+        reference("followeeId", "User", { inverseName: "followers" }),
+      ],
+    });
+
+    const rels = buildRelationGraph([user, follow]).get("User") as ManyThroughRelation[];
+    assert.deepEqual(
+      rels.map((r) => [r.name, r.junction.fromFields[0], r.junction.toFields[0]]),
+      [
+        ["following", "followerId", "followeeId"],
+        ["followers", "followeeId", "followerId"],
+      ],
+    );
+  });
 });
 
 describe("buildRelationGraph", () => {
@@ -126,9 +457,9 @@ describe("buildRelationGraph", () => {
       kind: "one",
       name: "author",
       fromTable: "Book",
-      fromField: "authorId",
+      fromFields: ["authorId"],
       toTable: "Author",
-      toField: "authorId",
+      toFields: ["authorId"],
       optional: false,
     });
   });
@@ -152,13 +483,13 @@ describe("buildRelationGraph", () => {
       kind: "many-through",
       name: "genres",
       fromTable: "Book",
-      fromField: "bookId",
+      fromFields: ["bookId"],
       toTable: "Genre",
-      toField: "genreId",
+      toFields: ["genreId"],
       junction: {
         table: "BookGenre",
-        fromField: "bookId",
-        toField: "genreId",
+        fromFields: ["bookId"],
+        toFields: ["genreId"],
       },
     });
   });
@@ -182,13 +513,13 @@ describe("buildRelationGraph", () => {
       kind: "many-through",
       name: "books",
       fromTable: "Genre",
-      fromField: "genreId",
+      fromFields: ["genreId"],
       toTable: "Book",
-      toField: "bookId",
+      toFields: ["bookId"],
       junction: {
         table: "BookGenre",
-        fromField: "genreId",
-        toField: "bookId",
+        fromFields: ["genreId"],
+        toFields: ["bookId"],
       },
     });
   });
@@ -211,13 +542,13 @@ describe("buildRelationGraph", () => {
     assert.ok(bookRel);
     assert.equal(bookRel.kind, "one");
     assert.equal(bookRel.toTable, "Book");
-    assert.equal(bookRel.fromField, "bookId");
+    assert.deepEqual(bookRel.fromFields, ["bookId"]);
 
     const genreRel = rels.find((r) => r.name === "genre") as OneRelation;
     assert.ok(genreRel);
     assert.equal(genreRel.kind, "one");
     assert.equal(genreRel.toTable, "Genre");
-    assert.equal(genreRel.fromField, "genreId");
+    assert.deepEqual(genreRel.fromFields, ["genreId"]);
   });
 
   it("BookGenre does NOT produce many reverses on Book or Genre", () => {
@@ -251,7 +582,7 @@ describe("buildRelationGraph", () => {
     const bookRel = rels.find((r) => r.name === "book") as OneRelation;
     assert.ok(bookRel);
     assert.equal(bookRel.kind, "one");
-    assert.equal(bookRel.fromField, "bookId");
+    assert.deepEqual(bookRel.fromFields, ["bookId"]);
     assert.equal(bookRel.toTable, "Book");
     assert.equal(bookRel.optional, false);
   });
@@ -322,7 +653,7 @@ describe("buildRelationGraph", () => {
     const bookRel = rels.find((r) => r.name === "book") as OneRelation;
     assert.ok(bookRel);
     assert.equal(bookRel.kind, "one");
-    assert.equal(bookRel.fromField, "bookId");
+    assert.deepEqual(bookRel.fromFields, ["bookId"]);
     assert.equal(bookRel.toTable, "Book");
   });
 
@@ -1,4 +1,4 @@
-import { toTableVariableName } from "../generators/naming.js";
+import { toPascalCase, toTableVariableName } from "../generators/naming.js";
 import type { TableDef } from "./types.js";
 
 /** A one-to-one or many-to-one relation (FK holder side) */
@@ -6,17 +6,26 @@ export interface OneRelation {
   kind: "one";
   name: string;
   fromTable: string;
-  fromField: string;
+  /** Local key columns, one per foreign column (several for a composite `@foreignKeyDef`) */
+  fromFields: string[];
   toTable: string;
-  toField: string;
+  toFields: string[];
   optional: boolean;
+  /** Drizzle `alias` pairing this relation with its `many` reverse when the tables have several */
+  alias?: string;
 }
 
 /** A one-to-many reverse relation */
 export interface ManyRelation {
   kind: "many";
   name: string;
+  /** The FK holder table */
   table: string;
+  /** Referenced key columns on this table */
+  fromFields: string[];
+  /** The holder's foreign key columns */
+  toFields: string[];
+  alias?: string;
 }
 
 /** A many-to-many through junction relation */
@@ -24,13 +33,13 @@ export interface ManyThroughRelation {
   kind: "many-through";
   name: string;
   fromTable: string;
-  fromField: string;
+  fromFields: string[];
   toTable: string;
-  toField: string;
+  toFields: string[];
   junction: {
     table: string;
-    fromField: string;
-    toField: string;
+    fromFields: string[];
+    toFields: string[];
   };
 }
 
@@ -39,6 +48,21 @@ export type Relation = OneRelation | ManyRelation | ManyThroughRelation;
 /** Complete relation graph: table name -> its relations */
 export type RelationGraph = Map<string, Relation[]>;
 
+/** A foreign key of a table, from a `@references` field or a composite `@foreignKeyDef` */
+interface ForeignLink {
+  name: string;
+  /** Set when `@relation` names the holder side */
+  explicitName: boolean;
+  /** `@relation` name for the relation on the referenced table */
+  inverseName?: string;
+  fields: string[];
+  toTable: string;
+  toFields: string[];
+  optional: boolean;
+  /** Set when the key columns are unique in the holder: the reverse is a `one` */
+  unique: boolean;
+}
+
 /** Strip "Id" suffix from a field name to derive a one-relation name */
 export function deriveOneRelationName(fieldName: string): string {
   if (fieldName.endsWith("Id")) {
@@ -47,47 +71,136 @@ export function deriveOneRelationName(fieldName: string): string {
   return fieldName;
 }
 
+/**
+ * The table's foreign keys in declaration order: `@references` fields first,
+ * then composite keys. A composite key's relation is named after the table it
+ * references (`OrderLine` -> `orderLine`), and is optional when any of its
+ * columns is nullable.
+ */
+function foreignLinks(table: TableDef): ForeignLink[] {
+  const uniqueKeys = uniqueColumnSets(table);
+  const isUnique = (columns: string[]) =>
+    uniqueKeys.some((key) => key.length > 0 && key.every((c) => columns.includes(c)));
+  const links: ForeignLink[] = [];
+  for (const field of table.fields) {
+    if (!field.references) continue;
+    links.push({
+      name: field.references.relationName ?? deriveOneRelationName(field.name),
+      explicitName: field.references.relationName !== undefined,
+      inverseName: field.references.inverseName,
+      fields: [field.name],
+      toTable: field.references.tableName,
+      toFields: [field.references.fieldName],
+      optional: field.nullable,
+      unique: isUnique([field.name]),
+    });
+  }
+  const fields = new Map(table.fields.map((f) => [f.name, f]));
+  for (const fk of table.foreignKeys) {
+    links.push({
+      name: toTableVariableName(fk.foreignTable, false),
+      explicitName: false,
+      fields: fk.columns,
+      toTable: fk.foreignTable,
+      toFields: fk.foreignColumns,
+      optional: fk.columns.some((c) => fields.get(c)?.nullable),
+      unique: isUnique(fk.columns),
+    });
+  }
+  return links;
+}
+
+/**
+ * Column sets whose values are unique in the table: the primary key, unique
+ * constraints, `@unique` fields and unique indexes that are neither partial
+ * nor over expressions. A foreign key covering one of them is one-to-one.
+ */
+function uniqueColumnSets(table: TableDef): string[][] {
+  return [
+    table.primaryKey.columns,
+    ...table.uniqueConstraints.map((u) => u.columns),
+    ...table.fields.filter((f) => f.constraints?.unique).map((f) => [f.name]),
+    ...table.indexes
+      .filter((i) => i.unique && !i.where && !i.expressions?.length)
+      .map((i) => i.columns),
+  ];
+}
+
 /**
  * Builds a bidirectional relation graph from table definitions.
  *
  * Algorithm (from RFC "Relation Derivation Algorithm"):
- * 1. For each table, collect @references fields → OneRelation + ManyRelation (reverse)
- * 2. For each @junction table, create ManyThroughRelation on both sides
- * 3. Return Map<tableName, Relation[]>
+ * 1. For each table, collect @references fields and @foreignKeyDef composite
+ *    keys → OneRelation + ManyRelation (reverse), or an optional OneRelation
+ *    reverse when the key is unique (one-to-one)
+ * 2. For each @junction table with exactly two foreign keys, create
+ *    ManyThroughRelation on both sides
+ * 3. Keep `@relation` names, qualify colliding derived names with the
+ *    foreign key they come from (`createdByPosts`, `approvedByPosts`), suffix
+ *    any that still collide (`user2`), and alias each many reverse Drizzle
+ *    could not pair on its own
+ * 4. Return Map<tableName, Relation[]>
  */
 export function buildRelationGraph(tables: TableDef[], shouldPluralize = true): RelationGraph {
   const graph: RelationGraph = new Map();
+  const explicit = new Set<Relation>();
+  const reverses = new Map<ManyRelation, OneRelation>();
+  // Holder-side relation name a reverse is qualified with when its name collides
+  const qualifiers = new Map<Relation, string>();
 
   for (const table of tables) {
     graph.set(table.name, []);
   }
 
-  // Step 1: Process @references fields
-  for (const table of tables) {
-    for (const field of table.fields) {
-      if (!field.references) continue;
-
-      const ref = field.references;
+  const add = (tableName: string, relation: Relation, explicitName: boolean) => {
+    const rels = graph.get(tableName);
+    if (!rels) return;
+    rels.push(relation);
+    if (explicitName) explicit.add(relation);
+  };
 
+  // Step 1: Process foreign keys
+  for (const table of tables) {
+    for (const link of foreignLinks(table)) {
       // "one" relation on the FK holder side
-      graph.get(table.name)?.push({
+      const one: OneRelation = {
         kind: "one",
-        name: deriveOneRelationName(field.name),
+        name: link.name,
         fromTable: table.name,
-        fromField: field.name,
-        toTable: ref.tableName,
-        toField: ref.fieldName,
-        optional: field.nullable,
-      });
-
-      // "many" reverse on the target side — skip if FK holder is a junction
-      // (junction FKs produce many-through instead of many reverses)
-      if (!table.isJunction) {
-        graph.get(ref.tableName)?.push({
+        fromFields: link.fields,
+        toTable: link.toTable,
+        toFields: link.toFields,
+        optional: link.optional,
+      };
+      add(table.name, one, link.explicitName);
+
+      // Reverse on the target side — skip if FK holder is a junction
+      // (junction FKs produce many-through instead of many reverses).
+      // A unique key gets a "one" reverse with the columns spelled out, since
+      // the target may have no matching row.
+      if (!table.isJunction && link.unique) {
+        const reverse: OneRelation = {
+          kind: "one",
+          name: link.inverseName ?? toTableVariableName(table.name, false),
+          fromTable: link.toTable,
+          fromFields: link.toFields,
+          toTable: table.name,
+          toFields: link.fields,
+          optional: true,
+        };
+        add(link.toTable, reverse, link.inverseName !== undefined);
+        qualifiers.set(reverse, link.name);
+      } else if (!table.isJunction) {
+        const many: ManyRelation = {
           kind: "many",
-          name: toTableVariableName(table.name, shouldPluralize),
+          name: link.inverseName ?? toTableVariableName(table.name, shouldPluralize),
           table: table.name,
-        });
+          fromFields: link.toFields,
+          toFields: link.fields,
+        };
+        add(link.toTable, many, link.inverseName !== undefined);
+        qualifiers.set(many, link.name);
+        reverses.set(many, one);
       }
     }
   }
@@ -96,45 +209,79 @@ export function buildRelationGraph(tables: TableDef[], shouldPluralize = true):
   for (const table of tables) {
     if (!table.isJunction) continue;
 
-    const refFields = table.fields.filter((f) => f.references);
-    if (refFields.length !== 2) continue;
+    const links = foreignLinks(table);
+    if (links.length !== 2) continue;
 
-    const [fieldA, fieldB] = refFields;
-    // Safe: filtered to only fields with references above
-    const refA = fieldA.references;
-    const refB = fieldB.references;
-    if (!refA || !refB) continue;
+    const [linkA, linkB] = links;
 
     // Side A gets many-through to Side B
-    graph.get(refA.tableName)?.push({
+    const throughA: ManyThroughRelation = {
       kind: "many-through",
-      name: toTableVariableName(refB.tableName, shouldPluralize),
-      fromTable: refA.tableName,
-      fromField: refA.fieldName,
-      toTable: refB.tableName,
-      toField: refB.fieldName,
+      name: linkA.inverseName ?? toTableVariableName(linkB.toTable, shouldPluralize),
+      fromTable: linkA.toTable,
+      fromFields: linkA.toFields,
+      toTable: linkB.toTable,
+      toFields: linkB.toFields,
       junction: {
         table: table.name,
-        fromField: fieldA.name,
-        toField: fieldB.name,
+        fromFields: linkA.fields,
+        toFields: linkB.fields,
       },
-    });
+    };
+    add(linkA.toTable, throughA, linkA.inverseName !== undefined);
+    qualifiers.set(throughA, linkA.name);
 
     // Side B gets many-through to Side A
-    graph.get(refB.tableName)?.push({
+    const throughB: ManyThroughRelation = {
       kind: "many-through",
-      name: toTableVariableName(refA.tableName, shouldPluralize),
-      fromTable: refB.tableName,
-      fromField: refB.fieldName,
-      toTable: refA.tableName,
-      toField: refA.fieldName,
+      name: linkB.inverseName ?? toTableVariableName(linkA.toTable, shouldPluralize),
+      fromTable: linkB.toTable,
+      fromFields: linkB.toFields,
+      toTable: linkA.toTable,
+      toFields: linkA.toFields,
       junction: {
         table: table.name,
-        fromField: fieldB.name,
-        toField: fieldA.name,
+        fromFields: linkB.fields,
+        toFields: linkA.fields,
       },
-    });
+    };
+    add(linkB.toTable, throughB, linkB.inverseName !== undefined);
+    qualifiers.set(throughB, linkB.name);
+  }
+
+  // Step 3: Resolve name collisions, then pair ambiguous reverses by alias
+  for (const rels of graph.values()) {
+    const used = new Set(rels.filter((r) => explicit.has(r)).map((r) => r.name));
+    const collides = (rel: Relation) =>
+      used.has(rel.name) || rels.some((r) => r !== rel && r.name === rel.name);
+    const qualified = rels.filter((r) => !explicit.has(r) && qualifiers.has(r) && collides(r));
+    for (const rel of qualified) {
+      rel.name = `${qualifiers.get(rel)}${toPascalCase(rel.name)}`;
+    }
+    for (const rel of rels) {
+      if (explicit.has(rel)) continue;
+      const base = rel.name;
+      for (let n = 2; used.has(rel.name); n++) {
+        rel.name = `${base}${n}`;
+      }
+      used.add(rel.name);
+    }
+  }
+  for (const [many, one] of reverses) {
+    // A many reverse carries no columns: Drizzle finds its `one` among the
+    // holder's relations back to this table, which only works if there is one
+    const candidates = (graph.get(many.table) ?? []).filter(
+      (r) => relationTarget(r) === one.toTable && r !== many,
+    );
+    if (candidates.length > 1) {
+      one.alias = one.name;
+      many.alias = one.name;
+    }
   }
 
   return graph;
 }
+
+function relationTarget(relation: Relation): string {
+  return relation.kind === "many" ? relation.table : relation.toTable;
+}
@@ -6,15 +6,17 @@ import type {
   Scalar,
   Tuple,
   Type,
-  Union,
 } from "@typespec/compiler";
-import { navigateProgram } from "@typespec/compiler";
+import { isArrayModelType, navigateProgram } from "@typespec/compiler";
 import { toSnakeCase } from "../generators/naming.js";
+import { isArrayElementType } from "./builder.js";
+import { isStringUnion, jsonColumnType } from "./json-types.js";
 import type {
   EnumDef,
   FieldDef,
   FieldType,
   IndexDef,
+  JsonTypeDef,
   ReferentialAction,
   TableDef,
 } from "./types.js";
@@ -61,11 +63,13 @@ export function buildRemitIR(
 ): {
   tables: TableDef[];
   enums: EnumDef[];
+  jsonTypes: JsonTypeDef[];
 } {
   const foreignKeys = options.foreignKeys ?? true;
   const idDefault = options.idDefault ?? false;
   const tables: TableDef[] = [];
   const enums: EnumDef[] = [];
+  const jsonTypes = new Map<string, JsonTypeDef>();
 
   const models: Model[] = [];
   navigateProgram(program, {
@@ -99,7 +103,7 @@ export function buildRemitIR(
 
     const fields: FieldDef[] = [];
     for (const [propName, prop] of model.properties) {
-      const resolved = resolveFieldType(prop);
+      const resolved = resolveFieldType(prop, jsonTypes);
       const columnName = readLabel(prop) ?? toSnakeCase(propName);
       const field: FieldDef = {
         name: propName,
@@ -129,6 +133,7 @@ export function buildRemitIR(
         name: p.index ? `${sqlTableName}_${toSnakeCase(p.name)}` : `${sqlTableName}_primary`,
         columns: [...p.pk, ...p.sk],
         unique: false,
+        filterColumns: p.pk.length,
       }))
       .filter((idx) => !sameColumns(idx.columns));
 
@@ -160,7 +165,7 @@ export function buildRemitIR(
 
   if (foreignKeys) applyCollectionForeignKeys(tables, collections);
 
-  return { tables, enums };
+  return { tables, enums, jsonTypes: [...jsonTypes.values()] };
 }
 
 /**
@@ -270,10 +275,12 @@ interface ResolvedField {
   type: FieldType;
 }
 
-function resolveFieldType(prop: ModelProperty): ResolvedField {
-  const type = prop.type;
+function resolveFieldType(prop: ModelProperty, jsonTypes: Map<string, JsonTypeDef>): ResolvedField {
+  return { type: resolveType(prop.type, jsonTypes) };
+}
 
-  if (type.kind === "Scalar") return { type: resolveScalarType(type) };
+function resolveType(type: Type, jsonTypes: Map<string, JsonTypeDef>): FieldType {
+  if (type.kind === "Scalar") return resolveScalarType(type);
   // Remit stores enums as strings (parity with the DynamoDB single-table port),
   // so an enum becomes a text column narrowed by a `$type` union rather than a
   // pgEnum — pgEnum would need an `ALTER TYPE` for every new value.
@@ -281,42 +288,23 @@ function resolveFieldType(prop: ModelProperty): ResolvedField {
     const values = [...type.members.values()].map((m) =>
       m.value !== undefined ? String(m.value) : m.name,
     );
-    return { type: { kind: "textEnum", values } };
+    return { kind: "textEnum", values };
   }
-  if (type.kind === "Model") return { type: { kind: "jsonb" } };
-  if (type.kind === "Union") {
-    return isStringUnion(type) ? { type: { kind: "text" } } : { type: { kind: "jsonb" } };
+  // Arrays of scalars, enums and string unions are array columns; arrays of
+  // models or arrays stay JSON
+  if (type.kind === "Model" && isArrayModelType(type)) {
+    const element = resolveType(type.indexer.value, jsonTypes);
+    if (isArrayElementType(element)) return { kind: "array", element };
   }
-
-  return { type: { kind: "text" } };
-}
-
-/**
- * A union whose every variant is a string (a string scalar, a string-valued enum,
- * or a string literal) is a constrained string, not a structured value — it maps to
- * a text column. `MessageFlagValue` (system flag | keyword flag | free string) is the
- * canonical case. A union with any non-string variant is stored as jsonb.
- */
-function isStringUnion(union: Union): boolean {
-  const variants = [...union.variants.values()];
-  if (variants.length === 0) return false;
-  return variants.every((variant) => isStringLike(variant.type));
-}
-
-function isStringLike(type: Type): boolean {
-  if (type.kind === "String") return true;
-  if (type.kind === "Scalar") return scalarIsString(type);
-  if (type.kind === "Enum") {
-    return [...type.members.values()].every(
-      (m) => m.value === undefined || typeof m.value === "string",
-    );
+  // Models and non-string unions are JSON documents typed from their declarations;
+  // a union of models becomes a discriminated union when its variants carry a
+  // literal-typed tag property
+  if (type.kind === "Model" || (type.kind === "Union" && !isStringUnion(type))) {
+    return jsonColumnType(type, jsonTypes);
   }
-  return false;
-}
+  if (type.kind === "Union") return { kind: "text" };
 
-function scalarIsString(scalar: Scalar): boolean {
-  if (scalar.name === "string") return true;
-  return scalar.baseScalar ? scalarIsString(scalar.baseScalar) : false;
+  return { kind: "text" };
 }
 
 function resolveScalarType(scalar: Scalar): FieldType {
@@ -332,7 +320,19 @@ function resolveScalarType(scalar: Scalar): FieldType {
     case "boolean":
       return { kind: "boolean" };
     case "utcDateTime":
+    case "offsetDateTime":
       return { kind: "timestamp" };
+    // TypeSpec has no local date-time; this library declares `plainDateTime`
+    case "plainDateTime":
+      return { kind: "localTimestamp" };
+    case "plainDate":
+      return { kind: "date" };
+    case "plainTime":
+      return { kind: "time" };
+    case "duration":
+      return { kind: "interval" };
+    case "bytes":
+      return { kind: "bytes" };
     case "string":
       return { kind: "text" };
   }
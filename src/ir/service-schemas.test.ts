@@ -0,0 +1,33 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { bookstoreEnums, bookstoreTables } from "../fixtures/bookstore-ir.ts";
+import { assignServiceSchemas } from "./service-schemas.ts";
+import type { EnumDef } from "./types.ts";
+
+describe("assignServiceSchemas", () => {
+  const unused: EnumDef = { name: "unusedEnum", sqlName: "unused", values: ["a"] };
+  const tables = bookstoreTables.map((t) =>
+    t.name === "Author" ? { ...t, service: "public" } : t,
+  );
+  const result = assignServiceSchemas(tables, [...bookstoreEnums, unused]);
+
+  it("places each table in its service's schema", () => {
+    const book = result.tables.find((t) => t.name === "Book");
+    assert.equal(book?.schema, "bookstore");
+  });
+
+  it("keeps the public service in the default schema", () => {
+    const author = result.tables.find((t) => t.name === "Author");
+    assert.equal(author?.schema, undefined);
+  });
+
+  it("places enums with the first table that uses them", () => {
+    assert.equal(result.enums[0].schema, "bookstore");
+    assert.equal(result.enums[1].schema, undefined);
+  });
+
+  it("does not modify the input", () => {
+    assert.ok(bookstoreTables.every((t) => t.schema === undefined));
+    assert.ok(bookstoreEnums.every((e) => e.schema === undefined));
+  });
+});
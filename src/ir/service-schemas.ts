@@ -0,0 +1,33 @@
+import type { EnumDef, TableDef } from "./types.js";
+
+/** Postgres' default schema; Drizzle rejects `pgSchema("public")` */
+const DEFAULT_SCHEMA = "public";
+
+/**
+ * Places every table in the Postgres schema named after its `@table` service.
+ * An enum type goes to the schema of the first table with a column of that
+ * type; enums no column uses stay in the default schema.
+ *
+ * Returns copies; the input IR is not modified.
+ */
+export function assignServiceSchemas(
+  tables: TableDef[],
+  enums: EnumDef[],
+): { tables: TableDef[]; enums: EnumDef[] } {
+  const schemaOf = (service: string) => (service === DEFAULT_SCHEMA ? undefined : service);
+  const enumSchemas = new Map<string, string | undefined>();
+
+  for (const table of tables) {
+    for (const field of table.fields) {
+      const type = field.type.kind === "array" ? field.type.element : field.type;
+      if (type.kind === "enum" && !enumSchemas.has(type.enumName)) {
+        enumSchemas.set(type.enumName, schemaOf(table.service));
+      }
+    }
+  }
+
+  return {
+    tables: tables.map((t) => ({ ...t, schema: schemaOf(t.service) })),
+    enums: enums.map((e) => ({ ...e, schema: enumSchemas.get(e.name) })),
+  };
+}
@@ -1,6 +1,36 @@
 /** UUID encoding options for @uuid decorator */
 export type UuidEncoding = "base36" | "canonical" | "raw";
 
+/** How a decimal column reads into JS: exact strings (default) or lossy numbers */
+export type DecimalMode = "string" | "number";
+
+/** Generator behind an auto-generated id, chosen by @id or the `id-strategy` option */
+export type IdStrategy = "base36" | "ulid" | "uuidv7" | "nanoid" | "cuid2";
+
+/** Distance a vector column is searched and indexed by, chosen by `@vector` */
+export type VectorDistance = "cosine" | "l2";
+
+/** pgvector index access method, chosen by `@vectorIndex` */
+export type VectorIndexMethod = "hnsw" | "ivfflat";
+
+/** Access method of a regular index, chosen by the `@indexDef` `method` option */
+export type IndexMethod = "btree" | "hash" | "gin" | "gist" | "brin";
+
+/** Sort order of one index column, from the `@indexDef` `order` option */
+export interface IndexColumnOrder {
+  direction?: "asc" | "desc";
+  nulls?: "first" | "last";
+}
+
+/**
+ * How an `@identity` key is numbered: "always" rejects explicit values (on
+ * Postgres), "byDefault" only fills in omitted ones
+ */
+export type IdentityGeneration = "always" | "byDefault";
+
+/** Ranking weight of a `@searchable` column, "A" (highest) to "D" */
+export type SearchWeight = "A" | "B" | "C" | "D";
+
 /** Resolved column type after applying all decorators */
 export type FieldType =
   | { kind: "text" }
@@ -9,13 +39,56 @@ export type FieldType =
   | { kind: "bigint" }
   | { kind: "real" }
   | { kind: "doublePrecision" }
+  | { kind: "decimal"; precision?: number; scale?: number; mode: DecimalMode }
   | { kind: "boolean" }
   | { kind: "timestamp" }
-  | { kind: "jsonb" }
+  | { kind: "localTimestamp" }
+  | { kind: "date" }
+  | { kind: "time" }
+  | { kind: "interval" }
+  | { kind: "bytes" }
+  | { kind: "vector"; dimensions: number; distance: VectorDistance }
+  | { kind: "jsonb"; shape?: JsonType }
+  | { kind: "array"; element: ArrayElementType }
   | { kind: "uuid"; encoding: UuidEncoding }
   | { kind: "enum"; enumName: string; values: string[] }
   | { kind: "textEnum"; values: string[] };
 
+/**
+ * TypeScript shape of a JSON column's value. Named TypeSpec models and unions
+ * are `ref`s to a `JsonTypeDef`; anonymous models and enums are inlined.
+ */
+export type JsonType =
+  | { kind: "string" }
+  | { kind: "number" }
+  | { kind: "boolean" }
+  | { kind: "null" }
+  | { kind: "unknown" }
+  | { kind: "literal"; value: string | number | boolean }
+  | { kind: "array"; element: JsonType }
+  | { kind: "record"; value: JsonType }
+  | { kind: "object"; properties: JsonPropertyDef[] }
+  | { kind: "union"; variants: JsonType[] }
+  | { kind: "ref"; name: string };
+
+export interface JsonPropertyDef {
+  name: string;
+  type: JsonType;
+  optional: boolean;
+}
+
+/**
+ * A named TypeSpec model or union stored in JSON columns, declared in
+ * `json-types.ts` as an interface (objects) or a type alias (everything else)
+ */
+export interface JsonTypeDef {
+  name: string;
+  type: JsonType;
+}
+
+/** Element of an array column: any column type except JSON, vectors and nested arrays */
+export type ArrayElementType = Exclude<FieldType, { kind: "jsonb" | "array" | "vector" }>;
+
 /** ON DELETE / ON UPDATE referential action for a foreign key */
 export type ReferentialAction = "cascade" | "restrict" | "no action" | "set null" | "set default";
 
@@ -32,16 +105,36 @@ export interface FieldDef {
   /**
    * Emit `.$defaultFn(() => generateBase36Id())` so a text primary key gets a
    * generated base36 id when the caller omits it. Set for single-column primary
-   * keys that are not native uuid columns.
+   * keys that are not native uuid columns, and for `@id` properties.
    */
   autoGenerateId?: boolean;
+  /**
+   * Generator for `autoGenerateId` and `uuid.autoGenerate` columns; base36 when
+   * unset. UUID columns only take the UUID-producing strategies (see `@id`).
+   */
+  idStrategy?: IdStrategy;
+  /**
+   * Set on an `@identity` integer primary key, numbered by the database: an
+   * identity column on Postgres, AUTOINCREMENT on SQLite, AUTO_INCREMENT on MySQL
+   */
+  identity?: IdentityGeneration;
   references?: {
     tableName: string;
     fieldName: string;
     onDelete?: ReferentialAction;
+    onUpdate?: ReferentialAction;
+    /** `@relation` name of the `one` relation; derived from the field name when unset */
+    relationName?: string;
+    /** `@relation` name of the reverse relation on the referenced table */
+    inverseName?: string;
   };
   createdAt: boolean;
   updatedAt: boolean;
+  /**
+   * Set on `@searchable` columns: they make up the table's full-text search
+   * document (a generated tsvector on Postgres, an FTS5 table on SQLite)
+   */
+  searchWeight?: SearchWeight;
   visibility?: "read";
   defaultValue?: unknown;
   constraints?: {
@@ -65,6 +158,8 @@ export interface ForeignKeyDef {
   columns: string[];
   foreignTable: string;
   foreignColumns: string[];
+  onDelete?: ReferentialAction;
+  onUpdate?: ReferentialAction;
 }
 
 /** Index definition from @index decorator */
@@ -72,6 +167,27 @@ export interface IndexDef {
   name: string;
   columns: string[];
   unique: boolean;
+  /**
+   * How many leading columns an access pattern filters on by equality (the
+   * ElectroDB pk composite in the remit front-end); the rest are sort columns.
+   * Defaults to all but the last column.
+   */
+  filterColumns?: number;
+  /**
+   * Set on `@vectorIndex` indexes: the pgvector access method over the one
+   * vector column, whose `distance` picks the operator class. Postgres only.
+   */
+  using?: VectorIndexMethod;
+  /** Access method other than the default btree; only Postgres honours it */
+  method?: IndexMethod;
+  /** Per-column sort order, keyed by field name; columns without an entry sort ascending */
+  order?: Record<string, IndexColumnOrder>;
+  /** Raw SQL expressions indexed after the plain columns, e.g. `lower(email)` */
+  expressions?: string[];
+  /** Partial index predicate (raw SQL), e.g. `deleted_at IS NULL` */
+  where?: string;
+  /** Covering columns (field names) stored in the index but not keyed on; Postgres only */
+  include?: string[];
 }
 
 /** Composite unique constraint from @unique({ name, columns }) */
@@ -91,6 +207,8 @@ export interface TableDef {
   isJunction: boolean;
   indexes: IndexDef[];
   uniqueConstraints: UniqueConstraintDef[];
+  /** Postgres schema (namespace) the table lives in; unset for the default schema */
+  schema?: string;
 }
 
 /** Enum definition extracted from a TypeSpec enum */
@@ -98,4 +216,6 @@ export interface EnumDef {
   name: string;
   sqlName: string;
   values: string[];
+  /** Postgres schema (namespace) the type lives in; unset for the default schema */
+  schema?: string;
 }
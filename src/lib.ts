@@ -1,15 +1,192 @@
-import { createTypeSpecLibrary } from "@typespec/compiler";
+import { createTypeSpecLibrary, paramMessage } from "@typespec/compiler";
 
 export const $lib = createTypeSpecLibrary({
   name: "@kattebak/typespec-drizzle-orm-generator",
-  diagnostics: {},
+  diagnostics: {
+    "missing-primary-key": {
+      severity: "error",
+      messages: {
+        default: paramMessage`Table "${"table"}" has no primary key. Mark at least one property with @pk.`,
+      },
+    },
+    "duplicate-table-name": {
+      severity: "error",
+      messages: {
+        default: paramMessage`Model "${"model"}" has the same ${"names"} as model "${"other"}".`,
+      },
+    },
+    "unresolved-reference": {
+      severity: "error",
+      messages: {
+        default: paramMessage`@references target "${"target"}" is not on a model decorated with @table.`,
+      },
+    },
+    "unresolved-foreign-key": {
+      severity: "error",
+      messages: {
+        default: paramMessage`@foreignKeyDef "${"name"}" must reference columns of a single model decorated with @table.`,
+      },
+    },
+    "foreign-key-column-mismatch": {
+      severity: "error",
+      messages: {
+        default: paramMessage`@foreignKeyDef "${"name"}" has ${"columns"} local column(s) but ${"foreignColumns"} foreign column(s).`,
+      },
+    },
+    "set-null-on-required": {
+      severity: "error",
+      messages: {
+        default: paramMessage`ON ${"event"} SET NULL needs "${"property"}" to be optional.`,
+      },
+    },
+    "relation-without-references": {
+      severity: "error",
+      messages: {
+        default: paramMessage`@relation on "${"property"}" needs @references on the same property.`,
+      },
+    },
+    "duplicate-relation-name": {
+      severity: "error",
+      messages: {
+        default: paramMessage`Relation name "${"name"}" is used more than once on "${"table"}".`,
+      },
+    },
+    "junction-arity": {
+      severity: "error",
+      messages: {
+        default: paramMessage`Junction "${"table"}" must have exactly two foreign keys (@references properties or @foreignKeyDef), found ${"count"}.`,
+      },
+    },
+    "range-on-non-numeric": {
+      severity: "error",
+      messages: {
+        default: paramMessage`@${"decorator"} can only be applied to a numeric property; "${"property"}" is not numeric.`,
+      },
+    },
+    "uuid-on-non-string": {
+      severity: "error",
+      messages: {
+        default: paramMessage`@uuid can only be applied to a string property; "${"property"}" is not a string.`,
+      },
+    },
+    "invalid-uuid-encoding": {
+      severity: "error",
+      messages: {
+        default: paramMessage`Unknown @uuid encoding "${"encoding"}". Expected "base36", "canonical" or "raw".`,
+      },
+    },
+    "id-on-non-string": {
+      severity: "error",
+      messages: {
+        default: paramMessage`@id can only be applied to a string property; "${"property"}" is not a string.`,
+      },
+    },
+    "id-strategy-not-uuid": {
+      severity: "error",
+      messages: {
+        default: paramMessage`@id("${"strategy"}") does not produce UUIDs and cannot fill the @uuid property "${"property"}". Use "uuidv7" or "base36", or remove @uuid.`,
+      },
+    },
+    "identity-on-non-integer": {
+      severity: "error",
+      messages: {
+        default: paramMessage`@identity can only be applied to an integer property; "${"property"}" is not an integer.`,
+      },
+    },
+    "identity-not-primary-key": {
+      severity: "error",
+      messages: {
+        default: paramMessage`@identity on "${"property"}" needs it to be the only @pk property of its table.`,
+      },
+    },
+    "precision-on-non-decimal": {
+      severity: "error",
+      messages: {
+        default: paramMessage`@precision can only be applied to a decimal property; "${"property"}" is not a decimal.`,
+      },
+    },
+    "invalid-precision": {
+      severity: "error",
+      messages: {
+        default: paramMessage`@precision on "${"property"}" needs a precision of at least 1 and a scale between 0 and the precision.`,
+      },
+    },
+    "vector-on-non-numeric-array": {
+      severity: "error",
+      messages: {
+        default: paramMessage`@vector can only be applied to an array of numbers; "${"property"}" is not one.`,
+      },
+    },
+    "invalid-vector-dimensions": {
+      severity: "error",
+      messages: {
+        default: paramMessage`@vector on "${"property"}" needs between 1 and 16000 dimensions.`,
+      },
+    },
+    "vector-index-on-non-vector": {
+      severity: "error",
+      messages: {
+        default: paramMessage`@vectorIndex "${"name"}" must index a @vector property; "${"property"}" is not one.`,
+      },
+    },
+    "unknown-index-column": {
+      severity: "error",
+      messages: {
+        default: paramMessage`@indexDef "${"name"}" orders "${"property"}", which is not one of its columns.`,
+        include: paramMessage`@indexDef "${"name"}" includes "${"property"}", which is not a property of the model.`,
+      },
+    },
+    "unsupported-index-option": {
+      severity: "warning",
+      messages: {
+        default: paramMessage`Index "${"name"}" uses ${"option"}, which the ${"dialect"} dialect does not support; it was left out.`,
+      },
+    },
+    "searchable-on-non-string": {
+      severity: "error",
+      messages: {
+        default: paramMessage`@searchable can only be applied to a string property; "${"property"}" is not a string.`,
+      },
+    },
+    "invalid-service-name": {
+      severity: "error",
+      messages: {
+        default: paramMessage`Service "${"service"}" cannot name modules of the service layout; use a letter followed by letters, digits and underscores.`,
+      },
+    },
+    "duplicate-service-module": {
+      severity: "error",
+      messages: {
+        default: paramMessage`Services "${"service"}" and "${"other"}" would share one module in the service layout; rename one of them.`,
+      },
+    },
+    "unreadable-migration-snapshot": {
+      severity: "error",
+      messages: {
+        default: paramMessage`Cannot read the migration snapshot "${"path"}": ${"reason"}. No migration was generated; fix or remove the file to continue.`,
+      },
+    },
+    "unsupported-dialect-output": {
+      severity: "warning",
+      messages: {
+        default: paramMessage`The "${"option"}" output is not available for the ${"dialect"} dialect and was skipped: ${"reason"}.`,
+      },
+    },
+  },
   state: {
     table: { description: "State for @table decorator" },
     primaryKey: { description: "State for @primaryKey decorator" },
     pk: { description: "State for @pk decorator (marks PK columns)" },
     references: { description: "State for @references decorator" },
+    relation: { description: "State for @relation decorator (relation and inverse names)" },
     junction: { description: "State for @junction decorator" },
     uuid: { description: "State for @uuid decorator" },
+    id: { description: "State for @id decorator (id generation strategy)" },
+    identity: { description: "State for @identity decorator (database-numbered integer key)" },
+    precision: { description: "State for @precision decorator (decimal precision, scale, mode)" },
+    vector: { description: "State for @vector decorator (dimensions, distance)" },
+    vectorIndex: { description: "State for @vectorIndex decorator (pgvector indexes)" },
+    searchable: { description: "State for @searchable decorator (full-text search weight)" },
     createdAt: { description: "State for @createdAt decorator" },
     updatedAt: { description: "State for @updatedAt decorator" },
     unique: { description: "State for @unique decorator (single column)" },
@@ -24,3 +201,4 @@ export const $lib = createTypeSpecLibrary({
 } as const);
 
 export const StateKeys = $lib.stateKeys;
+export const { reportDiagnostic } = $lib;
@@ -0,0 +1,321 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { describe, it } from "node:test";
+import type { Diagnostic } from "@typespec/compiler";
+import { createTestHost } from "@typespec/compiler/testing";
+import * as decorators from "./decorators.ts";
+import { $onValidate } from "./validate.ts";
+
+const DECORATOR_DECLARATIONS = readFileSync(
+  new URL("../tsp/main.tsp", import.meta.url),
+  "utf8",
+).replace('import "../dist/index.js";', 'import "./drizzle.js";');
+
+async function diagnose(models: string): Promise<readonly Diagnostic[]> {
+  const host = await createTestHost();
+  host.addJsFile("drizzle.js", { ...decorators, $onValidate });
+  host.addTypeSpecFile("drizzle.tsp", DECORATOR_DECLARATIONS);
+  host.addTypeSpecFile("main.tsp", `import "./drizzle.tsp";\n${models}`);
+  return host.diagnose("main.tsp");
+}
+
+function codes(diagnostics: readonly Diagnostic[]): string[] {
+  return diagnostics.map((d) => d.code.replace("@kattebak/typespec-drizzle-orm-generator/", ""));
+}
+
+const AUTHOR = `
+@table("Author", "bookstore")
+@primaryKey("authors")
+model Author {
+  @pk @uuid("base36", true) authorId: string;
+  name: string;
+}
+`;
+
+describe("$onValidate diagnostics", () => {
+  it("reports nothing for valid models", async () => {
+    const diagnostics = await diagnose(`${AUTHOR}
+@table("Book", "bookstore")
+@primaryKey("books")
+model Book {
+  @pk @uuid("base36", true) bookId: string;
+  @uuid("base36") @references(Author.authorId) authorId: string;
+  @global.minValue(1) @global.maxValue(5) rating: int32;
+}
+`);
+    assert.deepEqual(codes(diagnostics), []);
+  });
+
+  it("reports a table without @pk on the model", async () => {
+    const diagnostics = await diagnose(`
+@table("Note", "misc")
+model Note {
+  body: string;
+}
+`);
+    assert.deepEqual(codes(diagnostics), ["missing-primary-key"]);
+    assert.equal((diagnostics[0].target as { kind: string; name: string }).name, "Note");
+    assert.match(diagnostics[0].message, /Table "Note" has no primary key/);
+  });
+
+  it("reports duplicate entity and SQL table names", async () => {
+    const diagnostics = await diagnose(`${AUTHOR}
+@table("Author", "other")
+@primaryKey("authors")
+model Writer {
+  @pk writerId: string;
+}
+`);
+    assert.deepEqual(codes(diagnostics), ["duplicate-table-name"]);
+    assert.match(
+      diagnostics[0].message,
+      /Model "Writer" has the same entity name "Author" and SQL table name "authors" as model "Author"/,
+    );
+  });
+
+  it("reports each model a table clashes with", async () => {
+    const diagnostics = await diagnose(`${AUTHOR}
+@table("Book", "bookstore")
+@primaryKey("books")
+model Book {
+  @pk bookId: string;
+}
+
+@table("Book", "other")
+@primaryKey("authors")
+model Volume {
+  @pk volumeId: string;
+}
+`);
+    assert.deepEqual(
+      diagnostics.map((d) => d.message),
+      [
+        'Model "Volume" has the same entity name "Book" as model "Book".',
+        'Model "Volume" has the same SQL table name "authors" as model "Author".',
+      ],
+    );
+  });
+
+  it("reports @references to a model without @table on the property", async () => {
+    const diagnostics = await diagnose(`${AUTHOR}
+model Loose {
+  looseId: string;
+}
+
+@table("Book", "bookstore")
+model Book {
+  @pk bookId: string;
+  @references(Loose.looseId) looseId: string;
+}
+`);
+    assert.deepEqual(codes(diagnostics), ["unresolved-reference"]);
+    assert.equal((diagnostics[0].target as { name: string }).name, "looseId");
+    assert.match(diagnostics[0].message, /"Loose\.looseId"/);
+  });
+
+  it("reports a junction without exactly two references", async () => {
+    const diagnostics = await diagnose(`${AUTHOR}
+@table("AuthorLink", "bookstore")
+@junction
+model AuthorLink {
+  @pk @references(Author.authorId) authorId: string;
+  @pk otherId: string;
+}
+`);
+    assert.deepEqual(codes(diagnostics), ["junction-arity"]);
+    assert.match(diagnostics[0].message, /found 1/);
+  });
+
+  it("counts composite foreign keys towards a junction's two sides", async () => {
+    const diagnostics = await diagnose(`${AUTHOR}
+@table("AuthorName", "bookstore")
+@foreignKeyDef("fk_author", [AuthorName.authorId, AuthorName.name], [Author.authorId, Author.name])
+@junction
+model AuthorName {
+  @pk authorId: string;
+  @pk name: string;
+  @pk @references(Author.authorId) otherId: string;
+}
+`);
+    assert.deepEqual(codes(diagnostics), []);
+  });
+
+  it("reports @relation without @references and relation names used twice", async () => {
+    const diagnostics = await diagnose(`${AUTHOR}
+@table("Post", "blog")
+model Post {
+  @pk postId: string;
+  @references(Author.authorId) @relation("createdBy", "posts") createdById: string;
+  @references(Author.authorId) @relation("approvedBy", "posts") approvedById: string;
+  @references(Author.authorId) @relation("createdBy") editedById: string;
+  @relation("title") title: string;
+}
+`);
+    assert.deepEqual(codes(diagnostics), [
+      "duplicate-relation-name",
+      "duplicate-relation-name",
+      "relation-without-references",
+    ]);
+    assert.match(diagnostics[0].message, /"posts" is used more than once on "Author"/);
+    assert.match(diagnostics[1].message, /"createdBy" is used more than once on "Post"/);
+  });
+
+  it("reports range checks on non-numeric properties", async () => {
+    const diagnostics = await diagnose(`
+@table("Review", "bookstore")
+model Review {
+  @pk reviewId: string;
+  @global.minValue(1) title: string;
+  @global.maxValue(5) score: float64;
+}
+`);
+    assert.deepEqual(codes(diagnostics), ["range-on-non-numeric"]);
+    assert.match(diagnostics[0].message, /@minValue .* "title"/);
+  });
+
+  it("reports @uuid on non-string properties and unknown encodings", async () => {
+    const diagnostics = await diagnose(`
+@table("Counter", "misc")
+model Counter {
+  @pk @uuid("base36") counterId: int32;
+  @uuid("base64") otherId: string;
+}
+`);
+    assert.deepEqual(codes(diagnostics), ["uuid-on-non-string", "invalid-uuid-encoding"]);
+  });
+
+  it("reports @id on non-string properties and non-UUID strategies on @uuid", async () => {
+    const diagnostics = await diagnose(`
+@table("Counter", "misc")
+model Counter {
+  @pk @id("ulid") counterId: int32;
+  @uuid("canonical") @id("nanoid") otherId: string;
+  @uuid("canonical") @id("uuidv7") sortedId: string;
+}
+`);
+    assert.deepEqual(codes(diagnostics), ["id-on-non-string", "id-strategy-not-uuid"]);
+  });
+
+  it("reports @precision on non-decimal properties and impossible scales", async () => {
+    const diagnostics = await diagnose(`
+@table("Invoice", "billing")
+model Invoice {
+  @pk @precision(10) invoiceId: int32;
+  @precision(4, 6) total: decimal;
+  @precision(12, 2, "number") @global.minValue(0) paid: decimal;
+}
+`);
+    assert.deepEqual(codes(diagnostics), ["precision-on-non-decimal", "invalid-precision"]);
+  });
+
+  it("reports @identity on non-integer properties and outside a single-column key", async () => {
+    const diagnostics = await diagnose(`
+@table("Event", "audit")
+model Event {
+  @pk @identity eventId: int64;
+  @identity("byDefault") sequence: int32;
+}
+
+@table("Tag", "audit")
+model Tag {
+  @pk @identity tagId: string;
+}
+`);
+    assert.deepEqual(codes(diagnostics), ["identity-not-primary-key", "identity-on-non-integer"]);
+  });
+
+  it("reports @searchable on non-string properties", async () => {
+    const diagnostics = await diagnose(`
+@table("Article", "cms")
+model Article {
+  @pk articleId: string;
+  @searchable title: string;
+  @searchable("B") @maxLength(200) summary?: string;
+  @searchable("C") wordCount: int32;
+}
+`);
+    assert.deepEqual(codes(diagnostics), ["searchable-on-non-string"]);
+  });
+
+  it("reports @vector on non-numeric arrays, bad dimensions and @vectorIndex on plain columns", async () => {
+    const diagnostics = await diagnose(`
+@table("Passage", "search")
+@vectorIndex("passages_title_idx", Passage.title)
+@vectorIndex("passages_embedding_idx", Passage.embedding)
+model Passage {
+  @pk passageId: string;
+  title: string;
+  @vector(3) body: string;
+  @vector(0) tags: string[];
+  @vector(3, "l2") embedding: float32[];
+  @vector(20000) huge: float64[];
+}
+`);
+    assert.deepEqual(codes(diagnostics), [
+      "vector-on-non-numeric-array",
+      "vector-on-non-numeric-array",
+      "invalid-vector-dimensions",
+      "invalid-vector-dimensions",
+      "vector-index-on-non-vector",
+    ]);
+  });
+
+  it("reports composite foreign keys with mismatched or untabled columns", async () => {
+    const diagnostics = await diagnose(`${AUTHOR}
+model Loose {
+  a: string;
+  b: string;
+}
+
+@table("Line", "shop")
+@foreignKeyDef("fk_count", [Line.a, Line.b], [Author.authorId])
+@foreignKeyDef("fk_loose", [Line.a, Line.b], [Loose.a, Loose.b])
+model Line {
+  @pk a: string;
+  b: string;
+}
+`);
+    assert.deepEqual(codes(diagnostics).sort(), [
+      "foreign-key-column-mismatch",
+      "unresolved-foreign-key",
+    ]);
+  });
+
+  it("reports SET NULL actions on required properties", async () => {
+    const diagnostics = await diagnose(`${AUTHOR}
+@table("Book", "bookstore")
+@foreignKeyDef("fk_editor", [Book.editorId, Book.editorName], [Author.authorId, Author.name], "SET NULL")
+model Book {
+  @pk bookId: string;
+  @references(Author.authorId, "SET NULL") authorId?: string;
+  @references(Author.authorId, "CASCADE", "SET NULL") coAuthorId: string;
+  editorId?: string;
+  editorName: string;
+}
+`);
+    assert.deepEqual(codes(diagnostics), ["set-null-on-required", "set-null-on-required"]);
+    assert.match(diagnostics[0].message, /ON DELETE SET NULL needs "editorName" to be optional/);
+    assert.match(diagnostics[1].message, /ON UPDATE SET NULL needs "coAuthorId" to be optional/);
+  });
+
+  it("reports @indexDef options naming columns outside the index or the model", async () => {
+    const diagnostics = await diagnose(`
+@table("Account", "auth")
+@indexDef("accounts_active_idx", [Account.createdAt], false, #{
+  where: "deleted_at IS NULL",
+  method: "brin",
+  order: #{ createdAt: #{ direction: "desc", nulls: "last" }, email: #{ direction: "asc" } },
+  expressions: #["lower(email)"],
+  include: #["email", "nickname"],
+})
+model Account {
+  @pk accountId: string;
+  email: string;
+  createdAt: utcDateTime;
+}
+`);
+    assert.deepEqual(codes(diagnostics), ["unknown-index-column", "unknown-index-column"]);
+    assert.match(diagnostics[0].message, /orders "email", which is not one of its columns/);
+    assert.match(diagnostics[1].message, /includes "nickname", which is not a property/);
+  });
+});
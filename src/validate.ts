@@ -0,0 +1,383 @@
+import type { Model, ModelProperty, Program, Scalar, Type } from "@typespec/compiler";
+import { isArrayModelType } from "@typespec/compiler";
+import { toModelProperties } from "./ir/builder.js";
+import { UUID_ID_STRATEGIES } from "./ir/id-strategy.js";
+import type { IdStrategy } from "./ir/types.js";
+import { reportDiagnostic, StateKeys } from "./lib.js";
+
+interface TableMeta {
+  name: string;
+  service: string;
+}
+
+interface ReferentialActions {
+  onDelete?: string;
+  onUpdate?: string;
+}
+
+interface ReferencesMeta extends ReferentialActions {
+  ref: ModelProperty;
+}
+
+interface ForeignKeyMeta extends ReferentialActions {
+  name: string;
+  columns: ModelProperty[];
+  foreignColumns: ModelProperty[];
+}
+
+interface RelationMeta {
+  name: string;
+  inverseName?: string;
+}
+
+interface IndexMeta {
+  name: string;
+  columns: ModelProperty[];
+  options?: { order?: Record<string, unknown>; include?: string[] };
+}
+
+const UUID_ENCODINGS = new Set(["base36", "canonical", "raw"]);
+
+/** pgvector's limit on the dimensions of a `vector` column */
+const MAX_VECTOR_DIMENSIONS = 16000;
+
+/**
+ * Reports invalid decorator usage as diagnostics on the offending model or
+ * property, so mistakes surface in the editor instead of as broken or missing
+ * generated code. TypeSpec calls `$onValidate` after checking, before emitters run;
+ * any error here stops the emit.
+ *
+ * `buildIR` stays lenient about the same problems (it skips what it cannot
+ * resolve) so the IR can still be built from partially valid programs in tests.
+ */
+export function $onValidate(program: Program): void {
+  const tableState = program.stateMap(StateKeys.table);
+  const pkTableState = program.stateMap(StateKeys.primaryKey);
+  const pkFieldState = program.stateSet(StateKeys.pk);
+  const referencesState = program.stateMap(StateKeys.references);
+  const junctionState = program.stateSet(StateKeys.junction);
+  const foreignKeyDefState = program.stateMap(StateKeys.foreignKeyDef);
+
+  const entityNames = new Map<string, Model>();
+  const sqlNames = new Map<string, Model>();
+
+  for (const [target, meta] of tableState) {
+    const model = target as Model;
+    if (model.kind !== "Model") continue;
+    const tableMeta = meta as TableMeta;
+    const sqlName =
+      (pkTableState.get(model) as { tableName: string } | undefined)?.tableName ?? tableMeta.name;
+
+    // One diagnostic per clashing model, naming every name the two share
+    const clashes = new Map<Model, string[]>();
+    for (const [label, name, seen] of [
+      ["entity name", tableMeta.name, entityNames],
+      ["SQL table name", sqlName, sqlNames],
+    ] as const) {
+      const other = seen.get(name);
+      if (other && other !== model) {
+        clashes.set(other, [...(clashes.get(other) ?? []), `${label} "${name}"`]);
+      } else {
+        seen.set(name, model);
+      }
+    }
+    for (const [other, names] of clashes) {
+      reportDiagnostic(program, {
+        code: "duplicate-table-name",
+        format: { model: model.name, names: names.join(" and "), other: other.name },
+        target: model,
+      });
+    }
+
+    const properties = [...model.properties.values()];
+    if (!properties.some((p) => pkFieldState.has(p))) {
+      reportDiagnostic(program, {
+        code: "missing-primary-key",
+        format: { table: tableMeta.name },
+        target: model,
+      });
+    }
+
+    const fkDefs = (foreignKeyDefState.get(model) ?? []) as ForeignKeyMeta[];
+    if (junctionState.has(model)) {
+      const count = properties.filter((p) => referencesState.has(p)).length + fkDefs.length;
+      if (count !== 2) {
+        reportDiagnostic(program, {
+          code: "junction-arity",
+          format: { table: tableMeta.name, count: String(count) },
+          target: model,
+        });
+      }
+    }
+
+    for (const fk of fkDefs) {
+      const columns = toModelProperties(fk.columns);
+      const foreignColumns = toModelProperties(fk.foreignColumns);
+      if (columns.length !== foreignColumns.length) {
+        reportDiagnostic(program, {
+          code: "foreign-key-column-mismatch",
+          format: {
+            name: fk.name,
+            columns: String(columns.length),
+            foreignColumns: String(foreignColumns.length),
+          },
+          target: model,
+        });
+      }
+      reportSetNullOnRequired(program, fk, columns, model);
+      const foreignModels = new Set(foreignColumns.map((c) => c.model));
+      const [foreignModel] = foreignModels;
+      if (foreignModels.size !== 1 || !foreignModel || !tableState.has(foreignModel)) {
+        reportDiagnostic(program, {
+          code: "unresolved-foreign-key",
+          format: { name: fk.name },
+          target: model,
+        });
+      }
+    }
+  }
+
+  for (const [target, entry] of referencesState) {
+    const { ref, ...actions } = entry as ReferencesMeta;
+    reportSetNullOnRequired(program, actions, [target as ModelProperty], target as ModelProperty);
+    if (!ref.model || !tableState.has(ref.model)) {
+      reportDiagnostic(program, {
+        code: "unresolved-reference",
+        format: { target: ref.model ? `${ref.model.name}.${ref.name}` : ref.name },
+        target: target as ModelProperty,
+      });
+    }
+  }
+
+  // A @relation name lands on the property's model, its inverse name on the
+  // referenced model; each must be unique among the names set there
+  const relationNames = new Map<Model, Set<string>>();
+  const claimRelationName = (model: Model, name: string, prop: ModelProperty) => {
+    const names = relationNames.get(model) ?? new Set<string>();
+    relationNames.set(model, names);
+    if (names.has(name)) {
+      reportDiagnostic(program, {
+        code: "duplicate-relation-name",
+        format: { name, table: model.name },
+        target: prop,
+      });
+    }
+    names.add(name);
+  };
+  for (const [target, meta] of program.stateMap(StateKeys.relation)) {
+    const prop = target as ModelProperty;
+    const { name, inverseName } = meta as RelationMeta;
+    const ref = (referencesState.get(prop) as ReferencesMeta | undefined)?.ref;
+    if (!ref) {
+      reportDiagnostic(program, {
+        code: "relation-without-references",
+        format: { property: prop.name },
+        target: prop,
+      });
+      continue;
+    }
+    if (prop.model) claimRelationName(prop.model, name, prop);
+    if (inverseName && ref.model) claimRelationName(ref.model, inverseName, prop);
+  }
+
+  for (const [target, meta] of program.stateMap(StateKeys.uuid)) {
+    const prop = target as ModelProperty;
+    const { encoding } = meta as { encoding: string };
+    if (!isScalarOf(prop.type, "string")) {
+      reportDiagnostic(program, {
+        code: "uuid-on-non-string",
+        format: { property: prop.name },
+        target: prop,
+      });
+    }
+    if (!UUID_ENCODINGS.has(encoding)) {
+      reportDiagnostic(program, {
+        code: "invalid-uuid-encoding",
+        format: { encoding },
+        target: prop,
+      });
+    }
+  }
+
+  for (const [target, meta] of program.stateMap(StateKeys.id)) {
+    const prop = target as ModelProperty;
+    const strategy = meta as IdStrategy;
+    if (!isScalarOf(prop.type, "string")) {
+      reportDiagnostic(program, {
+        code: "id-on-non-string",
+        format: { property: prop.name },
+        target: prop,
+      });
+    }
+    if (program.stateMap(StateKeys.uuid).has(prop) && !UUID_ID_STRATEGIES.has(strategy)) {
+      reportDiagnostic(program, {
+        code: "id-strategy-not-uuid",
+        format: { strategy, property: prop.name },
+        target: prop,
+      });
+    }
+  }
+
+  for (const target of program.stateMap(StateKeys.identity).keys()) {
+    const prop = target as ModelProperty;
+    if (!isScalarOf(prop.type, "integer")) {
+      reportDiagnostic(program, {
+        code: "identity-on-non-integer",
+        format: { property: prop.name },
+        target: prop,
+      });
+    }
+    const pkProperties = [...(prop.model?.properties.values() ?? [])].filter((p) =>
+      pkFieldState.has(p),
+    );
+    if (pkProperties.length !== 1 || pkProperties[0] !== prop) {
+      reportDiagnostic(program, {
+        code: "identity-not-primary-key",
+        format: { property: prop.name },
+        target: prop,
+      });
+    }
+  }
+
+  for (const [target, meta] of program.stateMap(StateKeys.precision)) {
+    const prop = target as ModelProperty;
+    const { precision, scale } = meta as { precision: number; scale?: number };
+    if (!isScalarOf(prop.type, "decimal")) {
+      reportDiagnostic(program, {
+        code: "precision-on-non-decimal",
+        format: { property: prop.name },
+        target: prop,
+      });
+    }
+    if (precision < 1 || (scale !== undefined && (scale < 0 || scale > precision))) {
+      reportDiagnostic(program, {
+        code: "invalid-precision",
+        format: { property: prop.name },
+        target: prop,
+      });
+    }
+  }
+
+  for (const target of program.stateMap(StateKeys.searchable).keys()) {
+    const prop = target as ModelProperty;
+    if (!isScalarOf(prop.type, "string")) {
+      reportDiagnostic(program, {
+        code: "searchable-on-non-string",
+        format: { property: prop.name },
+        target: prop,
+      });
+    }
+  }
+
+  const vectorState = program.stateMap(StateKeys.vector);
+  for (const [target, meta] of vectorState) {
+    const prop = target as ModelProperty;
+    const { dimensions } = meta as { dimensions: number };
+    const type = prop.type;
+    if (
+      type.kind !== "Model" ||
+      !isArrayModelType(type) ||
+      !isScalarOf(type.indexer.value, "numeric")
+    ) {
+      reportDiagnostic(program, {
+        code: "vector-on-non-numeric-array",
+        format: { property: prop.name },
+        target: prop,
+      });
+    }
+    if (dimensions < 1 || dimensions > MAX_VECTOR_DIMENSIONS) {
+      reportDiagnostic(program, {
+        code: "invalid-vector-dimensions",
+        format: { property: prop.name },
+        target: prop,
+      });
+    }
+  }
+
+  for (const [target, meta] of program.stateMap(StateKeys.vectorIndex)) {
+    for (const { name, column } of meta as Array<{ name: string; column: ModelProperty }>) {
+      if (!vectorState.has(column)) {
+        reportDiagnostic(program, {
+          code: "vector-index-on-non-vector",
+          format: { name, property: column.name },
+          target: target as Model,
+        });
+      }
+    }
+  }
+
+  for (const [target, meta] of program.stateMap(StateKeys.indexDef)) {
+    const model = target as Model;
+    for (const { name, columns, options } of meta as IndexMeta[]) {
+      const indexed = new Set(toModelProperties(columns).map((c) => c.name));
+      for (const property of Object.keys(options?.order ?? {})) {
+        if (!indexed.has(property)) {
+          reportDiagnostic(program, {
+            code: "unknown-index-column",
+            format: { name, property },
+            target: model,
+          });
+        }
+      }
+      for (const property of options?.include ?? []) {
+        if (!model.properties.has(property)) {
+          reportDiagnostic(program, {
+            code: "unknown-index-column",
+            messageId: "include",
+            format: { name, property },
+            target: model,
+          });
+        }
+      }
+    }
+  }
+
+  for (const [key, decorator] of [
+    [StateKeys.minValue, "minValue"],
+    [StateKeys.maxValue, "maxValue"],
+  ] as const) {
+    for (const target of program.stateMap(key).keys()) {
+      const prop = target as ModelProperty;
+      if (!isScalarOf(prop.type, "numeric")) {
+        reportDiagnostic(program, {
+          code: "range-on-non-numeric",
+          format: { decorator, property: prop.name },
+          target: prop,
+        });
+      }
+    }
+  }
+}
+
+/** SET NULL can only clear columns that may be null, i.e. optional properties */
+function reportSetNullOnRequired(
+  program: Program,
+  actions: ReferentialActions,
+  columns: ModelProperty[],
+  target: Model | ModelProperty,
+): void {
+  for (const [event, action] of [
+    ["DELETE", actions.onDelete],
+    ["UPDATE", actions.onUpdate],
+  ] as const) {
+    if (action !== "SET NULL") continue;
+    for (const column of columns.filter((c) => !c.optional)) {
+      reportDiagnostic(program, {
+        code: "set-null-on-required",
+        format: { event, property: column.name },
+        target,
+      });
+    }
+  }
+}
+
+/** True when `type` is the named standard scalar or a scalar that extends it */
+function isScalarOf(type: Type, name: string): boolean {
+  if (type.kind !== "Scalar") return false;
+  let scalar: Scalar | undefined = type;
+  while (scalar) {
+    if (scalar.name === name) return true;
+    scalar = scalar.baseScalar;
+  }
+  return false;
+}